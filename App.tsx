@@ -1,19 +1,21 @@
 
-import React, { useState } from 'react';
-import { StorageService } from './services/storageService';
+import React, { useState, useEffect } from 'react';
+import { AuthService, EmailNotVerifiedError } from './services/authService';
 import { User, UserRole, SubscriptionPlan, SubscriptionStatus } from './types';
 import AdminPanel from './components/AdminPanel';
 import TeacherDashboard from './components/TeacherDashboard';
-import { MOCK_ADMIN_EMAIL, MOCK_TEACHER_EMAIL, APP_NAME } from './constants';
+import { MOCK_ADMIN_EMAIL, APP_NAME } from './constants';
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [loading, setLoading] = useState(true);
   
-  // Registration State
-  const [isRegistering, setIsRegistering] = useState(false);
+  // Login page screens: login, registration, forgot/reset password and email verification
+  const [authScreen, setAuthScreen] = useState<'login' | 'register' | 'forgot' | 'reset' | 'verify'>('login');
   const [loginEmail, setLoginEmail] = useState('');
   const [loginPassword, setLoginPassword] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
+  const [newPassword, setNewPassword] = useState('');
   
   const [regForm, setRegForm] = useState({
     name: '',
@@ -25,37 +27,119 @@ const App: React.FC = () => {
     state: ''
   });
 
-  // NOTE: Session check useEffect removed to satisfy requirement:
-  // "when user close the browser or refresh the browser then welcome screen should come automatically"
+  // Restore a signed session token (survives refresh until it expires or is revoked)
+  useEffect(() => {
+    AuthService.restoreSession()
+      .then(u => setUser(u))
+      .catch(e => console.error("Session restore failed", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Handle links from verification / reset emails (?verify=TOKEN or ?reset=TOKEN)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verify');
+    const resetToken = params.get('reset');
+    if (!verifyToken && !resetToken) return;
+
+    window.history.replaceState({}, '', window.location.pathname);
+    if (resetToken) {
+        setTokenInput(resetToken);
+        setAuthScreen('reset');
+    } else if (verifyToken) {
+        AuthService.verifyEmail(verifyToken)
+            .then(email => { alert("Email verified! Please login."); setLoginEmail(email); setAuthScreen('login'); })
+            .catch((err: any) => { alert(err.message); setAuthScreen('verify'); });
+    }
+  }, []);
+
+  // Re-validate when the tab regains focus so "logout everywhere" reaches other open tabs
+  useEffect(() => {
+    if (!user) return;
+    const recheck = async () => {
+      const u = await AuthService.restoreSession();
+      if (!u) setUser(null);
+    };
+    window.addEventListener('focus', recheck);
+    return () => window.removeEventListener('focus', recheck);
+  }, [user]);
 
   const handleLogin = async (e?: React.FormEvent) => {
     e?.preventDefault();
+    if (!loginPassword) {
+        alert("Please enter your password.");
+        return;
+    }
     setLoading(true);
-    const emailToUse = loginEmail; 
+    // Check for admin/demo specifically if typed manually, or standard DB check
+    const emailToUse = loginEmail === 'admin' ? MOCK_ADMIN_EMAIL : loginEmail;
     
     try {
-        let u: User | undefined;
-        // Check for admin/demo specifically if typed manually, or standard DB check
-        if (loginEmail === 'admin') {
-            u = await StorageService.getUser(MOCK_ADMIN_EMAIL);
+        const u = await AuthService.login(emailToUse, loginPassword);
+        setUser(u);
+        setLoginPassword('');
+    } catch (error: any) {
+        console.error(error);
+        if (error instanceof EmailNotVerifiedError) {
+            if (window.confirm(`${error.message}\n\nResend the verification email?`)) {
+                await AuthService.requestEmailVerification(error.email);
+            }
+            setAuthScreen('verify');
         } else {
-            u = await StorageService.getUser(emailToUse);
+            alert(error.message || "Login failed. Check connection.");
         }
+    } finally {
+        setLoading(false);
+    }
+  };
 
-        if (u) {
-          if (loginPassword && u.password && u.password !== loginPassword) {
-              alert("Incorrect password");
-              setLoading(false);
-              return;
-          }
-          setUser(u);
-          // NOTE: LocalStorage setItem removed to ensure session is not persisted on refresh
-        } else {
-          alert("User not found. Please register.");
-        }
-    } catch (error) {
-        console.error(error);
-        alert("Login failed. Check connection.");
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!loginEmail) return alert("Please enter your email.");
+    setLoading(true);
+    try {
+        await AuthService.requestPasswordReset(loginEmail);
+        alert("If an account exists for this email, a password reset link has been sent.");
+        setTokenInput('');
+        setAuthScreen('reset');
+    } catch (err: any) {
+        alert(err.message);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) return alert("Please enter the reset code from your email.");
+    if (newPassword.length < 6) return alert("Password is too short. Min 6 chars.");
+    setLoading(true);
+    try {
+        const email = await AuthService.resetPasswordWithToken(tokenInput, newPassword);
+        alert("Password updated. Please login with your new password.");
+        setLoginEmail(email);
+        setTokenInput('');
+        setNewPassword('');
+        setAuthScreen('login');
+    } catch (err: any) {
+        alert(err.message);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const handleVerifyEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) return alert("Please enter the verification code from your email.");
+    setLoading(true);
+    try {
+        const email = await AuthService.verifyEmail(tokenInput);
+        alert("Email verified! Please login.");
+        setLoginEmail(email);
+        setTokenInput('');
+        setAuthScreen('login');
+    } catch (err: any) {
+        alert(err.message);
     } finally {
         setLoading(false);
     }
@@ -91,7 +175,6 @@ const App: React.FC = () => {
         const newUser: User = {
             name: regForm.name,
             email: regForm.email,
-            password: regForm.password,
             role: UserRole.TEACHER,
             credits: 1, 
             subscriptionPlan: SubscriptionPlan.FREE,
@@ -102,10 +185,10 @@ const App: React.FC = () => {
             state: regForm.state
         };
         
-        await StorageService.createUser(newUser);
+        await AuthService.register(newUser, regForm.password);
         
-        alert("Registration Successful! Please Login.");
-        setIsRegistering(false);
+        alert("Registration Successful! We have sent a verification link to your email. Please verify it before logging in.");
+        setAuthScreen('verify');
         setLoginEmail(newUser.email);
         setLoginPassword('');
     } catch (err: any) {
@@ -116,11 +199,18 @@ const App: React.FC = () => {
   };
 
   const handleLogout = () => {
+    AuthService.logout();
     setUser(null);
     setLoginEmail('');
     setLoginPassword('');
   };
 
+  const handleLogoutEverywhere = async () => {
+    if (!user || !window.confirm("Sign out of all devices, including this one?")) return;
+    await AuthService.logoutEverywhere(user.email);
+    handleLogout();
+  };
+
   if (loading) return <div className="h-screen flex items-center justify-center text-gray-500 flex-col gap-2"><div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>Loading...</div>;
 
   if (!user) {
@@ -135,7 +225,7 @@ const App: React.FC = () => {
             <p className="text-gray-500 mt-2">Intelligent Question Paper Setter</p>
           </div>
 
-          {!isRegistering ? (
+          {authScreen === 'login' && (
               <form onSubmit={handleLogin} className="space-y-4">
                   <div>
                       <label className="block text-sm font-medium text-gray-700">Email ID</label>
@@ -157,6 +247,9 @@ const App: React.FC = () => {
                         placeholder="••••••"
                       />
                   </div>
+                  <div className="text-right -mt-2">
+                      <button type="button" onClick={() => setAuthScreen('forgot')} className="text-sm text-blue-600 hover:underline">Forgot password?</button>
+                  </div>
                   <button type="submit" className="w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition-colors shadow-md">
                       Login
                   </button>
@@ -165,10 +258,58 @@ const App: React.FC = () => {
 
                   <div className="pt-4 border-t text-center">
                       <p className="text-sm text-gray-600">New User?</p>
-                      <button type="button" onClick={() => setIsRegistering(true)} className="text-blue-600 font-bold hover:underline">Register Here</button>
+                      <button type="button" onClick={() => setAuthScreen('register')} className="text-blue-600 font-bold hover:underline">Register Here</button>
                   </div>
               </form>
-          ) : (
+          )}
+
+          {authScreen === 'forgot' && (
+              <form onSubmit={handleForgotPassword} className="space-y-4">
+                  <h2 className="text-xl font-bold text-gray-800 border-b pb-2">Forgot Password</h2>
+                  <p className="text-sm text-gray-600">Enter your registered email and we will send you a link to reset your password.</p>
+                  <div>
+                      <label className="block text-sm font-medium text-gray-700">Email ID</label>
+                      <input required type="email" className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={loginEmail} onChange={(e) => setLoginEmail(e.target.value)} placeholder="teacher@example.com" />
+                  </div>
+                  <button type="submit" className="w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition-colors shadow-md">Send Reset Link</button>
+                  <button type="button" onClick={() => setAuthScreen('reset')} className="w-full text-blue-600 text-sm hover:underline">I already have a reset code</button>
+                  <button type="button" onClick={() => setAuthScreen('login')} className="w-full text-gray-500 text-sm hover:underline">Back to Login</button>
+              </form>
+          )}
+
+          {authScreen === 'reset' && (
+              <form onSubmit={handleResetPassword} className="space-y-4">
+                  <h2 className="text-xl font-bold text-gray-800 border-b pb-2">Set New Password</h2>
+                  <div>
+                      <label className="block text-sm font-medium text-gray-700">Reset Code</label>
+                      <input required type="text" className="w-full p-3 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 outline-none" value={tokenInput} onChange={(e) => setTokenInput(e.target.value)} placeholder="Paste the code from your email" />
+                  </div>
+                  <div>
+                      <label className="block text-sm font-medium text-gray-700">New Password</label>
+                      <input required type="password" className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="Min 6 chars" />
+                  </div>
+                  <button type="submit" className="w-full bg-green-600 text-white py-3 rounded-lg font-bold hover:bg-green-700 transition-colors shadow-md">Update Password</button>
+                  <button type="button" onClick={() => setAuthScreen('login')} className="w-full text-gray-500 text-sm hover:underline">Back to Login</button>
+              </form>
+          )}
+
+          {authScreen === 'verify' && (
+              <form onSubmit={handleVerifyEmail} className="space-y-4">
+                  <h2 className="text-xl font-bold text-gray-800 border-b pb-2">Verify Your Email</h2>
+                  <p className="text-sm text-gray-600">Open the link we emailed to {loginEmail || 'you'}, or paste the verification code below.</p>
+                  <div>
+                      <label className="block text-sm font-medium text-gray-700">Verification Code</label>
+                      <input required type="text" className="w-full p-3 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 outline-none" value={tokenInput} onChange={(e) => setTokenInput(e.target.value)} placeholder="Paste the code from your email" />
+                  </div>
+                  <button type="submit" className="w-full bg-green-600 text-white py-3 rounded-lg font-bold hover:bg-green-700 transition-colors shadow-md">Verify Email</button>
+                  {loginEmail && (
+                      <button type="button" onClick={async () => { await AuthService.requestEmailVerification(loginEmail); alert("Verification email sent again."); }} className="w-full text-blue-600 text-sm hover:underline">Resend verification email</button>
+                  )}
+                  <button type="button" onClick={() => setAuthScreen('login')} className="w-full text-gray-500 text-sm hover:underline">Back to Login</button>
+              </form>
+          )}
+
+          {authScreen === 'register' && (
               <form onSubmit={handleRegister} className="space-y-3">
                   <h2 className="text-xl font-bold text-gray-800 border-b pb-2">Teacher Registration</h2>
                   <div className="grid grid-cols-2 gap-3">
@@ -207,7 +348,7 @@ const App: React.FC = () => {
                   <button type="submit" className="w-full bg-green-600 text-white py-3 rounded-lg font-bold hover:bg-green-700 transition-colors shadow-md mt-2">
                       Register Now
                   </button>
-                  <button type="button" onClick={() => setIsRegistering(false)} className="w-full text-gray-500 text-sm hover:underline mt-2">
+                  <button type="button" onClick={() => setAuthScreen('login')} className="w-full text-gray-500 text-sm hover:underline mt-2">
                       Cancel
                   </button>
               </form>
@@ -227,13 +368,14 @@ const App: React.FC = () => {
              </div>
              <div className="flex items-center gap-4">
                 <span className="hidden sm:inline">{user.name}</span>
+                <button onClick={handleLogoutEverywhere} className="text-purple-200 hover:text-white text-sm" title="Sign out of all devices"><i className="fas fa-user-lock"></i> All Devices</button>
                 <button onClick={handleLogout} className="text-purple-200 hover:text-white"><i className="fas fa-sign-out-alt"></i> Logout</button>
              </div>
           </header>
           <AdminPanel user={user} />
         </div>
       ) : (
-        <TeacherDashboard user={user} onLogout={handleLogout} />
+        <TeacherDashboard user={user} onLogout={handleLogout} onLogoutEverywhere={handleLogoutEverywhere} />
       )}
     </div>
   );
@@ -1,15 +1,26 @@
 
 import React, { useState, useEffect } from 'react';
 import { StorageService } from '../services/storageService';
-import { PaymentRequest, User, QuestionPaper, SubscriptionStatus, UserRole, SubscriptionPlan, ContentPage } from '../types';
+import { AuthService } from '../services/authService';
+import { Entitlements } from '../services/entitlements';
+import { downloadInvoicePdf, invoicesToCsv, downloadCsv } from '../services/invoiceService';
+import { PaymentRequest, User, QuestionPaper, SubscriptionStatus, UserRole, SubscriptionPlan, ContentPage, CreditLedgerEntry, CreditEntryType, PlanConfig, Coupon, DiscountType, Invoice, BlueprintRules, SamplePattern } from '../types';
 import PaperGenerator from './PaperGenerator';
+import CreditLedgerTable from './CreditLedgerTable';
+import BlueprintRulesEditor from './BlueprintRulesEditor';
+import SyllabusEditor from './SyllabusEditor';
+import SyllabusImportReview from './SyllabusImportReview';
+import { readSyllabusDocument, SyllabusImport } from '../services/syllabusImport';
+import { base64ToBytes } from '../services/documentText';
+import { exportPapersArchive, readPapersArchive, paperArchiveFileName } from '../services/paperArchive';
+import { fetchImageBytes, downloadBlob } from '../services/fileExport';
 
 interface Props {
   user: User;
 }
 
 const AdminPanel: React.FC<Props> = ({ user }) => {
-  const [activeTab, setActiveTab] = useState<'requests' | 'users' | 'papers' | 'patterns' | 'curriculum' | 'content'>('requests');
+  const [activeTab, setActiveTab] = useState<'requests' | 'users' | 'ledger' | 'plans' | 'coupons' | 'invoices' | 'papers' | 'patterns' | 'curriculum' | 'content'>('requests');
   const [requests, setRequests] = useState<PaymentRequest[]>([]);
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [papers, setPapers] = useState<QuestionPaper[]>([]);
@@ -20,6 +31,7 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
   const [curriculumConfig, setCurriculumConfig] = useState<Record<string, string[]>>({});
   const [newClassInput, setNewClassInput] = useState('');
   const [selectedCurriculumClass, setSelectedCurriculumClass] = useState<string>('');
+  const [selectedCurriculumSubject, setSelectedCurriculumSubject] = useState<string>('');
   const [newSubjectInput, setNewSubjectInput] = useState('');
   
   // Question Types Data
@@ -32,13 +44,32 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
   const [pageContent, setPageContent] = useState('');
   const [pageTitle, setPageTitle] = useState('');
 
+  // Credit Ledger Data
+  const [ledgerEntries, setLedgerEntries] = useState<CreditLedgerEntry[]>([]);
+  const [ledgerFilter, setLedgerFilter] = useState('');
+  const [adjustment, setAdjustment] = useState({ email: '', amount: 0, reason: '' });
+
+  // Subscription Plans Data
+  const [plans, setPlans] = useState<PlanConfig[]>([]);
+  const [newPlanId, setNewPlanId] = useState('');
+
+  // Coupons Data
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const emptyCoupon = (): Coupon => ({ code: '', discountType: DiscountType.PERCENT, value: 10, planIds: [], usedCount: 0, active: true, createdAt: '' });
+  const [newCoupon, setNewCoupon] = useState<Coupon>(emptyCoupon());
+
+  // Invoices Data
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoiceYear, setInvoiceYear] = useState('');
+
   // Edit User State
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [originalEmail, setOriginalEmail] = useState<string>('');
-  const [visiblePasswords, setVisiblePasswords] = useState<Record<string, boolean>>({});
+  const [originalCredits, setOriginalCredits] = useState<number>(0);
 
   // Create User State
   const [creatingUser, setCreatingUser] = useState<User | null>(null);
+  const [newUserPassword, setNewUserPassword] = useState('');
 
   // Delete Paper State
   const [paperToDelete, setPaperToDelete] = useState<QuestionPaper | null>(null);
@@ -49,6 +80,9 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
   const [patternText, setPatternText] = useState('');
   const [patternFile, setPatternFile] = useState<{name: string, data: string, mimeType: string} | null>(null);
   const [syllabusFile, setSyllabusFile] = useState<{name: string, data: string, mimeType: string} | null>(null);
+  const [syllabusImport, setSyllabusImport] = useState<SyllabusImport | null>(null);
+  const [readingSyllabus, setReadingSyllabus] = useState(false);
+  const [blueprintRules, setBlueprintRules] = useState<BlueprintRules | null>(null);
   const [saveStatus, setSaveStatus] = useState('');
 
   const refreshData = async () => {
@@ -65,6 +99,11 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
         setQuestionTypes(qTypes);
         const pages = await StorageService.getAllContentPages();
         setContentPages(pages);
+        const ledger = await StorageService.getAllCreditLedger();
+        setLedgerEntries(ledger);
+        setPlans(await Entitlements.loadPlans());
+        setCoupons(await StorageService.getAllCoupons());
+        setInvoices(await StorageService.getAllInvoices());
         
         // Set default selected class/subject if empty and config exists
         const classes = Object.keys(config);
@@ -81,12 +120,14 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
         setPatternText('');
         setPatternFile(null);
         setSyllabusFile(null);
+        setBlueprintRules(null);
         return;
     }
     const p = await StorageService.getSamplePattern(patternClass, patternSubject);
     setPatternText(p ? p.content : '');
     setPatternFile(p?.attachment ? { name: p.attachment.name, data: p.attachment.data, mimeType: p.attachment.mimeType } : null);
     setSyllabusFile(p?.syllabusAttachment ? { name: p.syllabusAttachment.name, data: p.syllabusAttachment.data, mimeType: p.syllabusAttachment.mimeType } : null);
+    setBlueprintRules(p?.blueprintRules || null);
     setSaveStatus('');
   };
 
@@ -94,6 +135,11 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
     refreshData();
   }, [view, selectedPaper, activeTab]); 
 
+  // Plaintext passwords from older versions are hashed once an admin signs in
+  useEffect(() => {
+    AuthService.migrateLegacyPasswords().catch(e => console.error(e));
+  }, []);
+
   // CMS: Load page content when selection changes
   useEffect(() => {
       if (activeTab === 'content') {
@@ -127,24 +173,62 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
     refreshData();
   };
 
-  const togglePasswordVisibility = (email: string) => {
-    setVisiblePasswords(prev => ({
-      ...prev,
-      [email]: !prev[email]
-    }));
+  const handleResetPassword = async (u: User) => {
+    if (!window.confirm(`Reset the password for ${u.name} (${u.email})? They will be signed out of all devices.`)) return;
+    try {
+        const temporaryPassword = await AuthService.resetPassword(u.email);
+        refreshData();
+        window.prompt(`Temporary password for ${u.email}. Share it securely; it will not be shown again.`, temporaryPassword);
+    } catch (e: any) {
+        alert(e.message);
+    }
   };
 
   const openEditModal = (u: User) => {
     setEditingUser({ ...u });
     setOriginalEmail(u.email);
+    setOriginalCredits(u.credits);
   };
 
   const saveUserChanges = async () => {
     if (editingUser) {
-      await StorageService.updateUser(editingUser, originalEmail);
-      setEditingUser(null);
-      refreshData();
-      alert("User details updated successfully.");
+      try {
+        await StorageService.updateUser(editingUser, originalEmail);
+        // Credit changes are recorded in the ledger rather than overwritten on the user
+        const delta = editingUser.credits - originalCredits;
+        if (delta !== 0) {
+            await StorageService.applyCreditEntry({
+                userEmail: editingUser.email,
+                type: CreditEntryType.ADJUSTMENT,
+                amount: delta,
+                reason: 'Edited from user details',
+                createdBy: user.email
+            });
+        }
+        setEditingUser(null);
+        refreshData();
+        alert("User details updated successfully.");
+      } catch (e: any) {
+        alert(e.message);
+      }
+    }
+  };
+
+  const handleCreditAdjustment = async () => {
+    if (!adjustment.email || !adjustment.amount) return alert("Select a user and enter a non-zero amount.");
+    if (!adjustment.reason.trim()) return alert("Please enter a reason for the adjustment.");
+    try {
+        await StorageService.applyCreditEntry({
+            userEmail: adjustment.email,
+            type: CreditEntryType.ADJUSTMENT,
+            amount: adjustment.amount,
+            reason: adjustment.reason.trim(),
+            createdBy: user.email
+        });
+        setAdjustment({ email: adjustment.email, amount: 0, reason: '' });
+        refreshData();
+    } catch (e: any) {
+        alert(e.message);
     }
   };
 
@@ -153,7 +237,6 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
           email: '',
           name: '',
           role: UserRole.TEACHER,
-          password: '',
           credits: 1, // Default 1 for Free Plan
           subscriptionPlan: SubscriptionPlan.FREE,
           subscriptionStatus: SubscriptionStatus.ACTIVE,
@@ -162,16 +245,22 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
           state: '',
           schoolName: ''
       });
+      setNewUserPassword('');
   };
 
   const saveNewUser = async () => {
-      if (!creatingUser?.email || !creatingUser?.name || !creatingUser?.password) {
+      if (!creatingUser?.email || !creatingUser?.name || !newUserPassword) {
           alert("Please fill all required fields");
           return;
       }
+      if (newUserPassword.length < 6) {
+          alert("Password is too short. Min 6 chars.");
+          return;
+      }
       try {
-          await StorageService.createUser(creatingUser);
+          await StorageService.createUser({ ...creatingUser, passwordHash: await AuthService.hashPassword(newUserPassword) });
           setCreatingUser(null);
+          setNewUserPassword('');
           refreshData();
           alert("New user created successfully.");
       } catch (e: any) {
@@ -190,6 +279,30 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
       }
   };
 
+  const handleExportPapers = async (selected: QuestionPaper[]) => {
+    try {
+        const bytes = await exportPapersArchive(selected, { loadImage: fetchImageBytes });
+        downloadBlob(paperArchiveFileName(selected), new Blob([bytes], { type: 'application/zip' }));
+    } catch (e: any) {
+        alert(e.message);
+    }
+  };
+
+  // Imported papers are added to the admin's own papers
+  const handleImportPapers = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        const imported = await readPapersArchive(new Uint8Array(await file.arrayBuffer()), user.email);
+        await StorageService.importPapers(imported);
+        alert(`Imported ${imported.length} paper${imported.length === 1 ? '' : 's'}.`);
+        refreshData();
+    } catch (err: any) {
+        alert(err.message);
+    }
+  };
+
   const confirmDeletePaper = async (target: 'ADMIN' | 'TEACHER') => {
     if (paperToDelete) {
         await StorageService.deletePaper(paperToDelete.id, target);
@@ -225,11 +338,26 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
     }
   };
 
+  const handleImportSyllabus = async () => {
+    if (!syllabusFile || !patternClass || !patternSubject) return;
+    setReadingSyllabus(true);
+    try {
+        setSyllabusImport(await readSyllabusDocument(base64ToBytes(syllabusFile.data), syllabusFile.name, syllabusFile.mimeType));
+    } catch (e: any) {
+        alert(e.message);
+    } finally {
+        setReadingSyllabus(false);
+    }
+  };
+
   const handleSavePattern = async () => {
     if (!patternClass || !patternSubject) return alert("Please select a Class and Subject.");
-    if (!patternText.trim() && !patternFile && !syllabusFile) return alert("Please provide sample text or upload a document.");
+    if (!patternText.trim() && !patternFile && !syllabusFile && !blueprintRules) return alert("Please provide sample text, upload a document or define a blueprint.");
+    if (blueprintRules && (blueprintRules.types.some(t => !t.type || !(t.count > 0) || !(t.marks > 0)) || blueprintRules.topics.some(t => !t.topic.trim() || !(t.marks > 0)))) {
+        return alert("Every blueprint row needs a type or topic and more than 0 questions and marks.");
+    }
     
-    await StorageService.saveSamplePattern({
+    const pattern: SamplePattern = {
         id: Date.now().toString(),
         classNum: patternClass,
         subject: patternSubject,
@@ -245,7 +373,9 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
             mimeType: syllabusFile.mimeType
         } : undefined,
         updatedAt: new Date().toISOString()
-    });
+    };
+    if (blueprintRules) pattern.blueprintRules = blueprintRules;
+    await StorageService.saveSamplePattern(pattern);
     setSaveStatus('Pattern & Syllabus saved successfully!');
     setTimeout(() => setSaveStatus(''), 3000);
   };
@@ -261,6 +391,85 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
       alert("Page content saved successfully!");
   };
 
+  // Plan Handlers
+  const updatePlan = (id: string, patch: Partial<PlanConfig>) => {
+      setPlans(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  // Empty input means unlimited / never expires
+  const parseOptionalNumber = (value: string): number | null => value.trim() === '' ? null : Math.max(0, parseInt(value) || 0);
+
+  const handleAddPlan = () => {
+      const id = newPlanId.trim().toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+      if (!id) return;
+      if (plans.some(p => p.id === id)) return alert("A plan with this id already exists");
+      setPlans([...plans, { id, label: newPlanId.trim(), price: 0, credits: 0, validityDays: 30, regenerationsPerQuestion: 1, downloadsPerPaper: 1, aiImages: true, active: false }]);
+      setNewPlanId('');
+  };
+
+  const handleSavePlans = async () => {
+      try {
+          await StorageService.savePlans(plans);
+          setPlans(await Entitlements.loadPlans());
+          alert("Plans saved successfully!");
+      } catch (e: any) {
+          alert(e.message);
+      }
+  };
+
+  // Coupon Handlers
+  const handleCreateCoupon = async () => {
+      try {
+          const coupon: Coupon = { ...newCoupon, usedCount: 0, createdAt: new Date().toISOString() };
+          // Optional fields are left out rather than stored as undefined (Firestore rejects undefined)
+          if (!coupon.expiresAt) delete coupon.expiresAt;
+          if (!coupon.maxUses) delete coupon.maxUses;
+          if (!coupon.description) delete coupon.description;
+          await StorageService.createCoupon(coupon);
+          setNewCoupon(emptyCoupon());
+          refreshData();
+      } catch (e: any) {
+          alert(e.message);
+      }
+  };
+
+  const handleToggleCoupon = async (coupon: Coupon) => {
+      try {
+          await StorageService.setCouponActive(coupon.code, !coupon.active);
+      } catch (e: any) {
+          alert(e.message);
+      }
+      refreshData();
+  };
+
+  const handleDeleteCoupon = async (coupon: Coupon) => {
+      if (!window.confirm(`Delete coupon ${coupon.code}? Requests that used it keep their discount.`)) return;
+      await StorageService.deleteCoupon(coupon.code);
+      refreshData();
+  };
+
+  const toggleNewCouponPlan = (planId: string) => {
+      const planIds = newCoupon.planIds.includes(planId) ? newCoupon.planIds.filter(id => id !== planId) : [...newCoupon.planIds, planId];
+      setNewCoupon({ ...newCoupon, planIds });
+  };
+
+  // Requests report: approved revenue and discount given per coupon
+  const couponUsage = requests.filter(r => r.couponCode).reduce((acc, r) => {
+      const row = acc[r.couponCode!] || { uses: 0, approved: 0, discount: 0, revenue: 0 };
+      row.uses += 1;
+      if (r.status === SubscriptionStatus.ACTIVE) {
+          row.approved += 1;
+          row.discount += r.discount || 0;
+          row.revenue += r.amount;
+      }
+      acc[r.couponCode!] = row;
+      return acc;
+  }, {} as Record<string, { uses: number, approved: number, discount: number, revenue: number }>);
+  const couponReport = Object.keys(couponUsage).map(code => ({ code, ...couponUsage[code] }));
+
+  const invoiceYears = Array.from(new Set(invoices.map(i => i.financialYear)));
+  const shownInvoices = invoiceYear ? invoices.filter(i => i.financialYear === invoiceYear) : invoices;
+
   // Curriculum Handlers
   const handleAddClass = async () => {
       if (!newClassInput.trim()) return;
@@ -295,6 +504,7 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
   const handleDeleteSubject = async (subject: string) => {
       if (window.confirm(`Delete Subject ${subject} from Class ${selectedCurriculumClass}?`)) {
           await StorageService.deleteSubject(selectedCurriculumClass, subject);
+          if (selectedCurriculumSubject === subject) setSelectedCurriculumSubject('');
           refreshData();
       }
   };
@@ -361,6 +571,10 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
         {[
           { id: 'requests', label: 'Subscription Requests' },
           { id: 'users', label: 'All Users' },
+          { id: 'ledger', label: 'Credit Ledger' },
+          { id: 'plans', label: 'Plans & Pricing' },
+          { id: 'coupons', label: 'Coupons' },
+          { id: 'invoices', label: 'Invoices' },
           { id: 'papers', label: 'All Papers' },
           { id: 'patterns', label: 'Sample Patterns' },
           { id: 'curriculum', label: 'Curriculum & Config' },
@@ -392,18 +606,25 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                     <th className="p-3 text-sm font-bold text-gray-600">User</th>
                     <th className="p-3 text-sm font-bold text-gray-600">Plan</th>
                     <th className="p-3 text-sm font-bold text-gray-600">Amount</th>
+                    <th className="p-3 text-sm font-bold text-gray-600">Coupon</th>
                     <th className="p-3 text-sm font-bold text-gray-600">Proof</th>
                     <th className="p-3 text-sm font-bold text-gray-600">Status</th>
                     <th className="p-3 text-sm font-bold text-gray-600">Action</th>
                     </tr>
                 </thead>
                 <tbody>
-                    {requests.length === 0 && <tr><td colSpan={6} className="p-4 text-center text-gray-500">No pending requests</td></tr>}
+                    {requests.length === 0 && <tr><td colSpan={7} className="p-4 text-center text-gray-500">No pending requests</td></tr>}
                     {requests.map((req) => (
                     <tr key={req.id} className="border-b hover:bg-gray-50">
                         <td className="p-3 text-sm whitespace-nowrap">{req.userEmail}</td>
-                        <td className="p-3"><span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded whitespace-nowrap">{req.plan}</span></td>
-                        <td className="p-3 text-sm whitespace-nowrap">₹{req.amount}</td>
+                        <td className="p-3"><span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded whitespace-nowrap">{plans.find(p => p.id === req.plan)?.label || req.plan}</span></td>
+                        <td className="p-3 text-sm whitespace-nowrap">
+                        ₹{req.amount}
+                        {req.originalAmount !== undefined && req.originalAmount !== req.amount && <span className="block text-xs text-gray-400 line-through">₹{req.originalAmount}</span>}
+                        </td>
+                        <td className="p-3 text-sm whitespace-nowrap">
+                        {req.couponCode ? <><span className="font-mono text-xs bg-green-100 text-green-800 px-2 py-1 rounded">{req.couponCode}</span> <span className="text-xs text-gray-500">-₹{req.discount || 0}</span></> : '-'}
+                        </td>
                         <td className="p-3 text-sm whitespace-nowrap">
                         <a href={req.proofUrl} target="_blank" rel="noreferrer" className="text-blue-600 underline">View</a>
                         </td>
@@ -428,6 +649,33 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                 </tbody>
                 </table>
             </div>
+            {couponReport.length > 0 && (
+                <div className="mt-8">
+                    <h3 className="font-bold text-gray-800 mb-3">Coupon Usage</h3>
+                    <table className="min-w-full text-left border">
+                        <thead>
+                            <tr className="border-b bg-gray-50">
+                                <th className="p-3 text-sm font-bold text-gray-600">Coupon</th>
+                                <th className="p-3 text-sm font-bold text-gray-600 text-right">Requests</th>
+                                <th className="p-3 text-sm font-bold text-gray-600 text-right">Approved</th>
+                                <th className="p-3 text-sm font-bold text-gray-600 text-right">Discount Given</th>
+                                <th className="p-3 text-sm font-bold text-gray-600 text-right">Revenue</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {couponReport.map(row => (
+                                <tr key={row.code} className="border-b">
+                                    <td className="p-3 text-sm font-mono">{row.code}</td>
+                                    <td className="p-3 text-sm text-right">{row.uses}</td>
+                                    <td className="p-3 text-sm text-right">{row.approved}</td>
+                                    <td className="p-3 text-sm text-right">₹{row.discount}</td>
+                                    <td className="p-3 text-sm text-right">₹{row.revenue}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
           </div>
         )}
 
@@ -453,7 +701,6 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                           <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Mobile</th>
                           <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">City</th>
                           <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">State</th>
-                          <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Password</th>
                           <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Role</th>
                           <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Credits</th>
                           <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Plan</th>
@@ -470,19 +717,6 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                           <td className="p-3 text-sm whitespace-nowrap">{u.mobile || '-'}</td>
                           <td className="p-3 text-sm whitespace-nowrap">{u.city || '-'}</td>
                           <td className="p-3 text-sm whitespace-nowrap">{u.state || '-'}</td>
-                          <td className="p-3 whitespace-nowrap">
-                              <div className="flex items-center gap-2">
-                                  <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded w-20 truncate inline-block text-center">
-                                  {visiblePasswords[u.email] ? u.password || 'N/A' : '••••••••'}
-                                  </span>
-                                  <button 
-                                  onClick={() => togglePasswordVisibility(u.email)}
-                                  className="text-gray-400 hover:text-blue-600"
-                                  >
-                                  <i className={`fas ${visiblePasswords[u.email] ? 'fa-eye-slash' : 'fa-eye'}`}></i>
-                                  </button>
-                              </div>
-                          </td>
                           <td className="p-3 whitespace-nowrap">
                               <span className={`text-xs px-2 py-1 rounded font-bold ${u.role === UserRole.ADMIN ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'}`}>
                                   {u.role}
@@ -498,6 +732,13 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                               >
                                   <i className="fas fa-edit mr-1"></i> Edit
                               </button>
+                              <button 
+                                  onClick={() => handleResetPassword(u)}
+                                  className="text-orange-500 hover:text-orange-700 hover:bg-orange-50 px-3 py-1 rounded transition-colors"
+                                  title="Reset Password"
+                              >
+                                  <i className="fas fa-key"></i>
+                              </button>
                               <button 
                                   onClick={() => handleDeleteUser(u)}
                                   className="text-red-500 hover:text-red-700 hover:bg-red-50 px-3 py-1 rounded transition-colors"
@@ -515,38 +756,258 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
            </div>
         )}
 
-        {activeTab === 'papers' && (
-           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-             {/* ... Papers Grid ... */}
-             {papers.map((p) => (
-               <div key={p.id} className="border p-4 rounded-lg bg-gray-50 flex flex-col h-full">
-                 <h3 className="font-bold text-gray-800 line-clamp-2">{p.title}</h3>
-                 <p className="text-sm text-gray-600 mb-2">Class {p.classNum} • {p.subject}</p>
-                 <div className="mt-auto flex justify-between items-end">
-                    <div>
-                        <p className="text-xs text-gray-400">By: {p.createdBy}</p>
-                        <span className="text-xs text-gray-500">{new Date(p.createdAt).toLocaleDateString()}</span>
-                    </div>
-                    <div className="flex gap-2">
-                        <button 
-                            onClick={() => setSelectedPaper(p)} 
-                            className="text-blue-500 hover:text-blue-700 p-2 hover:bg-blue-50 rounded"
-                            title="View/Edit Paper"
-                        >
-                            <i className="fas fa-edit"></i>
-                        </button>
-                        <button 
-                            onClick={() => setPaperToDelete(p)} 
-                            className="text-red-400 hover:text-red-600 p-2 hover:bg-red-50 rounded"
-                            title="Delete Paper"
-                        >
-                            <i className="fas fa-trash"></i>
-                        </button>
-                    </div>
+        {activeTab === 'ledger' && (
+           <div className="space-y-6">
+             <div className="bg-gray-50 border rounded-lg p-4">
+                 <h3 className="font-bold text-gray-800 mb-3">Adjust Credits</h3>
+                 <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">User</label>
+                         <select className="w-full border rounded p-2 bg-white" value={adjustment.email} onChange={(e) => setAdjustment({...adjustment, email: e.target.value})}>
+                             <option value="">Select user</option>
+                             {allUsers.map(u => <option key={u.email} value={u.email}>{u.name} ({u.email}) - {u.credits}</option>)}
+                         </select>
+                     </div>
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Credits (+/-)</label>
+                         <input type="number" className="w-full border rounded p-2" value={adjustment.amount} onChange={(e) => setAdjustment({...adjustment, amount: parseInt(e.target.value) || 0})} />
+                     </div>
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Reason</label>
+                         <input type="text" className="w-full border rounded p-2" value={adjustment.reason} onChange={(e) => setAdjustment({...adjustment, reason: e.target.value})} placeholder="e.g. Compensation for failed paper" />
+                     </div>
+                     <button onClick={handleCreditAdjustment} className="bg-purple-600 text-white px-4 py-2 rounded font-bold hover:bg-purple-700">Apply</button>
                  </div>
+             </div>
+             <div>
+                 <input type="text" className="w-full sm:w-80 border rounded p-2 mb-3" placeholder="Filter by email" value={ledgerFilter} onChange={(e) => setLedgerFilter(e.target.value)} />
+                 <CreditLedgerTable showUser entries={ledgerEntries.filter(e => e.userEmail.toLowerCase().includes(ledgerFilter.toLowerCase()))} />
+             </div>
+           </div>
+        )}
+
+        {activeTab === 'plans' && (
+           <div className="space-y-4">
+             <p className="text-sm text-gray-500">Changes apply to new purchases and to the limits of existing subscribers. Deactivate a plan to hide it from checkout. Leave validity or downloads empty for no limit.</p>
+             <div className="overflow-x-auto w-full border rounded-lg">
+               <table className="min-w-full text-left">
+                 <thead>
+                   <tr className="border-b bg-gray-50">
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Id</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Name</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Price (₹)</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Credits</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Validity (days)</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Regenerations / Q</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Downloads / Paper</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">AI Diagrams</th>
+                     <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Active</th>
+                   </tr>
+                 </thead>
+                 <tbody>
+                   {plans.map(p => (
+                     <tr key={p.id} className={`border-b ${p.active ? '' : 'bg-gray-50 text-gray-500'}`}>
+                       <td className="p-3 text-sm font-mono whitespace-nowrap">{p.id}</td>
+                       <td className="p-2"><input className="w-40 border rounded p-1" value={p.label} onChange={(e) => updatePlan(p.id, { label: e.target.value })} /></td>
+                       <td className="p-2"><input type="number" min="0" className="w-24 border rounded p-1" value={p.price} onChange={(e) => updatePlan(p.id, { price: Math.max(0, parseFloat(e.target.value) || 0) })} /></td>
+                       <td className="p-2"><input type="number" min="0" className="w-20 border rounded p-1" value={p.credits} onChange={(e) => updatePlan(p.id, { credits: Math.max(0, parseInt(e.target.value) || 0) })} /></td>
+                       <td className="p-2"><input type="number" min="0" className="w-20 border rounded p-1" placeholder="None" value={p.validityDays ?? ''} onChange={(e) => updatePlan(p.id, { validityDays: parseOptionalNumber(e.target.value) })} /></td>
+                       <td className="p-2"><input type="number" min="0" className="w-20 border rounded p-1" value={p.regenerationsPerQuestion} onChange={(e) => updatePlan(p.id, { regenerationsPerQuestion: Math.max(0, parseInt(e.target.value) || 0) })} /></td>
+                       <td className="p-2"><input type="number" min="0" className="w-20 border rounded p-1" placeholder="Unlimited" value={p.downloadsPerPaper ?? ''} onChange={(e) => updatePlan(p.id, { downloadsPerPaper: parseOptionalNumber(e.target.value) })} /></td>
+                       <td className="p-3 text-center"><input type="checkbox" checked={p.aiImages} onChange={(e) => updatePlan(p.id, { aiImages: e.target.checked })} /></td>
+                       <td className="p-3 text-center"><input type="checkbox" checked={p.active} onChange={(e) => updatePlan(p.id, { active: e.target.checked })} /></td>
+                     </tr>
+                   ))}
+                 </tbody>
+               </table>
+             </div>
+             <div className="flex flex-col sm:flex-row justify-between gap-3">
+               <div className="flex gap-2">
+                 <input type="text" className="border rounded p-2" placeholder="New plan name, e.g. School" value={newPlanId} onChange={(e) => setNewPlanId(e.target.value)} />
+                 <button onClick={handleAddPlan} className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">Add Plan</button>
                </div>
-             ))}
-             {papers.length === 0 && <p className="text-gray-400 col-span-3 text-center py-10">No papers generated yet.</p>}
+               <button onClick={handleSavePlans} className="bg-green-600 text-white px-6 py-2 rounded font-bold hover:bg-green-700">Save Plans</button>
+             </div>
+           </div>
+        )}
+
+        {activeTab === 'coupons' && (
+           <div className="space-y-6">
+             <div className="bg-gray-50 border rounded-lg p-4 space-y-3">
+                 <h3 className="font-bold text-gray-800">New Coupon</h3>
+                 <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end">
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Code</label>
+                         <input type="text" className="w-full border rounded p-2 uppercase" value={newCoupon.code} onChange={(e) => setNewCoupon({...newCoupon, code: e.target.value})} placeholder="e.g. KVTA25" />
+                     </div>
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Discount</label>
+                         <div className="flex gap-1">
+                             <input type="number" min="0" className="w-full border rounded p-2" value={newCoupon.value} onChange={(e) => setNewCoupon({...newCoupon, value: parseFloat(e.target.value) || 0})} />
+                             <select className="border rounded p-2 bg-white" value={newCoupon.discountType} onChange={(e) => setNewCoupon({...newCoupon, discountType: e.target.value as DiscountType})}>
+                                 <option value={DiscountType.PERCENT}>%</option>
+                                 <option value={DiscountType.FLAT}>₹</option>
+                             </select>
+                         </div>
+                     </div>
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Expires On</label>
+                         <input type="date" className="w-full border rounded p-2" value={newCoupon.expiresAt || ''} onChange={(e) => setNewCoupon({...newCoupon, expiresAt: e.target.value})} />
+                     </div>
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Max Uses</label>
+                         <input type="number" min="0" className="w-full border rounded p-2" placeholder="Unlimited" value={newCoupon.maxUses ?? ''} onChange={(e) => setNewCoupon({...newCoupon, maxUses: e.target.value ? parseInt(e.target.value) || 0 : undefined})} />
+                     </div>
+                     <div>
+                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Description</label>
+                         <input type="text" className="w-full border rounded p-2" value={newCoupon.description || ''} onChange={(e) => setNewCoupon({...newCoupon, description: e.target.value})} placeholder="Optional" />
+                     </div>
+                     <button onClick={handleCreateCoupon} className="bg-purple-600 text-white px-4 py-2 rounded font-bold hover:bg-purple-700">Create</button>
+                 </div>
+                 <div className="flex flex-wrap gap-3 items-center text-sm">
+                     <span className="text-xs font-bold text-gray-500 uppercase">Applies to:</span>
+                     {plans.filter(p => p.id !== SubscriptionPlan.FREE).map(p => (
+                         <label key={p.id} className="flex items-center gap-1">
+                             <input type="checkbox" checked={newCoupon.planIds.includes(p.id)} onChange={() => toggleNewCouponPlan(p.id)} /> {p.label}
+                         </label>
+                     ))}
+                     {newCoupon.planIds.length === 0 && <span className="text-xs text-gray-400">All plans</span>}
+                 </div>
+             </div>
+             <div className="overflow-x-auto w-full border rounded-lg">
+                 <table className="min-w-full text-left">
+                     <thead>
+                         <tr className="border-b bg-gray-50">
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Code</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Discount</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Plans</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Expires</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Used</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Status</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Actions</th>
+                         </tr>
+                     </thead>
+                     <tbody>
+                         {coupons.length === 0 && <tr><td colSpan={7} className="p-4 text-center text-gray-500">No coupons yet</td></tr>}
+                         {coupons.map(c => (
+                             <tr key={c.code} className="border-b hover:bg-gray-50">
+                                 <td className="p-3 text-sm">
+                                     <span className="font-mono font-bold">{c.code}</span>
+                                     {c.description && <span className="block text-xs text-gray-400">{c.description}</span>}
+                                 </td>
+                                 <td className="p-3 text-sm whitespace-nowrap">{c.discountType === DiscountType.PERCENT ? `${c.value}%` : `₹${c.value}`}</td>
+                                 <td className="p-3 text-sm">{c.planIds.length === 0 ? 'All' : c.planIds.map(id => plans.find(p => p.id === id)?.label || id).join(', ')}</td>
+                                 <td className="p-3 text-sm whitespace-nowrap">{c.expiresAt ? new Date(c.expiresAt).toLocaleDateString() : 'Never'}</td>
+                                 <td className="p-3 text-sm whitespace-nowrap">{c.usedCount || 0}{c.maxUses ? ` / ${c.maxUses}` : ''}</td>
+                                 <td className="p-3"><span className={`text-xs px-2 py-1 rounded font-bold ${c.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>{c.active ? 'Active' : 'Disabled'}</span></td>
+                                 <td className="p-3 whitespace-nowrap flex gap-2">
+                                     <button onClick={() => handleToggleCoupon(c)} className="text-blue-600 hover:bg-blue-50 px-3 py-1 rounded">{c.active ? 'Disable' : 'Enable'}</button>
+                                     <button onClick={() => handleDeleteCoupon(c)} className="text-red-500 hover:bg-red-50 px-3 py-1 rounded" title="Delete Coupon"><i className="fas fa-trash"></i></button>
+                                 </td>
+                             </tr>
+                         ))}
+                     </tbody>
+                 </table>
+             </div>
+           </div>
+        )}
+
+        {activeTab === 'invoices' && (
+           <div className="space-y-4">
+             <div className="flex flex-col sm:flex-row justify-between gap-3">
+                 <select className="border rounded p-2 bg-white" value={invoiceYear} onChange={(e) => setInvoiceYear(e.target.value)}>
+                     <option value="">All financial years</option>
+                     {invoiceYears.map(y => <option key={y} value={y}>FY {y}</option>)}
+                 </select>
+                 <button onClick={() => downloadCsv(`invoices${invoiceYear ? `_${invoiceYear}` : ''}.csv`, invoicesToCsv(shownInvoices))} disabled={shownInvoices.length === 0} className="bg-green-600 text-white px-4 py-2 rounded font-bold hover:bg-green-700 disabled:opacity-50"><i className="fas fa-file-csv mr-1"></i> Export CSV</button>
+             </div>
+             <div className="overflow-x-auto w-full border rounded-lg">
+                 <table className="min-w-full text-left">
+                     <thead>
+                         <tr className="border-b bg-gray-50">
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Invoice No</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Date</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Billed To</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">GSTIN</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Plan</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap text-right">Taxable</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap text-right">GST</th>
+                             <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap text-right">Total</th>
+                             <th className="p-3"></th>
+                         </tr>
+                     </thead>
+                     <tbody>
+                         {shownInvoices.length === 0 && <tr><td colSpan={9} className="p-4 text-center text-gray-500">No invoices yet</td></tr>}
+                         {shownInvoices.map(inv => (
+                             <tr key={inv.id} className="border-b hover:bg-gray-50">
+                                 <td className="p-3 text-sm font-mono whitespace-nowrap">{inv.number}</td>
+                                 <td className="p-3 text-sm whitespace-nowrap">{new Date(inv.issuedAt).toLocaleDateString()}</td>
+                                 <td className="p-3 text-sm">
+                                     {inv.billedTo.name}
+                                     <span className="block text-xs text-gray-400">{inv.billedTo.schoolName || inv.userEmail}</span>
+                                 </td>
+                                 <td className="p-3 text-sm font-mono whitespace-nowrap">{inv.billedTo.gstin || '-'}</td>
+                                 <td className="p-3 text-sm whitespace-nowrap">{inv.planLabel}</td>
+                                 <td className="p-3 text-sm text-right whitespace-nowrap">₹{inv.taxableAmount.toFixed(2)}</td>
+                                 <td className="p-3 text-sm text-right whitespace-nowrap" title={inv.igst > 0 ? 'IGST' : 'CGST + SGST'}>₹{inv.totalTax.toFixed(2)}</td>
+                                 <td className="p-3 text-sm text-right font-bold whitespace-nowrap">₹{inv.total.toFixed(2)}</td>
+                                 <td className="p-3 text-right"><button onClick={() => downloadInvoicePdf(inv)} className="text-blue-600 hover:bg-blue-50 px-3 py-1 rounded" title="Download PDF"><i className="fas fa-download"></i></button></td>
+                             </tr>
+                         ))}
+                     </tbody>
+                 </table>
+             </div>
+           </div>
+        )}
+
+        {activeTab === 'papers' && (
+           <div className="space-y-4">
+             <div className="flex justify-end gap-2">
+                 <button onClick={() => handleExportPapers(papers)} disabled={papers.length === 0} className="bg-green-600 text-white px-4 py-2 rounded font-bold hover:bg-green-700 disabled:opacity-50"><i className="fas fa-file-export mr-1"></i> Export All</button>
+                 <label className="border border-blue-200 text-blue-700 px-4 py-2 rounded font-bold hover:bg-blue-50 cursor-pointer" title="Add papers from an exported zip to your account">
+                     <i className="fas fa-file-import mr-1"></i> Import
+                     <input type="file" accept=".zip,.json,application/zip,application/json" onChange={handleImportPapers} className="hidden" />
+                 </label>
+             </div>
+             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+               {/* ... Papers Grid ... */}
+               {papers.map((p) => (
+                 <div key={p.id} className="border p-4 rounded-lg bg-gray-50 flex flex-col h-full">
+                   <h3 className="font-bold text-gray-800 line-clamp-2">{p.title}</h3>
+                   <p className="text-sm text-gray-600 mb-2">Class {p.classNum} • {p.subject}</p>
+                   <div className="mt-auto flex justify-between items-end">
+                      <div>
+                          <p className="text-xs text-gray-400">By: {p.createdBy}</p>
+                          <span className="text-xs text-gray-500">{new Date(p.createdAt).toLocaleDateString()}</span>
+                      </div>
+                      <div className="flex gap-2">
+                          <button 
+                              onClick={() => setSelectedPaper(p)} 
+                              className="text-blue-500 hover:text-blue-700 p-2 hover:bg-blue-50 rounded"
+                              title="View/Edit Paper"
+                          >
+                              <i className="fas fa-edit"></i>
+                          </button>
+                          <button 
+                              onClick={() => handleExportPapers([p])} 
+                              className="text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded"
+                              title="Export Paper"
+                          >
+                              <i className="fas fa-file-export"></i>
+                          </button>
+                          <button 
+                              onClick={() => setPaperToDelete(p)} 
+                              className="text-red-400 hover:text-red-600 p-2 hover:bg-red-50 rounded"
+                              title="Delete Paper"
+                          >
+                              <i className="fas fa-trash"></i>
+                          </button>
+                      </div>
+                   </div>
+                 </div>
+               ))}
+               {papers.length === 0 && <p className="text-gray-400 col-span-3 text-center py-10">No papers generated yet.</p>}
+             </div>
            </div>
         )}
 
@@ -649,10 +1110,21 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                                     </button>
                                 </div>
                              )}
+                             {syllabusFile && (
+                                <button onClick={handleImportSyllabus} disabled={readingSyllabus} className="mt-2 text-sm text-purple-700 font-bold hover:underline disabled:opacity-50" title="Build the units and chapters for this class and subject from the syllabus">
+                                    <i className={`fas ${readingSyllabus ? 'fa-spinner fa-spin' : 'fa-file-import'} mr-1`}></i> Import to Curriculum
+                                </button>
+                             )}
                          </div>
                     </div>
                 </div>
 
+                <div>
+                    <label className="font-bold text-gray-700 mb-1 block">Option 4: Prescribed Blueprint</label>
+                    <p className="text-sm text-gray-500 mb-2">Teachers see warnings before generating when their blueprint departs from this structure or weightage.</p>
+                    <BlueprintRulesEditor rules={blueprintRules} questionTypes={questionTypes} onChange={setBlueprintRules} />
+                </div>
+
                 <div className="flex justify-end pt-4 border-t">
                     <div className="flex flex-col sm:flex-row items-center gap-4 w-full sm:w-auto">
                         {saveStatus && <span className="text-green-600 text-sm font-bold animate-pulse">{saveStatus}</span>}
@@ -689,7 +1161,7 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                     </div>
                     <div className="space-y-2 max-h-96 overflow-y-auto">
                         {classList.map(cls => (
-                            <div key={cls} className={`flex justify-between items-center p-3 rounded border cursor-pointer ${selectedCurriculumClass === cls ? 'bg-blue-100 border-blue-400' : 'bg-white'}`} onClick={() => setSelectedCurriculumClass(cls)}>
+                            <div key={cls} className={`flex justify-between items-center p-3 rounded border cursor-pointer ${selectedCurriculumClass === cls ? 'bg-blue-100 border-blue-400' : 'bg-white'}`} onClick={() => { setSelectedCurriculumClass(cls); setSelectedCurriculumSubject(''); }}>
                                 <span className="font-medium">{cls}</span>
                                 <button onClick={(e) => { e.stopPropagation(); handleDeleteClass(cls); }} className="text-red-400 hover:text-red-600">
                                     <i className="fas fa-trash"></i>
@@ -725,9 +1197,9 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                             </div>
                             <div className="space-y-2 max-h-96 overflow-y-auto">
                                 {curriculumConfig[selectedCurriculumClass]?.map(sub => (
-                                    <div key={sub} className="flex justify-between items-center p-3 rounded border bg-white">
+                                    <div key={sub} className={`flex justify-between items-center p-3 rounded border cursor-pointer ${selectedCurriculumSubject === sub ? 'bg-purple-100 border-purple-400' : 'bg-white'}`} onClick={() => setSelectedCurriculumSubject(sub)}>
                                         <span>{sub}</span>
-                                        <button onClick={() => handleDeleteSubject(sub)} className="text-red-400 hover:text-red-600">
+                                        <button onClick={(e) => { e.stopPropagation(); handleDeleteSubject(sub); }} className="text-red-400 hover:text-red-600">
                                             <i className="fas fa-trash"></i>
                                         </button>
                                     </div>
@@ -769,6 +1241,18 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                         ))}
                     </div>
                 </div>
+
+                {/* Units & Chapters of the selected subject */}
+                <div className="border rounded-lg p-6 bg-gray-50 md:col-span-2 lg:col-span-3">
+                    <h3 className="font-bold text-lg text-gray-800 mb-4 border-b pb-2">
+                        Units &amp; Chapters {selectedCurriculumClass && selectedCurriculumSubject ? `for ${selectedCurriculumClass} ${selectedCurriculumSubject}` : ''}
+                    </h3>
+                    {selectedCurriculumClass && selectedCurriculumSubject ? (
+                        <SyllabusEditor classNum={selectedCurriculumClass} subject={selectedCurriculumSubject} />
+                    ) : (
+                        <div className="text-center text-gray-500 py-6">Select a Class and then a Subject to manage its units, chapters and weightage.</div>
+                    )}
+                </div>
             </div>
         )}
 
@@ -876,10 +1360,10 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                   <div>
                     <label className="block text-sm font-bold text-gray-700 mb-1">Password</label>
                     <input 
-                      type="text" 
+                      type="password" 
                       className="w-full border rounded p-2 font-mono text-sm"
-                      value={creatingUser.password || ''}
-                      onChange={(e) => setCreatingUser({...creatingUser, password: e.target.value})}
+                      value={newUserPassword}
+                      onChange={(e) => setNewUserPassword(e.target.value)}
                       placeholder="Initial Password"
                     />
                   </div>
@@ -927,12 +1411,9 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                     <select 
                       className="w-full border rounded p-2"
                       value={creatingUser.subscriptionPlan}
-                      onChange={(e) => setCreatingUser({...creatingUser, subscriptionPlan: e.target.value as SubscriptionPlan})}
+                      onChange={(e) => setCreatingUser({...creatingUser, subscriptionPlan: e.target.value})}
                     >
-                       <option value={SubscriptionPlan.FREE}>FREE</option>
-                       <option value={SubscriptionPlan.STARTER}>STARTER</option>
-                       <option value={SubscriptionPlan.PROFESSIONAL}>PROFESSIONAL</option>
-                       <option value={SubscriptionPlan.PREMIUM}>PREMIUM</option>
+                       {plans.map(p => <option key={p.id} value={p.id}>{p.label} ({p.id}){!p.active && ' - inactive'}</option>)}
                     </select>
                   </div>
                </div>
@@ -1007,16 +1488,6 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                       onChange={(e) => setEditingUser({...editingUser, email: e.target.value})}
                     />
                   </div>
-                  <div>
-                    <label className="block text-sm font-bold text-gray-700 mb-1">Password</label>
-                    <input 
-                      type="text" 
-                      className="w-full border rounded p-2 font-mono text-sm"
-                      value={editingUser.password || ''}
-                      onChange={(e) => setEditingUser({...editingUser, password: e.target.value})}
-                      placeholder="Set password"
-                    />
-                  </div>
                   <div>
                     <label className="block text-sm font-bold text-gray-700 mb-1">Mobile</label>
                     <input 
@@ -1058,12 +1529,9 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
                     <select 
                       className="w-full border rounded p-2"
                       value={editingUser.subscriptionPlan}
-                      onChange={(e) => setEditingUser({...editingUser, subscriptionPlan: e.target.value as SubscriptionPlan})}
+                      onChange={(e) => setEditingUser({...editingUser, subscriptionPlan: e.target.value})}
                     >
-                       <option value={SubscriptionPlan.FREE}>FREE</option>
-                       <option value={SubscriptionPlan.STARTER}>STARTER</option>
-                       <option value={SubscriptionPlan.PROFESSIONAL}>PROFESSIONAL</option>
-                       <option value={SubscriptionPlan.PREMIUM}>PREMIUM</option>
+                       {plans.map(p => <option key={p.id} value={p.id}>{p.label} ({p.id}){!p.active && ' - inactive'}</option>)}
                     </select>
                   </div>
                </div>
@@ -1119,6 +1587,22 @@ const AdminPanel: React.FC<Props> = ({ user }) => {
             </div>
         </div>
       )}
+
+      {syllabusImport && (
+        <SyllabusImportReview
+          classNum={patternClass}
+          subject={patternSubject}
+          fileName={syllabusImport.fileName}
+          sourceText={syllabusImport.text}
+          units={syllabusImport.units}
+          onClose={() => setSyllabusImport(null)}
+          onSaved={() => {
+            setSyllabusImport(null);
+            setSaveStatus('Syllabus imported to Curriculum!');
+            setTimeout(() => setSaveStatus(''), 3000);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,79 @@
+
+import React from 'react';
+import { BlueprintRules } from '../types';
+
+interface Props {
+  rules: BlueprintRules | null;
+  questionTypes: string[];
+  onChange: (rules: BlueprintRules | null) => void;
+}
+
+const BlueprintRulesEditor: React.FC<Props> = ({ rules, questionTypes, onChange }) => {
+  if (!rules) {
+    return (
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center bg-gray-50">
+        <p className="text-sm text-gray-500 mb-3">No prescribed blueprint. Teachers' blueprints are only checked against their own Max Marks.</p>
+        <button onClick={() => onChange({ types: [], topics: [] })} className="bg-blue-600 text-white px-4 py-2 rounded font-bold hover:bg-blue-700"><i className="fas fa-plus mr-1"></i> Define Blueprint</button>
+      </div>
+    );
+  }
+
+  const totalByTypes = rules.types.reduce((sum, t) => sum + t.count * t.marks, 0);
+  const totalByTopics = rules.topics.reduce((sum, t) => sum + t.marks, 0);
+
+  const updateType = (idx: number, patch: Partial<BlueprintRules['types'][number]>) =>
+    onChange({ ...rules, types: rules.types.map((t, i) => i === idx ? { ...t, ...patch } : t) });
+  const updateTopic = (idx: number, patch: Partial<BlueprintRules['topics'][number]>) =>
+    onChange({ ...rules, topics: rules.topics.map((t, i) => i === idx ? { ...t, ...patch } : t) });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-bold text-gray-700">Max Marks</label>
+        <input type="number" min={0} className="w-24 border rounded p-2" value={rules.maxMarks || ''} onChange={(e) => {
+          const next = { ...rules, maxMarks: Number(e.target.value) };
+          if (!next.maxMarks) delete next.maxMarks;
+          onChange(next);
+        }} />
+        <button onClick={() => { if (window.confirm("Remove the prescribed blueprint for this class and subject?")) onChange(null); }} className="ml-auto text-sm text-red-500 hover:text-red-700"><i className="fas fa-trash mr-1"></i> Remove Blueprint</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <div className="font-bold text-gray-700 mb-2">Questions per Type <span className="text-xs font-normal text-gray-500">({totalByTypes} marks)</span></div>
+          {rules.types.map((t, idx) => (
+            <div key={idx} className="flex gap-2 mb-2 items-center">
+              <select className="flex-1 border rounded p-2 bg-white" value={t.type} onChange={(e) => updateType(idx, { type: e.target.value })}>
+                {!questionTypes.includes(t.type) && <option value={t.type}>{t.type}</option>}
+                {questionTypes.map(qt => <option key={qt} value={qt}>{qt}</option>)}
+              </select>
+              <input type="number" min={0} className="w-20 border rounded p-2" value={t.count} onChange={(e) => updateType(idx, { count: Number(e.target.value) })} title="Number of questions" />
+              <span className="text-gray-400">x</span>
+              <input type="number" min={0} step={0.5} className="w-20 border rounded p-2" value={t.marks} onChange={(e) => updateType(idx, { marks: Number(e.target.value) })} title="Marks per question" />
+              <button onClick={() => onChange({ ...rules, types: rules.types.filter((_, i) => i !== idx) })} className="text-red-400 hover:text-red-600 p-2"><i className="fas fa-times"></i></button>
+            </div>
+          ))}
+          <button onClick={() => onChange({ ...rules, types: [...rules.types, { type: questionTypes[0] || '', count: 1, marks: 1 }] })} className="text-sm text-blue-600 font-bold hover:underline"><i className="fas fa-plus mr-1"></i> Add Type</button>
+        </div>
+
+        <div>
+          <div className="font-bold text-gray-700 mb-2">Topic Weightage <span className="text-xs font-normal text-gray-500">({totalByTopics} marks)</span></div>
+          {rules.topics.map((t, idx) => (
+            <div key={idx} className="flex gap-2 mb-2 items-center">
+              <input type="text" className="flex-1 border rounded p-2" value={t.topic} placeholder="Unit or topic" onChange={(e) => updateTopic(idx, { topic: e.target.value })} />
+              <input type="number" min={0} step={0.5} className="w-20 border rounded p-2" value={t.marks} onChange={(e) => updateTopic(idx, { marks: Number(e.target.value) })} title="Marks" />
+              <button onClick={() => onChange({ ...rules, topics: rules.topics.filter((_, i) => i !== idx) })} className="text-red-400 hover:text-red-600 p-2"><i className="fas fa-times"></i></button>
+            </div>
+          ))}
+          <button onClick={() => onChange({ ...rules, topics: [...rules.topics, { topic: '', marks: 0 }] })} className="text-sm text-blue-600 font-bold hover:underline"><i className="fas fa-plus mr-1"></i> Add Topic</button>
+        </div>
+      </div>
+
+      {rules.maxMarks !== undefined && ((rules.types.length > 0 && totalByTypes !== rules.maxMarks) || (rules.topics.length > 0 && totalByTopics !== rules.maxMarks)) && (
+        <p className="text-sm text-orange-600"><i className="fas fa-exclamation-triangle mr-1"></i> Type and topic totals should both add up to {rules.maxMarks} marks.</p>
+      )}
+    </div>
+  );
+};
+
+export default BlueprintRulesEditor;
@@ -0,0 +1,87 @@
+
+import React, { useState, useEffect } from 'react';
+import { BlueprintItem, BlueprintTemplate } from '../types';
+import { StorageService } from '../services/storageService';
+
+interface Props {
+  userEmail: string;
+  isAdmin: boolean;
+  classNum: string;
+  subject: string;
+  blueprint: BlueprintItem[];
+  maxMarks: number;
+  onLoad: (template: BlueprintTemplate) => void;
+}
+
+const BlueprintTemplateBar: React.FC<Props> = ({ userEmail, isAdmin, classNum, subject, blueprint, maxMarks, onLoad }) => {
+  const [templates, setTemplates] = useState<BlueprintTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+
+  const load = async () => {
+    try {
+      const list = await StorageService.getBlueprintTemplates(userEmail, classNum, subject);
+      setTemplates(list);
+      setSelectedId(prev => list.some(t => t.id === prev) ? prev : (list[0]?.id || ''));
+    } catch (e) {
+      console.error("Failed to load blueprint templates", e);
+    }
+  };
+
+  useEffect(() => { if (classNum && subject) load(); }, [userEmail, classNum, subject]);
+
+  const selected = templates.find(t => t.id === selectedId);
+  const canDelete = !!selected && (isAdmin || (!selected.official && selected.ownerEmail === userEmail));
+
+  const handleLoad = () => {
+    if (!selected) return;
+    if (blueprint.length > 0 && !window.confirm(`Replace the current blueprint with "${selected.name}"?`)) return;
+    onLoad(selected);
+  };
+
+  const handleSave = async () => {
+    if (blueprint.length === 0) return alert("Add items to the blueprint before saving it as a template.");
+    const name = window.prompt("Template name", `${classNum} ${subject} - ${maxMarks} marks`);
+    if (!name) return;
+    const official = isAdmin && window.confirm("Publish as an official template for all teachers of this class and subject?\n\nCancel saves it only for you.");
+    try {
+      const saved = await StorageService.saveBlueprintTemplate({ name, classNum, subject, ownerEmail: userEmail, official, maxMarks, items: blueprint });
+      await load();
+      setSelectedId(saved.id);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the template "${selected.name}"?`)) return;
+    await StorageService.deleteBlueprintTemplate(selected.id);
+    load();
+  };
+
+  const official = templates.filter(t => t.official);
+  const own = templates.filter(t => !t.official);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-gray-50 border rounded-xl p-3">
+      <span className="text-sm font-bold text-gray-700"><i className="fas fa-layer-group mr-1"></i> Templates</span>
+      <select className="flex-1 min-w-[12rem] border rounded p-2 bg-white text-sm" value={selectedId} onChange={(e) => setSelectedId(e.target.value)} disabled={templates.length === 0}>
+        {templates.length === 0 && <option value="">No templates for {classNum} {subject} yet</option>}
+        {official.length > 0 && (
+          <optgroup label="Official">
+            {official.map(t => <option key={t.id} value={t.id}>{t.name} ({t.maxMarks} marks)</option>)}
+          </optgroup>
+        )}
+        {own.length > 0 && (
+          <optgroup label="My Templates">
+            {own.map(t => <option key={t.id} value={t.id}>{t.name} ({t.maxMarks} marks)</option>)}
+          </optgroup>
+        )}
+      </select>
+      <button onClick={handleLoad} disabled={!selected} className="px-3 py-2 bg-blue-600 text-white rounded text-sm font-bold hover:bg-blue-700 disabled:opacity-50">Load</button>
+      {canDelete && <button onClick={handleDelete} className="px-3 py-2 text-red-500 hover:bg-red-50 rounded text-sm" title="Delete Template"><i className="fas fa-trash"></i></button>}
+      <button onClick={handleSave} className="px-3 py-2 border border-blue-200 text-blue-700 rounded text-sm font-bold hover:bg-blue-50"><i className="fas fa-save mr-1"></i> Save as Template</button>
+    </div>
+  );
+};
+
+export default BlueprintTemplateBar;
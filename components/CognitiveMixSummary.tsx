@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { BlueprintItem, Section } from '../types';
+import { DIFFICULTY_LEVELS, BLOOM_LEVELS } from '../constants';
+import { questionMarks } from '../services/questionUtils';
+
+interface Props {
+  sections: Section[];
+  blueprint: BlueprintItem[]; // Requested mix; may be empty for papers saved before tagging existed
+}
+
+const UNTAGGED = 'Not tagged';
+
+type Tag = 'difficulty' | 'bloomLevel';
+
+const percent = (marks: number, total: number) => total > 0 ? `${Math.round(marks * 100 / total)}%` : '-';
+
+const CognitiveMixSummary: React.FC<Props> = ({ sections, blueprint }) => {
+  const questions = sections.flatMap(s => s.questions);
+  const actualTotal = questions.reduce((sum, q) => sum + questionMarks(q), 0);
+  const requestedTotal = blueprint.reduce((sum, item) => sum + item.count * item.marks, 0);
+
+  const actualMarks = (tag: Tag, level: string) =>
+    questions.filter(q => (q[tag] || UNTAGGED) === level).reduce((sum, q) => sum + questionMarks(q), 0);
+  const requestedMarks = (tag: Tag, level: string) =>
+    blueprint.filter(item => (item[tag] || UNTAGGED) === level).reduce((sum, item) => sum + item.count * item.marks, 0);
+
+  const renderTable = (title: string, tag: Tag, levels: string[]) => {
+    const rows = [...levels, UNTAGGED].filter(level => level !== UNTAGGED || actualMarks(tag, level) > 0 || requestedMarks(tag, level) > 0);
+    return (
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-b bg-gray-50">
+            <th className="p-2 text-left">{title}</th>
+            {blueprint.length > 0 && <th className="p-2 text-right">Requested</th>}
+            <th className="p-2 text-right">In Paper</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(level => {
+            const requested = requestedMarks(tag, level);
+            const actual = actualMarks(tag, level);
+            const off = blueprint.length > 0 && level !== UNTAGGED && percent(requested, requestedTotal) !== percent(actual, actualTotal);
+            return (
+              <tr key={level} className="border-b">
+                <td className="p-2">{level}</td>
+                {blueprint.length > 0 && <td className="p-2 text-right">{requested} ({percent(requested, requestedTotal)})</td>}
+                <td className={`p-2 text-right ${off ? 'text-orange-600 font-bold' : ''}`}>{Number(actual.toFixed(2))} ({percent(actual, actualTotal)})</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="border rounded-xl p-4">
+      <div className="font-bold text-gray-700 mb-3"><i className="fas fa-chart-pie mr-1"></i> Difficulty &amp; Cognitive Level Mix <span className="text-xs font-normal text-gray-500">(marks)</span></div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderTable('Difficulty', 'difficulty', DIFFICULTY_LEVELS)}
+        {renderTable("Bloom's Level", 'bloomLevel', BLOOM_LEVELS)}
+      </div>
+    </div>
+  );
+};
+
+export default CognitiveMixSummary;
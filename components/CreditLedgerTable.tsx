@@ -0,0 +1,50 @@
+
+import React from 'react';
+import { CreditLedgerEntry, CreditEntryType } from '../types';
+
+interface Props {
+  entries: CreditLedgerEntry[];
+  showUser?: boolean;
+}
+
+const typeBadge: Record<CreditEntryType, string> = {
+  [CreditEntryType.GRANT]: 'bg-green-100 text-green-800',
+  [CreditEntryType.DEDUCTION]: 'bg-red-100 text-red-800',
+  [CreditEntryType.REFUND]: 'bg-blue-100 text-blue-800',
+  [CreditEntryType.ADJUSTMENT]: 'bg-yellow-100 text-yellow-800',
+};
+
+const CreditLedgerTable: React.FC<Props> = ({ entries, showUser }) => (
+  <div className="overflow-x-auto w-full">
+    <table className="min-w-full text-left">
+      <thead>
+        <tr className="border-b bg-gray-50">
+          <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Date</th>
+          {showUser && <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">User</th>}
+          <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Type</th>
+          <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap">Reason</th>
+          <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap text-right">Credits</th>
+          <th className="p-3 text-sm font-bold text-gray-600 whitespace-nowrap text-right">Balance</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.length === 0 && <tr><td colSpan={showUser ? 6 : 5} className="p-4 text-center text-gray-500">No credit history yet</td></tr>}
+        {entries.map(entry => (
+          <tr key={entry.id} className="border-b hover:bg-gray-50">
+            <td className="p-3 text-sm whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+            {showUser && <td className="p-3 text-sm whitespace-nowrap">{entry.userEmail}</td>}
+            <td className="p-3"><span className={`text-xs px-2 py-1 rounded font-bold whitespace-nowrap ${typeBadge[entry.type]}`}>{entry.type}</span></td>
+            <td className="p-3 text-sm">
+              {entry.reason}
+              {entry.createdBy && <span className="block text-xs text-gray-400">by {entry.createdBy}</span>}
+            </td>
+            <td className={`p-3 text-sm font-bold text-right whitespace-nowrap ${entry.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{entry.amount > 0 ? `+${entry.amount}` : entry.amount}</td>
+            <td className="p-3 text-sm text-right font-mono">{entry.balanceAfter}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default CreditLedgerTable;
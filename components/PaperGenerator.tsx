@@ -1,9 +1,21 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { QuestionPaper, Section, Question, QuestionType, UserRole, BlueprintItem, SubscriptionPlan } from '../types';
-import { QUESTION_TYPES } from '../constants';
+import { QuestionPaper, Section, Question, QuestionAlternative, QuestionPart, QuestionPassage, QuestionType, Difficulty, BloomLevel, UserRole, BlueprintItem, BlueprintRules, BlueprintTemplate, Syllabus, CreditEntryType, GenerationDraft, DraftSection, DraftSectionStatus } from '../types';
+import { QUESTION_TYPES, PASSAGE_QUESTION_TYPES, PASSAGE_PART_TYPES, DIFFICULTY_LEVELS, BLOOM_LEVELS } from '../constants';
 import { generateQuestionsWithAI, generateImageForQuestion } from '../services/geminiService';
 import { StorageService } from '../services/storageService';
+import { Entitlements } from '../services/entitlements';
+import { questionMarks, sectionMarks, partLabel, cleanOptionText, optionColumns } from '../services/questionUtils';
+import { buildPaperSet, SET_LABELS } from '../services/paperSets';
+import { validateBlueprint } from '../services/blueprintValidation';
+import { renderPaperPdf } from '../services/paperPdf';
+import { renderPaperDocx } from '../services/paperDocx';
+import { renderPaperLatex } from '../services/paperLatex';
+import { loadPdfFonts, fetchImageBytes, downloadBlob } from '../services/fileExport';
+import { readPaperDocument } from '../services/paperImport';
+import QuestionBankPicker from './QuestionBankPicker';
+import CognitiveMixSummary from './CognitiveMixSummary';
+import BlueprintTemplateBar from './BlueprintTemplateBar';
 
 interface Props {
   userEmail: string;
@@ -16,11 +28,6 @@ interface Props {
 
 const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
 
-const cleanOptionText = (text: string): string => {
-  if (!text) return "";
-  return text.replace(/^(\([a-zA-Z0-9]+\)|[a-zA-Z0-9]+[.):]\s*)+/, '').trim();
-};
-
 const MathText: React.FC<{ text: string }> = ({ text }) => {
   const [parts, setParts] = useState<React.ReactNode[]>([]);
   const [katexLoaded, setKatexLoaded] = useState(false);
@@ -117,6 +124,8 @@ const ResizableImage: React.FC<{
 
 const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistingPaper, onClose, onSuccess, readOnly: propReadOnly, autoDownload }) => {
   const [internalExistingPaper, setInternalExistingPaper] = useState<QuestionPaper | undefined>(propExistingPaper);
+  // Id is fixed up front so the credit deduction can reference the paper before it is saved
+  const paperIdRef = useRef<string>(propExistingPaper?.id || generateId());
   
   // Need to fetch user profile for roles/subscriptions
   const [userProfile, setUserProfile] = useState<any>(null);
@@ -133,6 +142,10 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
       paper: false, 
       key: false
   });
+  // Paper sets (A/B/C/D): 0 means the paper is printed as a single set
+  const [paperSetCount, setPaperSetCount] = useState(0);
+  const [setsToGenerate, setSetsToGenerate] = useState(2);
+  const [activeSet, setActiveSet] = useState(0);
   
   const [curriculumConfig, setCurriculumConfig] = useState<Record<string, string[]>>({});
   const [classList, setClassList] = useState<string[]>([]);
@@ -160,6 +173,7 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
 
   useEffect(() => {
       const loadInitialData = async () => {
+        await Entitlements.loadPlans();
         const u = await StorageService.getUser(userEmail);
         setUserProfile(u);
         setIsAdmin(u?.role === UserRole.ADMIN);
@@ -175,6 +189,11 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
 
         const qTypes = await StorageService.getQuestionTypes();
         setAvailableQTypes(qTypes);
+
+        if (!internalExistingPaper) {
+            const drafts = await StorageService.getGenerationDrafts(userEmail);
+            setResumableDraft(drafts[0] || null);
+        }
       };
       loadInitialData();
   }, [userEmail]);
@@ -186,12 +205,9 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     }
   }, [userProfile, internalExistingPaper]);
   
-  // Derived state from userProfile
-  const isProfessional = userProfile?.subscriptionPlan === SubscriptionPlan.PROFESSIONAL;
-  const isFree = userProfile?.subscriptionPlan === SubscriptionPlan.FREE;
-  const isStarter = userProfile?.subscriptionPlan === SubscriptionPlan.STARTER;
-  
-  const readOnly = (!(!propExistingPaper) && propReadOnly && !isAdmin);
+  const viewOnly = (!(!propExistingPaper) && propReadOnly && !isAdmin);
+  // Sets are printed from the stored paper, so the editor is locked while they are shown
+  const readOnly = viewOnly || paperSetCount > 0;
 
   const isHindiPaper = meta.subject === 'Hindi';
 
@@ -204,6 +220,16 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
       }
   }, [autoDownload]);
 
+  useEffect(() => {
+    if (!meta.classNum || !meta.subject) return;
+    StorageService.getBlueprintRules(meta.classNum, meta.subject)
+        .then(setBlueprintRules)
+        .catch(e => console.error("Failed to load prescribed blueprint", e));
+    StorageService.getSyllabus(meta.classNum, meta.subject)
+        .then(s => { setSyllabus(s); setCustomTopic(false); setTopic(''); setTopicUnit(''); })
+        .catch(e => console.error("Failed to load syllabus", e));
+  }, [meta.classNum, meta.subject]);
+
   useEffect(() => {
     if (meta.classNum && curriculumConfig[meta.classNum]) {
         const subjects = curriculumConfig[meta.classNum];
@@ -231,30 +257,62 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
   const [qType, setQType] = useState<any>(QuestionType.MCQ);
   const [count, setCount] = useState(5);
   const [marksPerQ, setMarksPerQ] = useState(1);
+  const [blueprintRules, setBlueprintRules] = useState<BlueprintRules | undefined>(undefined);
+  const [syllabus, setSyllabus] = useState<Syllabus | undefined>(undefined);
+  const [topicUnit, setTopicUnit] = useState(''); // Unit of the picked syllabus chapter; empty for a typed topic
+  const [customTopic, setCustomTopic] = useState(false);
+  const [difficulty, setDifficulty] = useState<Difficulty | ''>('');
+  const [bloomLevel, setBloomLevel] = useState<BloomLevel | ''>('');
   const [sections, setSections] = useState<Section[]>(internalExistingPaper?.sections || []);
   const [activeSectionId, setActiveSectionId] = useState<string>(internalExistingPaper?.sections[0]?.id || '');
   const [loadingAI, setLoadingAI] = useState(false);
+  // Shown in the editor after importing an existing paper, until dismissed
+  const [importNotice, setImportNotice] = useState<string | null>(null);
   const [generationStatus, setGenerationStatus] = useState('');
+  // Sections generated so far for this paper, and an unfinished draft from an earlier visit
+  const [draft, setDraft] = useState<GenerationDraft | null>(null);
+  const [resumableDraft, setResumableDraft] = useState<GenerationDraft | null>(null);
+  // Where questions picked from the bank go: a new blueprint item, or the section with this id
+  const [bankPickerTarget, setBankPickerTarget] = useState<string | null>(null);
   
   const handleClose = () => { onClose(); };
-  const calculateTotalMarks = () => Number(sections.reduce((acc, s) => acc + s.totalMarks, 0).toFixed(2));
+  const calculateTotalMarks = () => Number(sections.reduce((acc, s) => acc + sectionMarks(s.questions), 0).toFixed(2));
 
-  const getGridClass = (options?: string[]) => {
-    if (!options || options.length === 0) return 'grid-cols-1';
-    const maxLength = Math.max(...options.map(o => cleanOptionText(o).length));
-    const hasLatex = options.some(o => o.includes('$'));
-    const singleLineThreshold = hasLatex ? 45 : 25;
-    const twoColThreshold = hasLatex ? 80 : 45;
-    if (maxLength < singleLineThreshold) return 'grid-cols-4';
-    if (maxLength < twoColThreshold) return 'grid-cols-2';
-    return 'grid-cols-1';
-  };
+  const getGridClass = (options?: string[]) => ({ 1: 'grid-cols-1', 2: 'grid-cols-2', 4: 'grid-cols-4' })[optionColumns(options)];
 
   const handleAddToBlueprint = () => {
+    if (!topic.trim()) return alert("Please choose or enter a topic.");
     const newItem: BlueprintItem = { id: generateId(), topic, type: qType, count, marks: marksPerQ };
+    if (topicUnit) newItem.unit = topicUnit;
+    if (difficulty) newItem.difficulty = difficulty;
+    if (bloomLevel) newItem.bloomLevel = bloomLevel;
     setBlueprint([...blueprint, newItem]);
     setCount(5);
   };
+  // Template items get fresh ids, like items added by hand
+  const handleLoadTemplate = (template: BlueprintTemplate) => {
+    setBlueprint(template.items.map(item => ({ ...item, id: generateId() })));
+    if (template.maxMarks) setMeta(prev => ({ ...prev, maxMarks: template.maxMarks }));
+  };
+  // Syllabus picker values are "unit:<id>" for a whole unit and "chapter:<unitId>:<chapterId>" for a chapter
+  const handlePickTopic = (value: string) => {
+    if (value === 'custom') { setCustomTopic(true); setTopic(''); setTopicUnit(''); return; }
+    const [kind, unitId, chapterId] = value.split(':');
+    const unit = syllabus?.units.find(u => u.id === unitId);
+    if (!unit) { setTopic(''); setTopicUnit(''); return; }
+    const chapter = kind === 'chapter' ? unit.chapters.find(c => c.id === chapterId) : undefined;
+    setTopic(chapter ? chapter.name : unit.name);
+    setTopicUnit(unit.name);
+  };
+  const pickedTopicValue = () => {
+    const unit = syllabus?.units.find(u => u.name === topicUnit);
+    if (!unit) return '';
+    const chapter = unit.chapters.find(c => c.name === topic);
+    return chapter ? `chapter:${unit.id}:${chapter.id}` : `unit:${unit.id}`;
+  };
+  const handleUpdateBlueprintItem = (id: string, field: 'count' | 'marks', value: number) => {
+    setBlueprint(prev => prev.map(item => item.id === id ? { ...item, [field]: value } : item));
+  };
   const handleRemoveBlueprintItem = (id: string) => { setBlueprint(blueprint.filter(i => i.id !== id)); };
 
   const getHindiSectionLabel = (idx: number) => {
@@ -262,50 +320,110 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
       return letters[idx] || String.fromCharCode(65 + idx);
   };
 
-  const handleGenerateFullPaper = async () => {
+  const blueprintIssues = validateBlueprint(blueprint, meta.maxMarks, blueprintRules, syllabus);
+
+  const getSectionLabel = (idx: number) => isHindiPaper ? getHindiSectionLabel(idx) : String.fromCharCode(65 + idx);
+  const getSectionTitle = (idx: number) => isHindiPaper ? `खंड ${getSectionLabel(idx)}` : `SECTION ${getSectionLabel(idx)}`;
+
+  // A saved section result only counts while its blueprint item and the class/subject are unchanged
+  const getDraftResult = (item: BlueprintItem): DraftSection | undefined => {
+      if (!draft || draft.meta.classNum !== meta.classNum || draft.meta.subject !== meta.subject) return undefined;
+      const result = draft.results[item.id];
+      if (!result) return undefined;
+      const same = result.item.topic === item.topic && result.item.type === item.type && result.item.count === item.count && result.item.marks === item.marks
+          && result.item.difficulty === item.difficulty && result.item.bloomLevel === item.bloomLevel;
+      return same ? result : undefined;
+  };
+
+  // Sections of a fully generated draft, in blueprint order
+  const draftSections = (saved: GenerationDraft) => saved.blueprint.map((item, idx) => ({ ...saved.results[item.id].section!, title: getSectionTitle(idx) }));
+
+  // Generates every section that is not already in the draft (or only onlyItemId when retrying one section).
+  // Progress is saved after each section; the credit is charged once, when the last section succeeds.
+  // The charged draft is kept until the paper is saved, so a closed tab does not lose a paid-for paper.
+  const handleGenerateFullPaper = async (onlyItemId?: string) => {
     if (blueprint.length === 0) return alert("Please add items to the blueprint first.");
+
+    // Validate before any credit is spent
+    const errors = blueprintIssues.filter(i => i.level === 'error');
+    if (errors.length > 0) return alert(`Please fix the blueprint first:\n\n${errors.map(i => `• ${i.message}`).join('\n')}`);
+    const warnings = blueprintIssues.filter(i => i.level === 'warning');
+    if (!onlyItemId && warnings.length > 0 && !window.confirm(`The blueprint differs from the prescribed pattern:\n\n${warnings.map(i => `• ${i.message}`).join('\n')}\n\nGenerate anyway?`)) return;
     
     // Check Credits (using fresh user object if possible, but state is okay for this pass)
-    if (!isAdmin && userProfile && userProfile.credits <= 0) {
-        return alert("Insufficient credits! You need credits to generate a new paper. Please upgrade.");
+    if (userProfile && blueprint.some(item => !item.bankQuestions)) {
+        const entitlement = Entitlements.canGeneratePaper(userProfile);
+        if (!entitlement.allowed) return alert(entitlement.reason);
     }
 
     setLoadingAI(true);
     setGenerationStatus("Initializing...");
     try {
+      const results: Record<string, DraftSection> = {};
+      blueprint.forEach(item => {
+          const existing = getDraftResult(item);
+          if (existing) results[item.id] = existing;
+      });
+      // Each full generation gets its own draft (and so its own charge); stale and already charged drafts are replaced
+      const draftId = draft && !draft.chargedAt && Object.keys(results).length > 0 ? draft.id : generateId();
+      if (draft && draft.id !== draftId) await StorageService.deleteGenerationDraft(draft.id);
+
+      const pending = blueprint.filter(item => onlyItemId ? item.id === onlyItemId : results[item.id]?.status !== DraftSectionStatus.DONE);
       const styleContext = await StorageService.getStyleContext(meta.classNum, meta.subject);
-      const generatedSections: Section[] = [];
-      for (let i = 0; i < blueprint.length; i++) {
-        const item = blueprint[i];
-        
-        let sectionLabel;
-        let sectionTitle;
-        
-        if (isHindiPaper) {
-             const label = getHindiSectionLabel(i);
-             sectionLabel = label;
-             sectionTitle = `खंड ${label}`;
-        } else {
-             const label = String.fromCharCode(65 + i);
-             sectionLabel = label;
-             sectionTitle = `SECTION ${label}`;
+
+      for (const item of pending) {
+        const idx = blueprint.indexOf(item);
+        setGenerationStatus(`Generating Section ${getSectionLabel(idx)}: ${item.count} ${item.type} questions for ${item.topic}...`);
+        try {
+            const generatedQs = item.bankQuestions || await generateQuestionsWithAI(meta.classNum, meta.subject, item.topic, item.type, item.count, item.marks, styleContext, { difficulty: item.difficulty, bloomLevel: item.bloomLevel, unit: item.unit });
+            results[item.id] = {
+                item: { ...item },
+                status: DraftSectionStatus.DONE,
+                section: {
+                    id: generateId(), title: getSectionTitle(idx), questions: generatedQs,
+                    totalMarks: sectionMarks(generatedQs)
+                }
+            };
+        } catch (e: any) {
+            console.error(e);
+            results[item.id] = { item: { ...item }, status: DraftSectionStatus.FAILED, error: e.message || "Unknown error" };
         }
-        
-        setGenerationStatus(`Generating Section ${sectionLabel}: ${item.count} ${item.type} questions for ${item.topic}...`);
-        const generatedQs = await generateQuestionsWithAI(meta.classNum, meta.subject, item.topic, item.type, item.count, item.marks, styleContext);
-        generatedSections.push({
-            id: generateId(), title: sectionTitle, questions: generatedQs,
-            totalMarks: Number(generatedQs.reduce((sum, q) => sum + q.marks, 0).toFixed(2))
-        });
+
+        const updatedDraft: GenerationDraft = {
+            id: draftId, paperId: paperIdRef.current, userEmail, meta: { ...meta }, blueprint, results, updatedAt: new Date().toISOString()
+        };
+        setDraft(updatedDraft);
+        await StorageService.saveGenerationDraft(updatedDraft);
+      }
+
+      const incomplete = blueprint.filter(item => results[item.id]?.status !== DraftSectionStatus.DONE);
+      if (incomplete.length > 0) {
+          return alert(`${incomplete.length} section(s) could not be generated. The other sections are saved - retry the failed ones from the blueprint. No credit has been charged.`);
       }
       
-      // Deduct credit
-      if (!isAdmin && userProfile) {
-          const updatedUser = { ...userProfile, credits: userProfile.credits - 1 };
-          await StorageService.updateUser(updatedUser);
-          setUserProfile(updatedUser); // Update local state
+      // Deduct credit (balance is checked inside the ledger transaction, not from this component's state).
+      // The id is tied to the draft so a retry after a failed cleanup cannot charge twice.
+      // A paper built only from the question bank is free.
+      if (!isAdmin && userProfile && blueprint.some(item => !item.bankQuestions)) {
+          const entry = await StorageService.applyCreditEntry({
+              id: `generation_${draftId}`,
+              userEmail: userProfile.email,
+              type: CreditEntryType.DEDUCTION,
+              amount: -1,
+              reason: `Generated paper: ${meta.title}`,
+              paperId: paperIdRef.current
+          });
+          setUserProfile({ ...userProfile, credits: entry.balanceAfter }); // Update local state
       }
 
+      const chargedDraft: GenerationDraft = {
+          id: draftId, paperId: paperIdRef.current, userEmail, meta: { ...meta }, blueprint, results,
+          updatedAt: new Date().toISOString(), chargedAt: new Date().toISOString()
+      };
+      await StorageService.saveGenerationDraft(chargedDraft);
+      setDraft(chargedDraft);
+
+      const generatedSections = draftSections(chargedDraft);
       setSections(generatedSections);
       if (generatedSections.length > 0) setActiveSectionId(generatedSections[0].id);
       setStep(3); 
@@ -318,23 +436,112 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     }
   };
 
-  const handleRegenerateQuestion = async (sectionId: string, question: Question) => {
-      let maxRegenerations = 0;
-      if (isStarter) maxRegenerations = 1;
-      else if (isProfessional) maxRegenerations = 2;
-      else if (userProfile?.subscriptionPlan === SubscriptionPlan.PREMIUM || isAdmin) maxRegenerations = 3;
-      else if (isFree) maxRegenerations = 1;
+  const handleSaveToBank = async (q: Question) => {
+      try {
+          await StorageService.saveToQuestionBank({
+              ownerEmail: userEmail,
+              classNum: meta.classNum,
+              subject: meta.subject,
+              topic: q.topic || 'General',
+              type: q.type,
+              question: q
+          });
+          alert("Question saved to your question bank.");
+      } catch (e: any) {
+          alert(`Could not save question: ${e.message}`);
+      }
+  };
 
-      const currentRegenCount = (question as any).regenerateCount || 0;
-      
-      if (currentRegenCount >= maxRegenerations) {
-          return alert(`Limit Reached: You can regenerate a question ${maxRegenerations} time(s) on your current plan.`);
+  const handleAddFromBank = (picked: Question[]) => {
+      // Fresh ids so the same bank question can be used in several papers (or twice in one)
+      const questions = picked.map(q => ({ ...q, id: generateId() }));
+      if (bankPickerTarget === 'blueprint') {
+          // One item per type and marks, so count x marks stays exact for the total and pattern checks
+          const groups = new Map<string, Question[]>();
+          questions.forEach(q => {
+              const key = `${q.type}|${q.marks}`;
+              groups.set(key, [...(groups.get(key) || []), q]);
+          });
+          setBlueprint(prev => [...prev, ...Array.from(groups.values()).map(group => {
+              const topics = Array.from(new Set(group.map(q => q.topic)));
+              return {
+                  id: generateId(),
+                  topic: topics.length === 1 ? topics[0] : 'Question Bank',
+                  type: group[0].type,
+                  count: group.length,
+                  marks: group[0].marks,
+                  bankQuestions: group
+              };
+          })]);
+      } else {
+          setSections(prev => prev.map(s => {
+              if (s.id !== bankPickerTarget) return s;
+              const updatedQs = [...s.questions, ...questions];
+              return { ...s, questions: updatedQs, totalMarks: sectionMarks(updatedQs) };
+          }));
+      }
+      setBankPickerTarget(null);
+  };
+
+  // A charged draft was generated in full, so it opens straight in the editor
+  const handleResumeDraft = (saved: GenerationDraft) => {
+      paperIdRef.current = saved.paperId;
+      setMeta({ ...saved.meta, session: saved.meta.session || '', generalInstructions: saved.meta.generalInstructions || '' });
+      setBlueprint(saved.blueprint);
+      setDraft(saved);
+      setResumableDraft(null);
+      if (saved.chargedAt) {
+          const resumedSections = draftSections(saved);
+          setSections(resumedSections);
+          setActiveSectionId(resumedSections[0].id);
+          setStep(3);
+      } else {
+          setStep(2);
+      }
+  };
+
+  // Existing papers are parsed into sections and opened in the editor; no credit is charged
+  const handleImportPaper = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const imported = await readPaperDocument(new Uint8Array(await file.arrayBuffer()), file.name, file.type, meta.subject);
+          setMeta({
+              ...meta,
+              title: imported.title || meta.title,
+              duration: imported.duration || meta.duration,
+              maxMarks: imported.maxMarks || meta.maxMarks,
+              generalInstructions: imported.generalInstructions || meta.generalInstructions
+          });
+          setSections(imported.sections);
+          setActiveSectionId(imported.sections[0].id);
+          setImportNotice(`Imported ${imported.questionCount} questions in ${imported.sections.length} section${imported.sections.length === 1 ? '' : 's'} from ${imported.fileName}. Please check question types, options and marks before saving.`);
+          setStep(3);
+      } catch (err: any) {
+          alert(err.message);
       }
+  };
+
+  const handleDiscardDraft = async (saved: GenerationDraft) => {
+      const message = saved.chargedAt
+          ? "Discard the generated paper? It has not been saved and the credit charged for it will not be refunded."
+          : "Discard the partly generated paper? Its sections will be lost.";
+      if (!window.confirm(message)) return;
+      await StorageService.deleteGenerationDraft(saved.id);
+      setResumableDraft(null);
+  };
+
+  const handleRegenerateQuestion = async (sectionId: string, question: Question) => {
+      if (!userProfile) return;
+      const entitlement = Entitlements.canRegenerate(userProfile, question);
+      if (!entitlement.allowed) return alert(entitlement.reason);
+      const currentRegenCount = question.regenerateCount || 0;
 
       setRegeneratingQuestionId(question.id);
       try {
           const styleContext = await StorageService.getStyleContext(meta.classNum, meta.subject);
-          const newQuestions = await generateQuestionsWithAI(meta.classNum, meta.subject, question.topic, question.type, 1, question.marks, styleContext);
+          const newQuestions = await generateQuestionsWithAI(meta.classNum, meta.subject, question.topic, question.type, 1, question.marks, styleContext, { difficulty: question.difficulty, bloomLevel: question.bloomLevel });
           
           if (newQuestions.length > 0) {
               const newQ = { 
@@ -362,7 +569,7 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
   };
   const handleAddQuestionToSection = (sectionId: string) => {
     const newQ: Question = { id: generateId(), type: QuestionType.SA, text: "New Question (Edit me)", marks: 2, topic: meta.subject };
-    setSections(prev => prev.map(s => s.id === sectionId ? { ...s, questions: [...s.questions, newQ], totalMarks: Number((s.totalMarks + newQ.marks).toFixed(2)) } : s));
+    setSections(prev => prev.map(s => s.id === sectionId ? { ...s, questions: [...s.questions, newQ], totalMarks: sectionMarks([...s.questions, newQ]) } : s));
   };
   const handleUpdateSectionTitle = (sectionId: string, newTitle: string) => {
     setSections(prev => prev.map(s => s.id === sectionId ? { ...s, title: newTitle } : s));
@@ -370,23 +577,32 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
   const handleUpdateQuestion = (sectionId: string, qId: string, field: keyof Question, value: any) => {
     setSections(prev => prev.map(s => {
       if (s.id !== sectionId) return s;
-      const updatedQs = s.questions.map(q => q.id === qId ? { ...q, [field]: value } : q);
-      const newTotal = updatedQs.reduce((sum, q) => sum + q.marks, 0);
-      return { ...s, questions: updatedQs, totalMarks: Number(newTotal.toFixed(2)) };
+      const updatedQs = s.questions.map(q => {
+          if (q.id !== qId) return q;
+          const updated = { ...q, [field]: value };
+          if (value === undefined) delete updated[field]; // Firestore rejects undefined fields
+          // Keep marks in step with the parts so the bank, blueprint and exports see the right value
+          if (field === 'parts') updated.marks = questionMarks(updated);
+          return updated;
+      });
+      return { ...s, questions: updatedQs, totalMarks: sectionMarks(updatedQs) };
     }));
   };
   const handleDeleteQuestion = (sectionId: string, qId: string) => {
     setSections(prev => prev.map(s => {
       if (s.id !== sectionId) return s;
       const newQuestions = s.questions.filter(q => q.id !== qId);
-      const newTotal = newQuestions.reduce((sum, q) => sum + q.marks, 0);
-      return { ...s, questions: newQuestions, totalMarks: Number(newTotal.toFixed(2)) };
+      return { ...s, questions: newQuestions, totalMarks: sectionMarks(newQuestions) };
     }));
   };
   const handleGenerateImage = async (sectionId: string, qId: string, prompt: string) => {
     const section = sections.find(s => s.id === sectionId); if (!section) return;
     const question = section.questions.find(q => q.id === qId); if (!question) return;
     
+    if (!userProfile) return;
+    const entitlement = Entitlements.canGenerateImage(userProfile);
+    if (!entitlement.allowed) return alert(entitlement.reason);
+
     setGeneratingImageId(qId);
     try {
       const imgUrl = await generateImageForQuestion(prompt || question.text);
@@ -419,8 +635,128 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
       e.target.value = '';
   };
 
+  // Internal choice ("OR"). The alternative shares the parent's marks, so section totals are left alone.
+  const updateAlternative = (sectionId: string, qId: string, update: (alt: QuestionAlternative) => QuestionAlternative | null) => {
+      setSections(prev => prev.map(s => {
+          if (s.id !== sectionId) return s;
+          return {
+              ...s,
+              questions: s.questions.map(q => {
+                  if (q.id !== qId) return q;
+                  const { alternative, ...rest } = q;
+                  const next = update(alternative || { text: '' });
+                  return next ? { ...rest, alternative: next } : rest;
+              })
+          };
+      }));
+  };
+  const handleAddAlternative = (sectionId: string, q: Question) => {
+      updateAlternative(sectionId, q.id, () => {
+          const alt: QuestionAlternative = { text: '' };
+          if (q.options && q.options.length > 0) alt.options = q.options.map(() => '');
+          if (q.type === QuestionType.MATCH && q.matchPairs) alt.matchPairs = q.matchPairs.map(() => ({ left: '', right: '' }));
+          return alt;
+      });
+  };
+  const handleUpdateAlternative = (sectionId: string, qId: string, field: keyof QuestionAlternative, value: any) => {
+      updateAlternative(sectionId, qId, alt => {
+          const next = { ...alt, [field]: value };
+          if (value === undefined) delete next[field];
+          return next;
+      });
+  };
+  const handleRemoveAlternative = (sectionId: string, qId: string) => {
+      if (window.confirm("Remove the OR alternative?")) updateAlternative(sectionId, qId, () => null);
+  };
+  const handleUploadAlternativeImage = (sectionId: string, qId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]; if (!file) return;
+      const reader = new FileReader();
+      reader.onloadend = () => updateAlternative(sectionId, qId, alt => ({ ...alt, imageUrl: reader.result as string, imageWidth: 50 }));
+      reader.readAsDataURL(file);
+      e.target.value = '';
+  };
+
+  // Sub-parts (a), (b), (c). The question's marks follow the parts (see handleUpdateQuestion).
+  const handleAddPart = (sectionId: string, q: Question) => {
+      const parts = q.parts || [];
+      const newPart: QuestionPart = { id: generateId(), text: '', marks: 1 };
+      // Splitting an existing question: its current marks become the first part's marks
+      if (parts.length === 0) newPart.marks = q.marks;
+      handleUpdateQuestion(sectionId, q.id, 'parts', [...parts, newPart]);
+  };
+  const handleUpdatePart = (sectionId: string, q: Question, partId: string, field: keyof QuestionPart, value: any) => {
+      const parts = (q.parts || []).map(p => {
+          if (p.id !== partId) return p;
+          const next = { ...p, [field]: value };
+          if (value === undefined) delete next[field];
+          return next;
+      });
+      handleUpdateQuestion(sectionId, q.id, 'parts', parts);
+  };
+  const handleDeletePart = (sectionId: string, q: Question, partId: string) => {
+      handleUpdateQuestion(sectionId, q.id, 'parts', (q.parts || []).filter(p => p.id !== partId));
+  };
+  const handleUploadPartImage = (sectionId: string, q: Question, partId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]; if (!file) return;
+      const reader = new FileReader();
+      reader.onloadend = () => {
+          setSections(prev => prev.map(s => {
+              if (s.id !== sectionId) return s;
+              return {
+                  ...s,
+                  questions: s.questions.map(sq => sq.id === q.id ? { ...sq, parts: (sq.parts || []).map(p => p.id === partId ? { ...p, imageUrl: reader.result as string, imageWidth: 50 } : p) } : sq)
+              };
+          }));
+      };
+      reader.readAsDataURL(file);
+      e.target.value = '';
+  };
+
+  // Passage (stimulus) of a case study or paragraph-based question
+  const handleUpdatePassage = (sectionId: string, q: Question, field: keyof QuestionPassage, value: any) => {
+      const next: QuestionPassage = { ...(q.passage || { text: '' }), [field]: value };
+      if (value === undefined) delete next[field];
+      handleUpdateQuestion(sectionId, q.id, 'passage', next);
+  };
+  const handleRemovePassage = (sectionId: string, q: Question) => {
+      if (!window.confirm("Remove the passage from this question?")) return;
+      setSections(prev => prev.map(s => s.id !== sectionId ? s : {
+          ...s,
+          questions: s.questions.map(sq => {
+              if (sq.id !== q.id) return sq;
+              const { passage, ...rest } = sq;
+              return rest;
+          })
+      }));
+  };
+  const handleUploadPassageImage = (sectionId: string, q: Question, e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]; if (!file) return;
+      const reader = new FileReader();
+      reader.onloadend = () => handleUpdatePassage(sectionId, q, 'imageUrl', reader.result as string);
+      reader.readAsDataURL(file);
+      e.target.value = '';
+  };
+  // The table is edited as text: one row per line, cells separated by "|"
+  const handleUpdatePassageTable = (sectionId: string, q: Question, value: string) => {
+      handleUpdatePassage(sectionId, q, 'table', value ? value.split('\n').map(line => ({ cells: line.split('|') })) : undefined);
+  };
+  const handleUpdatePartType = (sectionId: string, q: Question, part: QuestionPart, type: QuestionType) => {
+      // MCQ parts get four blank options; other types have none
+      const parts = (q.parts || []).map(p => {
+          if (p.id !== part.id) return p;
+          const { options, ...rest } = p;
+          return type === QuestionType.MCQ ? { ...rest, type, options: options && options.length > 0 ? options : ['', '', '', ''] } : { ...rest, type };
+      });
+      handleUpdateQuestion(sectionId, q.id, 'parts', parts);
+  };
+
+  // The generation draft is only dropped once its paper is stored
   const savePaperInternal = async (paper: QuestionPaper) => {
      await StorageService.savePaper(paper);
+     if (draft?.chargedAt && draft.paperId === paper.id) {
+         await StorageService.deleteGenerationDraft(draft.id);
+         setDraft(null);
+     }
   };
 
   const handleSavePaper = async () => {
@@ -429,8 +765,10 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     if (!userProfile) return;
 
     // We no longer check credits here for creation, as they were paid at Blueprint step
+    // The download count is taken from the stored copy, which other export paths may have updated
+    const stored = internalExistingPaper ? await StorageService.getPaper(internalExistingPaper.id) : undefined;
     const newPaper: QuestionPaper = {
-      id: internalExistingPaper ? internalExistingPaper.id : generateId(),
+      id: internalExistingPaper ? internalExistingPaper.id : paperIdRef.current,
       ...meta,
       sections,
       createdAt: internalExistingPaper ? internalExistingPaper.createdAt : new Date().toISOString(),
@@ -438,8 +776,9 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
       visibleToTeacher: internalExistingPaper ? internalExistingPaper.visibleToTeacher : true,
       visibleToAdmin: internalExistingPaper ? internalExistingPaper.visibleToAdmin : true,
       editCount: internalExistingPaper ? (internalExistingPaper.editCount || 0) + 1 : 0,
-      downloadCount: internalExistingPaper ? (internalExistingPaper.downloadCount || 0) : 0
+      downloadCount: (stored || internalExistingPaper)?.downloadCount || 0
     };
+    if (requestedMix.length > 0) newPaper.blueprint = requestedMix;
 
     await savePaperInternal(newPaper);
     
@@ -448,26 +787,18 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
   };
 
   const handleDownloadPDF = async (type: 'paper' | 'key' = 'paper') => {
-    if (readOnly) return alert("Download not available in View-Only mode.");
+    if (viewOnly) return alert("Download not available in View-Only mode.");
     if (!userProfile) return;
 
-    if (internalExistingPaper && userProfile.role !== UserRole.ADMIN && (
-        userProfile.subscriptionPlan === SubscriptionPlan.PROFESSIONAL || 
-        userProfile.subscriptionPlan === SubscriptionPlan.FREE ||
-        userProfile.subscriptionPlan === SubscriptionPlan.STARTER
-    )) {
-        const currentCount = internalExistingPaper.downloadCount || 0;
-        if (currentCount >= 1) {
-            return alert("Subscription Plan Limit Reached: You have already used your 1 download for this paper.");
-        }
-    }
+    const entitlement = Entitlements.canDownload(userProfile, internalExistingPaper);
+    if (!entitlement.allowed) return alert(entitlement.reason);
 
     const isEdit = !!internalExistingPaper;
 
     if (!isEdit) {
         // Saving new paper before download.
         const newPaper: QuestionPaper = {
-          id: generateId(),
+          id: paperIdRef.current,
           ...meta,
           sections,
           createdAt: new Date().toISOString(),
@@ -477,6 +808,7 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
           editCount: 0,
           downloadCount: 0
         };
+        if (requestedMix.length > 0) newPaper.blueprint = requestedMix;
         await savePaperInternal(newPaper);
         setInternalExistingPaper(newPaper); 
     } 
@@ -486,32 +818,16 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     
     element.style.display = 'block';
     setPreviewMode(type);
+    setIsGeneratingPdf(true);
     
     setTimeout(async () => {
-        const sanitizedTitle = meta.title.replace(/[^a-zA-Z0-9-_]/g, '_');
-        const filename = `${sanitizedTitle}_${meta.classNum}_${meta.subject}${type === 'key' ? '_AnswerKey' : ''}.pdf`;
-        const opt = { 
-            margin: 0, 
-            filename: filename, 
-            image: { type: 'jpeg', quality: 0.98 }, 
-            html2canvas: { scale: 2, useCORS: true, x: 0, y: 0, scrollX: 0, scrollY: 0, windowWidth: 850, logging: false }, 
-            jsPDF: { unit: 'in', format: 'a4', orientation: 'portrait' } 
-        };
+        const filename = `${getPdfBaseName()}${type === 'key' ? '_AnswerKey' : ''}.pdf`;
 
         const cleanup = async () => {
             element.style.display = 'none';
             setIsGeneratingPdf(false);
             
-            const currentPaperId = internalExistingPaper?.id;
-            
-            if (currentPaperId && !isAdmin && !autoDownload) {
-                const userPapers = await StorageService.getPapersByUser(userEmail);
-                const p = userPapers.find(p => p.id === currentPaperId);
-                if (p) {
-                    const updatedPaper = { ...p, downloadCount: (p.downloadCount || 0) + 1 };
-                    await StorageService.savePaper(updatedPaper);
-                }
-            }
+            if (!autoDownload) await countDownload();
 
             if (autoDownload) {
                 onClose();
@@ -533,21 +849,142 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
             }
         };
 
-        // @ts-ignore
-        if (window.html2pdf) {
-            // @ts-ignore
-            window.html2pdf().set(opt).from(element).save().then(cleanup).catch(cleanup);
-        } else {
-            window.print();
-            cleanup();
-        }
+        savePaperPdf(type, printSections, setLabel, element, filename, cleanup);
     }, 500); 
   };
+
+  const getPdfBaseName = () => `${meta.title.replace(/[^a-zA-Z0-9-_]/g, '_')}_${meta.classNum}_${meta.subject}`;
+
+  // Vector PDF with embedded fonts; the screenshot export of the print area is kept as a fallback
+  // for when the fonts cannot be downloaded
+  const savePaperPdf = async (type: 'paper' | 'key', paperSections: Section[], label: string, element: HTMLElement, filename: string, done: () => void) => {
+    try {
+      const fonts = await loadPdfFonts();
+      const bytes = await renderPaperPdf({ ...meta, sections: paperSections }, { kind: type, fonts, setLabel: label, loadImage: fetchImageBytes });
+      downloadBlob(filename, new Blob([bytes], { type: 'application/pdf' }));
+      done();
+    } catch (e) {
+      console.warn("Vector PDF export failed, falling back to print area capture", e);
+      savePrintAreaAsPdf(element, filename, done);
+    }
+  };
+
+  const savePrintAreaAsPdf = (element: HTMLElement, filename: string, done: () => void) => {
+    const opt = { 
+        margin: 0, 
+        filename: filename, 
+        image: { type: 'jpeg', quality: 0.98 }, 
+        html2canvas: { scale: 2, useCORS: true, x: 0, y: 0, scrollX: 0, scrollY: 0, windowWidth: 850, logging: false }, 
+        jsPDF: { unit: 'in', format: 'a4', orientation: 'portrait' } 
+    };
+    // @ts-ignore
+    if (window.html2pdf) {
+        // @ts-ignore
+        window.html2pdf().set(opt).from(element).save().then(done).catch(done);
+    } else {
+        window.print();
+        done();
+    }
+  };
+
+  const saveWordFile = async (type: 'paper' | 'key', paperSections: Section[], label: string, filename: string) => {
+    const bytes = await renderPaperDocx({ ...meta, sections: paperSections }, { kind: type, setLabel: label, loadImage: fetchImageBytes });
+    downloadBlob(filename, new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }));
+  };
+
+  const saveLatexFile = async (paperSections: Section[], label: string, filename: string) => {
+    const bytes = await renderPaperLatex({ ...meta, sections: paperSections }, { setLabel: label, loadImage: fetchImageBytes });
+    downloadBlob(filename, new Blob([bytes], { type: 'application/zip' }));
+  };
+
+  // Every counted export goes through here. The stored paper is re-read so only its count changes (the
+  // editor may hold unsaved edits) and local state follows, so the next entitlement check sees the count.
+  const countDownload = async () => {
+    if (isAdmin) return;
+    const stored = await StorageService.getPaper(paperIdRef.current);
+    if (!stored) return;
+    const counted = { ...stored, downloadCount: (stored.downloadCount || 0) + 1 };
+    await savePaperInternal(counted);
+    setInternalExistingPaper(counted);
+  };
+
+  // Word and LaTeX copies count against the same download allowance as PDFs
+  const handleCountedDownload = async (save: () => Promise<void>) => {
+    if (viewOnly) return alert("Download not available in View-Only mode.");
+    if (!userProfile) return;
+    if (!internalExistingPaper) return alert("Please save the paper before downloading it.");
+
+    const entitlement = Entitlements.canDownload(userProfile, internalExistingPaper);
+    if (!entitlement.allowed) return alert(entitlement.reason);
+
+    try {
+      await save();
+      await countDownload();
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDownloadWord = (type: 'paper' | 'key') =>
+    handleCountedDownload(() => saveWordFile(type, printSections, setLabel, `${getPdfBaseName()}${type === 'key' ? '_AnswerKey' : ''}.docx`));
+
+  const handleDownloadLatex = () => handleCountedDownload(() => saveLatexFile(printSections, setLabel, `${getPdfBaseName()}_LaTeX.zip`));
+
+  // Sets are shuffled from the paper as stored when they were generated (and counted), not the editor's copy
+  const storedSet = (setIdx: number) => buildPaperSet(paperIdRef.current, internalExistingPaper?.sections || sections, setIdx);
+
+  const handleDownloadSetWord = (setIdx: number, type: 'paper' | 'key') => {
+    const filename = `${getPdfBaseName()}_Set${SET_LABELS[setIdx]}${type === 'key' ? '_AnswerKey' : ''}.docx`;
+    const label = `${isHindiPaper ? 'सेट' : 'SET'} ${SET_LABELS[setIdx]}`;
+    saveWordFile(type, storedSet(setIdx), label, filename).catch((e: any) => alert(e.message));
+  };
+
+  const handleDownloadSetLatex = (setIdx: number) => {
+    const label = `${isHindiPaper ? 'सेट' : 'SET'} ${SET_LABELS[setIdx]}`;
+    saveLatexFile(storedSet(setIdx), label, `${getPdfBaseName()}_Set${SET_LABELS[setIdx]}_LaTeX.zip`).catch((e: any) => alert(e.message));
+  };
+
+  // Sets are derived from the saved paper; generating them counts as one download, after which each
+  // set's paper and key can be downloaded freely in this session
+  const handleGenerateSets = async () => {
+    if (viewOnly || !userProfile) return;
+    if (!internalExistingPaper) return alert("Please save the paper before generating sets.");
+
+    const entitlement = Entitlements.canDownload(userProfile, internalExistingPaper);
+    if (!entitlement.allowed) return alert(entitlement.reason);
+
+    // The editor's copy is saved first, so the sets match what is on screen
+    const stored = await StorageService.getPaper(internalExistingPaper.id) || internalExistingPaper;
+    await savePaperInternal({ ...stored, ...meta, sections });
+    setInternalExistingPaper({ ...stored, ...meta, sections });
+    await countDownload();
+    setPaperSetCount(setsToGenerate);
+    setActiveSet(0);
+  };
+
+  const handleDownloadSet = (setIdx: number, type: 'paper' | 'key') => {
+    const element = document.getElementById('print-area');
+    if (!element) return;
+    setActiveSet(setIdx);
+    setPreviewMode(type);
+    element.style.display = 'block';
+    setTimeout(() => {
+        const filename = `${getPdfBaseName()}_Set${SET_LABELS[setIdx]}${type === 'key' ? '_AnswerKey' : ''}.pdf`;
+        const label = `${isHindiPaper ? 'सेट' : 'SET'} ${SET_LABELS[setIdx]}`;
+        savePaperPdf(type, storedSet(setIdx), label, element, filename, () => { element.style.display = 'none'; });
+    }, 500);
+  };
+
+  // The blueprint this session generated from, else the one stored with the paper
+  const requestedMix: BlueprintItem[] = blueprint.length > 0 ? blueprint.map(({ bankQuestions, ...item }) => item) : internalExistingPaper?.blueprint || [];
+  const printSections = paperSetCount > 0 ? storedSet(activeSet) : sections;
+  const setLabel = paperSetCount > 0 ? `${isHindiPaper ? 'सेट' : 'SET'} ${SET_LABELS[activeSet]}` : '';
   
   const renderHeader = () => (
       <div className="text-center mb-2 border-b-2 border-black pb-1">
         <h1 className="text-2xl font-bold uppercase mb-1 leading-tight">{meta.schoolName || (isHindiPaper ? 'विद्यालय का नाम' : 'SCHOOL NAME')}</h1>
         <h2 className="text-lg font-semibold uppercase mb-2">{meta.title || (isHindiPaper ? 'परीक्षा' : 'EXAMINATION')}</h2>
+        {setLabel && <div className="inline-block border-2 border-black px-3 mb-2 font-bold uppercase">{setLabel}</div>}
         <div className="font-bold text-sm border-t-2 border-black pt-1 uppercase w-full">
            <div className="text-center text-base mb-1">{isHindiPaper ? 'विषय' : 'SUBJECT'}: {isHindiPaper ? 'हिंदी' : meta.subject}</div>
            <div className="flex items-center w-full px-1">
@@ -560,6 +997,67 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
   );
 
   // ... (renderPrintContent and renderAnswerKeyContent remain largely identical, just removed for brevity) ...
+  // Text, options, match table and image of a question or of its OR alternative
+  const renderPrintQuestionBody = (q: Question | QuestionAlternative, type: QuestionType) => (
+    <>
+      <p className="whitespace-pre-wrap leading-snug text-justify break-words"><MathText text={q.text} /></p>
+      {q.options && q.options.length > 0 && (
+        <div className={`grid gap-x-8 gap-y-1 mt-1 ml-2 ${type === QuestionType.ASSERTION_REASON ? 'grid-cols-1' : getGridClass(q.options)}`}>
+           {q.options.map((opt, oIdx) => (<div key={oIdx} className="flex gap-2"><span className="font-semibold">({String.fromCharCode(97 + oIdx)})</span><span><MathText text={cleanOptionText(opt)} /></span></div>))}
+        </div>
+      )}
+      {type === QuestionType.MATCH && q.matchPairs && (
+          <div className="mt-2 ml-2 w-full">
+              <div className="font-bold mb-1">Match the Following:</div>
+              <table className="w-full text-sm border-collapse">
+                  <thead>
+                      <tr>
+                          <th className="text-left p-1 w-1/2 border-b-2 border-black">Column A</th>
+                          <th className="text-left p-1 w-1/2 border-b-2 border-black">Column B</th>
+                      </tr>
+                  </thead>
+                  <tbody>
+                      {q.matchPairs.map((pair, idx) => (
+                          <tr key={idx}>
+                              <td className="p-1 align-top border-b border-gray-100">
+                                  <span className="font-bold mr-2">{String.fromCharCode(65 + idx)}.</span>
+                                  <MathText text={cleanOptionText(pair.left)} />
+                              </td>
+                              <td className="p-1 align-top border-b border-gray-100">
+                                  <span className="font-bold mr-2">{idx + 1}.</span>
+                                  <MathText text={cleanOptionText(pair.right)} />
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+      )}
+      {q.imageUrl && (<div className="mt-2 flex justify-center"><ResizableImage src={q.imageUrl} initialWidth={q.imageWidth} onResize={() => {}} onRemove={() => {}} readOnly /></div>)}
+    </>
+  );
+
+  // Case study / paragraph stimulus, printed once above its sub-questions
+  const renderPrintPassage = (passage: QuestionPassage) => (
+    <div className="mt-1 mb-2 ml-2 p-2 border border-gray-400">
+      <p className="whitespace-pre-wrap leading-snug text-justify break-words"><MathText text={passage.text} /></p>
+      {passage.table && passage.table.length > 0 && (
+        <table className="w-full text-sm border-collapse mt-2">
+          <tbody>
+            {passage.table.filter(row => row.cells.some(c => c.trim())).map((row, rIdx) => (
+              <tr key={rIdx}>
+                {row.cells.map((cell, cIdx) => (
+                  <td key={cIdx} className={`p-1 border border-gray-500 align-top ${rIdx === 0 ? 'font-bold' : ''}`}><MathText text={cell.trim()} /></td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {passage.imageUrl && (<div className="mt-2 flex justify-center"><ResizableImage src={passage.imageUrl} initialWidth={passage.imageWidth} onResize={() => {}} onRemove={() => {}} readOnly /></div>)}
+    </div>
+  );
+
   const renderPrintContent = () => {
     let printViewQuestionCounter = 0; 
     return (
@@ -568,7 +1066,7 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
       {meta.generalInstructions && meta.generalInstructions.trim() && (
         <div className="mb-1 text-sm"><h3 className="font-bold underline mb-1 uppercase">{isHindiPaper ? 'सामान्य निर्देश' : 'General Instructions'}:</h3><p className="whitespace-pre-wrap leading-snug">{meta.generalInstructions}</p></div>
       )}
-      {sections.map((section) => (
+      {printSections.map((section) => (
         <div key={section.id} className="mb-3">
            {section.title && section.title.trim() && (
              <div className="text-center mb-2 border-b border-gray-400 pb-1"><h3 className="uppercase text-lg font-bold whitespace-pre-wrap"><MathText text={section.title} /></h3></div>
@@ -578,41 +1076,30 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
                 const qNum = ++printViewQuestionCounter;
                 return (
                 <div key={q.id} className="break-inside-avoid relative">
-                   <div className="flex gap-2"><span className="font-bold">{q.customNumber || (isHindiPaper ? `प्र. ${qNum}` : `${qNum}.`)}</span><div className="flex-1"><p className="whitespace-pre-wrap leading-snug text-justify break-words"><MathText text={q.text} /></p>
-                       {q.options && q.options.length > 0 && (
-                         <div className={`grid gap-x-8 gap-y-1 mt-1 ml-2 ${q.type === QuestionType.ASSERTION_REASON ? 'grid-cols-1' : getGridClass(q.options)}`}>
-                            {q.options.map((opt, oIdx) => (<div key={oIdx} className="flex gap-2"><span className="font-semibold">({String.fromCharCode(97 + oIdx)})</span><span><MathText text={cleanOptionText(opt)} /></span></div>))}
-                         </div>
-                       )}
-                       {q.type === QuestionType.MATCH && q.matchPairs && (
-                           <div className="mt-2 ml-2 w-full">
-                               <div className="font-bold mb-1">Match the Following:</div>
-                               <table className="w-full text-sm border-collapse">
-                                   <thead>
-                                       <tr>
-                                           <th className="text-left p-1 w-1/2 border-b-2 border-black">Column A</th>
-                                           <th className="text-left p-1 w-1/2 border-b-2 border-black">Column B</th>
-                                       </tr>
-                                   </thead>
-                                   <tbody>
-                                       {q.matchPairs.map((pair, idx) => (
-                                           <tr key={idx}>
-                                               <td className="p-1 align-top border-b border-gray-100">
-                                                   <span className="font-bold mr-2">{String.fromCharCode(65 + idx)}.</span>
-                                                   <MathText text={cleanOptionText(pair.left)} />
-                                               </td>
-                                               <td className="p-1 align-top border-b border-gray-100">
-                                                   <span className="font-bold mr-2">{idx + 1}.</span>
-                                                   <MathText text={cleanOptionText(pair.right)} />
-                                               </td>
-                                           </tr>
-                                       ))}
-                                   </tbody>
-                               </table>
+                   <div className="flex gap-2"><span className="font-bold">{q.customNumber || (isHindiPaper ? `प्र. ${qNum}` : `${qNum}.`)}</span><div className="flex-1">{renderPrintQuestionBody(q, q.type)}
+                       {q.passage && renderPrintPassage(q.passage)}
+                       {q.parts && q.parts.map((part, pIdx) => (
+                         <div key={part.id} className="flex gap-2 mt-1 ml-2">
+                           <span className="font-semibold">{partLabel(pIdx, isHindiPaper)}</span>
+                           <div className="flex-1">
+                             <p className="whitespace-pre-wrap leading-snug text-justify break-words"><MathText text={part.text} /></p>
+                             {part.options && part.options.length > 0 && (
+                               <div className={`grid gap-x-8 gap-y-1 mt-1 ml-2 ${getGridClass(part.options)}`}>
+                                  {part.options.map((opt, oIdx) => (<div key={oIdx} className="flex gap-2"><span className="font-semibold">({String.fromCharCode(97 + oIdx)})</span><span><MathText text={cleanOptionText(opt)} /></span></div>))}
+                               </div>
+                             )}
+                             {part.imageUrl && (<div className="mt-2 flex justify-center"><ResizableImage src={part.imageUrl} initialWidth={part.imageWidth} onResize={() => {}} onRemove={() => {}} readOnly /></div>)}
                            </div>
+                           <span className="text-sm">[{part.marks}]</span>
+                         </div>
+                       ))}
+                       {q.alternative && (
+                         <>
+                           <div className="text-center font-bold my-1">{isHindiPaper ? 'अथवा' : 'OR'}</div>
+                           {renderPrintQuestionBody(q.alternative, q.type)}
+                         </>
                        )}
-                       {q.imageUrl && (<div className="mt-2 flex justify-center"><ResizableImage src={q.imageUrl} initialWidth={q.imageWidth} onResize={() => {}} onRemove={() => {}} readOnly /></div>)}
-                     </div><span className="font-bold text-sm w-8 text-right align-top">[{q.marks}]</span></div>
+                     </div><span className="font-bold text-sm w-8 text-right align-top">[{questionMarks(q)}]</span></div>
                 </div>
              );
             })}
@@ -626,14 +1113,14 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     let qCounter = 0;
     return (
       <div className="bg-white text-black w-[210mm] min-h-[297mm] text-base leading-snug box-border shadow-none break-words" style={{ padding: '0.5in' }}>
-         <div className="text-center mb-6"><h1 className="text-2xl font-bold uppercase underline">{isHindiPaper ? 'उत्तर कुंजी' : 'ANSWER KEY'}</h1><h2 className="text-lg font-bold">{meta.schoolName}</h2><div className="text-sm font-bold mt-2">{isHindiPaper ? 'कक्षा' : 'CLASS'}: {meta.classNum} | {isHindiPaper ? 'विषय' : 'SUBJECT'}: {meta.subject} | {meta.title}</div></div>
-         {sections.map((section) => (
+         <div className="text-center mb-6"><h1 className="text-2xl font-bold uppercase underline">{isHindiPaper ? 'उत्तर कुंजी' : 'ANSWER KEY'}</h1><h2 className="text-lg font-bold">{meta.schoolName}</h2><div className="text-sm font-bold mt-2">{isHindiPaper ? 'कक्षा' : 'CLASS'}: {meta.classNum} | {isHindiPaper ? 'विषय' : 'SUBJECT'}: {meta.subject} | {meta.title}{setLabel && ` | ${setLabel}`}</div></div>
+         {printSections.map((section) => (
             <div key={section.id} className="mb-4">
                {section.title && section.title.trim() && <div className="font-bold uppercase underline mb-2 text-sm">{section.title}</div>}
                <div className="space-y-2">
                    {section.questions.map((q) => {
                        const qNum = ++qCounter;
-                       return (<div key={q.id} className="flex gap-2 break-inside-avoid"><span className="font-bold w-10">{q.customNumber || (isHindiPaper ? `प्र. ${qNum}` : `${qNum}.`)}</span><div className="flex-1"><div className="font-medium text-gray-900"><MathText text={q.answer || "Answer not available"} /></div></div><span className="text-xs font-bold text-gray-500">[{q.marks}]</span></div>)
+                       return (<div key={q.id} className="flex gap-2 break-inside-avoid"><span className="font-bold w-10">{q.customNumber || (isHindiPaper ? `प्र. ${qNum}` : `${qNum}.`)}</span><div className="flex-1">{(q.answer || !q.parts?.length) && <div className="font-medium text-gray-900"><MathText text={q.answer || "Answer not available"} /></div>}{q.parts && q.parts.map((part, pIdx) => <div key={part.id} className="font-medium text-gray-900 flex gap-2"><span className="font-bold">{partLabel(pIdx, isHindiPaper)}</span><span className="flex-1"><MathText text={part.answer || "Answer not available"} /></span><span className="text-xs text-gray-500">[{part.marks}]</span></div>)}{q.alternative && <div className="font-medium text-gray-900 mt-1"><span className="font-bold mr-1">{isHindiPaper ? 'अथवा' : 'OR'}:</span><MathText text={q.alternative.answer || "Answer not available"} /></div>}</div><span className="text-xs font-bold text-gray-500">[{questionMarks(q)}]</span></div>)
                    })}
                </div>
             </div>
@@ -660,10 +1147,10 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     <div className="fixed inset-0 bg-white z-50 flex flex-col overflow-hidden no-print">
       <div className="bg-white border-b px-4 py-3 flex justify-between items-center shadow-sm shrink-0 z-10">
         <div className="flex items-center gap-2">
-           <h2 className="text-lg font-bold text-gray-800">{internalExistingPaper ? (readOnly ? 'View Paper (Read Only)' : 'Edit Paper') : (step === 1 ? 'Exam Details' : step === 2 ? 'Blueprint' : 'Preview & Edit')}</h2>
-           {!readOnly && (isProfessional || isFree || isStarter) && !isAdmin && internalExistingPaper && (
+           <h2 className="text-lg font-bold text-gray-800">{internalExistingPaper ? (viewOnly ? 'View Paper (Read Only)' : 'Edit Paper') : (step === 1 ? 'Exam Details' : step === 2 ? 'Blueprint' : 'Preview & Edit')}</h2>
+           {!viewOnly && userProfile && internalExistingPaper && Entitlements.getPlanDefinition(userProfile).downloadsPerPaper !== null && (
                <div className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
-                   Downloads Used: {internalExistingPaper.downloadCount || 0}/1
+                   Downloads Used: {internalExistingPaper.downloadCount || 0}/{Entitlements.getPlanDefinition(userProfile).downloadsPerPaper}
                </div>
            )}
         </div>
@@ -679,6 +1166,20 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
           {step === 1 && (
             <div className="space-y-6">
               {readOnly && <div className="bg-yellow-100 text-yellow-800 p-2 rounded mb-4 text-center font-bold">You are in Read-Only Mode.</div>}
+              {resumableDraft && (
+                  <div className="bg-amber-50 border border-amber-200 text-amber-900 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <div>
+                          <div className="font-bold">{resumableDraft.chargedAt ? 'Unsaved paper' : 'Unfinished paper'}: {resumableDraft.meta.title} ({resumableDraft.meta.classNum} {resumableDraft.meta.subject})</div>
+                          <div className="text-sm">{resumableDraft.chargedAt
+                              ? 'All sections were generated and the credit has been charged. Resume to edit and save it.'
+                              : `${resumableDraft.blueprint.filter(item => resumableDraft.results[item.id]?.status === DraftSectionStatus.DONE).length} of ${resumableDraft.blueprint.length} sections generated. No credit has been charged yet.`}</div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                          <button onClick={() => handleResumeDraft(resumableDraft)} className="bg-amber-600 text-white px-4 py-2 rounded font-bold hover:bg-amber-700">Resume</button>
+                          <button onClick={() => handleDiscardDraft(resumableDraft)} className="border border-amber-300 px-4 py-2 rounded hover:bg-amber-100">Discard</button>
+                      </div>
+                  </div>
+              )}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                 <div>
                     <label className="block text-sm font-medium mb-1">Class</label>
@@ -702,7 +1203,13 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
               </div>
               <div><label className="block text-sm font-medium mb-1">General Instructions</label><textarea disabled={readOnly} className="w-full border rounded p-2 h-32" value={meta.generalInstructions} onChange={e => setMeta({...meta, generalInstructions: e.target.value})} /></div>
 
-              <div className="pt-6 flex justify-end">
+              <div className="pt-6 flex flex-wrap justify-end gap-3">
+                {!readOnly && !internalExistingPaper && (
+                    <label className="border border-blue-200 text-blue-700 px-6 py-3 rounded-lg font-bold hover:bg-blue-50 cursor-pointer" title="Open a question paper from a DOCX, PDF or text file in the editor">
+                        <i className="fas fa-file-import mr-1"></i> Import Existing Paper
+                        <input type="file" accept=".pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain" onChange={handleImportPaper} className="hidden" />
+                    </label>
+                )}
                 {!readOnly ? (
                     <button onClick={() => setStep(2)} className="bg-blue-600 text-white px-8 py-3 rounded-lg font-bold hover:bg-blue-700">Next <i className="fas fa-arrow-right"></i></button>
                 ) : (
@@ -714,10 +1221,32 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
 
           {step === 2 && (
             <div className="space-y-8">
+              {!readOnly && (
+                <BlueprintTemplateBar userEmail={userEmail} isAdmin={isAdmin} classNum={meta.classNum} subject={meta.subject} blueprint={blueprint} maxMarks={meta.maxMarks} onLoad={handleLoadTemplate} />
+              )}
               {!readOnly && (
               <div className="bg-blue-50 p-4 sm:p-6 rounded-xl border border-blue-100">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
-                  <div className="lg:col-span-1"><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Topic</label><input type="text" className="w-full border rounded p-2" value={topic} onChange={(e) => setTopic(e.target.value)} /></div>
+                  <div className="lg:col-span-1">
+                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Topic{syllabus && !customTopic ? ' (Syllabus)' : ''}</label>
+                      {syllabus && syllabus.units.length > 0 && !customTopic ? (
+                        <select className="w-full border rounded p-2 bg-white" value={pickedTopicValue()} onChange={(e) => handlePickTopic(e.target.value)}>
+                            <option value="">Select a chapter...</option>
+                            {syllabus.units.map((unit, uIdx) => (
+                              <optgroup key={unit.id} label={`Unit ${uIdx + 1}: ${unit.name} (${unit.marks} marks)`}>
+                                <option value={`unit:${unit.id}`}>Whole unit: {unit.name}</option>
+                                {unit.chapters.map(chapter => <option key={chapter.id} value={`chapter:${unit.id}:${chapter.id}`}>{chapter.name}{chapter.marks ? ` (${chapter.marks} marks)` : ''}</option>)}
+                              </optgroup>
+                            ))}
+                            <option value="custom">Other topic (type it)...</option>
+                        </select>
+                      ) : (
+                        <div className="flex gap-1">
+                          <input type="text" className="w-full border rounded p-2" value={topic} onChange={(e) => setTopic(e.target.value)} />
+                          {syllabus && syllabus.units.length > 0 && <button onClick={() => { setCustomTopic(false); setTopic(''); }} className="px-2 border rounded text-gray-500 hover:bg-gray-100" title="Pick from syllabus"><i className="fas fa-list"></i></button>}
+                        </div>
+                      )}
+                  </div>
                   <div className="lg:col-span-1">
                       <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Type</label>
                       <select className="w-full border rounded p-2 bg-white" value={qType} onChange={(e) => setQType(e.target.value)}>
@@ -725,28 +1254,76 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
                       </select>
                   </div>
                   <div className="grid grid-cols-2 gap-3 lg:col-span-2">
+                    <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Difficulty</label>
+                      <select className="w-full border rounded p-2 bg-white" value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty | '')}>
+                          <option value="">Any</option>
+                          {DIFFICULTY_LEVELS.map(d => <option key={d} value={d}>{d}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Bloom's Level</label>
+                      <select className="w-full border rounded p-2 bg-white" value={bloomLevel} onChange={(e) => setBloomLevel(e.target.value as BloomLevel | '')}>
+                          <option value="">Any</option>
+                          {BLOOM_LEVELS.map(b => <option key={b} value={b}>{b}</option>)}
+                      </select>
+                    </div>
                     <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Count</label><input type="number" className="w-full border rounded p-2" value={count} min="1" onChange={(e) => setCount(parseInt(e.target.value) || 0)} /></div>
                     <div><label className="block text-xs font-bold text-gray-500 uppercase mb-1">Marks</label><input type="number" className="w-full border rounded p-2" value={marksPerQ} min="0.5" step="0.5" onChange={(e) => setMarksPerQ(parseFloat(e.target.value) || 0)} /></div>
                   </div>
                   <div className="lg:col-span-1"><button onClick={handleAddToBlueprint} className="w-full bg-blue-600 text-white py-2 rounded font-bold">Add</button></div>
                 </div>
+                <div className="mt-4 pt-4 border-t border-blue-100 flex justify-end">
+                  <button onClick={() => setBankPickerTarget('blueprint')} className="text-sm text-blue-700 font-bold hover:bg-blue-100 px-3 py-1 rounded"><i className="fas fa-book mr-1"></i> Add Section from Question Bank</button>
+                </div>
               </div>
               )}
               <div className="border rounded-lg overflow-hidden shadow-sm">
-                 {blueprint.map((item, idx) => (
+                 {blueprint.map((item, idx) => {
+                     const result = getDraftResult(item);
+                     return (
                      <div key={item.id} className="flex justify-between items-center p-4 border-b">
-                         <div className="flex items-center gap-3"><div className="bg-blue-100 text-blue-800 font-bold px-3 py-1 rounded">{isHindiPaper ? getHindiSectionLabel(idx) : String.fromCharCode(65 + idx)}</div><div><div className="font-bold">{item.topic}</div><div className="text-sm">{item.count} x {item.type}</div></div></div>
-                         {!readOnly && <button onClick={() => handleRemoveBlueprintItem(item.id)}><i className="fas fa-trash text-red-400"></i></button>}
+                         <div className="flex items-center gap-3"><div className="bg-blue-100 text-blue-800 font-bold px-3 py-1 rounded">{getSectionLabel(idx)}</div><div><div className="font-bold">{item.topic}{item.unit && item.unit !== item.topic && <span className="ml-2 text-xs font-normal text-gray-500">{item.unit}</span>}</div><div className="text-sm">{readOnly || item.bankQuestions ? item.count : <input type="number" min="1" className="w-14 border rounded px-1" value={item.count} onChange={(e) => handleUpdateBlueprintItem(item.id, 'count', parseInt(e.target.value) || 0)} title="Count" />} x {item.type}{!readOnly && !item.bankQuestions && <> @ <input type="number" min="0.5" step="0.5" className="w-14 border rounded px-1" value={item.marks} onChange={(e) => handleUpdateBlueprintItem(item.id, 'marks', parseFloat(e.target.value) || 0)} title="Marks per question" /> marks</>}{item.bankQuestions && <span className="ml-2 text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">Question Bank</span>}{item.difficulty && <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">{item.difficulty}</span>}{item.bloomLevel && <span className="ml-2 text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded">{item.bloomLevel}</span>}</div></div></div>
+                         <div className="flex items-center gap-3">
+                             {result?.status === DraftSectionStatus.DONE && <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded font-bold"><i className="fas fa-check"></i> Generated</span>}
+                             {result?.status === DraftSectionStatus.FAILED && (
+                                 <>
+                                     <span className="text-xs bg-red-100 text-red-800 px-2 py-1 rounded font-bold" title={result.error}><i className="fas fa-exclamation-triangle"></i> Failed</span>
+                                     {!readOnly && <button onClick={() => handleGenerateFullPaper(item.id)} className="text-xs border border-red-300 text-red-700 px-2 py-1 rounded hover:bg-red-50"><i className="fas fa-redo"></i> Retry</button>}
+                                 </>
+                             )}
+                             {!readOnly && <button onClick={() => handleRemoveBlueprintItem(item.id)}><i className="fas fa-trash text-red-400"></i></button>}
+                         </div>
                      </div>
-                 ))}
+                     );
+                 })}
               </div>
-              {!readOnly && <div className="pt-6 border-t"><button onClick={handleGenerateFullPaper} className="w-full bg-green-600 text-white py-4 rounded-xl font-bold text-lg" disabled={blueprint.length === 0}>Generate Question Paper</button></div>}
+              {blueprint.length > 0 && blueprintIssues.length > 0 && (
+                <div className="space-y-2">
+                  {blueprintIssues.map((issue, idx) => (
+                    <div key={idx} className={`text-sm px-3 py-2 rounded border ${issue.level === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+                      <i className={`fas ${issue.level === 'error' ? 'fa-times-circle' : 'fa-exclamation-triangle'} mr-2`}></i>{issue.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {blueprint.length > 0 && blueprintIssues.length === 0 && (
+                <div className="text-sm px-3 py-2 rounded border bg-green-50 border-green-200 text-green-700"><i className="fas fa-check-circle mr-2"></i>Blueprint adds up to {meta.maxMarks} marks{blueprintRules ? ' and matches the prescribed pattern' : ''}.</div>
+              )}
+              {!readOnly && <div className="pt-6 border-t"><button onClick={() => handleGenerateFullPaper()} className="w-full bg-green-600 text-white py-4 rounded-xl font-bold text-lg disabled:opacity-50" disabled={blueprint.length === 0 || blueprintIssues.some(i => i.level === 'error')}>{blueprint.some(item => getDraftResult(item)?.status === DraftSectionStatus.DONE) ? `Resume Generation (${blueprint.filter(item => getDraftResult(item)?.status === DraftSectionStatus.DONE).length}/${blueprint.length} sections ready)` : 'Generate Question Paper'}</button></div>}
             </div>
           )}
 
           {step === 3 && (
             <div className="flex flex-col space-y-8">
-              {readOnly && <div className="bg-yellow-100 text-yellow-800 p-2 rounded text-center font-bold">Read-Only Mode: Viewing Paper</div>}
+              {viewOnly && <div className="bg-yellow-100 text-yellow-800 p-2 rounded text-center font-bold">Read-Only Mode: Viewing Paper</div>}
+              {!viewOnly && paperSetCount > 0 && <div className="bg-indigo-50 border border-indigo-200 text-indigo-900 p-2 rounded text-center text-sm">Sets are printed from the saved paper. Choose <b>Single paper</b> below to edit it again.</div>}
+              {importNotice && (
+                  <div className="bg-blue-50 border border-blue-200 text-blue-900 p-3 rounded-lg flex items-start justify-between gap-3">
+                      <div className="text-sm"><i className="fas fa-info-circle mr-1"></i> {importNotice}</div>
+                      <button onClick={() => setImportNotice(null)} className="text-blue-500 hover:text-blue-700 shrink-0" title="Dismiss"><i className="fas fa-times"></i></button>
+                  </div>
+              )}
               <div className="text-center border-b pb-6 space-y-4">
                  <input disabled={readOnly} className="block w-full text-center text-xl font-bold uppercase border-none" value={meta.schoolName} onChange={(e) => setMeta({...meta, schoolName: e.target.value})} placeholder={isHindiPaper ? "विद्यालय का नाम" : "SCHOOL NAME"} />
               </div>
@@ -769,18 +1346,16 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
                       {section.questions.map((q, idx) => {
                         const currentQNum = ++editViewQuestionCounter;
                         
-                        let maxRegenerations = 0;
-                        if (isStarter) maxRegenerations = 1;
-                        else if (isProfessional) maxRegenerations = 2;
-                        else if (userProfile?.subscriptionPlan === SubscriptionPlan.PREMIUM || isAdmin) maxRegenerations = 3;
-                        else if (isFree) maxRegenerations = 1;
-                        
-                        const regenCount = (q as any).regenerateCount || 0;
-                        const isRegenLimitReached = regenCount >= maxRegenerations;
+                        const regenEntitlement = userProfile ? Entitlements.canRegenerate(userProfile, q) : undefined;
+                        const regenCount = q.regenerateCount || 0;
+                        const isRegenLimitReached = !regenEntitlement?.allowed;
 
                         return (
                         <div key={q.id} className="flex gap-3 border-b border-gray-100 pb-6 last:border-0">
-                            <input disabled={readOnly} className="font-bold w-10 text-right" value={q.customNumber || (isHindiPaper ? `प्र. ${currentQNum}` : `Q${currentQNum}.`)} onChange={(e) => handleUpdateQuestion(section.id, q.id, 'customNumber', e.target.value)} />
+                            <div className="flex flex-col items-end gap-1">
+                              <input disabled={readOnly} className="font-bold w-10 text-right" value={q.customNumber || (isHindiPaper ? `प्र. ${currentQNum}` : `Q${currentQNum}.`)} onChange={(e) => handleUpdateQuestion(section.id, q.id, 'customNumber', e.target.value)} />
+                              <input disabled={readOnly || !!q.parts?.length} type="number" min={0} step={0.5} className="w-12 text-xs text-right border rounded p-1" value={questionMarks(q)} onChange={(e) => handleUpdateQuestion(section.id, q.id, 'marks', Number(e.target.value))} title={q.parts?.length ? "Marks come from the sub-parts" : "Marks"} />
+                            </div>
                             <div className="flex-1 space-y-3">
                               <textarea disabled={readOnly} className="w-full p-2 border rounded font-mono" value={q.text} onChange={(e) => handleUpdateQuestion(section.id, q.id, 'text', e.target.value)} rows={Math.max(2, Math.ceil(q.text.length / 45))} />
                               {q.options && <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">{q.options.map((opt, optIdx) => (<div key={optIdx} className="flex gap-2"><span className="font-bold">{String.fromCharCode(65 + optIdx)}.</span><input disabled={readOnly} className="w-full border-none" value={cleanOptionText(opt)} onChange={(e) => { const newOpts = [...q.options!]; newOpts[optIdx] = e.target.value; handleUpdateQuestion(section.id, q.id, 'options', newOpts); }} /></div>))}</div>}
@@ -831,10 +1406,10 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
                                       onClick={() => handleRegenerateQuestion(section.id, q)} 
                                       className={`px-3 py-1 rounded text-xs font-bold flex items-center gap-1 transition-colors ${isRegenLimitReached ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100'}`}
                                       disabled={regeneratingQuestionId === q.id || isRegenLimitReached}
-                                      title={isRegenLimitReached ? "Regeneration limit reached for this question" : "Generate new question"}
+                                      title={isRegenLimitReached ? (regenEntitlement?.reason || "Regeneration limit reached for this question") : "Generate new question"}
                                     >
                                       <i className={`fas fa-sync-alt ${regeneratingQuestionId === q.id ? 'fa-spin' : ''}`}></i>
-                                      Regenerate {regenCount > 0 && `(${regenCount}/${maxRegenerations})`}
+                                      Regenerate {regenCount > 0 && `(${regenCount}/${regenEntitlement?.limit})`}
                                     </button>
 
                                     <button 
@@ -846,24 +1421,151 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
                                       {generatingImageId === q.id ? ' Generating...' : ' AI Diagram'}
                                     </button>
 
+                                    <button 
+                                      onClick={() => handleSaveToBank(q)} 
+                                      className="px-3 py-1 bg-indigo-50 text-indigo-600 rounded hover:bg-indigo-100 text-xs font-bold flex items-center gap-1 transition-colors"
+                                      title="Save this question for reuse in later papers"
+                                    >
+                                      <i className="fas fa-bookmark"></i> Save to Bank
+                                    </button>
+
+                                    <button 
+                                      onClick={() => handleAddPart(section.id, q)} 
+                                      className="px-3 py-1 bg-orange-50 text-orange-700 rounded hover:bg-orange-100 text-xs font-bold flex items-center gap-1 transition-colors"
+                                      title="Split this question into parts (a), (b), (c) with their own marks"
+                                    >
+                                      <i className="fas fa-list-ol"></i> Add Sub-part
+                                    </button>
+
+                                    {PASSAGE_QUESTION_TYPES.includes(q.type) && !q.passage && (
+                                      <button 
+                                        onClick={() => handleUpdatePassage(section.id, q, 'text', '')} 
+                                        className="px-3 py-1 bg-sky-50 text-sky-700 rounded hover:bg-sky-100 text-xs font-bold flex items-center gap-1 transition-colors"
+                                        title="Add the case / paragraph that the sub-parts refer to"
+                                      >
+                                        <i className="fas fa-align-left"></i> Add Passage
+                                      </button>
+                                    )}
+
+                                    {!q.alternative && (
+                                      <button 
+                                        onClick={() => handleAddAlternative(section.id, q)} 
+                                        className="px-3 py-1 bg-teal-50 text-teal-700 rounded hover:bg-teal-100 text-xs font-bold flex items-center gap-1 transition-colors"
+                                        title="Give students an internal choice for this question"
+                                      >
+                                        <i className="fas fa-code-branch"></i> Add OR Alternative
+                                      </button>
+                                    )}
+
                                     <div className="relative">
                                       <input type="file" id={`upload-${q.id}`} className="hidden" accept="image/*" onChange={(e) => handleUploadImage(section.id, q.id, e)} />
                                       <label htmlFor={`upload-${q.id}`} className="px-3 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 text-xs font-bold cursor-pointer flex items-center gap-1 transition-colors h-full">
                                         <i className="fas fa-upload"></i> Upload Image
                                       </label>
                                     </div>
+
+                                    <div className="ml-auto flex gap-1">
+                                      <select className="border rounded px-1 text-xs bg-white" value={q.difficulty || ''} onChange={(e) => handleUpdateQuestion(section.id, q.id, 'difficulty', e.target.value || undefined)} title="Difficulty">
+                                        <option value="">Difficulty</option>
+                                        {DIFFICULTY_LEVELS.map(d => <option key={d} value={d}>{d}</option>)}
+                                      </select>
+                                      <select className="border rounded px-1 text-xs bg-white" value={q.bloomLevel || ''} onChange={(e) => handleUpdateQuestion(section.id, q.id, 'bloomLevel', e.target.value || undefined)} title="Bloom's Level">
+                                        <option value="">Bloom's Level</option>
+                                        {BLOOM_LEVELS.map(b => <option key={b} value={b}>{b}</option>)}
+                                      </select>
+                                    </div>
                                 </div>
                               )}
                               {q.imageUrl && <div className="mt-2 w-64"><ResizableImage src={q.imageUrl} initialWidth={q.imageWidth} onResize={(w) => handleUpdateQuestion(section.id, q.id, 'imageWidth', w)} onRemove={() => handleUpdateQuestion(section.id, q.id, 'imageUrl', undefined)} readOnly={readOnly} /></div>}
+
+                              {q.passage && (
+                                <div className="border rounded p-3 bg-gray-50 space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-bold text-xs uppercase text-gray-500">Passage</span>
+                                        {!readOnly && (
+                                          <div className="flex gap-2">
+                                            <input type="file" id={`upload-passage-${q.id}`} className="hidden" accept="image/*" onChange={(e) => handleUploadPassageImage(section.id, q, e)} />
+                                            <label htmlFor={`upload-passage-${q.id}`} className="px-2 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 text-xs font-bold cursor-pointer"><i className="fas fa-upload"></i> Image</label>
+                                            <button onClick={() => handleRemovePassage(section.id, q)} className="px-2 py-1 text-red-500 hover:bg-red-50 rounded text-xs font-bold" title="Remove Passage"><i className="fas fa-times"></i> Remove</button>
+                                          </div>
+                                        )}
+                                    </div>
+                                    <textarea disabled={readOnly} className="w-full p-2 border rounded font-mono" value={q.passage.text} onChange={(e) => handleUpdatePassage(section.id, q, 'text', e.target.value)} placeholder="Case / paragraph text" rows={Math.max(3, Math.ceil(q.passage.text.length / 60))} />
+                                    <textarea disabled={readOnly} className="w-full p-2 border rounded font-mono text-sm" value={(q.passage.table || []).map(r => r.cells.join('|')).join('\n')} onChange={(e) => handleUpdatePassageTable(section.id, q, e.target.value)} placeholder={"Optional table: one row per line, cells separated by |\nFirst row is the header"} rows={Math.max(2, (q.passage.table || []).length)} />
+                                    {q.passage.imageUrl && <div className="mt-2 w-64"><ResizableImage src={q.passage.imageUrl} initialWidth={q.passage.imageWidth} onResize={(w) => handleUpdatePassage(section.id, q, 'imageWidth', w)} onRemove={() => handleUpdatePassage(section.id, q, 'imageUrl', undefined)} readOnly={readOnly} /></div>}
+                                </div>
+                              )}
+
+                              {q.parts && q.parts.length > 0 && (
+                                <div className="space-y-2">
+                                    {q.parts.map((part, pIdx) => (
+                                        <div key={part.id} className="flex gap-2 items-start">
+                                            <span className="font-bold pt-2">{partLabel(pIdx, isHindiPaper)}</span>
+                                            <div className="flex-1 space-y-1">
+                                                <textarea disabled={readOnly} className="w-full p-2 border rounded font-mono" value={part.text} onChange={(e) => handleUpdatePart(section.id, q, part.id, 'text', e.target.value)} placeholder="Sub-question" rows={Math.max(1, Math.ceil(part.text.length / 45))} />
+                                                {PASSAGE_QUESTION_TYPES.includes(q.type) && (
+                                                  <select disabled={readOnly} className="border rounded p-1 text-xs bg-white" value={part.type || QuestionType.SA} onChange={(e) => handleUpdatePartType(section.id, q, part, e.target.value as QuestionType)}>
+                                                    {PASSAGE_PART_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                                                  </select>
+                                                )}
+                                                {part.options && <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">{part.options.map((opt, optIdx) => (<div key={optIdx} className="flex gap-2"><span className="font-bold text-sm">{String.fromCharCode(97 + optIdx)}.</span><input disabled={readOnly} className="w-full border-b text-sm" value={cleanOptionText(opt)} onChange={(e) => { const newOpts = [...part.options!]; newOpts[optIdx] = e.target.value; handleUpdatePart(section.id, q, part.id, 'options', newOpts); }} /></div>))}</div>}
+                                                <input disabled={readOnly} className="w-full p-1 border rounded text-sm" value={part.answer || ''} onChange={(e) => handleUpdatePart(section.id, q, part.id, 'answer', e.target.value)} placeholder="Answer for this part (shown in the answer key)" />
+                                                {part.imageUrl && <div className="mt-2 w-64"><ResizableImage src={part.imageUrl} initialWidth={part.imageWidth} onResize={(w) => handleUpdatePart(section.id, q, part.id, 'imageWidth', w)} onRemove={() => handleUpdatePart(section.id, q, part.id, 'imageUrl', undefined)} readOnly={readOnly} /></div>}
+                                            </div>
+                                            <input disabled={readOnly} type="number" min={0} step={0.5} className="w-16 p-1 border rounded text-sm" value={part.marks} onChange={(e) => handleUpdatePart(section.id, q, part.id, 'marks', Number(e.target.value))} title="Marks for this part" />
+                                            {!readOnly && (
+                                              <div className="flex flex-col gap-1">
+                                                <input type="file" id={`upload-part-${part.id}`} className="hidden" accept="image/*" onChange={(e) => handleUploadPartImage(section.id, q, part.id, e)} />
+                                                <label htmlFor={`upload-part-${part.id}`} className="p-1 text-gray-500 hover:bg-gray-100 rounded cursor-pointer" title="Upload Image"><i className="fas fa-upload"></i></label>
+                                                <button onClick={() => handleDeletePart(section.id, q, part.id)} className="p-1 text-red-500 hover:bg-red-50 rounded" title="Delete Part"><i className="fas fa-times"></i></button>
+                                              </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                    <div className="text-xs text-gray-500 text-right">Total: {questionMarks(q)} mark(s)</div>
+                                </div>
+                              )}
+
+                              {q.alternative && (
+                                <div className="border-l-4 border-teal-300 pl-3 space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-bold text-teal-700">{isHindiPaper ? 'अथवा' : 'OR'}</span>
+                                        {!readOnly && (
+                                          <div className="flex gap-2">
+                                            <input type="file" id={`upload-alt-${q.id}`} className="hidden" accept="image/*" onChange={(e) => handleUploadAlternativeImage(section.id, q.id, e)} />
+                                            <label htmlFor={`upload-alt-${q.id}`} className="px-2 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 text-xs font-bold cursor-pointer"><i className="fas fa-upload"></i> Image</label>
+                                            <button onClick={() => handleRemoveAlternative(section.id, q.id)} className="px-2 py-1 text-red-500 hover:bg-red-50 rounded text-xs font-bold" title="Remove OR Alternative"><i className="fas fa-times"></i> Remove</button>
+                                          </div>
+                                        )}
+                                    </div>
+                                    <textarea disabled={readOnly} className="w-full p-2 border rounded font-mono" value={q.alternative.text} onChange={(e) => handleUpdateAlternative(section.id, q.id, 'text', e.target.value)} placeholder="Alternative question" rows={Math.max(2, Math.ceil(q.alternative.text.length / 45))} />
+                                    {q.alternative.options && <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">{q.alternative.options.map((opt, optIdx) => (<div key={optIdx} className="flex gap-2"><span className="font-bold">{String.fromCharCode(65 + optIdx)}.</span><input disabled={readOnly} className="w-full border-b" value={cleanOptionText(opt)} onChange={(e) => { const newOpts = [...q.alternative!.options!]; newOpts[optIdx] = e.target.value; handleUpdateAlternative(section.id, q.id, 'options', newOpts); }} placeholder={`Option ${String.fromCharCode(65 + optIdx)}`} /></div>))}</div>}
+                                    {q.type === QuestionType.MATCH && q.alternative.matchPairs && q.alternative.matchPairs.map((pair, pIdx) => (
+                                        <div key={pIdx} className="flex gap-2">
+                                            <input disabled={readOnly} className="flex-1 border rounded p-1 text-sm" value={pair.left} onChange={(e) => { const newPairs = q.alternative!.matchPairs!.map((p, i) => i === pIdx ? { ...p, left: e.target.value } : p); handleUpdateAlternative(section.id, q.id, 'matchPairs', newPairs); }} placeholder={`${String.fromCharCode(65 + pIdx)}. Left Item`} />
+                                            <input disabled={readOnly} className="flex-1 border rounded p-1 text-sm" value={pair.right} onChange={(e) => { const newPairs = q.alternative!.matchPairs!.map((p, i) => i === pIdx ? { ...p, right: e.target.value } : p); handleUpdateAlternative(section.id, q.id, 'matchPairs', newPairs); }} placeholder={`${pIdx + 1}. Right Item`} />
+                                        </div>
+                                    ))}
+                                    <input disabled={readOnly} className="w-full p-2 border rounded text-sm" value={q.alternative.answer || ''} onChange={(e) => handleUpdateAlternative(section.id, q.id, 'answer', e.target.value)} placeholder="Answer for the alternative (shown in the answer key)" />
+                                    {q.alternative.imageUrl && <div className="mt-2 w-64"><ResizableImage src={q.alternative.imageUrl} initialWidth={q.alternative.imageWidth} onResize={(w) => handleUpdateAlternative(section.id, q.id, 'imageWidth', w)} onRemove={() => handleUpdateAlternative(section.id, q.id, 'imageUrl', undefined)} readOnly={readOnly} /></div>}
+                                </div>
+                              )}
                             </div>
                         </div>
                       )})}
                     </div>
-                    {!readOnly && <button onClick={() => handleAddQuestionToSection(section.id)} className="mt-4 w-full border-2 border-dashed p-2 text-gray-400">Add Question</button>}
+                    {!readOnly && (
+                        <div className="mt-4 flex gap-2">
+                            <button onClick={() => handleAddQuestionToSection(section.id)} className="flex-1 border-2 border-dashed p-2 text-gray-400">Add Question</button>
+                            <button onClick={() => setBankPickerTarget(section.id)} className="flex-1 border-2 border-dashed p-2 text-gray-400"><i className="fas fa-book mr-1"></i> Add from Question Bank</button>
+                        </div>
+                    )}
                   </div>
                 ))}
               </div>
 
+              <CognitiveMixSummary sections={sections} blueprint={requestedMix} />
+
               <div className="mt-12 pt-8 border-t flex flex-col gap-4">
                  {!readOnly && <button onClick={handleSavePaper} className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold">{internalExistingPaper ? 'Update Paper' : 'Save Paper'}</button>}
                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
@@ -899,6 +1601,42 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
                        </button>
                    )}
                  </div>
+                 {!readOnly && paperSetCount === 0 && (
+                   <div className="flex flex-wrap items-center gap-2 text-sm">
+                     <span className="font-bold text-gray-600"><i className="fas fa-file-word mr-1 text-blue-700"></i> Word (.docx):</span>
+                     <button onClick={() => handleDownloadWord('paper')} className="px-3 py-1 border border-blue-200 text-blue-700 rounded hover:bg-blue-50">Paper</button>
+                     <button onClick={() => handleDownloadWord('key')} className="px-3 py-1 border border-blue-200 text-blue-700 rounded hover:bg-blue-50">Answer Key</button>
+                     <span className="font-bold text-gray-600 ml-4"><i className="fas fa-file-code mr-1 text-green-700"></i> LaTeX:</span>
+                     <button onClick={handleDownloadLatex} className="px-3 py-1 border border-green-200 text-green-700 rounded hover:bg-green-50" title="paper.tex, answer-key.tex and images for Overleaf (XeLaTeX)">Paper + Key (.zip)</button>
+                   </div>
+                 )}
+                 {!viewOnly && (
+                   <div className="border rounded-xl p-4 bg-gray-50">
+                     <div className="flex flex-wrap items-center gap-3">
+                       <span className="font-bold text-gray-700"><i className="fas fa-clone mr-1"></i> Paper Sets</span>
+                       <select className="border rounded p-2 bg-white" value={setsToGenerate} onChange={(e) => setSetsToGenerate(Number(e.target.value))}>
+                         {[2, 3, 4].map(n => <option key={n} value={n}>{n} sets ({SET_LABELS.slice(0, n).join('/')})</option>)}
+                       </select>
+                       <button onClick={handleGenerateSets} className="px-4 py-2 bg-indigo-600 text-white rounded font-bold hover:bg-indigo-700" title="Shuffle question order and MCQ options for each set. Counts as one download.">Generate Sets</button>
+                       {paperSetCount > 0 && <button onClick={() => { setPaperSetCount(0); setActiveSet(0); }} className="text-sm text-gray-500 hover:text-red-500">Single paper</button>}
+                     </div>
+                     {paperSetCount > 0 && (
+                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3">
+                         {SET_LABELS.slice(0, paperSetCount).map((label, setIdx) => (
+                           <div key={label} className="flex items-center gap-2 bg-white border rounded p-2">
+                             <span className="font-bold w-14">Set {label}</span>
+                             <button onClick={() => { setActiveSet(setIdx); setPreviewMode('paper'); setShowPreview(true); }} className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200">Preview</button>
+                             <button onClick={() => handleDownloadSet(setIdx, 'paper')} className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700">Paper</button>
+                             <button onClick={() => handleDownloadSet(setIdx, 'key')} className="px-2 py-1 text-xs border border-red-200 text-red-600 rounded hover:bg-red-50">Key</button>
+                             <button onClick={() => handleDownloadSetWord(setIdx, 'paper')} className="px-2 py-1 text-xs border border-blue-200 text-blue-700 rounded hover:bg-blue-50" title="Word (.docx)"><i className="fas fa-file-word"></i> Paper</button>
+                             <button onClick={() => handleDownloadSetWord(setIdx, 'key')} className="px-2 py-1 text-xs border border-blue-200 text-blue-700 rounded hover:bg-blue-50" title="Word (.docx)"><i className="fas fa-file-word"></i> Key</button>
+                             <button onClick={() => handleDownloadSetLatex(setIdx)} className="px-2 py-1 text-xs border border-green-200 text-green-700 rounded hover:bg-green-50" title="LaTeX paper and key (.zip)"><i className="fas fa-file-code"></i> TeX</button>
+                           </div>
+                         ))}
+                       </div>
+                     )}
+                   </div>
+                 )}
               </div>
             </div>
           )}
@@ -907,17 +1645,22 @@ const PaperGenerator: React.FC<Props> = ({ userEmail, existingPaper: propExistin
     </div>
     
     <div id="print-area" className="hidden print-only"><div style={{ width: '210mm' }}>{previewMode === 'key' ? renderAnswerKeyContent() : renderPrintContent()}</div></div>
+
+    {bankPickerTarget && (
+        <QuestionBankPicker userEmail={userEmail} classNum={meta.classNum} subject={meta.subject} onClose={() => setBankPickerTarget(null)} onAdd={handleAddFromBank} />
+    )}
     
     {showPreview && (
       <div className="fixed inset-0 z-[100] bg-black bg-opacity-80 flex items-start pt-8 overflow-auto">
          <div className="w-fit mx-auto relative px-4 pb-10">
              <div className="sticky top-4 right-4 flex gap-2 z-[110] justify-end mb-2 bg-white/10 backdrop-blur-md p-2 rounded-lg">
                 <button onClick={() => setShowPreview(false)} className="bg-white w-10 h-10 rounded-full"><i className="fas fa-times"></i></button>
-                {!readOnly && !downloadedFiles[previewMode] && <button onClick={() => handleDownloadPDF(previewMode)} className="bg-red-600 text-white w-10 h-10 rounded-full" title={`Download ${previewMode === 'key' ? 'Answer Key' : 'Question Paper'}`}><i className="fas fa-download"></i></button>}
+                {!viewOnly && paperSetCount > 0 && <button onClick={() => handleDownloadSet(activeSet, previewMode)} className="bg-red-600 text-white w-10 h-10 rounded-full" title={`Download ${setLabel} ${previewMode === 'key' ? 'Answer Key' : 'Question Paper'}`}><i className="fas fa-download"></i></button>}
+                {!readOnly && paperSetCount === 0 && !downloadedFiles[previewMode] && <button onClick={() => handleDownloadPDF(previewMode)} className="bg-red-600 text-white w-10 h-10 rounded-full" title={`Download ${previewMode === 'key' ? 'Answer Key' : 'Question Paper'}`}><i className="fas fa-download"></i></button>}
              </div>
              <div className="bg-white shadow-2xl overflow-hidden rounded-sm">
                  <div className="p-2 bg-gray-100 text-center font-bold border-b text-gray-500 uppercase text-xs">
-                     {previewMode === 'key' ? 'Answer Key Preview' : 'Question Paper Preview'}
+                     {previewMode === 'key' ? 'Answer Key Preview' : 'Question Paper Preview'}{setLabel && ` • ${setLabel}`}
                  </div>
                  {previewMode === 'key' ? renderAnswerKeyContent() : renderPrintContent()}
              </div>
@@ -0,0 +1,112 @@
+
+import React, { useState, useEffect } from 'react';
+import { BankQuestion, Question } from '../types';
+import { StorageService } from '../services/storageService';
+
+interface Props {
+  userEmail: string;
+  classNum: string;
+  subject: string;
+  onClose: () => void;
+  onAdd: (questions: Question[]) => void;
+}
+
+const QuestionBankPicker: React.FC<Props> = ({ userEmail, classNum, subject, onClose, onAdd }) => {
+  const [entries, setEntries] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [topicFilter, setTopicFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const load = async () => {
+    try {
+      setEntries(await StorageService.getQuestionBank(userEmail, classNum, subject));
+    } catch (e) {
+      console.error("Failed to load question bank", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [userEmail, classNum, subject]);
+
+  const topics = Array.from(new Set(entries.map(e => e.topic))).sort();
+  const types = Array.from(new Set(entries.map(e => e.type))).sort();
+  const term = search.trim().toLowerCase();
+  const visible = entries.filter(e =>
+    (!topicFilter || e.topic === topicFilter) &&
+    (!typeFilter || e.type === typeFilter) &&
+    (!term || e.question.text.toLowerCase().includes(term) || e.topic.toLowerCase().includes(term))
+  );
+
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const handleDelete = async (entry: BankQuestion) => {
+    if (!window.confirm("Remove this question from your bank?")) return;
+    await StorageService.deleteFromQuestionBank(entry.id);
+    setSelected(prev => prev.filter(s => s !== entry.id));
+    load();
+  };
+
+  const handleAdd = () => {
+    // Keep the teacher's selection order stable by following the list order
+    onAdd(entries.filter(e => selected.includes(e.id)).map(e => e.question));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[70] p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="bg-gray-100 p-4 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Question Bank</h2>
+            <p className="text-xs text-gray-500">{classNum} • {subject}. Questions from the bank do not use credits.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-red-500 p-2"><i className="fas fa-times"></i></button>
+        </div>
+        <div className="p-4 border-b grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input type="text" className="border rounded p-2" placeholder="Search text or topic" value={search} onChange={(e) => setSearch(e.target.value)} />
+          <select className="border rounded p-2 bg-white" value={topicFilter} onChange={(e) => setTopicFilter(e.target.value)}>
+            <option value="">All topics</option>
+            {topics.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select className="border rounded p-2 bg-white" value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)}>
+            <option value="">All types</option>
+            {types.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loading && <div className="text-center text-gray-500 py-8">Loading...</div>}
+          {!loading && visible.length === 0 && (
+            <div className="text-center text-gray-500 py-8">
+              {entries.length === 0 ? 'No saved questions for this class and subject yet. Use "Save to Bank" on a question in the editor.' : 'No questions match your filters.'}
+            </div>
+          )}
+          {visible.map(entry => (
+            <label key={entry.id} className={`flex gap-3 p-3 border rounded-lg cursor-pointer ${selected.includes(entry.id) ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'}`}>
+              <input type="checkbox" className="mt-1" checked={selected.includes(entry.id)} onChange={() => toggle(entry.id)} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm whitespace-pre-wrap line-clamp-3">{entry.question.text}</p>
+                <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                  <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded">{entry.topic}</span>
+                  <span className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded">{entry.type}</span>
+                  <span className="bg-green-100 text-green-800 px-2 py-0.5 rounded">{entry.question.marks} mark(s)</span>
+                </div>
+              </div>
+              <button type="button" onClick={(e) => { e.preventDefault(); handleDelete(entry); }} className="text-red-400 hover:text-red-600 self-start" title="Remove from bank"><i className="fas fa-trash"></i></button>
+            </label>
+          ))}
+        </div>
+        <div className="p-4 bg-gray-50 border-t flex justify-between items-center">
+          <span className="text-sm text-gray-600">{selected.length} selected</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded border hover:bg-gray-100">Cancel</button>
+            <button onClick={handleAdd} disabled={selected.length === 0} className="px-4 py-2 rounded bg-blue-600 text-white font-bold hover:bg-blue-700 disabled:opacity-50">Add Selected</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankPicker;
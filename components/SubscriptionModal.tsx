@@ -1,8 +1,9 @@
 
-import React, { useState } from 'react';
-import { PRICING, UPI_QR_IMAGE } from '../constants';
+import React, { useState, useEffect } from 'react';
+import { UPI_QR_IMAGE } from '../constants';
 import { StorageService } from '../services/storageService';
-import { User, SubscriptionPlan } from '../types';
+import { GSTIN_PATTERN } from '../services/invoiceService';
+import { User, SubscriptionPlan, PlanConfig } from '../types';
 
 interface Props {
   user: User;
@@ -11,8 +12,22 @@ interface Props {
 }
 
 const SubscriptionModal: React.FC<Props> = ({ user, onClose, onSuccess }) => {
-  const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan>(SubscriptionPlan.PROFESSIONAL);
+  const [plans, setPlans] = useState<PlanConfig[]>([]);
+  const [selectedPlan, setSelectedPlan] = useState<string>(SubscriptionPlan.PROFESSIONAL);
   const [proof, setProof] = useState<string>('');
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string, discount: number, finalAmount: number } | null>(null);
+  const [couponError, setCouponError] = useState('');
+  const [gstin, setGstin] = useState(user.gstin || '');
+
+  useEffect(() => {
+    StorageService.getPlans().then(all => {
+      // The free trial is granted on registration, not bought
+      const purchasable = all.filter(p => p.active && p.id !== SubscriptionPlan.FREE);
+      setPlans(purchasable);
+      if (purchasable.length > 0 && !purchasable.some(p => p.id === SubscriptionPlan.PROFESSIONAL)) setSelectedPlan(purchasable[0].id);
+    }).catch(e => console.error("Failed to load plans", e));
+  }, []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -23,10 +38,30 @@ const SubscriptionModal: React.FC<Props> = ({ user, onClose, onSuccess }) => {
     }
   };
 
+  const handleSelectPlan = (planId: string) => {
+    setSelectedPlan(planId);
+    // The discount depends on the plan, so the code has to be applied again
+    setAppliedCoupon(null);
+    setCouponError('');
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) return;
+    try {
+        const { coupon, discount, finalAmount } = await StorageService.validateCoupon(couponInput, selectedPlan);
+        setAppliedCoupon({ code: coupon.code, discount, finalAmount });
+        setCouponError('');
+    } catch (e: any) {
+        setAppliedCoupon(null);
+        setCouponError(e.message);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!proof) return alert("Please upload payment screenshot");
+    if (gstin.trim() && !GSTIN_PATTERN.test(gstin.trim().toUpperCase())) return alert("Please enter a valid 15-character GSTIN or leave it empty");
     try {
-        await StorageService.createPaymentRequest(user.email, selectedPlan, proof);
+        await StorageService.createPaymentRequest(user.email, selectedPlan, proof, appliedCoupon?.code, gstin.trim() || undefined);
         alert("Payment submitted for approval!");
         onSuccess();
         onClose();
@@ -39,24 +74,44 @@ const SubscriptionModal: React.FC<Props> = ({ user, onClose, onSuccess }) => {
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl shadow-2xl max-w-md w-full overflow-hidden">
         <div className="bg-blue-600 p-4 text-white flex justify-between items-center"><h2 className="text-xl font-bold">Upgrade Plan</h2><button onClick={onClose}><i className="fas fa-times"></i></button></div>
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 max-h-[80vh] overflow-y-auto">
           <div className="grid grid-cols-1 gap-3">
-            {[SubscriptionPlan.STARTER, SubscriptionPlan.PROFESSIONAL, SubscriptionPlan.PREMIUM].map((plan) => (
-              <button key={plan} onClick={() => setSelectedPlan(plan)} className={`p-3 border-2 rounded-lg text-left transition-all ${selectedPlan === plan ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}>
+            {plans.length === 0 && <div className="text-center text-gray-500 py-4">No plans are available right now.</div>}
+            {plans.map((plan) => (
+              <button key={plan.id} onClick={() => handleSelectPlan(plan.id)} className={`p-3 border-2 rounded-lg text-left transition-all ${selectedPlan === plan.id ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}>
                 <div className="flex justify-between items-center">
                     <div>
-                        <div className="font-bold text-gray-800">{PRICING[plan].label}</div>
-                        <div className="text-sm text-gray-500">{PRICING[plan].papers} Papers</div>
+                        <div className="font-bold text-gray-800">{plan.label}</div>
+                        <div className="text-sm text-gray-500">{plan.credits} Papers{plan.validityDays !== null && ` • ${plan.validityDays} days`}</div>
+                        <div className="text-xs text-gray-400">{plan.downloadsPerPaper === null ? 'Unlimited downloads' : `${plan.downloadsPerPaper} download(s) per paper`} • {plan.regenerationsPerQuestion} regeneration(s) per question{!plan.aiImages && ' • No AI diagrams'}</div>
                     </div>
-                    <div className="text-xl font-bold text-blue-600">₹{PRICING[plan].price}</div>
+                    <div className="text-xl font-bold text-blue-600">₹{plan.price}</div>
                 </div>
               </button>
             ))}
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Coupon Code</label>
+            <div className="flex gap-2">
+              <input type="text" className="flex-1 border rounded p-2 uppercase" value={couponInput} onChange={(e) => { setCouponInput(e.target.value); setCouponError(''); }} placeholder="Optional" />
+              <button onClick={handleApplyCoupon} disabled={!couponInput.trim()} className="px-4 py-2 rounded border border-blue-600 text-blue-600 font-bold hover:bg-blue-50 disabled:opacity-50">Apply</button>
+            </div>
+            {couponError && <p className="text-xs text-red-600 mt-1">{couponError}</p>}
+            {appliedCoupon && (
+              <div className="mt-2 text-sm bg-green-50 border border-green-200 rounded p-2 flex justify-between items-center">
+                <span className="text-green-800"><i className="fas fa-tag mr-1"></i>{appliedCoupon.code}: -₹{appliedCoupon.discount}</span>
+                <span className="font-bold text-green-800">Pay ₹{appliedCoupon.finalAmount}</span>
+              </div>
+            )}
+          </div>
           <div className="flex flex-col items-center space-y-2">
             <p className="text-sm text-gray-600">Scan to pay via UPI</p>
             <img src={UPI_QR_IMAGE} alt="UPI QR" className="w-32 h-32 border rounded-lg" />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">School GSTIN <span className="text-gray-400 font-normal">(optional, printed on your invoice)</span></label>
+            <input type="text" maxLength={15} className="w-full border rounded p-2 uppercase" value={gstin} onChange={(e) => setGstin(e.target.value)} placeholder="e.g. 08ABCDE1234F1Z5" />
+          </div>
           <div><label className="block text-sm font-medium text-gray-700 mb-2">Upload Payment Screenshot</label><input type="file" accept="image/*" onChange={handleFileChange} className="block w-full text-sm text-gray-500" /></div>
           <button onClick={handleSubmit} disabled={!proof} className={`w-full py-3 rounded-lg font-bold text-white ${proof ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-400'}`}>Submit for Approval</button>
         </div>
@@ -0,0 +1,132 @@
+
+import React, { useState, useEffect } from 'react';
+import { SyllabusUnit } from '../types';
+import { StorageService } from '../services/storageService';
+import { readSyllabusDocument, SyllabusImport } from '../services/syllabusImport';
+import SyllabusImportReview from './SyllabusImportReview';
+
+interface Props {
+  classNum: string;
+  subject: string;
+}
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+const SyllabusEditor: React.FC<Props> = ({ classNum, subject }) => {
+  const [units, setUnits] = useState<SyllabusUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [pendingImport, setPendingImport] = useState<SyllabusImport | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    StorageService.getSyllabus(classNum, subject)
+      .then(s => setUnits(s?.units || []))
+      .catch(e => console.error("Failed to load syllabus", e))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(load, [classNum, subject]);
+
+  const updateUnit = (unitId: string, patch: Partial<SyllabusUnit>) =>
+    setUnits(prev => prev.map(u => u.id === unitId ? { ...u, ...patch } : u));
+
+  const updateChapter = (unit: SyllabusUnit, chapterId: string, patch: { name?: string; marks?: number }) =>
+    updateUnit(unit.id, { chapters: unit.chapters.map(c => c.id === chapterId ? { ...c, ...patch } : c) });
+
+  const moveUnit = (idx: number, delta: number) => setUnits(prev => {
+    const next = [...prev];
+    const target = idx + delta;
+    if (target < 0 || target >= next.length) return prev;
+    [next[idx], next[target]] = [next[target], next[idx]];
+    return next;
+  });
+
+  const handleSave = async () => {
+    try {
+      await StorageService.saveSyllabus({ classNum, subject, units });
+      setStatus('Syllabus saved!');
+      setTimeout(() => setStatus(''), 3000);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingImport(await readSyllabusDocument(new Uint8Array(await file.arrayBuffer()), file.name, file.type));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const totalMarks = units.reduce((sum, u) => sum + (u.marks || 0), 0);
+
+  if (loading) return <div className="text-center text-gray-500 py-6">Loading syllabus...</div>;
+
+  return (
+    <div className="space-y-4">
+      {units.length === 0 && <p className="text-gray-400 text-sm text-center">No units yet. Add the syllabus units and their chapters below.</p>}
+      {units.map((unit, uIdx) => {
+        const chapterMarks = unit.chapters.reduce((sum, c) => sum + (c.marks || 0), 0);
+        return (
+          <div key={unit.id} className="border rounded-lg bg-white p-4">
+            <div className="flex flex-wrap gap-2 items-center mb-3">
+              <span className="font-bold text-gray-500 w-16">Unit {uIdx + 1}</span>
+              <input type="text" className="flex-1 min-w-[10rem] border rounded p-2 font-medium" placeholder="Unit name" value={unit.name} onChange={(e) => updateUnit(unit.id, { name: e.target.value })} />
+              <input type="number" min={0} className="w-20 border rounded p-2" value={unit.marks} onChange={(e) => updateUnit(unit.id, { marks: Number(e.target.value) })} title="Unit weightage (marks)" />
+              <span className="text-sm text-gray-500">marks</span>
+              <button onClick={() => moveUnit(uIdx, -1)} className="p-2 text-gray-400 hover:text-gray-700" title="Move up"><i className="fas fa-arrow-up"></i></button>
+              <button onClick={() => moveUnit(uIdx, 1)} className="p-2 text-gray-400 hover:text-gray-700" title="Move down"><i className="fas fa-arrow-down"></i></button>
+              <button onClick={() => { if (window.confirm(`Delete unit "${unit.name || uIdx + 1}" and its chapters?`)) setUnits(prev => prev.filter(u => u.id !== unit.id)); }} className="p-2 text-red-400 hover:text-red-600" title="Delete Unit"><i className="fas fa-trash"></i></button>
+            </div>
+            <div className="pl-4 sm:pl-16 space-y-2">
+              {unit.chapters.map(chapter => (
+                <div key={chapter.id} className="flex gap-2 items-center">
+                  <i className="fas fa-book-open text-gray-300"></i>
+                  <input type="text" className="flex-1 border rounded p-1" placeholder="Chapter name" value={chapter.name} onChange={(e) => updateChapter(unit, chapter.id, { name: e.target.value })} />
+                  <input type="number" min={0} className="w-20 border rounded p-1" placeholder="Marks" value={chapter.marks || ''} onChange={(e) => updateChapter(unit, chapter.id, { marks: Number(e.target.value) || undefined })} title="Chapter weightage (optional)" />
+                  <button onClick={() => updateUnit(unit.id, { chapters: unit.chapters.filter(c => c.id !== chapter.id) })} className="text-red-400 hover:text-red-600 p-1"><i className="fas fa-times"></i></button>
+                </div>
+              ))}
+              <div className="flex justify-between items-center">
+                <button onClick={() => updateUnit(unit.id, { chapters: [...unit.chapters, { id: generateId(), name: '' }] })} className="text-sm text-blue-600 font-bold hover:underline"><i className="fas fa-plus mr-1"></i> Add Chapter</button>
+                {chapterMarks > 0 && chapterMarks !== unit.marks && <span className="text-xs text-orange-600">Chapters add up to {chapterMarks} of {unit.marks} marks</span>}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex gap-2">
+          <button onClick={() => setUnits(prev => [...prev, { id: generateId(), name: '', marks: 0, chapters: [] }])} className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"><i className="fas fa-plus mr-1"></i> Add Unit</button>
+          <label className="border border-blue-200 text-blue-700 px-4 py-2 rounded hover:bg-blue-50 cursor-pointer" title="Import units and chapters from a PDF, DOCX or text syllabus">
+            <i className="fas fa-file-import mr-1"></i> Import from File
+            <input type="file" accept=".pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain" onChange={handleImportFile} className="hidden" />
+          </label>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-600">Total weightage: <b>{totalMarks}</b> marks</span>
+          {status && <span className="text-green-600 text-sm font-bold">{status}</span>}
+          <button onClick={handleSave} className="bg-green-600 text-white px-6 py-2 rounded font-bold hover:bg-green-700"><i className="fas fa-save mr-1"></i> Save Syllabus</button>
+        </div>
+      </div>
+      {pendingImport && (
+        <SyllabusImportReview
+          classNum={classNum}
+          subject={subject}
+          fileName={pendingImport.fileName}
+          sourceText={pendingImport.text}
+          units={pendingImport.units}
+          onClose={() => setPendingImport(null)}
+          onSaved={() => { setPendingImport(null); load(); }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SyllabusEditor;
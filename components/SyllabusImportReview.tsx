@@ -0,0 +1,118 @@
+
+import React, { useState, useEffect } from 'react';
+import { SyllabusUnit } from '../types';
+import { StorageService } from '../services/storageService';
+import { mergeSyllabusUnits } from '../services/syllabusImport';
+
+interface Props {
+  classNum: string;
+  subject: string;
+  fileName: string;
+  sourceText: string;
+  units: SyllabusUnit[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const SyllabusImportReview: React.FC<Props> = ({ classNum, subject, fileName, sourceText, units: parsedUnits, onClose, onSaved }) => {
+  const [units, setUnits] = useState<SyllabusUnit[]>(parsedUnits);
+  const [existing, setExisting] = useState<SyllabusUnit[]>([]);
+  const [mode, setMode] = useState<'replace' | 'merge'>('replace');
+  const [showSource, setShowSource] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    StorageService.getSyllabus(classNum, subject)
+      .then(s => {
+        setExisting(s?.units || []);
+        if (s?.units.length) setMode('merge');
+      })
+      .catch(e => console.error("Failed to load syllabus", e));
+  }, [classNum, subject]);
+
+  const updateUnit = (unitId: string, patch: Partial<SyllabusUnit>) =>
+    setUnits(prev => prev.map(u => u.id === unitId ? { ...u, ...patch } : u));
+
+  const updateChapter = (unit: SyllabusUnit, chapterId: string, patch: { name?: string; marks?: number }) =>
+    updateUnit(unit.id, { chapters: unit.chapters.map(c => c.id === chapterId ? { ...c, ...patch } : c) });
+
+  const handleImport = async () => {
+    if (units.length === 0) return alert("Nothing left to import.");
+    setSaving(true);
+    try {
+      await StorageService.saveSyllabus({ classNum, subject, units: mode === 'merge' ? mergeSyllabusUnits(existing, units) : units });
+      onSaved();
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalMarks = units.reduce((sum, u) => sum + (u.marks || 0), 0);
+  const chapterCount = units.reduce((sum, u) => sum + u.chapters.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[70] p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="bg-gray-100 p-4 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Review Syllabus Import</h2>
+            <p className="text-xs text-gray-500">{classNum} • {subject} • from {fileName}. Check the detected units, chapters and marks before importing.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-red-500 p-2"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {units.map((unit, uIdx) => (
+            <div key={unit.id} className="border rounded-lg p-3">
+              <div className="flex gap-2 items-center mb-2">
+                <span className="font-bold text-gray-500 w-14 shrink-0">Unit {uIdx + 1}</span>
+                <input type="text" className="flex-1 border rounded p-1 font-medium" value={unit.name} onChange={(e) => updateUnit(unit.id, { name: e.target.value })} />
+                <input type="number" min={0} className="w-20 border rounded p-1" value={unit.marks} onChange={(e) => updateUnit(unit.id, { marks: Number(e.target.value) })} title="Unit weightage (marks)" />
+                <button onClick={() => setUnits(prev => prev.filter(u => u.id !== unit.id))} className="p-1 text-red-400 hover:text-red-600" title="Skip Unit"><i className="fas fa-trash"></i></button>
+              </div>
+              <div className="pl-4 sm:pl-16 space-y-1">
+                {unit.chapters.map(chapter => (
+                  <div key={chapter.id} className="flex gap-2 items-center">
+                    <i className="fas fa-book-open text-gray-300"></i>
+                    <input type="text" className="flex-1 border rounded p-1 text-sm" value={chapter.name} onChange={(e) => updateChapter(unit, chapter.id, { name: e.target.value })} />
+                    <input type="number" min={0} className="w-20 border rounded p-1 text-sm" placeholder="Marks" value={chapter.marks || ''} onChange={(e) => updateChapter(unit, chapter.id, { marks: Number(e.target.value) || undefined })} />
+                    <button onClick={() => updateUnit(unit.id, { chapters: unit.chapters.filter(c => c.id !== chapter.id) })} className="text-red-400 hover:text-red-600 p-1"><i className="fas fa-times"></i></button>
+                  </div>
+                ))}
+                {unit.chapters.length === 0 && <p className="text-xs text-gray-400">No chapters detected.</p>}
+              </div>
+            </div>
+          ))}
+          {units.length === 0 && <p className="text-center text-gray-400 py-6">All units were removed.</p>}
+
+          <button onClick={() => setShowSource(!showSource)} className="text-sm text-blue-600 hover:underline">
+            <i className={`fas fa-chevron-${showSource ? 'up' : 'down'} mr-1`}></i> {showSource ? 'Hide' : 'Show'} extracted text
+          </button>
+          {showSource && <pre className="bg-gray-50 border rounded p-3 text-xs text-gray-600 whitespace-pre-wrap max-h-64 overflow-y-auto">{sourceText}</pre>}
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between items-center gap-3">
+          <div className="text-sm text-gray-600">
+            {units.length} units, {chapterCount} chapters, <b>{totalMarks}</b> marks
+            {existing.length > 0 && (
+              <select className="ml-3 border rounded p-1 bg-white" value={mode} onChange={(e) => setMode(e.target.value as 'replace' | 'merge')}>
+                <option value="merge">Add to the existing {existing.length} units</option>
+                <option value="replace">Replace the existing syllabus</option>
+              </select>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded">Cancel</button>
+            <button onClick={handleImport} disabled={saving || units.length === 0} className="bg-green-600 text-white px-6 py-2 rounded font-bold hover:bg-green-700 disabled:opacity-50">
+              {saving ? 'Importing...' : 'Import Syllabus'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyllabusImportReview;
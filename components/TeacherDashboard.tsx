@@ -1,17 +1,23 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, QuestionPaper, SubscriptionPlan, SubscriptionStatus, UserRole, ContentPage } from '../types';
+import { User, QuestionPaper, SubscriptionPlan, SubscriptionStatus, UserRole, ContentPage, CreditLedgerEntry, Invoice } from '../types';
 import { StorageService } from '../services/storageService';
 import PaperGenerator from './PaperGenerator';
 import SubscriptionModal from './SubscriptionModal';
+import CreditLedgerTable from './CreditLedgerTable';
+import { Entitlements } from '../services/entitlements';
+import { downloadInvoicePdf } from '../services/invoiceService';
+import { exportPapersArchive, readPapersArchive, paperArchiveFileName } from '../services/paperArchive';
+import { fetchImageBytes, downloadBlob } from '../services/fileExport';
 import { APP_NAME, MOCK_ADMIN_EMAIL } from '../constants';
 
 interface Props {
   user: User;
   onLogout: () => void;
+  onLogoutEverywhere: () => void;
 }
 
-const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
+const TeacherDashboard: React.FC<Props> = ({ user, onLogout, onLogoutEverywhere }) => {
   const [view, setView] = useState<'dashboard' | 'create'>('dashboard');
   const [papers, setPapers] = useState<QuestionPaper[]>([]);
   const [showSubModal, setShowSubModal] = useState(false);
@@ -27,8 +33,15 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
   // Contact Form State
   const [contactMessage, setContactMessage] = useState('');
 
+  // Credit History State
+  const [creditHistory, setCreditHistory] = useState<CreditLedgerEntry[] | null>(null);
+
+  // Invoices State
+  const [invoices, setInvoices] = useState<Invoice[] | null>(null);
+
   const refreshUserData = async () => {
     try {
+        await Entitlements.loadPlans();
         const freshUser = await StorageService.getUser(user.email);
         if(freshUser) {
             setCurrentUser(freshUser);
@@ -73,6 +86,46 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
     }
   };
 
+  const handleExportPapers = async (selected: QuestionPaper[], e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    try {
+        const bytes = await exportPapersArchive(selected, { loadImage: fetchImageBytes });
+        downloadBlob(paperArchiveFileName(selected), new Blob([bytes], { type: 'application/zip' }));
+    } catch (err: any) {
+        alert(err.message);
+    }
+  };
+
+  const handleImportPapers = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        const imported = await readPapersArchive(new Uint8Array(await file.arrayBuffer()), currentUser.email);
+        await StorageService.importPapers(imported);
+        alert(`Imported ${imported.length} paper${imported.length === 1 ? '' : 's'}.`);
+        refreshUserData();
+    } catch (err: any) {
+        alert(err.message);
+    }
+  };
+
+  const handleShowCreditHistory = async () => {
+      try {
+          setCreditHistory(await StorageService.getCreditLedger(currentUser.email));
+      } catch (e) {
+          console.error("Failed to load credit history", e);
+      }
+  };
+
+  const handleShowInvoices = async () => {
+      try {
+          setInvoices(await StorageService.getInvoicesByUser(currentUser.email));
+      } catch (e) {
+          console.error("Failed to load invoices", e);
+      }
+  };
+
   const handleShowPage = async (pageId: string) => {
       const page = await StorageService.getPageContent(pageId);
       if (page) {
@@ -100,21 +153,10 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
   const isCreateBlockedByPending = !hasCredits && isUpgradePending;
 
   const getPaperAction = (p: QuestionPaper) => {
-    const plan = currentUser.subscriptionPlan;
-    const isAdmin = currentUser.role === UserRole.ADMIN;
-
-    if (isAdmin || plan === SubscriptionPlan.PREMIUM) {
-        return { label: 'Edit', readOnly: false };
-    }
-
-    if (plan === SubscriptionPlan.FREE || plan === SubscriptionPlan.STARTER || plan === SubscriptionPlan.PROFESSIONAL) {
-        if ((p.downloadCount || 0) >= 1) {
-            return { label: 'View', readOnly: true };
-        }
-        return { label: 'Edit', readOnly: false };
-    }
-
-    return { label: 'View', readOnly: true };
+    const entitlement = Entitlements.canEdit(currentUser, p);
+    return entitlement.allowed
+        ? { label: 'Edit', readOnly: false }
+        : { label: 'View', readOnly: true, reason: entitlement.reason };
   };
 
   if (selectedPaper) {
@@ -164,14 +206,15 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
                    </div>
                )}
            </div>
-           <button onClick={onLogout} className="text-red-400 hover:text-red-500"><i className="fas fa-sign-out-alt fa-lg"></i></button>
+           <button onClick={onLogoutEverywhere} className="text-gray-400 hover:text-red-500" title="Sign out of all devices"><i className="fas fa-user-lock fa-lg"></i></button>
+           <button onClick={onLogout} className="text-red-400 hover:text-red-500" title="Logout"><i className="fas fa-sign-out-alt fa-lg"></i></button>
         </div>
       </nav>
 
       <main className="max-w-7xl mx-auto p-4 sm:p-6 space-y-8 flex-1 w-full">
         <div className="bg-gradient-to-r from-blue-600 to-indigo-700 rounded-2xl p-6 text-white flex justify-between items-center shadow-lg">
            <div><h2 className="text-2xl font-bold">Welcome back!</h2><p className="text-blue-100">Manage your papers.</p></div>
-           <div className="bg-white/10 p-4 rounded-xl text-center"><div className="text-xs uppercase">Credits</div><div className="text-4xl font-bold">{currentUser.credits}</div><button onClick={() => setShowSubModal(true)} className="text-xs bg-white text-blue-700 px-3 py-1 rounded-full font-bold mt-2">Upgrade</button></div>
+           <div className="bg-white/10 p-4 rounded-xl text-center"><div className="text-xs uppercase">Credits</div><div className="text-4xl font-bold">{currentUser.credits}</div><button onClick={() => setShowSubModal(true)} className="text-xs bg-white text-blue-700 px-3 py-1 rounded-full font-bold mt-2">Upgrade</button><div className="flex justify-center gap-3 mt-1"><button onClick={handleShowCreditHistory} className="text-xs text-blue-100 hover:text-white underline">History</button><button onClick={handleShowInvoices} className="text-xs text-blue-100 hover:text-white underline">Invoices</button></div></div>
         </div>
         
         <div className="flex justify-end items-center">
@@ -206,6 +249,15 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
                                 <p className="text-xs text-gray-500">{papers.length} files stored</p>
                             </div>
                         </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => handleExportPapers(papers)} disabled={papers.length === 0} className="border border-gray-300 text-gray-700 px-3 py-2 rounded-lg text-sm font-bold hover:bg-white disabled:opacity-50" title="Download all papers with their images as a zip, to keep as a backup or move to another account">
+                                <i className="fas fa-file-export mr-1"></i> Export All
+                            </button>
+                            <label className="border border-blue-200 text-blue-700 px-3 py-2 rounded-lg text-sm font-bold hover:bg-blue-50 cursor-pointer" title="Add papers from an exported zip to your account">
+                                <i className="fas fa-file-import mr-1"></i> Import
+                                <input type="file" accept=".zip,.json,application/zip,application/json" onChange={handleImportPapers} className="hidden" />
+                            </label>
+                        </div>
                     </div>
                     
                     <div className="p-6">
@@ -228,11 +280,19 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
                                 <p className="text-sm text-gray-500 mb-4">{p.classNum} • {p.subject}</p>
                                 <div className="mt-auto flex gap-2 pt-4 border-t border-dashed">
                                     <button 
+                                        title={action.reason}
                                         className={`flex-1 py-2 ${action.readOnly ? 'bg-gray-100 text-gray-600 hover:bg-gray-200' : 'bg-blue-50 text-blue-600 hover:bg-blue-100'} rounded-lg font-bold text-sm transition-colors`}
                                     >
                                         <i className={`fas ${action.readOnly ? 'fa-eye' : 'fa-edit'} mr-1`}></i>
                                         {action.label}
                                     </button>
+                                    <button 
+                                        onClick={(e) => handleExportPapers([p], e)} 
+                                        className="px-3 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded-lg transition-colors z-20 relative" 
+                                        title="Export Paper"
+                                    >
+                                        <i className="fas fa-file-export"></i>
+                                    </button>
                                     <button 
                                         onClick={(e) => handleDeletePaper(p.id, e)} 
                                         className="px-3 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors z-20 relative" 
@@ -270,6 +330,59 @@ const TeacherDashboard: React.FC<Props> = ({ user, onLogout }) => {
           </div>
       </footer>
 
+      {creditHistory && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+              <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[80vh] flex flex-col overflow-hidden">
+                  <div className="bg-gray-100 p-4 border-b flex justify-between items-center">
+                      <h2 className="text-xl font-bold text-gray-800">Credit History</h2>
+                      <button onClick={() => setCreditHistory(null)} className="text-gray-500 hover:text-red-500 p-2"><i className="fas fa-times"></i></button>
+                  </div>
+                  <div className="p-4 overflow-y-auto">
+                      <CreditLedgerTable entries={creditHistory} />
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {invoices && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+              <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] flex flex-col overflow-hidden">
+                  <div className="bg-gray-100 p-4 border-b flex justify-between items-center">
+                      <h2 className="text-xl font-bold text-gray-800">Invoices</h2>
+                      <button onClick={() => setInvoices(null)} className="text-gray-500 hover:text-red-500 p-2"><i className="fas fa-times"></i></button>
+                  </div>
+                  <div className="p-4 overflow-y-auto">
+                      {invoices.length === 0 ? (
+                          <div className="text-center text-gray-500 py-8">No invoices yet. An invoice is issued when your payment is approved.</div>
+                      ) : (
+                          <table className="min-w-full text-left">
+                              <thead>
+                                  <tr className="border-b bg-gray-50">
+                                      <th className="p-3 text-sm font-bold text-gray-600">Invoice No</th>
+                                      <th className="p-3 text-sm font-bold text-gray-600">Date</th>
+                                      <th className="p-3 text-sm font-bold text-gray-600">Plan</th>
+                                      <th className="p-3 text-sm font-bold text-gray-600 text-right">Amount</th>
+                                      <th className="p-3"></th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {invoices.map(inv => (
+                                      <tr key={inv.id} className="border-b">
+                                          <td className="p-3 text-sm font-mono whitespace-nowrap">{inv.number}</td>
+                                          <td className="p-3 text-sm whitespace-nowrap">{new Date(inv.issuedAt).toLocaleDateString()}</td>
+                                          <td className="p-3 text-sm">{inv.planLabel}</td>
+                                          <td className="p-3 text-sm text-right whitespace-nowrap">₹{inv.total.toFixed(2)}</td>
+                                          <td className="p-3 text-right"><button onClick={() => downloadInvoicePdf(inv)} className="text-blue-600 hover:bg-blue-50 px-3 py-1 rounded text-sm font-bold whitespace-nowrap"><i className="fas fa-download mr-1"></i> PDF</button></td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      )}
+                  </div>
+              </div>
+          </div>
+      )}
+
       {showSubModal && <SubscriptionModal user={currentUser} onClose={() => setShowSubModal(false)} onSuccess={() => refreshUserData()} />}
       
       {/* Content Page Modal */}
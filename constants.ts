@@ -1,5 +1,5 @@
 
-import { SubscriptionPlan, QuestionType } from "./types";
+import { SubscriptionPlan, QuestionType, PlanConfig, Difficulty, BloomLevel } from "./types";
 
 export const APP_NAME = "RKS QP Maker";
 
@@ -16,12 +16,42 @@ export const CBSE_SUBJECTS: Record<string, string[]> = {
 };
 
 export const QUESTION_TYPES = Object.values(QuestionType);
+export const DIFFICULTY_LEVELS: Difficulty[] = [Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD];
+export const BLOOM_LEVELS: BloomLevel[] = [BloomLevel.REMEMBER, BloomLevel.UNDERSTAND, BloomLevel.APPLY, BloomLevel.ANALYSE];
+
+// Types built as a passage followed by dependent sub-questions, and the types those sub-questions may take
+export const PASSAGE_QUESTION_TYPES: QuestionType[] = [QuestionType.CASE_STUDY, QuestionType.PARAGRAPH];
+export const PASSAGE_PART_TYPES: QuestionType[] = [QuestionType.MCQ, QuestionType.VSA, QuestionType.SA];
+
+// Seeded into the config collection on first use; after that the admin Plans tab is the source of truth
+export const DEFAULT_PLANS: PlanConfig[] = [
+  { id: SubscriptionPlan.FREE, label: 'Free Trial', price: 0, credits: 1, validityDays: null, regenerationsPerQuestion: 1, downloadsPerPaper: 1, aiImages: true, active: true },
+  { id: SubscriptionPlan.STARTER, label: 'Starter Plan', price: 199, credits: 5, validityDays: 30, regenerationsPerQuestion: 1, downloadsPerPaper: 1, aiImages: true, active: true },
+  { id: SubscriptionPlan.PROFESSIONAL, label: 'Professional Plan', price: 399, credits: 12, validityDays: 60, regenerationsPerQuestion: 2, downloadsPerPaper: 1, aiImages: true, active: true },
+  { id: SubscriptionPlan.PREMIUM, label: 'Premium Plan', price: 699, credits: 25, validityDays: 180, regenerationsPerQuestion: 3, downloadsPerPaper: null, aiImages: true, active: true },
+];
+
+// Seller details printed on tax invoices
+export const INVOICE_SELLER = {
+  name: 'RKS QP Maker',
+  address: 'Jaipur, Rajasthan, India',
+  state: 'Rajasthan',
+  stateCode: '08', // GST state code, the first two digits of a GSTIN
+  gstin: '', // Registered GSTIN; left off the invoice while empty
+  invoicePrefix: 'RKS',
+  gstRate: 18, // Plan prices include GST at this rate
+  sacCode: '998431' // Online content / information services
+};
 
-export const PRICING = {
-  [SubscriptionPlan.FREE]: { price: 0, papers: 1, label: 'Free Trial' },
-  [SubscriptionPlan.STARTER]: { price: 199, papers: 5, label: 'Starter Plan' },
-  [SubscriptionPlan.PROFESSIONAL]: { price: 399, papers: 12, label: 'Professional Plan' },
-  [SubscriptionPlan.PREMIUM]: { price: 699, papers: 25, label: 'Premium Plan' },
+// GST state codes, as used in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh', '05': 'Uttarakhand',
+  '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh', '10': 'Bihar', '11': 'Sikkim',
+  '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya',
+  '18': 'Assam', '19': 'West Bengal', '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh',
+  '24': 'Gujarat', '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+  '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry', '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh', '97': 'Other Territory'
 };
 
 export const UPI_QR_IMAGE = "https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=upi://pay?pa=mock-merchant@upi&pn=CBSEGenerator&am=0&cu=INR";
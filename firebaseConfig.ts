@@ -1,9 +1,9 @@
 
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import { getFirestore, Firestore } from "firebase/firestore";
 
 // Robust helper to find environment variables across different build tools (Vite, CRA, Next.js)
-const getEnv = (key: string): string => {
+export const getEnv = (key: string): string => {
   // 1. Try standard process.env (Next.js / CRA)
   try {
     if (typeof process !== 'undefined' && process.env && process.env[key]) return process.env[key] as string;
@@ -37,10 +37,17 @@ const firebaseConfig = {
   appId: getEnv("FIREBASE_APP_ID")
 };
 
-// Log warning if config is missing (helps debugging in console)
-if (!firebaseConfig.apiKey) {
-  console.warn("Firebase Config is missing. Please check Vercel Environment Variables.");
-}
+// Firebase is initialised lazily so the app can run on a local storage backend without any config
+let dbInstance: Firestore | null = null;
 
-const app = initializeApp(firebaseConfig);
-export const db = getFirestore(app);
+export const getDb = (): Firestore => {
+  if (!dbInstance) {
+    // Log warning if config is missing (helps debugging in console)
+    if (!firebaseConfig.apiKey) {
+      console.warn("Firebase Config is missing. Please check Vercel Environment Variables.");
+    }
+    const app = initializeApp(firebaseConfig);
+    dbInstance = getFirestore(app);
+  }
+  return dbInstance;
+};
@@ -0,0 +1,77 @@
+
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createLocalModelProvider } from "./localModelProvider";
+import { createMockProvider } from "./mockProvider";
+import { getEnv } from "../firebaseConfig";
+
+export interface AIAttachment {
+  data: string; // base64, no data: prefix
+  mimeType: string;
+}
+
+// Everything a provider needs to produce one batch of questions
+export interface QuestionGenerationRequest {
+  classNum: string;
+  subject: string;
+  topic: string;
+  questionType: string;
+  count: number;
+  marks: number;
+  systemInstruction: string;
+  prompt: string;
+  attachments: AIAttachment[];
+}
+
+export interface AIProvider {
+  name: string;
+  // Resolves to the model's raw JSON text: an array of { text, options?, matchPairs?, answer }
+  generateQuestions: (request: QuestionGenerationRequest) => Promise<string>;
+  // Resolves to an image URL (usually a data: URL)
+  generateImage: (prompt: string) => Promise<string>;
+}
+
+export type AIProviderKind = 'gemini' | 'openai' | 'local' | 'mock';
+
+export const createAIProvider = (kind: AIProviderKind): AIProvider => {
+  switch (kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: getEnv("AI_BASE_URL") || "https://api.openai.com/v1",
+        apiKey: getEnv("AI_API_KEY"),
+        model: getEnv("AI_MODEL") || "gpt-4o-mini",
+        imageModel: getEnv("AI_IMAGE_MODEL") || "dall-e-3"
+      });
+    case 'local':
+      return createLocalModelProvider({
+        baseUrl: getEnv("AI_BASE_URL") || "http://localhost:11434",
+        model: getEnv("AI_MODEL") || "llama3.1"
+      });
+    default:
+      return createGeminiProvider({
+        apiKey: getEnv("AI_API_KEY") || getEnv("API_KEY"),
+        model: getEnv("AI_MODEL") || "gemini-2.5-flash",
+        imageModel: getEnv("AI_IMAGE_MODEL") || "gemini-2.5-flash-image"
+      });
+  }
+};
+
+const resolveKind = (): AIProviderKind => {
+  const configured = getEnv("AI_PROVIDER").toLowerCase();
+  if (configured === 'openai' || configured === 'local' || configured === 'mock') return configured;
+  return 'gemini';
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createAIProvider(resolveKind());
+  return activeProvider;
+};
+
+// Swap the provider at runtime (tests, offline demos)
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,77 @@
+
+// WebCrypto helpers for password hashing and session token signing.
+// Kept free of storage imports so both StorageService (seeding) and AuthService can use them.
+
+const PBKDF2_ITERATIONS = 100000;
+const HASH_PREFIX = 'pbkdf2';
+
+const encoder = new TextEncoder();
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4);
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+export const randomToken = (byteLength = 32): string => toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// Constant-time comparison so verification time does not leak how many bytes matched
+const safeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+// Format: pbkdf2$<iterations>$<salt>$<hash>
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return [HASH_PREFIX, PBKDF2_ITERATIONS, toBase64Url(salt), toBase64Url(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [prefix, iterations, salt, hash] = stored.split('$');
+  if (prefix !== HASH_PREFIX || !iterations || !salt || !hash) return false;
+  const candidate = await derive(password, fromBase64Url(salt), parseInt(iterations, 10));
+  return safeEqual(candidate, fromBase64Url(hash));
+};
+
+// Legacy plaintext passwords are compared by digest, so the comparison is constant-time too
+export const verifyLegacyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [candidate, expected] = await Promise.all([password, stored].map(value => crypto.subtle.digest('SHA-256', encoder.encode(value))));
+  return safeEqual(new Uint8Array(candidate), new Uint8Array(expected));
+};
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const sign = async (data: string, secret: string): Promise<string> => {
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(data));
+  return toBase64Url(new Uint8Array(signature));
+};
+
+export const verifySignature = async (data: string, signature: string, secret: string): Promise<boolean> => {
+  try {
+    return await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), encoder.encode(data));
+  } catch (e) {
+    return false;
+  }
+};
+
+// One-time tokens are stored by digest so a leaked database cannot be used to redeem them
+export const digest = async (value: string): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return toBase64Url(new Uint8Array(hash));
+};
@@ -0,0 +1,200 @@
+
+import { User, AuthTokenPurpose } from "../types";
+import { APP_NAME } from "../constants";
+import { StorageService } from "./storageService";
+import { MailService } from "./mailService";
+import { hashPassword, verifyPassword, verifyLegacyPassword, toBase64Url, fromBase64Url, randomToken, digest } from "./authCrypto";
+import { getSessionSigner } from "./sessionSigner";
+
+const SESSION_STORAGE_KEY = 'rks_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const VERIFY_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Thrown by login so the UI can offer to resend the verification email
+export class EmailNotVerifiedError extends Error {
+  constructor(public email: string) {
+    super("Please verify your email before logging in. Check your inbox for the verification link.");
+  }
+}
+
+interface SessionPayload {
+  sub: string; // user email
+  ver: number; // user.sessionVersion at issue time
+  iat: number;
+  exp: number;
+}
+
+const encodePayload = (payload: SessionPayload) => toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+const decodePayload = (value: string): SessionPayload => JSON.parse(new TextDecoder().decode(fromBase64Url(value)));
+
+// Creates a one-time token and stores only its digest. Returns the raw token for the email.
+const issueOneTimeToken = async (email: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> => {
+  const token = randomToken(24);
+  const now = Date.now();
+  await StorageService.saveAuthToken({
+    id: await digest(token),
+    email,
+    purpose,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString()
+  });
+  return token;
+};
+
+// Validates and burns a one-time token, returning the email it was issued for
+const consumeOneTimeToken = async (token: string, purpose: AuthTokenPurpose): Promise<string> => {
+  const id = await digest(token.trim());
+  const record = await StorageService.getAuthToken(id);
+  if (!record || record.purpose !== purpose) throw new Error("This link or code is invalid.");
+  if (record.usedAt) throw new Error("This link or code has already been used.");
+  if (new Date(record.expiresAt) < new Date()) throw new Error("This link or code has expired. Please request a new one.");
+  await StorageService.markAuthTokenUsed(id);
+  return record.email;
+};
+
+const readStoredToken = (): string | null => {
+  try { return localStorage.getItem(SESSION_STORAGE_KEY); } catch (e) { return null; }
+};
+
+const writeStoredToken = (token: string | null) => {
+  try {
+    if (token) localStorage.setItem(SESSION_STORAGE_KEY, token);
+    else localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch (e) {
+    // Storage unavailable (private mode); session simply won't survive a refresh
+  }
+};
+
+export const AuthService = {
+  hashPassword,
+
+  // Verifies credentials, transparently migrating legacy plaintext passwords to a hash
+  login: async (email: string, password: string): Promise<User> => {
+    if (!password) throw new Error("Please enter your password.");
+
+    const user = await StorageService.getUser(email);
+    if (!user) throw new Error("User not found. Please register.");
+
+    if (user.passwordHash) {
+      if (!(await verifyPassword(password, user.passwordHash))) throw new Error("Incorrect password");
+    } else if (user.password) {
+      if (!(await verifyLegacyPassword(password, user.password))) throw new Error("Incorrect password");
+      await StorageService.updateCredentials(user.email, { passwordHash: await hashPassword(password) });
+    } else {
+      throw new Error("No password set for this account. Ask the admin to reset it.");
+    }
+
+    if (user.emailVerified === false) throw new EmailNotVerifiedError(user.email);
+
+    await AuthService.issueSession(user, password);
+    return (await StorageService.getUser(user.email)) || user;
+  },
+
+  // Creates an unverified teacher account and emails a verification link
+  register: async (newUser: User, password: string) => {
+    await StorageService.createUser({ ...newUser, passwordHash: await hashPassword(password), emailVerified: false });
+    await AuthService.requestEmailVerification(newUser.email);
+  },
+
+  requestEmailVerification: async (email: string) => {
+    const user = await StorageService.getUser(email);
+    if (!user || user.emailVerified !== false) return;
+
+    const token = await issueOneTimeToken(email, AuthTokenPurpose.VERIFY_EMAIL, VERIFY_TOKEN_TTL_MS);
+    await MailService.send(email, `Verify your email for ${APP_NAME}`,
+      `Hello ${user.name},\n\nConfirm your email by opening this link:\n${MailService.appUrl()}/?verify=${token}\n\n` +
+      `Or enter this code on the login page: ${token}\n\nThe link expires in 24 hours.`);
+  },
+
+  verifyEmail: async (token: string) => {
+    const email = await consumeOneTimeToken(token, AuthTokenPurpose.VERIFY_EMAIL);
+    const user = await StorageService.getUser(email);
+    if (!user) throw new Error("User not found");
+    await StorageService.updateUser({ ...user, emailVerified: true });
+    return email;
+  },
+
+  // Always resolves, whether or not the account exists, so emails cannot be probed
+  requestPasswordReset: async (email: string) => {
+    const user = await StorageService.getUser(email);
+    if (!user) return;
+
+    const token = await issueOneTimeToken(email, AuthTokenPurpose.RESET_PASSWORD, RESET_TOKEN_TTL_MS);
+    await MailService.send(email, `Reset your ${APP_NAME} password`,
+      `Hello ${user.name},\n\nReset your password by opening this link:\n${MailService.appUrl()}/?reset=${token}\n\n` +
+      `Or enter this code on the login page: ${token}\n\nThe link expires in 1 hour. If you did not ask for this, ignore this email.`);
+  },
+
+  // Redeeming a reset link also proves ownership of the email address
+  resetPasswordWithToken: async (token: string, newPassword: string) => {
+    const email = await consumeOneTimeToken(token, AuthTokenPurpose.RESET_PASSWORD);
+    await AuthService.setPassword(email, newPassword);
+    const user = await StorageService.getUser(email);
+    if (user && user.emailVerified === false) await StorageService.updateUser({ ...user, emailVerified: true });
+    return email;
+  },
+
+  // The password goes to the signer so a signing server can check it before vouching for the user
+  issueSession: async (user: User, password: string) => {
+    const now = Date.now();
+    const payload = encodePayload({ sub: user.email, ver: user.sessionVersion || 0, iat: now, exp: now + SESSION_TTL_MS });
+    const signature = await getSessionSigner().sign(payload, password);
+    writeStoredToken(`${payload}.${signature}`);
+  },
+
+  // Returns the signed-in user if the stored token is valid, unexpired and not revoked
+  restoreSession: async (): Promise<User | null> => {
+    const token = readStoredToken();
+    if (!token) return null;
+
+    try {
+      const [payload, signature] = token.split('.');
+      if (!payload || !signature) throw new Error("Malformed session");
+      if (!(await getSessionSigner().verify(payload, signature))) throw new Error("Bad signature");
+
+      const session = decodePayload(payload);
+      if (session.exp < Date.now()) throw new Error("Session expired");
+
+      const user = await StorageService.getUser(session.sub);
+      if (!user || (user.sessionVersion || 0) !== session.ver) throw new Error("Session revoked");
+      return user;
+    } catch (e) {
+      writeStoredToken(null);
+      return null;
+    }
+  },
+
+  logout: () => {
+    writeStoredToken(null);
+  },
+
+  // Invalidates every token issued for this user, on all devices
+  logoutEverywhere: async (email: string) => {
+    if (await StorageService.getUser(email)) await StorageService.updateCredentials(email, { revokeSessions: true });
+    writeStoredToken(null);
+  },
+
+  // Also clears any legacy plaintext password and signs the user out everywhere
+  setPassword: async (email: string, newPassword: string) => {
+    await StorageService.updateCredentials(email, { passwordHash: await hashPassword(newPassword), revokeSessions: true });
+  },
+
+  // One-off migration: hashes plaintext passwords left from before hashing (or drops them where a hash already
+  // exists), so they no longer wait for a login. Sessions are not revoked, as the password itself is unchanged.
+  migrateLegacyPasswords: async () => {
+    const legacy = (await StorageService.getAllUsers()).filter(user => user.password);
+    for (const user of legacy) {
+      await StorageService.updateCredentials(user.email, { passwordHash: user.passwordHash || await hashPassword(user.password!) });
+    }
+    return legacy.length;
+  },
+
+  // Admin action: sets a random temporary password and signs the user out everywhere.
+  // The temporary password is returned once so the admin can share it.
+  resetPassword: async (email: string): Promise<string> => {
+    const temporaryPassword = randomToken(6);
+    await AuthService.setPassword(email, temporaryPassword);
+    return temporaryPassword;
+  }
+};
@@ -0,0 +1,90 @@
+
+import { BlueprintItem, BlueprintRules, Syllabus } from "../types";
+
+export interface BlueprintIssue {
+  level: 'error' | 'warning'; // Errors block generation; warnings are shown and need confirming
+  message: string;
+}
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+const itemMarks = (item: BlueprintItem) => item.count * item.marks;
+
+const sumBy = (items: BlueprintItem[], match: (item: BlueprintItem) => boolean) =>
+  round2(items.filter(match).reduce((sum, item) => sum + itemMarks(item), 0));
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Weightage is usually prescribed per unit while items name a chapter, so an item counts towards a
+// topic rule through its own topic or through the unit it was picked from
+const coveredBy = (item: BlueprintItem, topic: string) => sameText(item.topic, topic) || (!!item.unit && sameText(item.unit, topic));
+
+// Topic weightage from the blueprint rules, plus the unit marks of the syllabus for units they do not name
+const topicRules = (rules?: BlueprintRules, syllabus?: Syllabus) => {
+  const topics = [...(rules?.topics || [])];
+  (syllabus?.units || [])
+    .filter(unit => unit.marks > 0 && !topics.some(rule => sameText(rule.topic, unit.name)))
+    .forEach(unit => topics.push({ topic: unit.name, marks: unit.marks }));
+  return topics;
+};
+
+// Checks a blueprint against the declared max marks and, when the admin has defined one, the blueprint
+// for the class/subject (questions per type, marks per question and weightage per topic) and the syllabus
+// unit weightage
+export const validateBlueprint = (blueprint: BlueprintItem[], maxMarks: number, rules?: BlueprintRules, syllabus?: Syllabus): BlueprintIssue[] => {
+  const issues: BlueprintIssue[] = [];
+  const error = (message: string) => issues.push({ level: 'error', message });
+  const warning = (message: string) => issues.push({ level: 'warning', message });
+
+  if (blueprint.length === 0) {
+    error("Add at least one item to the blueprint.");
+    return issues;
+  }
+
+  blueprint.forEach(item => {
+    if (!item.topic.trim()) error(`A ${item.type} item has no topic.`);
+    if (!(item.count > 0)) error(`"${item.topic}" (${item.type}) must have at least one question.`);
+    if (!(item.marks > 0)) error(`"${item.topic}" (${item.type}) must carry more than 0 marks per question.`);
+  });
+
+  const total = round2(blueprint.reduce((sum, item) => sum + itemMarks(item), 0));
+  if (!(maxMarks > 0)) {
+    error("Enter the paper's Max Marks in Exam Details.");
+  } else if (total !== maxMarks) {
+    error(`Blueprint adds up to ${total} marks but Max Marks is ${maxMarks} (${total > maxMarks ? `${round2(total - maxMarks)} over` : `${round2(maxMarks - total)} short`}).`);
+  }
+
+  const topics = topicRules(rules, syllabus);
+  topics.forEach(rule => {
+    const marks = sumBy(blueprint, item => coveredBy(item, rule.topic));
+    if (marks !== rule.marks) {
+      warning(`${rule.topic}: weightage is ${rule.marks} marks, blueprint gives ${marks}.`);
+    }
+  });
+  if (topics.length > 0) {
+    Array.from(new Set(blueprint.filter(item => !topics.some(rule => coveredBy(item, rule.topic))).map(item => item.topic)))
+      .forEach(topic => warning(`"${topic}" is not one of the prescribed topics.`));
+  }
+
+  if (!rules) return issues;
+
+  if (rules.maxMarks && maxMarks > 0 && rules.maxMarks !== maxMarks) {
+    warning(`The prescribed paper for this class and subject is of ${rules.maxMarks} marks, not ${maxMarks}.`);
+  }
+
+  rules.types.forEach(rule => {
+    const items = blueprint.filter(item => sameText(item.type, rule.type));
+    const count = items.reduce((sum, item) => sum + item.count, 0);
+    if (count !== rule.count) {
+      warning(`${rule.type}: ${rule.count} question(s) prescribed, blueprint has ${count}.`);
+    }
+    items.filter(item => item.marks !== rule.marks).forEach(item => {
+      warning(`${rule.type} questions carry ${rule.marks} mark(s) each, but "${item.topic}" uses ${item.marks}.`);
+    });
+  });
+  Array.from(new Set(blueprint.map(item => item.type)))
+    .filter(type => !rules.types.some(rule => sameText(rule.type, type)))
+    .forEach(type => warning(`${type} questions are not part of the prescribed pattern.`));
+
+  return issues;
+};
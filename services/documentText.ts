@@ -0,0 +1,196 @@
+
+import { readZip } from "./zip";
+
+// pdf.js is loaded from the CDN in index.html (window.pdfjsLib), like html2pdf and KaTeX
+const PDF_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+export type DocumentKind = 'text' | 'docx' | 'pdf';
+
+export const detectDocumentKind = (name: string, mimeType = ''): DocumentKind | undefined => {
+  const lower = name.toLowerCase();
+  if (mimeType === 'application/pdf' || lower.endsWith('.pdf')) return 'pdf';
+  if (mimeType.includes('wordprocessingml') || lower.endsWith('.docx')) return 'docx';
+  if (mimeType.startsWith('text/') || lower.endsWith('.txt') || lower.endsWith('.md') || lower.endsWith('.csv')) return 'text';
+  return undefined;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const dataUrlBytes = (url: string): Uint8Array | undefined => {
+  const match = url.match(/^data:[^;,]*;base64,(.*)$/);
+  return match ? base64ToBytes(match[1]) : undefined;
+};
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCharCode(parseInt(n, 16)))
+    .replace(/&amp;/g, '&');
+
+// --- Word equations ---
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: (XmlNode | string)[];
+}
+
+const parseXml = (xml: string): XmlNode => {
+  const root: XmlNode = { name: '', attrs: {}, children: [] };
+  const stack = [root];
+  const token = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml))) {
+    const [, closing, name, attrText, selfClosing, text] = match;
+    const top = stack[stack.length - 1];
+    if (text !== undefined) { top.children.push(decodeXmlEntities(text)); continue; }
+    if (closing) { if (stack.length > 1) stack.pop(); continue; }
+    const attrs: Record<string, string> = {};
+    attrText.replace(/([\w:]+)="([^"]*)"/g, (_, key, value) => { attrs[key] = decodeXmlEntities(value); return ''; });
+    const node: XmlNode = { name, attrs, children: [] };
+    top.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+  return root;
+};
+
+const child = (node: XmlNode, name: string) => node.children.find((c): c is XmlNode => typeof c !== 'string' && c.name === name);
+const prop = (node: XmlNode, props: string, name: string) => {
+  const pr = child(node, props);
+  const el = pr && child(pr, name);
+  return el ? el.attrs['m:val'] : undefined;
+};
+
+const LATEX_FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'log', 'ln', 'exp', 'lim', 'max', 'min', 'det', 'gcd'];
+const LATEX_ACCENTS: Record<string, string> = { '\u20d7': '\\vec', '\u0302': '\\hat', '\u0307': '\\dot', '\u0305': '\\bar', '\u00af': '\\bar', '\u0303': '\\tilde' };
+const LATEX_NARY: Record<string, string> = { '\u2211': '\\sum', '\u220f': '\\prod', '\u222b': '\\int', '\u222e': '\\oint' };
+
+// Office Math (OMML) back to the LaTeX subset questions use; unknown structures keep their text
+const ommlToLatex = (node: XmlNode): string => {
+  const inner = (name: string) => {
+    const el = child(node, name);
+    return el ? ommlToLatex(el) : '';
+  };
+  const all = () => node.children.map(c => typeof c === 'string' ? '' : ommlToLatex(c)).join('');
+  switch (node.name) {
+    case 'm:r': {
+      const text = inner('m:t').replace(/\u2212/g, '-');
+      const rPr = child(node, 'm:rPr');
+      return rPr && child(rPr, 'm:nor') ? `\\text{${text}}` : text;
+    }
+    case 'm:t': return node.children.filter((c): c is string => typeof c === 'string').join('');
+    case 'm:f': return `\\frac{${inner('m:num')}}{${inner('m:den')}}`;
+    case 'm:sSup': return `{${inner('m:e')}}^{${inner('m:sup')}}`;
+    case 'm:sSub': return `{${inner('m:e')}}_{${inner('m:sub')}}`;
+    case 'm:sSubSup': return `{${inner('m:e')}}_{${inner('m:sub')}}^{${inner('m:sup')}}`;
+    case 'm:rad': {
+      const degree = inner('m:deg');
+      return degree && prop(node, 'm:radPr', 'm:degHide') !== '1' ? `\\sqrt[${degree}]{${inner('m:e')}}` : `\\sqrt{${inner('m:e')}}`;
+    }
+    case 'm:d': {
+      const open = prop(node, 'm:dPr', 'm:begChr') ?? '(';
+      const close = prop(node, 'm:dPr', 'm:endChr') ?? ')';
+      const items = node.children.filter((c): c is XmlNode => typeof c !== 'string' && c.name === 'm:e').map(ommlToLatex);
+      const delimiter = (chr: string) => chr === '{' || chr === '}' ? `\\${chr}` : chr || '.';
+      return `\\left${delimiter(open)}${items.join(',')}\\right${delimiter(close)}`;
+    }
+    case 'm:bar': return `\\overline{${inner('m:e')}}`;
+    case 'm:acc': return `${LATEX_ACCENTS[prop(node, 'm:accPr', 'm:chr') ?? '\u0302'] || '\\hat'}{${inner('m:e')}}`;
+    case 'm:func': {
+      const name = inner('m:fName').trim();
+      return `${LATEX_FUNCTIONS.includes(name) ? `\\${name}` : `\\operatorname{${name}}`} ${inner('m:e')}`;
+    }
+    case 'm:nary': {
+      const op = LATEX_NARY[prop(node, 'm:naryPr', 'm:chr') ?? '\u222b'] || prop(node, 'm:naryPr', 'm:chr') || '\\int';
+      const sub = inner('m:sub'), sup = inner('m:sup');
+      return `${op}${sub ? `_{${sub}}` : ''}${sup ? `^{${sup}}` : ''} ${inner('m:e')}`;
+    }
+    case 'm:m': return `\\begin{matrix}${node.children.filter((c): c is XmlNode => typeof c !== 'string' && c.name === 'm:mr')
+      .map(row => row.children.filter((c): c is XmlNode => typeof c !== 'string' && c.name === 'm:e').map(ommlToLatex).join(' & ')).join(' \\\\ ')}\\end{matrix}`;
+    default: return all();
+  }
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Equations become $...$ text so they reach the parsers, and the editor, as LaTeX
+const equationsToText = (xml: string) => xml.replace(/<m:oMath>[\s\S]*?<\/m:oMath>/g, omml => {
+  const latex = ommlToLatex(parseXml(omml)).replace(/\s+/g, ' ').trim();
+  return latex ? `<w:r><w:t>${escapeXml(`$${latex}$`)}</w:t></w:r>` : '';
+});
+
+// Plain text of word/document.xml: one line per paragraph, table rows as tab-separated cells
+export const docxXmlToText = (source: string): string => {
+  const xml = equationsToText(source);
+  const token = /<(\/?)w:(p|t|tab|br|tc|tr)\b[^>]*?(\/?)>|([^<]+)|<[^>]*>/g;
+  let out = '';
+  let inText = false;
+  let cellDepth = 0;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml))) {
+    const [, closing, tag, selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText) out += decodeXmlEntities(text);
+      continue;
+    }
+    if (!tag) continue;
+    if (tag === 't') inText = !closing && !selfClosing;
+    else if (tag === 'tab' && !closing) out += '\t';
+    else if (tag === 'br' && !closing) out += '\n';
+    else if (tag === 'p' && closing) out += cellDepth > 0 ? ' ' : '\n';
+    else if (tag === 'tc') {
+      if (closing) { cellDepth--; out = out.replace(/ $/, '') + '\t'; }
+      else if (!selfClosing) cellDepth++;
+    } else if (tag === 'tr' && closing) out = out.replace(/\t$/, '') + '\n';
+  }
+  return out.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const docxToText = async (bytes: Uint8Array): Promise<string> => {
+  const entries = await readZip(bytes);
+  const document = entries.find(e => e.name === 'word/document.xml');
+  if (!document) throw new Error("This DOCX file has no document body.");
+  return docxXmlToText(new TextDecoder().decode(document.data));
+};
+
+// Rebuilds lines from the PDF text layer by grouping text items on the same baseline
+const pdfToText = async (bytes: Uint8Array): Promise<string> => {
+  // @ts-ignore
+  const pdfjs = typeof window !== 'undefined' ? window.pdfjsLib : undefined;
+  if (!pdfjs) throw new Error("The PDF reader has not loaded yet. Please check your connection and try again.");
+  pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+  const pdf = await pdfjs.getDocument({ data: bytes }).promise;
+  const lines: string[] = [];
+  for (let p = 1; p <= pdf.numPages; p++) {
+    const page = await pdf.getPage(p);
+    const content = await page.getTextContent();
+    const rows: { y: number; items: { x: number; str: string }[] }[] = [];
+    content.items.forEach((item: any) => {
+      if (!item.str || !item.str.trim()) return;
+      const [x, y] = [item.transform[4], item.transform[5]];
+      const row = rows.find(r => Math.abs(r.y - y) < 3);
+      if (row) row.items.push({ x, str: item.str });
+      else rows.push({ y, items: [{ x, str: item.str }] });
+    });
+    rows.sort((a, b) => b.y - a.y).forEach(row => {
+      // Wide horizontal gaps are usually table columns
+      const sorted = row.items.sort((a, b) => a.x - b.x);
+      lines.push(sorted.map((item, i) => i === 0 ? item.str : (item.x - sorted[i - 1].x > 40 + sorted[i - 1].str.length * 6 ? '\t' : ' ') + item.str).join(''));
+    });
+  }
+  if (lines.length === 0) throw new Error("No text found in this PDF. Scanned PDFs have no text layer; please upload a DOCX or text version.");
+  return lines.join('\n');
+};
+
+export const extractDocumentText = async (bytes: Uint8Array, name: string, mimeType?: string): Promise<string> => {
+  const kind = detectDocumentKind(name, mimeType);
+  if (kind === 'text') return new TextDecoder().decode(bytes);
+  if (kind === 'docx') return docxToText(bytes);
+  if (kind === 'pdf') return pdfToText(bytes);
+  throw new Error("Unsupported file. Please upload a PDF, DOCX or text file.");
+};
@@ -0,0 +1,75 @@
+
+import { User, UserRole, SubscriptionPlan, QuestionPaper, Question, PlanConfig } from "../types";
+import { DEFAULT_PLANS } from "../constants";
+import { StorageService } from "./storageService";
+
+// Admins are not on a plan; they get the most generous limits
+const ADMIN_PLAN: PlanConfig = {
+  id: 'ADMIN', label: 'Admin', price: 0, credits: 0, validityDays: null,
+  regenerationsPerQuestion: 3, downloadsPerPaper: null, aiImages: true, active: false
+};
+
+// Plan catalogue used by the synchronous checks below. Built-in defaults until loadPlans() has run.
+let plans: PlanConfig[] = DEFAULT_PLANS;
+
+export interface Entitlement {
+  allowed: boolean;
+  reason?: string; // Shown to the user when allowed is false
+  used?: number;
+  limit?: number | null;
+}
+
+const allow = (used?: number, limit?: number | null): Entitlement => ({ allowed: true, used, limit });
+const deny = (reason: string, used?: number, limit?: number | null): Entitlement => ({ allowed: false, reason, used, limit });
+
+const isAdmin = (user: User) => user.role === UserRole.ADMIN;
+
+export const Entitlements = {
+  loadPlans: async (): Promise<PlanConfig[]> => {
+    plans = await StorageService.getPlans();
+    return plans;
+  },
+
+  getPlans: (): PlanConfig[] => plans,
+
+  getPlanDefinition: (user: User): PlanConfig => {
+    if (isAdmin(user)) return ADMIN_PLAN;
+    return plans.find(p => p.id === user.subscriptionPlan)
+      || plans.find(p => p.id === SubscriptionPlan.FREE)
+      || DEFAULT_PLANS[0];
+  },
+
+  canGeneratePaper: (user: User): Entitlement => {
+    if (isAdmin(user) || user.credits > 0) return allow(undefined, user.credits);
+    return deny("Insufficient credits! You need credits to generate a new paper. Please upgrade.", 0, 0);
+  },
+
+  canRegenerate: (user: User, question: Question): Entitlement => {
+    const limit = Entitlements.getPlanDefinition(user).regenerationsPerQuestion;
+    const used = question.regenerateCount || 0;
+    if (used >= limit) return deny(`Limit Reached: You can regenerate a question ${limit} time(s) on your current plan.`, used, limit);
+    return allow(used, limit);
+  },
+
+  // A paper that has not been saved yet has no downloads against it
+  canDownload: (user: User, paper?: QuestionPaper): Entitlement => {
+    const limit = Entitlements.getPlanDefinition(user).downloadsPerPaper;
+    const used = paper?.downloadCount || 0;
+    if (limit !== null && used >= limit) {
+      return deny(`Subscription Plan Limit Reached: You have already used your ${limit} download(s) for this paper.`, used, limit);
+    }
+    return allow(used, limit);
+  },
+
+  // Once a paper's downloads are used up it can only be viewed, so it cannot be edited and downloaded again
+  canEdit: (user: User, paper: QuestionPaper): Entitlement => {
+    const download = Entitlements.canDownload(user, paper);
+    if (!download.allowed) return deny("This paper has been downloaded and is now view-only on your plan.", download.used, download.limit);
+    return allow();
+  },
+
+  canGenerateImage: (user: User): Entitlement => {
+    if (!Entitlements.getPlanDefinition(user).aiImages) return deny("AI diagrams are not included in your plan. Please upgrade.");
+    return allow();
+  }
+};
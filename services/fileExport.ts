@@ -0,0 +1,62 @@
+
+import { FontFile, loadFont } from "./fontFile";
+import { PdfFontSet } from "./pdfText";
+import notoSerifRegular from "@fontsource/noto-serif/files/noto-serif-latin-400-normal.woff?url";
+import notoSerifBold from "@fontsource/noto-serif/files/noto-serif-latin-700-normal.woff?url";
+import notoSerifItalic from "@fontsource/noto-serif/files/noto-serif-latin-400-italic.woff?url";
+import notoSansDevanagari from "@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-400-normal.woff?url";
+// The "latin" file of Noto Sans Math is the whole font, math symbols included
+import notoSansMath from "@fontsource/noto-sans-math/files/noto-sans-math-latin-400-normal.woff?url";
+
+// Browser side of paper exports: PDF fonts, remote images and saving the file.
+
+// Fonts embedded in exported PDFs. Vite bundles them with the app, so PDF export works offline.
+const FONT_URLS = {
+  regular: notoSerifRegular,
+  bold: notoSerifBold,
+  italic: notoSerifItalic,
+  devanagari: notoSansDevanagari,
+  math: notoSansMath,
+};
+
+let fontSet: Promise<PdfFontSet> | null = null;
+
+const fetchFont = async (url: string): Promise<FontFile> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load PDF font (${res.status})`);
+  return loadFont(new Uint8Array(await res.arrayBuffer()));
+};
+
+export const loadPdfFonts = (): Promise<PdfFontSet> => {
+  if (!fontSet) {
+    fontSet = Promise.all([
+      fetchFont(FONT_URLS.regular),
+      fetchFont(FONT_URLS.bold),
+      fetchFont(FONT_URLS.italic),
+      fetchFont(FONT_URLS.devanagari),
+      fetchFont(FONT_URLS.math),
+    ]).then(([regular, bold, italic, devanagari, math]) => ({ regular, bold, italic, devanagari, math }));
+    // A failed download can be retried on the next export
+    fontSet.catch(() => { fontSet = null; });
+  }
+  return fontSet;
+};
+
+// Images on other origins are fetched as bytes; failures leave a placeholder in the export
+export const fetchImageBytes = async (url: string): Promise<Uint8Array | undefined> => {
+  try {
+    const res = await fetch(url);
+    return res.ok ? new Uint8Array(await res.arrayBuffer()) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
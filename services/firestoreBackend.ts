@@ -0,0 +1,47 @@
+
+import { collection, doc, getDoc, setDoc, getDocs, updateDoc, deleteDoc, query, where, runTransaction, DocumentData, UpdateData, WithFieldValue } from "firebase/firestore";
+import { getDb } from "../firebaseConfig";
+import type { Repository, StorageBackend } from "./storageBackend";
+
+const firestoreCollection = <T>(name: string): Repository<T> => ({
+  get: async (id) => {
+    const snap = await getDoc(doc(getDb(), name, id));
+    return snap.exists() ? (snap.data() as T) : undefined;
+  },
+
+  set: async (id, value) => {
+    await setDoc(doc(getDb(), name, id), value as WithFieldValue<DocumentData>);
+  },
+
+  update: async (id, patch) => {
+    await updateDoc(doc(getDb(), name, id), patch as UpdateData<DocumentData>);
+  },
+
+  remove: async (id) => {
+    await deleteDoc(doc(getDb(), name, id));
+  },
+
+  list: async (filter) => {
+    const constraints = Object.entries(filter || {}).map(([field, value]) => where(field, "==", value));
+    const snap = await getDocs(query(collection(getDb(), name), ...constraints));
+    const items: T[] = [];
+    snap.forEach(d => items.push(d.data() as T));
+    return items;
+  }
+});
+
+export const createFirestoreBackend = (): StorageBackend => ({
+  name: 'firestore',
+  collection: firestoreCollection,
+
+  // Firestore retries fn on contention, so it must not have side effects outside tx
+  runTransaction: (fn) => runTransaction(getDb(), (t) => fn({
+    get: async <T>(name: string, id: string) => {
+      const snap = await t.get(doc(getDb(), name, id));
+      return snap.exists() ? (snap.data() as T) : undefined;
+    },
+    set: (name, id, value) => { t.set(doc(getDb(), name, id), value as WithFieldValue<DocumentData>); },
+    update: (name, id, patch) => { t.update(doc(getDb(), name, id), patch as UpdateData<DocumentData>); },
+    remove: (name, id) => { t.delete(doc(getDb(), name, id)); }
+  }))
+});
@@ -0,0 +1,666 @@
+
+import { inflate } from "./zip";
+
+// TrueType/OpenType reader for the PDF renderer: metrics, cmap lookup, the GSUB and GPOS lookups the
+// shaper applies (substitutions, contextual rules, kerning and mark attachment) and glyph subsetting.
+// WOFF 1.0 files are unwrapped first.
+
+export interface FontFile {
+  postscriptName: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number; // Negative, in font units
+  capHeight: number;
+  bbox: [number, number, number, number];
+  italicAngle: number;
+  cff: boolean; // PostScript outlines (embedded whole, not subset)
+  data: Uint8Array;
+  glyphId: (codePoint: number) => number; // 0 (.notdef) when the font has no glyph
+  advance: (glyphId: number) => number;
+  // GSUB lookup indices for a feature under the first script the font supports
+  featureLookups: (scripts: string[], feature: string) => number[];
+  lookup: (index: number) => GsubLookup | undefined;
+  // The same for GPOS
+  positionLookups: (scripts: string[], feature: string) => number[];
+  positionLookup: (index: number) => GposLookup | undefined;
+  glyphClass: (glyphId: number) => GlyphClass;
+  // Whether a lookup's flags skip this glyph (ignored marks, bases or ligatures)
+  ignores: (lookup: Lookup<unknown>, glyphId: number) => boolean;
+  subset: (glyphIds: Iterable<number>) => Uint8Array;
+}
+
+// GDEF glyph classes; fonts without a GDEF table leave every glyph unclassified
+export enum GlyphClass { Unclassified = 0, Base = 1, Ligature = 2, Mark = 3, Component = 4 }
+
+export type GlyphMatch = (glyphId: number) => boolean;
+
+// One rule of a contextual lookup (GSUB 5/6, GPOS 7/8). The coverage has already matched the first input glyph.
+export interface ContextRule {
+  backtrack: GlyphMatch[]; // Nearest glyph first
+  input: GlyphMatch[]; // Glyphs after the first
+  lookahead: GlyphMatch[];
+  actions: { sequenceIndex: number; lookupIndex: number }[];
+}
+
+interface ContextSubtable {
+  type: 'context';
+  rules: (glyphId: number) => ContextRule[];
+}
+
+export type GsubSubtable =
+  | { type: 'single'; map: Map<number, number> }
+  | { type: 'multiple'; map: Map<number, number[]> }
+  | { type: 'ligature'; map: Map<number, { components: number[]; glyph: number }[]> }
+  | ContextSubtable;
+
+// Font units. x and y move the glyph; advance changes the space it takes.
+export interface Adjustment {
+  x: number;
+  y: number;
+  advance: number;
+}
+
+export interface Anchor {
+  x: number;
+  y: number;
+}
+
+export type GposSubtable =
+  | { type: 'single'; values: (glyphId: number) => Adjustment | undefined }
+  | { type: 'pair'; values: (first: number, second: number) => [Adjustment, Adjustment] | undefined }
+  | ({ type: 'markToBase' } & MarkAttachment)
+  | ({ type: 'markToMark' } & MarkAttachment)
+  | ContextSubtable;
+
+// Mark-to-base and mark-to-mark: a mark's anchor is placed on the matching anchor of the glyph before it
+interface MarkAttachment {
+  marks: Map<number, { markClass: number; anchor: Anchor }>;
+  bases: Map<number, (Anchor | undefined)[]>;
+}
+
+export interface Lookup<T> {
+  flags: number;
+  markFilteringSet: number;
+  subtables: T[];
+}
+
+export type GsubLookup = Lookup<GsubSubtable>;
+export type GposLookup = Lookup<GposSubtable>;
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+const SFNT_TRUETYPE = 0x00010000;
+const SFNT_OPENTYPE = 0x4f54544f; // 'OTTO'
+const WOFF_SIGNATURE = 0x774f4646; // 'wOFF'
+
+// Tables a PDF viewer needs from an embedded TrueType font
+const SUBSET_TABLES = ['head', 'hhea', 'hmtx', 'maxp', 'loca', 'glyf', 'cvt ', 'fpgm', 'prep', 'OS/2'];
+
+const tagAt = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const unwrapWoff = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flavor = view.getUint32(4);
+  const numTables = view.getUint16(12);
+  const tables: { tag: string; data: Uint8Array }[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const entry = 44 + i * 20;
+    const offset = view.getUint32(entry + 4);
+    const compLength = view.getUint32(entry + 8);
+    const origLength = view.getUint32(entry + 12);
+    const raw = bytes.subarray(offset, offset + compLength);
+    tables.push({ tag: tagAt(view, entry), data: compLength < origLength ? await inflate(raw) : raw });
+  }
+  return writeSfnt(flavor, tables);
+};
+
+const checksum = (data: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum = (sum + ((data[i] << 24) | ((data[i + 1] || 0) << 16) | ((data[i + 2] || 0) << 8) | (data[i + 3] || 0))) >>> 0;
+  }
+  return sum;
+};
+
+const writeSfnt = (flavor: number, tables: { tag: string; data: Uint8Array }[]): Uint8Array => {
+  const sorted = [...tables].sort((a, b) => (a.tag < b.tag ? -1 : 1));
+  const headerSize = 12 + sorted.length * 16;
+  const size = sorted.reduce((sum, t) => sum + ((t.data.length + 3) & ~3), headerSize);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  const entrySelector = Math.floor(Math.log2(sorted.length));
+  view.setUint32(0, flavor);
+  view.setUint16(4, sorted.length);
+  view.setUint16(6, 16 * 2 ** entrySelector);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, sorted.length * 16 - 16 * 2 ** entrySelector);
+  let offset = headerSize;
+  sorted.forEach((t, i) => {
+    const entry = 12 + i * 16;
+    for (let c = 0; c < 4; c++) view.setUint8(entry + c, t.tag.charCodeAt(c));
+    view.setUint32(entry + 4, checksum(t.data));
+    view.setUint32(entry + 8, offset);
+    view.setUint32(entry + 12, t.data.length);
+    out.set(t.data, offset);
+    offset += (t.data.length + 3) & ~3;
+  });
+  return out;
+};
+
+const readCmap = (view: DataView, table: TableRecord): Map<number, number> => {
+  const map = new Map<number, number>();
+  const count = view.getUint16(table.offset + 2);
+  const candidates: { rank: number; offset: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const offset = table.offset + view.getUint32(record + 4);
+    const format = view.getUint16(offset);
+    if (format === 12 && (platform === 3 || platform === 0)) candidates.push({ rank: 0, offset });
+    else if (format === 4 && ((platform === 3 && encoding === 1) || platform === 0)) candidates.push({ rank: 1, offset });
+  }
+  const best = candidates.sort((a, b) => a.rank - b.rank)[0];
+  if (!best) return map;
+
+  if (view.getUint16(best.offset) === 12) {
+    const groups = view.getUint32(best.offset + 12);
+    for (let i = 0; i < groups; i++) {
+      const g = best.offset + 16 + i * 12;
+      const start = view.getUint32(g);
+      const end = view.getUint32(g + 4);
+      const glyph = view.getUint32(g + 8);
+      for (let cp = start; cp <= end; cp++) map.set(cp, glyph + cp - start);
+    }
+    return map;
+  }
+
+  const segments = view.getUint16(best.offset + 6) / 2;
+  const ends = best.offset + 14;
+  const starts = ends + segments * 2 + 2;
+  const deltas = starts + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+  for (let s = 0; s < segments; s++) {
+    const start = view.getUint16(starts + s * 2);
+    const end = view.getUint16(ends + s * 2);
+    const delta = view.getInt16(deltas + s * 2);
+    const rangeOffset = view.getUint16(rangeOffsets + s * 2);
+    for (let cp = start; cp <= end && cp !== 0xffff; cp++) {
+      let glyph: number;
+      if (rangeOffset === 0) glyph = (cp + delta) & 0xffff;
+      else {
+        const glyphOffset = rangeOffsets + s * 2 + rangeOffset + (cp - start) * 2;
+        glyph = view.getUint16(glyphOffset);
+        if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph !== 0) map.set(cp, glyph);
+    }
+  }
+  return map;
+};
+
+const readName = (view: DataView, table: TableRecord | undefined): string => {
+  if (!table) return 'Font';
+  const count = view.getUint16(table.offset + 2);
+  const strings = table.offset + view.getUint16(table.offset + 4);
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 6 + i * 12;
+    if (view.getUint16(record + 6) !== 6) continue;
+    const platform = view.getUint16(record);
+    const length = view.getUint16(record + 8);
+    const offset = strings + view.getUint16(record + 10);
+    let name = '';
+    if (platform === 3 || platform === 0) {
+      for (let c = 0; c < length; c += 2) name += String.fromCharCode(view.getUint16(offset + c));
+    } else {
+      for (let c = 0; c < length; c++) name += String.fromCharCode(view.getUint8(offset + c));
+    }
+    return name.replace(/[^\x21-\x7e]|[\[\](){}<>\/%]/g, '') || 'Font';
+  }
+  return 'Font';
+};
+
+const readCoverage = (view: DataView, offset: number): number[] => {
+  const format = view.getUint16(offset);
+  const glyphs: number[] = [];
+  const count = view.getUint16(offset + 2);
+  if (format === 1) {
+    for (let i = 0; i < count; i++) glyphs.push(view.getUint16(offset + 4 + i * 2));
+  } else {
+    for (let i = 0; i < count; i++) {
+      const range = offset + 4 + i * 6;
+      for (let g = view.getUint16(range); g <= view.getUint16(range + 2); g++) glyphs.push(g);
+    }
+  }
+  return glyphs;
+};
+
+const readClassDef = (view: DataView, offset: number): Map<number, number> => {
+  const classes = new Map<number, number>();
+  const format = view.getUint16(offset);
+  if (format === 1) {
+    const start = view.getUint16(offset + 2);
+    for (let i = 0; i < view.getUint16(offset + 4); i++) classes.set(start + i, view.getUint16(offset + 6 + i * 2));
+  } else if (format === 2) {
+    for (let i = 0; i < view.getUint16(offset + 2); i++) {
+      const range = offset + 4 + i * 6;
+      const value = view.getUint16(range + 4);
+      for (let g = view.getUint16(range); g <= view.getUint16(range + 2); g++) classes.set(g, value);
+    }
+  }
+  return classes;
+};
+
+const readUint16s = (view: DataView, offset: number, count: number) =>
+  Array.from({ length: count }, (_, i) => view.getUint16(offset + i * 2));
+
+const readActions = (view: DataView, offset: number, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ sequenceIndex: view.getUint16(offset + i * 4), lookupIndex: view.getUint16(offset + i * 4 + 2) }));
+
+// Formats 1 (glyph sequences) and 2 (class sequences) share their rule layout; only the matchers differ
+type Matchers = [(value: number) => GlyphMatch, (value: number) => GlyphMatch, (value: number) => GlyphMatch];
+
+const readRule = (view: DataView, offset: number, chained: boolean, [back, input, ahead]: Matchers): ContextRule => {
+  if (!chained) {
+    const glyphCount = Math.max(view.getUint16(offset), 1);
+    const actionCount = view.getUint16(offset + 2);
+    return {
+      backtrack: [],
+      input: readUint16s(view, offset + 4, glyphCount - 1).map(input),
+      lookahead: [],
+      actions: readActions(view, offset + 4 + (glyphCount - 1) * 2, actionCount),
+    };
+  }
+  let p = offset;
+  const backtrack = readUint16s(view, p + 2, view.getUint16(p)).map(back);
+  p += 2 + backtrack.length * 2;
+  const inputCount = Math.max(view.getUint16(p), 1);
+  const inputs = readUint16s(view, p + 2, inputCount - 1).map(input);
+  p += 2 + (inputCount - 1) * 2;
+  const lookahead = readUint16s(view, p + 2, view.getUint16(p)).map(ahead);
+  p += 2 + lookahead.length * 2;
+  return { backtrack, input: inputs, lookahead, actions: readActions(view, p + 2, view.getUint16(p)) };
+};
+
+const readRuleSet = (view: DataView, offset: number, chained: boolean, matchers: Matchers): ContextRule[] =>
+  readUint16s(view, offset + 2, view.getUint16(offset)).map(rule => readRule(view, offset + rule, chained, matchers));
+
+const coverageMatch = (view: DataView, offset: number): GlyphMatch => {
+  const glyphs = new Set(readCoverage(view, offset));
+  return glyph => glyphs.has(glyph);
+};
+
+// GSUB 5/6 and GPOS 7/8, all three formats
+const readContext = (view: DataView, offset: number, chained: boolean): ContextSubtable => {
+  const format = view.getUint16(offset);
+  if (format === 3) {
+    const coverages = (at: number) => readUint16s(view, at + 2, view.getUint16(at)).map(c => coverageMatch(view, offset + c));
+    let p = offset + 2;
+    let backtrack: GlyphMatch[] = [], input: GlyphMatch[], lookahead: GlyphMatch[] = [], actions: ContextRule['actions'];
+    if (chained) {
+      backtrack = coverages(p);
+      p += 2 + backtrack.length * 2;
+      input = coverages(p);
+      p += 2 + input.length * 2;
+      lookahead = coverages(p);
+      p += 2 + lookahead.length * 2;
+      actions = readActions(view, p + 2, view.getUint16(p));
+    } else {
+      const inputCount = view.getUint16(p);
+      input = readUint16s(view, p + 4, inputCount).map(c => coverageMatch(view, offset + c));
+      actions = readActions(view, p + 4 + inputCount * 2, view.getUint16(p + 2));
+    }
+    const rule = { backtrack, input: input.slice(1), lookahead, actions };
+    return { type: 'context', rules: glyph => (input[0]?.(glyph) ? [rule] : []) };
+  }
+
+  const coverage = readCoverage(view, offset + view.getUint16(offset + 2));
+  if (format === 1) {
+    const same = (value: number): GlyphMatch => glyph => glyph === value;
+    const sets = readUint16s(view, offset + 6, view.getUint16(offset + 4));
+    const byGlyph = new Map<number, ContextRule[]>();
+    coverage.forEach((glyph, i) => {
+      if (sets[i]) byGlyph.set(glyph, readRuleSet(view, offset + sets[i], chained, [same, same, same]));
+    });
+    return { type: 'context', rules: glyph => byGlyph.get(glyph) || [] };
+  }
+
+  if (format !== 2) return { type: 'context', rules: () => [] };
+  const classDefs = (chained ? [4, 6, 8] : [4, 4, 4]).map(at => readClassDef(view, offset + view.getUint16(offset + at)));
+  const [back, input, ahead] = classDefs.map(classes => (value: number): GlyphMatch => glyph => (classes.get(glyph) || 0) === value);
+  const countAt = offset + (chained ? 10 : 6);
+  const sets = readUint16s(view, countAt + 2, view.getUint16(countAt));
+  const byClass = new Map<number, ContextRule[]>();
+  sets.forEach((set, cls) => {
+    if (set) byClass.set(cls, readRuleSet(view, offset + set, chained, [back, input, ahead]));
+  });
+  const covered = new Set(coverage);
+  return { type: 'context', rules: glyph => (covered.has(glyph) ? byClass.get(classDefs[1].get(glyph) || 0) || [] : []) };
+};
+
+const readGsubSubtable = (view: DataView, type: number, offset: number): GsubSubtable | undefined => {
+  if (type === 7) {
+    // Extension: the real subtable lives at a 32-bit offset
+    return readGsubSubtable(view, view.getUint16(offset + 2), offset + view.getUint32(offset + 4));
+  }
+  if (type === 5 || type === 6) return readContext(view, offset, type === 6);
+  // Alternate (3) and reverse chaining (8) substitutions are not applied
+  if (type !== 1 && type !== 2 && type !== 4) return;
+  const format = view.getUint16(offset);
+  const coverage = readCoverage(view, offset + view.getUint16(offset + 2));
+  if (type === 1) {
+    const map = new Map<number, number>();
+    coverage.forEach((glyph, i) => {
+      map.set(glyph, format === 1 ? (glyph + view.getInt16(offset + 4)) & 0xffff : view.getUint16(offset + 6 + i * 2));
+    });
+    return { type: 'single', map };
+  }
+  if (type === 2) {
+    const map = new Map<number, number[]>();
+    coverage.forEach((glyph, i) => {
+      const sequence = offset + view.getUint16(offset + 6 + i * 2);
+      map.set(glyph, readUint16s(view, sequence + 2, view.getUint16(sequence)));
+    });
+    return { type: 'multiple', map };
+  }
+  const map = new Map<number, { components: number[]; glyph: number }[]>();
+  coverage.forEach((glyph, i) => {
+    const set = offset + view.getUint16(offset + 6 + i * 2);
+    const ligatures = readUint16s(view, set + 2, view.getUint16(set)).map(lig => ({
+      components: readUint16s(view, set + lig + 4, view.getUint16(set + lig + 2) - 1),
+      glyph: view.getUint16(set + lig),
+    }));
+    map.set(glyph, ligatures);
+  });
+  return { type: 'ligature', map };
+};
+
+const valueSize = (format: number) => {
+  let size = 0;
+  for (let bit = 1; bit <= 0x80; bit <<= 1) if (format & bit) size += 2;
+  return size;
+};
+
+// Placement and advance only; device tables (hinting for particular sizes) are skipped
+const readValue = (view: DataView, offset: number, format: number): Adjustment => {
+  let p = offset;
+  const field = (bit: number) => {
+    if (!(format & bit)) return 0;
+    p += 2;
+    return view.getInt16(p - 2);
+  };
+  return { x: field(0x1), y: field(0x2), advance: field(0x4) };
+};
+
+const readAnchor = (view: DataView, offset: number): Anchor => ({ x: view.getInt16(offset + 2), y: view.getInt16(offset + 4) });
+
+const readGposSubtable = (view: DataView, type: number, offset: number): GposSubtable | undefined => {
+  if (type === 9) return readGposSubtable(view, view.getUint16(offset + 2), offset + view.getUint32(offset + 4));
+  if (type === 7 || type === 8) return readContext(view, offset, type === 8);
+  // Cursive (3) and mark-to-ligature (5) attachment are not applied
+  if (type !== 1 && type !== 2 && type !== 4 && type !== 6) return;
+  const format = view.getUint16(offset);
+  const coverage = readCoverage(view, offset + view.getUint16(offset + 2));
+  const index = new Map(coverage.map((glyph, i) => [glyph, i]));
+
+  if (type === 1) {
+    const valueFormat = view.getUint16(offset + 4);
+    const size = valueSize(valueFormat);
+    return {
+      type: 'single',
+      values: glyph => {
+        const i = index.get(glyph);
+        if (i === undefined) return undefined;
+        return readValue(view, offset + (format === 1 ? 6 : 8 + i * size), valueFormat);
+      },
+    };
+  }
+
+  if (type === 2) {
+    const format1 = view.getUint16(offset + 4);
+    const format2 = view.getUint16(offset + 6);
+    const size1 = valueSize(format1);
+    const recordSize = size1 + valueSize(format2);
+    const pair = (record: number): [Adjustment, Adjustment] =>
+      [readValue(view, record, format1), readValue(view, record + size1, format2)];
+    if (format === 1) {
+      return {
+        type: 'pair',
+        values: (first, second) => {
+          const i = index.get(first);
+          if (i === undefined) return undefined;
+          const set = offset + view.getUint16(offset + 10 + i * 2);
+          for (let r = 0; r < view.getUint16(set); r++) {
+            const record = set + 2 + r * (2 + recordSize);
+            if (view.getUint16(record) === second) return pair(record + 2);
+          }
+          return undefined;
+        },
+      };
+    }
+    const classes1 = readClassDef(view, offset + view.getUint16(offset + 8));
+    const classes2 = readClassDef(view, offset + view.getUint16(offset + 10));
+    const class2Count = view.getUint16(offset + 14);
+    return {
+      type: 'pair',
+      values: (first, second) => {
+        if (!index.has(first)) return undefined;
+        const class1 = classes1.get(first) || 0;
+        const class2 = classes2.get(second) || 0;
+        return pair(offset + 16 + (class1 * class2Count + class2) * recordSize);
+      },
+    };
+  }
+
+  const classCount = view.getUint16(offset + 6);
+  const markArray = offset + view.getUint16(offset + 8);
+  const baseArray = offset + view.getUint16(offset + 10);
+  const marks = new Map<number, { markClass: number; anchor: Anchor }>();
+  coverage.forEach((glyph, i) => {
+    const record = markArray + 2 + i * 4;
+    marks.set(glyph, { markClass: view.getUint16(record), anchor: readAnchor(view, markArray + view.getUint16(record + 2)) });
+  });
+  const bases = new Map<number, (Anchor | undefined)[]>();
+  readCoverage(view, offset + view.getUint16(offset + 4)).forEach((glyph, i) => {
+    const anchors = readUint16s(view, baseArray + 2 + i * classCount * 2, classCount);
+    bases.set(glyph, anchors.map(a => (a ? readAnchor(view, baseArray + a) : undefined)));
+  });
+  return type === 4 ? { type: 'markToBase', marks, bases } : { type: 'markToMark', marks, bases };
+};
+
+// GSUB and GPOS share their script, feature and lookup lists
+const readLayout = <T>(view: DataView, table: TableRecord | undefined, readSubtable: (view: DataView, type: number, offset: number) => T | undefined) => {
+  const scripts = new Map<string, number[]>();
+  const features: { tag: string; lookups: number[] }[] = [];
+  const lookups: Lookup<T>[] = [];
+  if (!table) return { scripts, features, lookups };
+  const base = table.offset;
+
+  const scriptList = base + view.getUint16(base + 4);
+  for (let i = 0; i < view.getUint16(scriptList); i++) {
+    const record = scriptList + 2 + i * 6;
+    const script = scriptList + view.getUint16(record + 4);
+    const defaultLang = view.getUint16(script);
+    if (!defaultLang) continue;
+    const lang = script + defaultLang;
+    scripts.set(tagAt(view, record), readUint16s(view, lang + 6, view.getUint16(lang + 4)));
+  }
+
+  const featureList = base + view.getUint16(base + 6);
+  for (let i = 0; i < view.getUint16(featureList); i++) {
+    const record = featureList + 2 + i * 6;
+    const feature = featureList + view.getUint16(record + 4);
+    features.push({ tag: tagAt(view, record), lookups: readUint16s(view, feature + 4, view.getUint16(feature + 2)) });
+  }
+
+  const lookupList = base + view.getUint16(base + 8);
+  for (let i = 0; i < view.getUint16(lookupList); i++) {
+    const offset = lookupList + view.getUint16(lookupList + 2 + i * 2);
+    const type = view.getUint16(offset);
+    const flags = view.getUint16(offset + 2);
+    const count = view.getUint16(offset + 4);
+    const subtables = readUint16s(view, offset + 6, count)
+      .map(sub => readSubtable(view, type, offset + sub))
+      .filter((sub): sub is T => sub !== undefined);
+    lookups.push({ flags, markFilteringSet: flags & 0x10 ? view.getUint16(offset + 6 + count * 2) : -1, subtables });
+  }
+
+  const featureLookups = (scriptTags: string[], feature: string) => {
+    const script = scriptTags.find(s => scripts.has(s));
+    if (!script) return [];
+    const indices = scripts.get(script)!
+      .map(i => features[i])
+      .filter(f => f && f.tag === feature)
+      .flatMap(f => f.lookups);
+    return Array.from(new Set(indices)).sort((a, b) => a - b);
+  };
+  return { featureLookups, lookups };
+};
+
+const readGdef = (view: DataView, table: TableRecord | undefined) => {
+  const markSets: Set<number>[] = [];
+  if (!table) return { classes: new Map<number, number>(), markAttach: new Map<number, number>(), markSets };
+  const base = table.offset;
+  const at = (offset: number) => view.getUint16(base + offset);
+  const classes = at(4) ? readClassDef(view, base + at(4)) : new Map<number, number>();
+  const markAttach = at(10) ? readClassDef(view, base + at(10)) : new Map<number, number>();
+  if (at(2) >= 2 && at(12)) {
+    const sets = base + at(12);
+    for (let i = 0; i < view.getUint16(sets + 2); i++) {
+      markSets.push(new Set(readCoverage(view, sets + view.getUint32(sets + 4 + i * 4))));
+    }
+  }
+  return { classes, markAttach, markSets };
+};
+
+export const parseFont = (bytes: Uint8Array): FontFile => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flavor = view.getUint32(0);
+  if (flavor !== SFNT_TRUETYPE && flavor !== SFNT_OPENTYPE && flavor !== 0x74727565) throw new Error("Unsupported font file.");
+
+  const tables = new Map<string, TableRecord>();
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const entry = 12 + i * 16;
+    tables.set(tagAt(view, entry), { offset: view.getUint32(entry + 8), length: view.getUint32(entry + 12) });
+  }
+  const table = (tag: string) => {
+    const t = tables.get(tag);
+    if (!t) throw new Error(`Font is missing its ${tag} table.`);
+    return t;
+  };
+
+  const head = table('head');
+  const hhea = table('hhea');
+  const hmtx = table('hmtx');
+  const numGlyphs = view.getUint16(table('maxp').offset + 4);
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+  const os2 = tables.get('OS/2');
+  const post = tables.get('post');
+  const cmap = readCmap(view, table('cmap'));
+  const gsub = readLayout(view, tables.get('GSUB'), readGsubSubtable);
+  const gpos = readLayout(view, tables.get('GPOS'), readGposSubtable);
+  const gdef = readGdef(view, tables.get('GDEF'));
+  const ascent = view.getInt16(hhea.offset + 4);
+
+  const advance = (glyphId: number) =>
+    view.getUint16(hmtx.offset + Math.min(glyphId, numberOfHMetrics - 1) * 4);
+
+  const subset = (glyphIds: Iterable<number>): Uint8Array => {
+    if (!tables.has('glyf')) return bytes;
+    const glyf = table('glyf');
+    const loca = table('loca');
+    const longLoca = view.getInt16(head.offset + 50) === 1;
+    const glyphRange = (gid: number): [number, number] => longLoca
+      ? [view.getUint32(loca.offset + gid * 4), view.getUint32(loca.offset + gid * 4 + 4)]
+      : [view.getUint16(loca.offset + gid * 2) * 2, view.getUint16(loca.offset + gid * 2 + 2) * 2];
+
+    // Composite glyphs pull in their components
+    const keep = new Set<number>();
+    const pending = [0, ...glyphIds];
+    while (pending.length) {
+      const gid = pending.pop()!;
+      if (gid >= numGlyphs || keep.has(gid)) continue;
+      keep.add(gid);
+      const [start, end] = glyphRange(gid);
+      if (end <= start || view.getInt16(glyf.offset + start) >= 0) continue;
+      let p = glyf.offset + start + 10;
+      for (;;) {
+        const flags = view.getUint16(p);
+        pending.push(view.getUint16(p + 2));
+        p += 4 + (flags & 0x0001 ? 4 : 2) + (flags & 0x0008 ? 2 : flags & 0x0040 ? 4 : flags & 0x0080 ? 8 : 0);
+        if (!(flags & 0x0020)) break;
+      }
+    }
+
+    const newLoca = new Uint8Array((numGlyphs + 1) * 4);
+    const locaView = new DataView(newLoca.buffer);
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (let gid = 0; gid < numGlyphs; gid++) {
+      locaView.setUint32(gid * 4, size);
+      if (!keep.has(gid)) continue;
+      const [start, end] = glyphRange(gid);
+      if (end <= start) continue;
+      chunks.push(bytes.subarray(glyf.offset + start, glyf.offset + end));
+      size += (end - start + 3) & ~3;
+    }
+    locaView.setUint32(numGlyphs * 4, size);
+    const newGlyf = new Uint8Array(size);
+    let offset = 0;
+    chunks.forEach(c => { newGlyf.set(c, offset); offset += (c.length + 3) & ~3; });
+
+    const newHead = bytes.slice(head.offset, head.offset + head.length);
+    const headView = new DataView(newHead.buffer);
+    headView.setUint32(8, 0); // checkSumAdjustment
+    headView.setInt16(50, 1); // Long loca offsets
+
+    const out = SUBSET_TABLES.filter(tag => tables.has(tag)).map(tag => {
+      if (tag === 'head') return { tag, data: newHead };
+      if (tag === 'loca') return { tag, data: newLoca };
+      if (tag === 'glyf') return { tag, data: newGlyf };
+      const t = table(tag);
+      return { tag, data: bytes.subarray(t.offset, t.offset + t.length) };
+    });
+    return writeSfnt(SFNT_TRUETYPE, out);
+  };
+
+  return {
+    postscriptName: readName(view, tables.get('name')),
+    unitsPerEm: view.getUint16(head.offset + 18),
+    ascent,
+    descent: view.getInt16(hhea.offset + 6),
+    capHeight: os2 && os2.length > 90 && view.getUint16(os2.offset) >= 2 ? view.getInt16(os2.offset + 88) : ascent,
+    bbox: [view.getInt16(head.offset + 36), view.getInt16(head.offset + 38), view.getInt16(head.offset + 40), view.getInt16(head.offset + 42)],
+    italicAngle: post ? view.getInt32(post.offset + 4) / 65536 : 0,
+    cff: tables.has('CFF '),
+    data: bytes,
+    glyphId: (codePoint) => cmap.get(codePoint) || 0,
+    advance,
+    featureLookups: gsub.featureLookups,
+    lookup: (index) => gsub.lookups[index],
+    positionLookups: gpos.featureLookups,
+    positionLookup: (index) => gpos.lookups[index],
+    glyphClass: (glyphId) => gdef.classes.get(glyphId) || GlyphClass.Unclassified,
+    ignores: (lookup, glyphId) => {
+      const cls = gdef.classes.get(glyphId);
+      if (cls === GlyphClass.Base) return (lookup.flags & 0x2) !== 0;
+      if (cls === GlyphClass.Ligature) return (lookup.flags & 0x4) !== 0;
+      if (cls !== GlyphClass.Mark) return false;
+      if (lookup.flags & 0x8) return true;
+      if (lookup.flags & 0x10) return !gdef.markSets[lookup.markFilteringSet]?.has(glyphId);
+      const attachType = lookup.flags >> 8;
+      return attachType !== 0 && gdef.markAttach.get(glyphId) !== attachType;
+    },
+    subset,
+  };
+};
+
+// Accepts TTF, OTF or WOFF 1.0 bytes
+export const loadFont = async (bytes: Uint8Array): Promise<FontFile> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return parseFont(view.getUint32(0) === WOFF_SIGNATURE ? await unwrapWoff(bytes) : bytes);
+};
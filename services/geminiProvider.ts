@@ -0,0 +1,127 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import type { AIProvider } from "./aiProvider";
+import { PASSAGE_QUESTION_TYPES, PASSAGE_PART_TYPES, DIFFICULTY_LEVELS, BLOOM_LEVELS } from "../constants";
+import { QuestionType } from "../types";
+
+interface GeminiConfig {
+  apiKey: string;
+  model: string;
+  imageModel: string;
+}
+
+// Structured-output schema for one question. Gemini drops properties that are not listed, so every field
+// the prompt asks for must be here. Passage questions carry their answers on the parts.
+const questionSchema = (questionType: string) => {
+  const passage = PASSAGE_QUESTION_TYPES.includes(questionType as QuestionType);
+  return {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      matchPairs: {
+          type: Type.ARRAY,
+          items: {
+              type: Type.OBJECT,
+              properties: {
+                  left: { type: Type.STRING },
+                  right: { type: Type.STRING }
+              }
+          }
+      },
+      answer: { type: Type.STRING },
+      difficulty: { type: Type.STRING, enum: DIFFICULTY_LEVELS },
+      bloomLevel: { type: Type.STRING, enum: BLOOM_LEVELS },
+      passage: { type: Type.STRING },
+      table: {
+          type: Type.ARRAY,
+          items: {
+              type: Type.OBJECT,
+              properties: { cells: { type: Type.ARRAY, items: { type: Type.STRING } } }
+          }
+      },
+      parts: {
+          type: Type.ARRAY,
+          items: {
+              type: Type.OBJECT,
+              properties: {
+                  type: { type: Type.STRING, enum: PASSAGE_PART_TYPES },
+                  text: { type: Type.STRING },
+                  options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  marks: { type: Type.NUMBER },
+                  answer: { type: Type.STRING }
+              },
+              required: ["type", "text", "marks"]
+          }
+      }
+    },
+    required: passage ? ["text", "passage", "parts"] : ["text", "answer"]
+  };
+};
+
+export const createGeminiProvider = (config: GeminiConfig): AIProvider => {
+  const getAI = () => {
+    if (!config.apiKey) {
+      console.error("API_KEY is missing in environment variables.");
+      throw new Error("API Key is missing. Please set 'API_KEY' (or VITE_API_KEY) in your Vercel Environment Variables.");
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  return {
+    name: 'gemini',
+
+    generateQuestions: async (request) => {
+      const ai = getAI();
+
+      // Attachments first (sample paper, syllabus), then the text prompt
+      const contents: any[] = request.attachments.map(a => ({ inlineData: { data: a.data, mimeType: a.mimeType } }));
+      contents.push({ text: request.prompt });
+
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: { parts: contents },
+        config: {
+          systemInstruction: request.systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: questionSchema(request.questionType)
+          }
+        }
+      });
+
+      if (!response.text) throw new Error("Empty response from AI");
+      return response.text;
+    },
+
+    generateImage: async (prompt) => {
+      const ai = getAI();
+      const response = await ai.models.generateContent({
+        model: config.imageModel,
+        contents: {
+          parts: [{ text: prompt }]
+        },
+        config: {
+          imageConfig: {
+              aspectRatio: "4:3"
+              // imageSize Removed: Not supported by gemini-2.5-flash-image
+          }
+        }
+      });
+
+      // Iterate to find image part
+      if (response.candidates?.[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData) {
+            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+          }
+        }
+      }
+
+      // Fallback if model returns text only or fails to generate image
+      console.error("No image part found in response");
+      return `https://placehold.co/400x300?text=Diagram+Not+Generated`;
+    }
+  };
+};
@@ -1,36 +1,34 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Question, QuestionType } from "../types";
+import { Question, QuestionType, QuestionPart, Difficulty, BloomLevel } from "../types";
+import { PASSAGE_QUESTION_TYPES, PASSAGE_PART_TYPES, DIFFICULTY_LEVELS, BLOOM_LEVELS } from "../constants";
+import { getAIProvider, AIAttachment } from "./aiProvider";
+import { questionMarks } from "./questionUtils";
 
-// Helper to get Env Var (duplicated to avoid circular dependency complexities in small apps)
-const getEnv = (key: string): string => {
-  try {
-    if (typeof process !== 'undefined' && process.env && process.env[key]) return process.env[key] as string;
-    if (typeof process !== 'undefined' && process.env && process.env[`REACT_APP_${key}`]) return process.env[`REACT_APP_${key}`] as string;
-  } catch (e) {}
-  try {
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env) {
-       // @ts-ignore
-       if (import.meta.env[key]) return import.meta.env[key];
-       // @ts-ignore
-       if (import.meta.env[`VITE_${key}`]) return import.meta.env[`VITE_${key}`];
-    }
-  } catch (e) {}
-  return "";
+// Robust ID generator fallback
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+const BLOOM_GUIDANCE: Record<BloomLevel, string> = {
+  [BloomLevel.REMEMBER]: "Ask students to recall facts, terms, definitions or basic concepts.",
+  [BloomLevel.UNDERSTAND]: "Ask students to explain, compare, classify or interpret ideas in their own words.",
+  [BloomLevel.APPLY]: "Ask students to use concepts or formulae in new, concrete situations or numerical problems.",
+  [BloomLevel.ANALYSE]: "Ask students to break information into parts, find relationships, evaluate claims or draw conclusions from data."
 };
 
-const getAI = () => {
-  const apiKey = getEnv("API_KEY");
-  if (!apiKey) {
-    console.error("API_KEY is missing in environment variables.");
-    throw new Error("API Key is missing. Please set 'API_KEY' (or VITE_API_KEY) in your Vercel Environment Variables.");
-  }
-  return new GoogleGenAI({ apiKey });
+// Part types come back as short labels ("MCQ", "VSA", "SA") or as the full enum value
+const PART_TYPE_ALIASES: Record<string, QuestionType> = { MCQ: QuestionType.MCQ, VSA: QuestionType.VSA, SA: QuestionType.SA };
+
+const parsePart = (p: any): QuestionPart => {
+  const type = PART_TYPE_ALIASES[p.type] || PASSAGE_PART_TYPES.find(t => t === p.type) || QuestionType.SA;
+  const part: QuestionPart = { id: generateId(), text: String(p.text || ''), marks: Number(p.marks) || 1, type };
+  if (Array.isArray(p.options) && p.options.length > 0) part.options = p.options.map(String);
+  if (p.answer) part.answer = String(p.answer);
+  return part;
 };
 
-// Robust ID generator fallback
-const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+const parsePassage = (q: any) => {
+  const rows = Array.isArray(q.table) ? q.table.map((row: any) => ({ cells: (Array.isArray(row) ? row : row?.cells || []).map(String) })) : [];
+  return rows.length > 0 ? { text: String(q.passage), table: rows } : { text: String(q.passage) };
+};
 
 export const generateQuestionsWithAI = async (
   classNum: string,
@@ -43,14 +41,16 @@ export const generateQuestionsWithAI = async (
     text: string, 
     attachment?: { data: string, mimeType: string },
     syllabusAttachment?: { data: string, mimeType: string }
-  }
+  },
+  spec?: { difficulty?: Difficulty, bloomLevel?: BloomLevel, unit?: string }
 ): Promise<Question[]> => {
   
-  const ai = getAI();
+  const provider = getAIProvider();
 
   const systemInstruction = `You are an expert CBSE (Central Board of Secondary Education, India) school teacher and question paper setter. 
   Create strictly academic, curriculum-aligned questions for Class ${classNum} ${subject}.
-  Topic: ${topic}.
+  Topic: ${topic}${spec?.unit ? ` (Unit: ${spec.unit}).
+  This is an exact chapter/unit name from the prescribed syllabus. Every question must stay strictly within it` : ''}.
   
   FORMATTING RULES (IMPORTANT):
   1. STRICTLY use LaTeX formatting for ALL mathematical expressions, equations, and symbols.
@@ -76,6 +76,9 @@ export const generateQuestionsWithAI = async (
   - Provide the correct answer key in the 'answer' field (e.g. A-3, B-1, C-4, D-2).
   
   For other types, provide a suggested answer key or marking scheme in the 'answer' field.
+  ${spec?.difficulty ? `\nDIFFICULTY: Every question must be of ${spec.difficulty} difficulty for Class ${classNum} students.` : ''}
+  ${spec?.bloomLevel ? `\nCOGNITIVE LEVEL (Bloom's taxonomy): Every question must test "${spec.bloomLevel}". ${BLOOM_GUIDANCE[spec.bloomLevel]}` : ''}
+  Tag each question with its 'difficulty' (${DIFFICULTY_LEVELS.join(' | ')}) and 'bloomLevel' (${BLOOM_LEVELS.join(' | ')}).
   
   ${styleContext?.text ? `\nSTYLE GUIDE & SCOPE:\n${styleContext.text}` : ''}
 
@@ -88,7 +91,9 @@ export const generateQuestionsWithAI = async (
          { "left": "Item A", "right": "Item B (Shuffled)" },
          { "left": "Item C", "right": "Item D (Shuffled)" }
       ], // Only for Match Type
-      "answer": "Correct answer string"
+      "answer": "Correct answer string",
+      "difficulty": "${spec?.difficulty || Difficulty.MEDIUM}",
+      "bloomLevel": "${spec?.bloomLevel || BloomLevel.UNDERSTAND}"
     }
   ]`;
 
@@ -105,69 +110,42 @@ export const generateQuestionsWithAI = async (
       (D) Assertion (A) is false but Reason (R) is true.`;
   }
 
-  // Build the contents array
-  const contents = [];
-  
-  // 1. Add Sample Question Paper (if exists)
-  if (styleContext?.attachment) {
-      contents.push({
-          inlineData: {
-              data: styleContext.attachment.data,
-              mimeType: styleContext.attachment.mimeType
-          }
-      });
+  if (PASSAGE_QUESTION_TYPES.includes(questionType as QuestionType)) {
+      promptText += `\nEach ${questionType} question MUST be a passage followed by dependent sub-questions:
+      - 'passage': the ${questionType === QuestionType.PARAGRAPH ? 'paragraph' : 'case or source'} (80-200 words) that every sub-question refers to.
+      - 'table': OPTIONAL data table as a list of rows like { "cells": ["Heading 1", "Heading 2"] }; the first row is the header. Omit it if not needed.
+      - 'text': a one-line instruction, e.g. "Read the passage given below and answer the questions that follow."
+      - 'parts': 3 to 5 sub-questions of mixed types, each { "type": "${PASSAGE_PART_TYPES.join('" | "')}", "text": "...", "options": [4 options, only for ${QuestionType.MCQ}], "marks": number, "answer": "..." }.
+      - The marks of the parts MUST add up to exactly ${marks}.
+      - Do not put 'options' or 'answer' on the question itself.`;
   }
 
-  // 2. Add Syllabus/Blueprint (if exists) - AI will use this for scope
+  // Attachments: 1. Sample Question Paper (style), 2. Syllabus/Blueprint - AI will use this for scope
+  const attachments: AIAttachment[] = [];
+  if (styleContext?.attachment) {
+      attachments.push({ data: styleContext.attachment.data, mimeType: styleContext.attachment.mimeType });
+  }
   if (styleContext?.syllabusAttachment) {
-      contents.push({
-          inlineData: {
-              data: styleContext.syllabusAttachment.data,
-              mimeType: styleContext.syllabusAttachment.mimeType
-          }
-      });
+      attachments.push({ data: styleContext.syllabusAttachment.data, mimeType: styleContext.syllabusAttachment.mimeType });
   }
-  
-  // 3. Add the text prompt
-  contents.push({ text: promptText });
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: contents },
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              text: { type: Type.STRING },
-              options: { type: Type.ARRAY, items: { type: Type.STRING } },
-              matchPairs: { 
-                  type: Type.ARRAY, 
-                  items: {
-                      type: Type.OBJECT,
-                      properties: {
-                          left: { type: Type.STRING },
-                          right: { type: Type.STRING }
-                      }
-                  }
-              },
-              answer: { type: Type.STRING }
-            },
-            required: ["text", "answer"]
-          }
-        }
-      }
+    const rawData = await provider.generateQuestions({
+      classNum,
+      subject,
+      topic,
+      questionType,
+      count,
+      marks,
+      systemInstruction,
+      prompt: promptText,
+      attachments
     });
 
-    const rawData = response.text;
     if (!rawData) throw new Error("Empty response from AI");
     
     // Clean potential markdown formatting often returned by LLMs
-    const cleanText = rawData.replace(/^```json\s*/, "").replace(/^```\s*/, "").replace(/\s*```$/, "");
+    const cleanText = rawData.trim().replace(/^```json\s*/, "").replace(/^```\s*/, "").replace(/\s*```$/, "");
     
     let parsedData;
     try {
@@ -177,16 +155,37 @@ export const generateQuestionsWithAI = async (
       throw new Error("Failed to parse AI response. The model might be overloaded.");
     }
 
-    return parsedData.map((q: any) => ({
-      id: generateId(),
-      type: questionType as QuestionType,
-      text: q.text,
-      marks: marks,
-      options: q.options || [],
-      matchPairs: q.matchPairs || [],
-      answer: q.answer,
-      topic: topic
-    }));
+    // JSON-mode models wrap the array in an object, e.g. { "questions": [...] }
+    if (!Array.isArray(parsedData)) {
+      parsedData = parsedData && Object.values(parsedData).find(v => Array.isArray(v));
+      if (!parsedData) throw new Error("AI response did not contain a list of questions.");
+    }
+
+    return parsedData.map((q: any) => {
+      const question: Question = {
+        id: generateId(),
+        type: questionType as QuestionType,
+        text: q.text,
+        marks: marks,
+        options: q.options || [],
+        matchPairs: q.matchPairs || [],
+        answer: q.answer,
+        topic: topic
+      };
+      // Prefer the AI's own tag when it is a known level; otherwise fall back to what was requested
+      const difficulty = DIFFICULTY_LEVELS.find(d => d === q.difficulty) || spec?.difficulty;
+      const bloomLevel = BLOOM_LEVELS.find(b => b === q.bloomLevel) || spec?.bloomLevel;
+      if (difficulty) question.difficulty = difficulty;
+      if (bloomLevel) question.bloomLevel = bloomLevel;
+      if (q.passage) question.passage = parsePassage(q);
+      if (Array.isArray(q.parts) && q.parts.length > 0) {
+        question.parts = q.parts.map(parsePart);
+        question.marks = questionMarks(question);
+      }
+      // Firestore rejects undefined fields
+      if (question.answer === undefined) delete question.answer;
+      return question;
+    });
 
   } catch (error) {
     console.error("AI Generation Error", error);
@@ -196,35 +195,10 @@ export const generateQuestionsWithAI = async (
 };
 
 export const generateImageForQuestion = async (promptText: string): Promise<string> => {
-  const ai = getAI();
+  const provider = getAIProvider();
   
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: `Generate an image. Create a clear, educational, black and white line diagram for this question: ${promptText}` }]
-      },
-      config: {
-        imageConfig: {
-            aspectRatio: "4:3"
-            // imageSize Removed: Not supported by gemini-2.5-flash-image
-        }
-      }
-    });
-
-    // Iterate to find image part
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-      }
-    }
-    
-    // Fallback if model returns text only or fails to generate image
-    console.error("No image part found in response");
-    return `https://placehold.co/400x300?text=Diagram+Not+Generated`;
-
+    return await provider.generateImage(`Generate an image. Create a clear, educational, black and white line diagram for this question: ${promptText}`);
   } catch (e: any) {
     console.error("Image gen failed", e);
     // Return placeholder
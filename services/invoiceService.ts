@@ -0,0 +1,133 @@
+
+import { Invoice } from "../types";
+import { INVOICE_SELLER, GST_STATE_CODES } from "../constants";
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Indian financial year (April to March) a date falls in, e.g. "2025-26"
+export const financialYearOf = (date: Date): string => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatInvoiceNumber = (financialYear: string, sequence: number) =>
+  `${INVOICE_SELLER.invoicePrefix}/${financialYear}/${String(sequence).padStart(5, '0')}`;
+
+const normalizeState = (name: string) => name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+// GST state code of the buyer's place of supply: from the GSTIN when there is one, otherwise from the state name.
+// Undefined when neither identifies a state.
+export const placeOfSupply = (state?: string, gstin?: string): string | undefined => {
+  const fromGstin = gstin && GSTIN_PATTERN.test(gstin) ? gstin.slice(0, 2) : undefined;
+  if (fromGstin && GST_STATE_CODES[fromGstin]) return fromGstin;
+  if (!state) return undefined;
+  const name = normalizeState(state);
+  return Object.keys(GST_STATE_CODES).find(code => normalizeState(GST_STATE_CODES[code]) === name);
+};
+
+export const formatPlaceOfSupply = (stateCode: string) => `${GST_STATE_CODES[stateCode] || 'Unknown'} (${stateCode})`;
+
+// Splits a GST-inclusive total into taxable value and tax. Buyers whose place of supply is the seller's state are
+// charged CGST + SGST; everyone else, including buyers with no known state, IGST.
+export const calculateGstBreakup = (total: number, stateCode?: string) => {
+  const rate = INVOICE_SELLER.gstRate;
+  const taxableAmount = round2(total * 100 / (100 + rate));
+  const totalTax = round2(total - taxableAmount);
+  const intraState = stateCode === INVOICE_SELLER.stateCode;
+  const cgst = intraState ? round2(totalTax / 2) : 0;
+  const sgst = intraState ? round2(totalTax - cgst) : 0;
+  return { gstRate: rate, taxableAmount, cgst, sgst, igst: intraState ? 0 : totalTax, totalTax, total: round2(total) };
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per invoice, for the accountant's GST returns
+export const invoicesToCsv = (invoices: Invoice[]): string => {
+  const header = ['Invoice No', 'Date', 'Name', 'School', 'Email', 'GSTIN', 'State', 'Place of Supply', 'Plan', 'Coupon', 'Discount', 'Taxable Value', 'CGST', 'SGST', 'IGST', 'Total'];
+  const rows = invoices.map(inv => [
+    inv.number, inv.issuedAt.slice(0, 10), inv.billedTo.name, inv.billedTo.schoolName, inv.userEmail, inv.billedTo.gstin,
+    inv.billedTo.state, inv.placeOfSupply && formatPlaceOfSupply(inv.placeOfSupply), inv.planLabel, inv.couponCode, inv.discount, inv.taxableAmount, inv.cgst, inv.sgst, inv.igst, inv.total
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+const escapeHtml = (text: string = '') =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (n: number) => `₹${n.toFixed(2)}`;
+
+export const renderInvoiceHtml = (inv: Invoice): string => {
+  const b = inv.billedTo;
+  const taxRows = inv.igst > 0
+    ? `<tr><td>IGST @ ${inv.gstRate}%</td><td style="text-align:right">${money(inv.igst)}</td></tr>`
+    : `<tr><td>CGST @ ${inv.gstRate / 2}%</td><td style="text-align:right">${money(inv.cgst)}</td></tr>
+       <tr><td>SGST @ ${inv.gstRate / 2}%</td><td style="text-align:right">${money(inv.sgst)}</td></tr>`;
+  return `
+  <div style="width:190mm;padding:10mm;font-family:Arial,sans-serif;font-size:12px;color:#000">
+    <div style="display:flex;justify-content:space-between;border-bottom:2px solid #000;padding-bottom:8px">
+      <div>
+        <div style="font-size:18px;font-weight:bold">${escapeHtml(INVOICE_SELLER.name)}</div>
+        <div>${escapeHtml(INVOICE_SELLER.address)}</div>
+        ${INVOICE_SELLER.gstin ? `<div>GSTIN: ${escapeHtml(INVOICE_SELLER.gstin)}</div>` : ''}
+      </div>
+      <div style="text-align:right">
+        <div style="font-size:18px;font-weight:bold">TAX INVOICE</div>
+        <div>Invoice No: <b>${escapeHtml(inv.number)}</b></div>
+        <div>Date: ${new Date(inv.issuedAt).toLocaleDateString('en-IN')}</div>
+      </div>
+    </div>
+    <div style="margin:12px 0">
+      <div style="font-weight:bold">Billed To</div>
+      <div>${escapeHtml(b.name)}</div>
+      ${b.schoolName ? `<div>${escapeHtml(b.schoolName)}</div>` : ''}
+      ${b.city || b.state ? `<div>${escapeHtml([b.city, b.state].filter(Boolean).join(', '))}</div>` : ''}
+      <div>${escapeHtml(inv.userEmail)}</div>
+      ${b.gstin ? `<div>GSTIN: ${escapeHtml(b.gstin)}</div>` : ''}
+      <div>Place of Supply: ${escapeHtml(inv.placeOfSupply ? formatPlaceOfSupply(inv.placeOfSupply) : b.state || 'Not recorded')}</div>
+    </div>
+    <table style="width:100%;border-collapse:collapse" border="1" cellpadding="6">
+      <tr style="background:#f3f4f6"><th style="text-align:left">Description</th><th>SAC</th><th style="text-align:right">Taxable Value</th></tr>
+      <tr>
+        <td>${escapeHtml(inv.planLabel)} subscription${inv.couponCode ? ` (coupon ${escapeHtml(inv.couponCode)}, ${money(inv.discount || 0)} off)` : ''}</td>
+        <td style="text-align:center">${INVOICE_SELLER.sacCode}</td>
+        <td style="text-align:right">${money(inv.taxableAmount)}</td>
+      </tr>
+    </table>
+    <table style="width:60%;margin:12px 0 0 auto;border-collapse:collapse" cellpadding="4">
+      <tr><td>Taxable Value</td><td style="text-align:right">${money(inv.taxableAmount)}</td></tr>
+      ${taxRows}
+      <tr style="font-weight:bold;border-top:1px solid #000"><td>Total</td><td style="text-align:right">${money(inv.total)}</td></tr>
+    </table>
+    <p style="margin-top:24px;font-size:10px;color:#555">This is a computer generated invoice and does not require a signature.</p>
+  </div>`;
+};
+
+// Uses html2pdf from the CDN bundle; falls back to the browser's print dialog
+export const downloadInvoicePdf = (inv: Invoice) => {
+  const html = renderInvoiceHtml(inv);
+  const filename = `Invoice_${inv.number.replace(/[^a-zA-Z0-9-]/g, '_')}.pdf`;
+  // @ts-ignore
+  if (window.html2pdf) {
+    // @ts-ignore
+    return window.html2pdf().set({ margin: 0, filename, jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' } }).from(html, 'string').save();
+  }
+  const popup = window.open('', '_blank');
+  if (!popup) return alert("Please allow pop-ups to download the invoice.");
+  popup.document.write(`<html><head><title>${escapeHtml(inv.number)}</title></head><body>${html}</body></html>`);
+  popup.document.close();
+  popup.print();
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
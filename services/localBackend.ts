@@ -0,0 +1,147 @@
+
+import type { Repository, StorageBackend, TransactionContext } from "./storageBackend";
+
+// Minimal key/value contract shared by the in-memory and IndexedDB stores.
+// Keys are `${collection}/${id}` so a collection can be scanned by prefix.
+interface DocumentStore {
+  read: (key: string) => Promise<unknown | undefined>;
+  write: (key: string, value: unknown) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  scan: (prefix: string) => Promise<unknown[]>;
+}
+
+const IDB_NAME = 'rks-qp-maker';
+const IDB_STORE = 'documents';
+
+// Copy on the way in and out so callers never share references with the store (mirrors Firestore)
+const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+const matches = (item: Record<string, unknown> | undefined, filter?: Record<string, unknown>) =>
+  !filter || Object.entries(filter).every(([field, value]) => item?.[field] === value);
+
+const localCollection = <T>(store: DocumentStore, name: string): Repository<T> => {
+  const keyFor = (id: string) => `${name}/${id}`;
+  return {
+    get: async (id) => clone((await store.read(keyFor(id))) as T | undefined),
+
+    set: async (id, value) => {
+      await store.write(keyFor(id), clone(value));
+    },
+
+    update: async (id, patch) => {
+      const existing = await store.read(keyFor(id));
+      if (existing === undefined) throw new Error(`No document to update: ${keyFor(id)}`);
+      await store.write(keyFor(id), { ...(existing as object), ...clone(patch) });
+    },
+
+    remove: async (id) => {
+      await store.delete(keyFor(id));
+    },
+
+    list: async (filter) => {
+      const items = await store.scan(`${name}/`);
+      return items.filter(item => matches(item as Record<string, unknown> | undefined, filter as Record<string, unknown>)).map(item => clone(item as T));
+    }
+  };
+};
+
+const createMemoryStore = (): DocumentStore => {
+  const data = new Map<string, unknown>();
+  return {
+    read: async (key) => data.get(key),
+    write: async (key, value) => { data.set(key, value); },
+    delete: async (key) => { data.delete(key); },
+    scan: async (prefix) => Array.from(data.entries()).filter(([key]) => key.startsWith(prefix)).map(([, value]) => value)
+  };
+};
+
+const createIndexedDbStore = (): DocumentStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(IDB_NAME, 1);
+        req.onupgradeneeded = () => { req.result.createObjectStore(IDB_STORE); };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<R> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const req = action(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      req.onsuccess = () => resolve(req.result as R);
+      req.onerror = () => reject(req.error);
+    });
+  };
+
+  return {
+    read: (key) => run('readonly', s => s.get(key)),
+    write: async (key, value) => { await run('readwrite', s => s.put(value, key)); },
+    delete: async (key) => { await run('readwrite', s => s.delete(key)); },
+    scan: (prefix) => run('readonly', s => s.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))
+  };
+};
+
+const TX_LOCK_NAME = 'rks-qp-maker-tx';
+
+// Serialises transactions: Web Locks spans every tab sharing the IndexedDB, the promise chain covers this tab
+const createTransactionRunner = (store: DocumentStore): StorageBackend['runTransaction'] => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const execute = async <R>(fn: (tx: TransactionContext) => Promise<R>): Promise<R> => {
+    // Buffered in order; updates are merged into the stored document when the transaction commits
+    const writes: { key: string; value?: unknown; patch?: object }[] = []; // neither value nor patch = delete
+
+    const resolve = async (key: string) => {
+      let value = await store.read(key);
+      writes.filter(w => w.key === key).forEach(w => {
+        if (w.patch) {
+          if (value === undefined) throw new Error(`No document to update: ${key}`);
+          value = { ...(value as object), ...w.patch };
+        } else {
+          value = w.value;
+        }
+      });
+      return value;
+    };
+
+    const result = await fn({
+      get: async <T>(collectionName: string, id: string) => clone((await resolve(`${collectionName}/${id}`)) as T | undefined),
+      set: (collectionName, id, value) => { writes.push({ key: `${collectionName}/${id}`, value: clone(value) }); },
+      update: (collectionName, id, patch) => { writes.push({ key: `${collectionName}/${id}`, patch: clone(patch) }); },
+      remove: (collectionName, id) => { writes.push({ key: `${collectionName}/${id}` }); }
+    });
+
+    // Every final value is worked out before the first write, so a failed update leaves the store untouched
+    const keys = Array.from(new Set(writes.map(w => w.key)));
+    const values = await Promise.all(keys.map(resolve));
+    for (let i = 0; i < keys.length; i++) {
+      if (values[i] === undefined) await store.delete(keys[i]);
+      else await store.write(keys[i], values[i]);
+    }
+    return result;
+  };
+
+  return <R>(fn: (tx: TransactionContext) => Promise<R>): Promise<R> => {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const run = () => (locks ? locks.request(TX_LOCK_NAME, () => execute(fn)) : execute(fn)) as Promise<R>;
+    const next = queue.then(run, run);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+};
+
+const createLocalBackend = (name: string, store: DocumentStore): StorageBackend => ({
+  name,
+  collection: <T>(collectionName: string) => localCollection<T>(store, collectionName),
+  runTransaction: createTransactionRunner(store)
+});
+
+export const createMemoryBackend = (): StorageBackend => createLocalBackend('memory', createMemoryStore());
+
+export const createIndexedDbBackend = (): StorageBackend => createLocalBackend('indexeddb', createIndexedDbStore());
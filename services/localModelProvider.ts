@@ -0,0 +1,41 @@
+
+import type { AIProvider } from "./aiProvider";
+
+interface LocalModelConfig {
+  baseUrl: string; // e.g. http://localhost:11434
+  model: string;
+}
+
+// Talks to a local model server using the Ollama chat API (JSON mode, no streaming)
+export const createLocalModelProvider = (config: LocalModelConfig): AIProvider => ({
+  name: 'local',
+
+  generateQuestions: async (request) => {
+    // Vision models accept base64 images; documents are not supported locally
+    const images = request.attachments.filter(a => a.mimeType.startsWith('image/')).map(a => a.data);
+
+    const res = await fetch(`${config.baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        stream: false,
+        format: 'json',
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: request.prompt, ...(images.length > 0 ? { images } : {}) }
+        ]
+      })
+    });
+    if (!res.ok) throw new Error(`Local model request failed (${res.status}): ${await res.text()}`);
+
+    const data = await res.json();
+    const text = data?.message?.content;
+    if (!text) throw new Error("Empty response from AI");
+    return text;
+  },
+
+  generateImage: async () => {
+    throw new Error("Image generation is not supported by the local model server");
+  }
+});
@@ -0,0 +1,73 @@
+
+import { MailMessage } from "../types";
+import { getEnv } from "../firebaseConfig";
+import { StorageService } from "./storageService";
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Development stand-in: prints the message so links/codes can be copied from the console
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+  }
+};
+
+// Local stand-in that keeps every message in the storage backend's outbox collection
+export const outboxTransport: MailTransport = {
+  name: 'outbox',
+  send: async (message) => {
+    await StorageService.saveOutboxMessage(message);
+    await consoleTransport.send(message);
+  }
+};
+
+// POSTs the message as JSON to a mail relay (e.g. a serverless function in front of SES/SendGrid)
+export const createHttpTransport = (url: string): MailTransport => ({
+  name: 'http',
+  send: async (message) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ to: message.to, subject: message.subject, text: message.text })
+    });
+    if (!res.ok) throw new Error(`Mail relay rejected the message (${res.status})`);
+  }
+});
+
+const resolveTransport = (): MailTransport => {
+  const configured = getEnv("MAIL_TRANSPORT").toLowerCase();
+  if (configured === 'http' && getEnv("MAIL_API_URL")) return createHttpTransport(getEnv("MAIL_API_URL"));
+  if (configured === 'outbox') return outboxTransport;
+  return consoleTransport;
+};
+
+let activeTransport: MailTransport | null = null;
+
+// Swap the transport at runtime (tests, offline demos)
+export const setMailTransport = (transport: MailTransport) => {
+  activeTransport = transport;
+};
+
+export const MailService = {
+  send: async (to: string, subject: string, text: string) => {
+    if (!activeTransport) activeTransport = resolveTransport();
+    await activeTransport.send({
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2, 5),
+      to,
+      subject,
+      text,
+      sentAt: new Date().toISOString()
+    });
+  },
+
+  // Base URL for links in emails; APP_URL wins so links work when sent from a server
+  appUrl: (): string => {
+    const configured = getEnv("APP_URL");
+    if (configured) return configured.replace(/\/$/, '');
+    return typeof window !== 'undefined' ? window.location.origin : '';
+  }
+};
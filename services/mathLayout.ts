@@ -0,0 +1,416 @@
+
+// Lays out the LaTeX subset used in questions ($...$ segments rendered by KaTeX on screen) as positioned
+// glyph runs, rules and strokes, so the PDF renderer can draw math as vectors. Covers scripts, fractions,
+// roots, \left/\right delimiters, accents, \text and the common symbol commands; unknown commands print
+// their name rather than failing.
+
+export type MathItem =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; italic: boolean; bold: boolean }
+  | { kind: 'rule'; x: number; y: number; width: number; height: number } // y is the bottom edge
+  | { kind: 'path'; points: [number, number][]; lineWidth: number };
+
+// Coordinates are relative to the box origin on the baseline, y pointing up
+export interface MathBox {
+  width: number;
+  ascent: number;
+  descent: number;
+  items: MathItem[];
+}
+
+export type MeasureText = (text: string, size: number, italic: boolean, bold: boolean) => number;
+
+type AtomClass = 'ord' | 'bin' | 'rel' | 'op' | 'open' | 'close' | 'punct';
+
+interface Style {
+  italic?: boolean; // undefined: italic for Latin and lowercase Greek letters
+  bold: boolean;
+}
+
+export type MathNode =
+  | { t: 'sym'; text: string; cls: AtomClass; style: Style }
+  | { t: 'func'; text: string }
+  | { t: 'text'; text: string; bold: boolean }
+  | { t: 'space'; em: number }
+  | { t: 'group'; body: MathNode[] }
+  | { t: 'scripts'; base: MathNode; sup?: MathNode; sub?: MathNode }
+  | { t: 'frac'; num: MathNode; den: MathNode; display: boolean }
+  | { t: 'sqrt'; body: MathNode; index?: MathNode }
+  | { t: 'accent'; body: MathNode; accent: 'bar' | 'vec' | 'hat' | 'dot' }
+  | { t: 'delimited'; left: string; right: string; body: MathNode[] };
+
+const SYMBOLS: Record<string, [string, AtomClass]> = {
+  alpha: ['α', 'ord'], beta: ['β', 'ord'], gamma: ['γ', 'ord'], delta: ['δ', 'ord'], epsilon: ['ϵ', 'ord'], varepsilon: ['ε', 'ord'],
+  zeta: ['ζ', 'ord'], eta: ['η', 'ord'], theta: ['θ', 'ord'], vartheta: ['ϑ', 'ord'], iota: ['ι', 'ord'], kappa: ['κ', 'ord'],
+  lambda: ['λ', 'ord'], mu: ['μ', 'ord'], nu: ['ν', 'ord'], xi: ['ξ', 'ord'], pi: ['π', 'ord'], rho: ['ρ', 'ord'], sigma: ['σ', 'ord'],
+  tau: ['τ', 'ord'], upsilon: ['υ', 'ord'], phi: ['ϕ', 'ord'], varphi: ['φ', 'ord'], chi: ['χ', 'ord'], psi: ['ψ', 'ord'], omega: ['ω', 'ord'],
+  Gamma: ['Γ', 'ord'], Delta: ['Δ', 'ord'], Theta: ['Θ', 'ord'], Lambda: ['Λ', 'ord'], Xi: ['Ξ', 'ord'], Pi: ['Π', 'ord'],
+  Sigma: ['Σ', 'ord'], Phi: ['Φ', 'ord'], Psi: ['Ψ', 'ord'], Omega: ['Ω', 'ord'],
+  times: ['×', 'bin'], div: ['÷', 'bin'], pm: ['±', 'bin'], mp: ['∓', 'bin'], cdot: ['·', 'bin'], ast: ['∗', 'bin'], star: ['⋆', 'bin'],
+  circ: ['∘', 'bin'], bullet: ['∙', 'bin'], cup: ['∪', 'bin'], cap: ['∩', 'bin'], setminus: ['∖', 'bin'], oplus: ['⊕', 'bin'],
+  leq: ['≤', 'rel'], le: ['≤', 'rel'], geq: ['≥', 'rel'], ge: ['≥', 'rel'], neq: ['≠', 'rel'], ne: ['≠', 'rel'], approx: ['≈', 'rel'],
+  equiv: ['≡', 'rel'], sim: ['∼', 'rel'], simeq: ['≃', 'rel'], cong: ['≅', 'rel'], propto: ['∝', 'rel'], parallel: ['∥', 'rel'],
+  perp: ['⊥', 'rel'], in: ['∈', 'rel'], notin: ['∉', 'rel'], ni: ['∋', 'rel'], subset: ['⊂', 'rel'], subseteq: ['⊆', 'rel'],
+  supset: ['⊃', 'rel'], supseteq: ['⊇', 'rel'], mid: ['∣', 'rel'], ll: ['≪', 'rel'], gg: ['≫', 'rel'],
+  to: ['→', 'rel'], rightarrow: ['→', 'rel'], leftarrow: ['←', 'rel'], gets: ['←', 'rel'], leftrightarrow: ['↔', 'rel'],
+  Rightarrow: ['⇒', 'rel'], Leftarrow: ['⇐', 'rel'], Leftrightarrow: ['⇔', 'rel'], implies: ['⟹', 'rel'], iff: ['⟺', 'rel'],
+  rightleftharpoons: ['⇌', 'rel'], longrightarrow: ['⟶', 'rel'], uparrow: ['↑', 'rel'], downarrow: ['↓', 'rel'], mapsto: ['↦', 'rel'],
+  infty: ['∞', 'ord'], partial: ['∂', 'ord'], nabla: ['∇', 'ord'], forall: ['∀', 'ord'], exists: ['∃', 'ord'], emptyset: ['∅', 'ord'],
+  varnothing: ['∅', 'ord'], angle: ['∠', 'ord'], triangle: ['△', 'ord'], degree: ['°', 'ord'], prime: ['′', 'ord'], hbar: ['ℏ', 'ord'],
+  ell: ['ℓ', 'ord'], therefore: ['∴', 'rel'], because: ['∵', 'rel'], ldots: ['…', 'ord'], dots: ['…', 'ord'], cdots: ['⋯', 'ord'],
+  vdots: ['⋮', 'ord'], neg: ['¬', 'ord'], lnot: ['¬', 'ord'], land: ['∧', 'bin'], lor: ['∨', 'bin'], wedge: ['∧', 'bin'], vee: ['∨', 'bin'],
+  sum: ['∑', 'op'], prod: ['∏', 'op'], int: ['∫', 'op'], iint: ['∬', 'op'], oint: ['∮', 'op'], bigcup: ['⋃', 'op'], bigcap: ['⋂', 'op'],
+  langle: ['⟨', 'open'], rangle: ['⟩', 'close'], lfloor: ['⌊', 'open'], rfloor: ['⌋', 'close'], lceil: ['⌈', 'open'], rceil: ['⌉', 'close'],
+  lbrace: ['{', 'open'], rbrace: ['}', 'close'], vert: ['|', 'ord'], Vert: ['‖', 'ord'], '{': ['{', 'open'], '}': ['}', 'close'],
+  '%': ['%', 'ord'], '$': ['$', 'ord'], '&': ['&', 'ord'], '#': ['#', 'ord'], '_': ['_', 'ord'], '|': ['‖', 'ord'],
+};
+
+const FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'cosec', 'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'deg', 'arg', 'dim', 'mod', 'sinh', 'cosh', 'tanh', 'arcsin', 'arccos', 'arctan'];
+
+const SPACES: Record<string, number> = { ',': 3 / 18, ':': 4 / 18, '>': 4 / 18, ';': 5 / 18, '!': -3 / 18, ' ': 0.25, quad: 1, qquad: 2, enspace: 0.5, thinspace: 3 / 18 };
+
+const BIN_CHARS = '+-−*×÷±·';
+const REL_CHARS = '=<>≤≥≠≈→←⇒⇔∈∝≡∼';
+const OPEN_CHARS = '([';
+const CLOSE_CHARS = ')]';
+const PUNCT_CHARS = ',;:';
+
+const classOf = (ch: string): AtomClass =>
+  BIN_CHARS.includes(ch) ? 'bin' : REL_CHARS.includes(ch) ? 'rel' : OPEN_CHARS.includes(ch) ? 'open'
+    : CLOSE_CHARS.includes(ch) ? 'close' : PUNCT_CHARS.includes(ch) ? 'punct' : 'ord';
+
+// --- Parsing ---
+
+const tokenize = (latex: string): string[] => {
+  const tokens: string[] = [];
+  const chars = Array.from(latex);
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    if (ch === '\\') {
+      let name = '';
+      while (i + 1 < chars.length && /[a-zA-Z]/.test(chars[i + 1])) name += chars[++i];
+      if (!name && i + 1 < chars.length) name = chars[++i];
+      tokens.push('\\' + name);
+    } else {
+      tokens.push(ch);
+    }
+  }
+  return tokens;
+};
+
+const createParser = (tokens: string[]) => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const skipSpace = () => { while (pos < tokens.length && /^\s$/.test(tokens[pos])) pos++; };
+
+  // Verbatim content of a braced group, for \text
+  const readRaw = (): string => {
+    skipSpace();
+    if (peek() !== '{') return tokens[pos++] || '';
+    pos++;
+    let depth = 1;
+    let out = '';
+    while (pos < tokens.length) {
+      const tok = tokens[pos++];
+      if (tok === '{') depth++;
+      if (tok === '}' && --depth === 0) break;
+      out += tok.startsWith('\\') && tok.length === 2 ? tok.slice(1) : tok;
+    }
+    return out;
+  };
+
+  const readArg = (style: Style): MathNode => {
+    skipSpace();
+    if (peek() === '{') {
+      pos++;
+      const body = parseRow(style, '}');
+      pos++;
+      return { t: 'group', body };
+    }
+    return parseAtom(style) || { t: 'group', body: [] };
+  };
+
+  const readDelimiter = (): string => {
+    skipSpace();
+    const tok = tokens[pos++] || '.';
+    if (tok === '.') return '';
+    if (tok.startsWith('\\')) return SYMBOLS[tok.slice(1)]?.[0] || (tok === '\\|' ? '‖' : '');
+    return tok;
+  };
+
+  const parseAtom = (style: Style): MathNode | null => {
+    const tok = tokens[pos++];
+    if (tok === undefined) return null;
+    if (tok === '{') {
+      const body = parseRow(style, '}');
+      pos++;
+      return { t: 'group', body };
+    }
+    if (tok === '~') return { t: 'space', em: 0.25 };
+    if (!tok.startsWith('\\')) return { t: 'sym', text: tok === '-' ? '−' : tok, cls: classOf(tok), style };
+
+    const name = tok.slice(1);
+    if (SYMBOLS[name]) return { t: 'sym', text: SYMBOLS[name][0], cls: SYMBOLS[name][1], style };
+    if (SPACES[name] !== undefined) return { t: 'space', em: SPACES[name] };
+    if (FUNCTIONS.includes(name)) return { t: 'func', text: name };
+    switch (name) {
+      case 'frac': case 'dfrac': case 'tfrac': case 'cfrac':
+        return { t: 'frac', num: readArg(style), den: readArg(style), display: name === 'dfrac' || name === 'cfrac' };
+      case 'sqrt': {
+        skipSpace();
+        let index: MathNode | undefined;
+        if (peek() === '[') {
+          pos++;
+          index = { t: 'group', body: parseRow(style, ']') };
+          pos++;
+        }
+        return { t: 'sqrt', body: readArg(style), index };
+      }
+      case 'text': case 'textrm': case 'mbox': case 'textit': case 'operatorname':
+        return name === 'operatorname' ? { t: 'func', text: readRaw() } : { t: 'text', text: readRaw(), bold: false };
+      case 'textbf':
+        return { t: 'text', text: readRaw(), bold: true };
+      case 'mathrm': case 'mathsf': case 'mathtt':
+        return readArg({ italic: false, bold: style.bold });
+      case 'mathbf': case 'boldsymbol': case 'bm':
+        return readArg({ italic: name === 'mathbf' ? false : style.italic, bold: true });
+      case 'mathit':
+        return readArg({ italic: true, bold: style.bold });
+      case 'overline': case 'bar':
+        return { t: 'accent', body: readArg(style), accent: 'bar' };
+      case 'vec': case 'overrightarrow':
+        return { t: 'accent', body: readArg(style), accent: 'vec' };
+      case 'hat': case 'widehat':
+        return { t: 'accent', body: readArg(style), accent: 'hat' };
+      case 'dot':
+        return { t: 'accent', body: readArg(style), accent: 'dot' };
+      case 'left': {
+        const left = readDelimiter();
+        const body = parseRow(style, '\\right');
+        pos++;
+        return { t: 'delimited', left, right: readDelimiter(), body };
+      }
+      case 'displaystyle': case 'textstyle': case 'limits': case 'nolimits': case 'big': case 'Big': case 'bigg': case 'Bigg':
+        return { t: 'group', body: [] };
+      default:
+        return { t: 'text', text: name, bold: style.bold };
+    }
+  };
+
+  const parseRow = (style: Style, stop?: string): MathNode[] => {
+    const row: MathNode[] = [];
+    for (;;) {
+      skipSpace();
+      const tok = peek();
+      if (tok === undefined || tok === stop) break;
+      if (tok === '}') { pos++; continue; } // Stray closing brace
+      if (tok === '^' || tok === '_' || tok === "'") {
+        pos++;
+        const prev = row.pop();
+        const target: MathNode = prev && prev.t === 'scripts' ? prev : { t: 'scripts', base: prev || { t: 'group', body: [] } };
+        if (target.t !== 'scripts') continue;
+        if (tok === "'") target.sup = { t: 'sym', text: '′', cls: 'ord', style };
+        else if (tok === '^') target.sup = readArg(style);
+        else target.sub = readArg(style);
+        row.push(target);
+        continue;
+      }
+      const atom = parseAtom(style);
+      if (atom) row.push(atom);
+    }
+    return row;
+  };
+
+  return { parseRow };
+};
+
+// --- Layout ---
+
+const ASCENT = 0.72;
+const DESCENT = 0.22;
+const AXIS = 0.25;
+const MIN_SIZE_RATIO = 0.5;
+
+const emptyBox = (): MathBox => ({ width: 0, ascent: 0, descent: 0, items: [] });
+
+const shift = (items: MathItem[], dx: number, dy: number): MathItem[] => items.map(item =>
+  item.kind === 'path'
+    ? { ...item, points: item.points.map(([x, y]) => [x + dx, y + dy] as [number, number]) }
+    : { ...item, x: item.x + dx, y: item.y + dy });
+
+const isLetter = (text: string) => /^[A-Za-z]$/.test(text) || /^[α-ωϵϑϕ]$/.test(text);
+
+const spacingBetween = (left: AtomClass | null, right: AtomClass): number => {
+  if (left === null) return 0;
+  if (right === 'bin' || left === 'bin') return 4 / 18;
+  if (right === 'rel' || left === 'rel') return 5 / 18;
+  if (left === 'punct') return 3 / 18;
+  if ((left === 'op' && right === 'ord') || (left === 'ord' && right === 'op')) return 3 / 18;
+  return 0;
+};
+
+// Parse tree of a formula, also used by the Office Math writer
+export const parseMath = (latex: string): MathNode[] => createParser(tokenize(latex)).parseRow({ bold: false });
+
+export const layoutMath = (latex: string, size: number, measure: MeasureText): MathBox => {
+  const baseSize = size;
+  const nodes = parseMath(latex);
+
+  const textBox = (text: string, s: number, italic: boolean, bold: boolean, ascent = ASCENT, descent = DESCENT): MathBox => ({
+    width: measure(text, s, italic, bold),
+    ascent: ascent * s,
+    descent: descent * s,
+    items: [{ kind: 'text', x: 0, y: 0, text, size: s, italic, bold }],
+  });
+
+  const scriptSize = (s: number) => Math.max(s * 0.7, baseSize * MIN_SIZE_RATIO);
+
+  const layoutRow = (row: MathNode[], s: number): MathBox => {
+    const box = emptyBox();
+    let prevClass: AtomClass | null = null;
+    row.forEach(node => {
+      let cls = nodeClass(node);
+      // A leading or operand-less binary operator is a sign, not an operation
+      if (cls === 'bin' && (prevClass === null || prevClass === 'bin' || prevClass === 'rel' || prevClass === 'open' || prevClass === 'punct')) cls = 'ord';
+      const child = layoutNode(node, s);
+      box.width += spacingBetween(prevClass, cls) * s;
+      box.items.push(...shift(child.items, box.width, 0));
+      box.width += child.width;
+      box.ascent = Math.max(box.ascent, child.ascent);
+      box.descent = Math.max(box.descent, child.descent);
+      if (node.t !== 'space') prevClass = cls;
+    });
+    return box;
+  };
+
+  const nodeClass = (node: MathNode): AtomClass => {
+    if (node.t === 'sym') return node.cls;
+    if (node.t === 'func') return 'op';
+    if (node.t === 'scripts') return nodeClass(node.base);
+    return 'ord';
+  };
+
+  const layoutNode = (node: MathNode, s: number): MathBox => {
+    switch (node.t) {
+      case 'sym': {
+        if (node.cls === 'op') return textBox(node.text, s * 1.25, false, node.style.bold, 0.8, 0.3);
+        const italic = node.style.italic ?? isLetter(node.text);
+        return textBox(node.text, s, italic && isLetter(node.text), node.style.bold);
+      }
+      case 'func': {
+        const box = textBox(node.text, s, false, false);
+        box.width += (3 / 18) * s;
+        return box;
+      }
+      case 'text':
+        return textBox(node.text, s, false, node.bold);
+      case 'space':
+        return { ...emptyBox(), width: node.em * s };
+      case 'group':
+        return layoutRow(node.body, s);
+      case 'scripts': {
+        const base = layoutNode(node.base, s);
+        const ss = scriptSize(s);
+        const box: MathBox = { ...base, items: [...base.items] };
+        let scriptsWidth = 0;
+        if (node.sup) {
+          const sup = layoutNode(node.sup, ss);
+          const up = Math.max(0.38 * s, base.ascent - 0.4 * ss);
+          box.items.push(...shift(sup.items, base.width + 0.05 * s, up));
+          box.ascent = Math.max(box.ascent, up + sup.ascent);
+          scriptsWidth = sup.width + 0.05 * s;
+        }
+        if (node.sub) {
+          const sub = layoutNode(node.sub, ss);
+          const down = node.sup ? 0.28 * s : 0.18 * s;
+          box.items.push(...shift(sub.items, base.width + 0.02 * s, -down));
+          box.descent = Math.max(box.descent, down + sub.descent);
+          scriptsWidth = Math.max(scriptsWidth, sub.width + 0.02 * s);
+        }
+        box.width = base.width + scriptsWidth;
+        return box;
+      }
+      case 'frac': {
+        const fs = node.display ? s : Math.max(s * 0.8, baseSize * MIN_SIZE_RATIO);
+        const num = layoutNode(node.num, fs);
+        const den = layoutNode(node.den, fs);
+        const rule = Math.max(0.04 * s, 0.4);
+        const gap = 0.12 * s;
+        const axis = AXIS * s;
+        const width = Math.max(num.width, den.width) + 0.2 * s;
+        const numShift = axis + rule / 2 + gap + num.descent;
+        const denShift = den.ascent + gap + rule / 2 - axis;
+        return {
+          width: width + 0.1 * s,
+          ascent: numShift + num.ascent,
+          descent: denShift + den.descent,
+          items: [
+            ...shift(num.items, 0.05 * s + (width - num.width) / 2, numShift),
+            ...shift(den.items, 0.05 * s + (width - den.width) / 2, -denShift),
+            { kind: 'rule', x: 0.05 * s, y: axis - rule / 2, width, height: rule },
+          ],
+        };
+      }
+      case 'sqrt': {
+        const body = layoutNode(node.body, s);
+        const rule = Math.max(0.04 * s, 0.4);
+        const top = body.ascent + 0.12 * s + rule;
+        const bottom = body.descent + 0.05 * s;
+        let indent = 0;
+        const items: MathItem[] = [];
+        if (node.index) {
+          const index = layoutNode(node.index, Math.max(s * 0.5, baseSize * MIN_SIZE_RATIO));
+          items.push(...shift(index.items, 0, top * 0.45));
+          indent = Math.max(0, index.width - 0.2 * s);
+        }
+        const signWidth = 0.5 * s;
+        const x0 = indent;
+        items.push({
+          kind: 'path',
+          lineWidth: rule,
+          points: [
+            [x0, top * 0.35], [x0 + 0.1 * s, top * 0.42], [x0 + 0.22 * s, -bottom],
+            [x0 + signWidth, top - rule / 2], [x0 + signWidth + body.width + 0.1 * s, top - rule / 2],
+          ],
+        });
+        items.push(...shift(body.items, x0 + signWidth + 0.05 * s, 0));
+        return { width: x0 + signWidth + body.width + 0.15 * s, ascent: top + rule, descent: bottom, items };
+      }
+      case 'accent': {
+        const body = layoutNode(node.body, s);
+        const rule = Math.max(0.04 * s, 0.4);
+        const y = body.ascent + 0.08 * s;
+        const items = [...body.items];
+        if (node.accent === 'bar') {
+          items.push({ kind: 'rule', x: 0, y, width: body.width, height: rule });
+          return { ...body, ascent: y + rule, items };
+        }
+        const mark = node.accent === 'vec' ? '→' : node.accent === 'hat' ? 'ˆ' : '˙';
+        const ms = node.accent === 'vec' ? s * 0.7 : s;
+        const markWidth = measure(mark, ms, false, false);
+        const lift = node.accent === 'vec' ? y - 0.15 * ms : y - 0.55 * ms;
+        items.push({ kind: 'text', x: (body.width - markWidth) / 2, y: lift, text: mark, size: ms, italic: false, bold: false });
+        return { ...body, ascent: lift + ASCENT * ms, items };
+      }
+      case 'delimited': {
+        const body = layoutRow(node.body, s);
+        const height = body.ascent + body.descent;
+        // Grow the delimiters with tall content (fractions, roots); centred on the body
+        const ds = height > 1.2 * s ? height / (ASCENT + DESCENT) : s;
+        const dy = ds === s ? 0 : -body.descent + DESCENT * ds;
+        const box = emptyBox();
+        const add = (child: MathBox, y: number) => {
+          box.items.push(...shift(child.items, box.width, y));
+          box.width += child.width;
+          box.ascent = Math.max(box.ascent, child.ascent + y);
+          box.descent = Math.max(box.descent, child.descent - y);
+        };
+        if (node.left) add(textBox(node.left, ds, false, false), dy);
+        add(body, 0);
+        if (node.right) add(textBox(node.right, ds, false, false), dy);
+        return box;
+      }
+    }
+  };
+
+  return layoutRow(nodes, size);
+};
@@ -0,0 +1,113 @@
+
+import { QuestionType } from "../types";
+import type { AIProvider } from "./aiProvider";
+
+type Fixture = {
+  text: string;
+  options?: string[];
+  matchPairs?: { left: string; right: string }[];
+  answer?: string;
+  passage?: string;
+  table?: { cells: string[] }[];
+  parts?: { type: string; text: string; options?: string[]; marks: number; answer: string }[];
+};
+
+// Canned questions per type. `{topic}` is replaced with the blueprint topic.
+export const MOCK_QUESTION_FIXTURES: Record<string, Fixture[]> = {
+  [QuestionType.MCQ]: [
+    { text: "Which of the following best describes {topic}?", options: ["Statement A", "Statement B", "Statement C", "Statement D"], answer: "(b) Statement B" },
+    { text: "The value of $x$ in $2x + 3 = 7$ is:", options: ["$1$", "$2$", "$3$", "$4$"], answer: "(b) $2$" }
+  ],
+  [QuestionType.ASSERTION_REASON]: [
+    {
+      text: "Assertion (A): {topic} is part of the syllabus.\nReason (R): Every chapter in the syllabus can be examined.",
+      options: [
+        "(A) Both Assertion (A) and Reason (R) are true and Reason (R) is the correct explanation of Assertion (A).",
+        "(B) Both Assertion (A) and Reason (R) are true but Reason (R) is not the correct explanation of Assertion (A).",
+        "(C) Assertion (A) is true but Reason (R) is false.",
+        "(D) Assertion (A) is false but Reason (R) is true."
+      ],
+      answer: "(A)"
+    }
+  ],
+  [QuestionType.MATCH]: [
+    {
+      text: "Match the following items related to {topic}:",
+      matchPairs: [
+        { left: "Term 1", right: "Definition 3" },
+        { left: "Term 2", right: "Definition 1" },
+        { left: "Term 3", right: "Definition 4" },
+        { left: "Term 4", right: "Definition 2" }
+      ],
+      answer: "A-2, B-4, C-1, D-3"
+    }
+  ],
+  [QuestionType.VSA]: [
+    { text: "Define {topic} in one sentence.", answer: "A one-line definition of {topic}." }
+  ],
+  [QuestionType.SA]: [
+    { text: "Explain two key features of {topic}.", answer: "Feature 1 with explanation; Feature 2 with explanation." }
+  ],
+  [QuestionType.LA]: [
+    { text: "Describe {topic} in detail with a suitable example.", answer: "Introduction, main points with example, and conclusion." }
+  ],
+  [QuestionType.NUMERICAL]: [
+    { text: "A body moves $20\\,m$ in $4\\,s$. Find its average speed.", answer: "$v = \\frac{20}{4} = 5\\,m/s$" }
+  ],
+  [QuestionType.CASE_STUDY]: [
+    {
+      text: "Read the following case based on {topic} and answer the questions that follow.",
+      passage: "A class surveyed how students use {topic} in daily life. The results are shown in the table below.",
+      table: [{ cells: ["Use", "Students"] }, { cells: ["At home", "18"] }, { cells: ["At school", "12"] }],
+      parts: [
+        { type: "MCQ", text: "How many students were surveyed in all?", options: ["$12$", "$18$", "$30$", "$6$"], marks: 1, answer: "(c) $30$" },
+        { type: "VSA", text: "Where is {topic} used more often?", marks: 1, answer: "At home." },
+        { type: "SA", text: "Suggest two ways the school could encourage the use of {topic}.", marks: 2, answer: "Any two suitable suggestions." }
+      ]
+    }
+  ],
+  [QuestionType.PARAGRAPH]: [
+    {
+      text: "Read the paragraph on {topic} and answer the questions that follow.",
+      passage: "{topic} has been studied for many years. Scientists observed it closely and recorded what they found, which helped later students understand it better.",
+      parts: [
+        { type: "MCQ", text: "Who studied {topic} closely?", options: ["Farmers", "Scientists", "Traders", "Artists"], marks: 1, answer: "(b) Scientists" },
+        { type: "VSA", text: "What did the scientists record?", marks: 1, answer: "What they found about {topic}." },
+        { type: "SA", text: "Why is recording observations useful?", marks: 2, answer: "It helps later learners build on earlier work." }
+      ]
+    }
+  ]
+};
+
+const FALLBACK_FIXTURE: Fixture = { text: "Write a short note on {topic}.", answer: "Key points about {topic}." };
+
+const fill = (value: string, topic: string) => value.split('{topic}').join(topic);
+
+// Placeholder diagram rendered locally so no network is needed
+const MOCK_IMAGE = `data:image/svg+xml;utf8,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300"><rect width="400" height="300" fill="white" stroke="black"/><text x="200" y="155" font-size="20" text-anchor="middle">Diagram</text></svg>'
+)}`;
+
+// Deterministic, offline provider: the same request always yields the same questions
+export const createMockProvider = (fixtures: Record<string, Fixture[]> = MOCK_QUESTION_FIXTURES): AIProvider => ({
+  name: 'mock',
+
+  generateQuestions: async (request) => {
+    const pool = fixtures[request.questionType] || [FALLBACK_FIXTURE];
+    const questions = Array.from({ length: request.count }, (_, i) => {
+      const fixture = pool[i % pool.length];
+      return {
+        text: fill(fixture.text, request.topic),
+        options: fixture.options,
+        matchPairs: fixture.matchPairs?.map(p => ({ left: fill(p.left, request.topic), right: fill(p.right, request.topic) })),
+        answer: fixture.answer && fill(fixture.answer, request.topic),
+        passage: fixture.passage && fill(fixture.passage, request.topic),
+        table: fixture.table,
+        parts: fixture.parts?.map(p => ({ ...p, text: fill(p.text, request.topic), answer: fill(p.answer, request.topic) }))
+      };
+    });
+    return JSON.stringify(questions);
+  },
+
+  generateImage: async () => MOCK_IMAGE
+});
@@ -0,0 +1,55 @@
+
+import { MathNode, parseMath } from "./mathLayout";
+
+// Converts the LaTeX subset of questions ($...$ segments) to Office Math (OMML), so formulas stay editable
+// equations in Word. Shares the parser with the PDF math layout; spacing is left to Word.
+
+const ACCENTS: Record<'vec' | 'hat' | 'dot', string> = { vec: '\u20d7', hat: '\u0302', dot: '\u0307' };
+
+const esc = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// m:sty: p plain, b bold, i italic, bi bold italic; omitted, Word italicises letters itself
+const mathRun = (text: string, sty?: 'p' | 'b' | 'i' | 'bi') =>
+  `<m:r>${sty ? `<m:rPr><m:sty m:val="${sty}"/></m:rPr>` : ''}<m:t xml:space="preserve">${esc(text)}</m:t></m:r>`;
+
+const nodeXml = (node: MathNode): string => {
+  switch (node.t) {
+    case 'sym': {
+      const { italic, bold } = node.style;
+      const sty = bold ? (italic ? 'bi' : 'b') : italic === false ? 'p' : italic ? 'i' : undefined;
+      return mathRun(node.text, sty);
+    }
+    case 'func':
+      return mathRun(node.text, 'p');
+    case 'text':
+      // Normal text inside the equation, as \text{} renders in KaTeX
+      return `<m:r><m:rPr><m:nor/></m:rPr>${node.bold ? '<w:rPr><w:b/></w:rPr>' : ''}<m:t xml:space="preserve">${esc(node.text)}</m:t></m:r>`;
+    case 'space':
+      return node.em >= 1 ? mathRun('\u2003') : node.em > 0 ? mathRun('\u2009') : '';
+    case 'group':
+      return rowXml(node.body);
+    case 'scripts': {
+      const base = `<m:e>${nodeXml(node.base)}</m:e>`;
+      if (node.sup && node.sub) return `<m:sSubSup>${base}<m:sub>${nodeXml(node.sub)}</m:sub><m:sup>${nodeXml(node.sup)}</m:sup></m:sSubSup>`;
+      if (node.sup) return `<m:sSup>${base}<m:sup>${nodeXml(node.sup)}</m:sup></m:sSup>`;
+      return `<m:sSub>${base}<m:sub>${nodeXml(node.sub!)}</m:sub></m:sSub>`;
+    }
+    case 'frac':
+      return `<m:f><m:num>${nodeXml(node.num)}</m:num><m:den>${nodeXml(node.den)}</m:den></m:f>`;
+    case 'sqrt':
+      return node.index
+        ? `<m:rad><m:deg>${nodeXml(node.index)}</m:deg><m:e>${nodeXml(node.body)}</m:e></m:rad>`
+        : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${nodeXml(node.body)}</m:e></m:rad>`;
+    case 'accent':
+      return node.accent === 'bar'
+        ? `<m:bar><m:barPr><m:pos m:val="top"/></m:barPr><m:e>${nodeXml(node.body)}</m:e></m:bar>`
+        : `<m:acc><m:accPr><m:chr m:val="${ACCENTS[node.accent]}"/></m:accPr><m:e>${nodeXml(node.body)}</m:e></m:acc>`;
+    case 'delimited':
+      return `<m:d><m:dPr><m:begChr m:val="${esc(node.left)}"/><m:endChr m:val="${esc(node.right)}"/></m:dPr><m:e>${rowXml(node.body)}</m:e></m:d>`;
+  }
+};
+
+const rowXml = (nodes: MathNode[]) => nodes.map(nodeXml).join('');
+
+// An inline equation, to be placed inside a w:p
+export const latexToOmml = (latex: string): string => `<m:oMath>${rowXml(parseMath(latex))}</m:oMath>`;
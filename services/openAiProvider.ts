@@ -0,0 +1,67 @@
+
+import type { AIProvider } from "./aiProvider";
+
+interface OpenAiConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or any OpenAI-compatible gateway
+  apiKey: string;
+  model: string;
+  imageModel: string;
+}
+
+// Works with any endpoint implementing the OpenAI chat completions / images API
+export const createOpenAiProvider = (config: OpenAiConfig): AIProvider => {
+  const post = async (path: string, body: unknown) => {
+    const res = await fetch(`${config.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error(`AI request failed (${res.status}): ${await res.text()}`);
+    return res.json();
+  };
+
+  return {
+    name: 'openai',
+
+    generateQuestions: async (request) => {
+      // Chat APIs only accept images inline; PDFs and other documents are dropped
+      const images = request.attachments.filter(a => a.mimeType.startsWith('image/'));
+      if (images.length < request.attachments.length) {
+        console.warn("OpenAI-compatible provider: non-image attachments were skipped.");
+      }
+
+      const data = await post('/chat/completions', {
+        model: config.model,
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          {
+            role: 'user',
+            content: [
+              ...images.map(a => ({ type: 'image_url', image_url: { url: `data:${a.mimeType};base64,${a.data}` } })),
+              { type: 'text', text: request.prompt }
+            ]
+          }
+        ]
+      });
+
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) throw new Error("Empty response from AI");
+      return text;
+    },
+
+    generateImage: async (prompt) => {
+      const data = await post('/images/generations', {
+        model: config.imageModel,
+        prompt,
+        n: 1,
+        response_format: 'b64_json'
+      });
+      const b64 = data?.data?.[0]?.b64_json;
+      if (!b64) throw new Error("No image returned");
+      return `data:image/png;base64,${b64}`;
+    }
+  };
+};
@@ -0,0 +1,273 @@
+
+import { BlueprintItem, BloomLevel, Difficulty, Question, QuestionAlternative, QuestionPaper, QuestionPart, QuestionPassage, QuestionType, Section } from "../types";
+import { paperImageUrls } from "./questionUtils";
+import { dataUrlBytes } from "./documentText";
+import { readZip, writeZip, ZipEntry } from "./zip";
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+// Backup and transfer of saved papers: a zip with papers.json and the papers' images. The JSON names its
+// format and version and refers to images by their path in the zip ("images/image1.png"). Import checks
+// every field before anything is saved, gives papers, sections and questions new ids and makes the
+// importing user the owner.
+
+export const PAPER_ARCHIVE_FORMAT = 'rks-question-papers';
+export const PAPER_ARCHIVE_VERSION = 1;
+
+const MANIFEST = 'papers.json';
+const IMAGE_DIR = 'images/';
+
+// Usage counts are carried over as they are in papers.json. The file is plain JSON, so an edited archive
+// can change them; they are a record of past use, not an enforced allowance.
+export type ArchivedPaper = Omit<QuestionPaper, 'id' | 'createdBy' | 'visibleToTeacher' | 'visibleToAdmin'>;
+
+export interface PaperArchive {
+  format: string;
+  version: number;
+  exportedAt: string;
+  papers: ArchivedPaper[];
+}
+
+export interface PaperArchiveOptions {
+  // Fetches images that are not data: URLs; without it (or when it fails) the URL is kept as is
+  loadImage?: (url: string) => Promise<Uint8Array | undefined>;
+}
+
+const IMAGE_TYPES: { ext: string; mime: string; test: (b: Uint8Array) => boolean }[] = [
+  { ext: 'png', mime: 'image/png', test: b => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47 },
+  { ext: 'jpg', mime: 'image/jpeg', test: b => b[0] === 0xff && b[1] === 0xd8 },
+  { ext: 'gif', mime: 'image/gif', test: b => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 },
+  { ext: 'webp', mime: 'image/webp', test: b => b[0] === 0x52 && b[1] === 0x49 && b[8] === 0x57 && b[9] === 0x45 },
+  { ext: 'svg', mime: 'image/svg+xml', test: b => new TextDecoder().decode(b.subarray(0, 512)).includes('<svg') },
+];
+
+const bytesToDataUrl = (bytes: Uint8Array, mime: string) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+// Applies map to every image URL of the sections; undefined removes the image
+const mapImages = (sections: Section[], map: (url: string) => string | undefined): Section[] => {
+  const withImage = <T extends { imageUrl?: string; imageWidth?: number }>(item: T): T => {
+    if (!item.imageUrl) return item;
+    const imageUrl = map(item.imageUrl);
+    if (imageUrl) return { ...item, imageUrl };
+    const { imageUrl: _url, imageWidth: _width, ...rest } = item;
+    return rest as T;
+  };
+  return sections.map(s => ({
+    ...s,
+    questions: s.questions.map(q => {
+      const question = { ...withImage(q) };
+      if (q.alternative) question.alternative = withImage(q.alternative);
+      if (q.passage) question.passage = withImage(q.passage);
+      if (q.parts) question.parts = q.parts.map(withImage);
+      return question;
+    }),
+  }));
+};
+
+export const paperArchiveFileName = (papers: QuestionPaper[]) => papers.length === 1
+  ? `${papers[0].title.replace(/[^a-zA-Z0-9-_]/g, '_')}_${papers[0].classNum}_${papers[0].subject}.zip`
+  : `papers_${new Date().toISOString().slice(0, 10)}.zip`;
+
+export const exportPapersArchive = async (papers: QuestionPaper[], options: PaperArchiveOptions = {}): Promise<Uint8Array> => {
+  const images = new Map<string, { file: string; data: Uint8Array }>();
+  for (const url of paperImageUrls(papers.flatMap(p => p.sections))) {
+    try {
+      const data = dataUrlBytes(url) || (options.loadImage ? await options.loadImage(url) : undefined);
+      const type = data && IMAGE_TYPES.find(t => t.test(data));
+      if (data && type) images.set(url, { file: `${IMAGE_DIR}image${images.size + 1}.${type.ext}`, data });
+    } catch (e) {
+      console.warn("Could not bundle image for paper export", e);
+    }
+  }
+
+  const archive: PaperArchive = {
+    format: PAPER_ARCHIVE_FORMAT,
+    version: PAPER_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    papers: papers.map(({ id, createdBy, visibleToTeacher, visibleToAdmin, ...paper }) => ({
+      ...paper,
+      sections: mapImages(paper.sections, url => images.get(url)?.file || url),
+    })),
+  };
+
+  const entries: ZipEntry[] = [
+    { name: MANIFEST, data: new TextEncoder().encode(JSON.stringify(archive, null, 2)) },
+    ...Array.from(images.values()).map(i => ({ name: i.file, data: i.data })),
+  ];
+  return writeZip(entries);
+};
+
+// --- Validation ---
+
+type Reader<T> = (value: unknown, path: string) => T;
+
+const invalid = (path: string, expected: string): never => {
+  throw new Error(`This paper file is not valid: ${path} should be ${expected}.`);
+};
+
+const object: Reader<Record<string, unknown>> = (value, path) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : invalid(path, 'an object');
+const text: Reader<string> = (value, path) => typeof value === 'string' ? value : invalid(path, 'text');
+const count: Reader<number> = (value, path) => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : invalid(path, 'a number of 0 or more');
+const list = <T>(read: Reader<T>): Reader<T[]> => (value, path) =>
+  Array.isArray(value) ? value.map((item, i) => read(item, `${path}[${i}]`)) : invalid(path, 'a list');
+const oneOf = <T extends string>(values: T[]): Reader<T> => (value, path) =>
+  values.includes(value as T) ? value as T : invalid(path, `one of ${values.join(', ')}`);
+const optional = <T>(read: Reader<T>) => (value: unknown, path: string): T | undefined =>
+  value === undefined || value === null ? undefined : read(value, path);
+
+// Firestore rejects undefined fields, so optional fields that are absent are left out
+const compact = <T extends Record<string, unknown>>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+
+const readMatchPairs = list((value, path) => {
+  const pair = object(value, path);
+  return { left: text(pair.left, `${path}.left`), right: text(pair.right, `${path}.right`) };
+});
+
+const readAlternative: Reader<QuestionAlternative> = (value, path) => {
+  const alt = object(value, path);
+  return compact({
+    text: text(alt.text, `${path}.text`),
+    options: optional(list(text))(alt.options, `${path}.options`),
+    matchPairs: optional(readMatchPairs)(alt.matchPairs, `${path}.matchPairs`),
+    answer: optional(text)(alt.answer, `${path}.answer`),
+    imageUrl: optional(text)(alt.imageUrl, `${path}.imageUrl`),
+    imageWidth: optional(count)(alt.imageWidth, `${path}.imageWidth`),
+  });
+};
+
+const readPart: Reader<QuestionPart> = (value, path) => {
+  const part = object(value, path);
+  return compact({
+    id: generateId(),
+    text: text(part.text, `${path}.text`),
+    marks: count(part.marks, `${path}.marks`),
+    type: optional(text)(part.type, `${path}.type`) as QuestionType | undefined,
+    options: optional(list(text))(part.options, `${path}.options`),
+    answer: optional(text)(part.answer, `${path}.answer`),
+    imageUrl: optional(text)(part.imageUrl, `${path}.imageUrl`),
+    imageWidth: optional(count)(part.imageWidth, `${path}.imageWidth`),
+  });
+};
+
+const readPassage: Reader<QuestionPassage> = (value, path) => {
+  const passage = object(value, path);
+  return compact({
+    text: text(passage.text, `${path}.text`),
+    table: optional(list((row, rowPath) => ({ cells: list(text)(object(row, rowPath).cells, `${rowPath}.cells`) })))(passage.table, `${path}.table`),
+    imageUrl: optional(text)(passage.imageUrl, `${path}.imageUrl`),
+    imageWidth: optional(count)(passage.imageWidth, `${path}.imageWidth`),
+  });
+};
+
+// Question types are not limited to the built-in ones, since admins can add their own
+const readQuestion: Reader<Question> = (value, path) => {
+  const q = object(value, path);
+  return compact({
+    id: generateId(),
+    type: text(q.type, `${path}.type`) as QuestionType,
+    text: text(q.text, `${path}.text`),
+    marks: count(q.marks, `${path}.marks`),
+    options: optional(list(text))(q.options, `${path}.options`),
+    matchPairs: optional(readMatchPairs)(q.matchPairs, `${path}.matchPairs`),
+    answer: optional(text)(q.answer, `${path}.answer`),
+    imageUrl: optional(text)(q.imageUrl, `${path}.imageUrl`),
+    imageWidth: optional(count)(q.imageWidth, `${path}.imageWidth`),
+    topic: text(q.topic ?? '', `${path}.topic`),
+    customNumber: optional(text)(q.customNumber, `${path}.customNumber`),
+    regenerateCount: optional(count)(q.regenerateCount, `${path}.regenerateCount`),
+    alternative: optional(readAlternative)(q.alternative, `${path}.alternative`),
+    parts: optional(list(readPart))(q.parts, `${path}.parts`),
+    passage: optional(readPassage)(q.passage, `${path}.passage`),
+    difficulty: optional(oneOf(Object.values(Difficulty)))(q.difficulty, `${path}.difficulty`),
+    bloomLevel: optional(oneOf(Object.values(BloomLevel)))(q.bloomLevel, `${path}.bloomLevel`),
+  });
+};
+
+const readSection: Reader<Section> = (value, path) => {
+  const section = object(value, path);
+  return {
+    id: generateId(),
+    title: text(section.title, `${path}.title`),
+    questions: list(readQuestion)(section.questions, `${path}.questions`),
+    totalMarks: count(section.totalMarks, `${path}.totalMarks`),
+  };
+};
+
+const readBlueprintItem: Reader<BlueprintItem> = (value, path) => {
+  const item = object(value, path);
+  return compact({
+    id: generateId(),
+    topic: text(item.topic, `${path}.topic`),
+    unit: optional(text)(item.unit, `${path}.unit`),
+    type: text(item.type, `${path}.type`) as QuestionType,
+    count: count(item.count, `${path}.count`),
+    marks: count(item.marks, `${path}.marks`),
+    difficulty: optional(oneOf(Object.values(Difficulty)))(item.difficulty, `${path}.difficulty`),
+    bloomLevel: optional(oneOf(Object.values(BloomLevel)))(item.bloomLevel, `${path}.bloomLevel`),
+    bankQuestions: optional(list(readQuestion))(item.bankQuestions, `${path}.bankQuestions`),
+  });
+};
+
+const readPaper = (owner: string): Reader<QuestionPaper> => (value, path) => {
+  const paper = object(value, path);
+  return compact({
+    id: generateId(),
+    title: text(paper.title, `${path}.title`),
+    schoolName: text(paper.schoolName ?? '', `${path}.schoolName`),
+    classNum: text(paper.classNum, `${path}.classNum`),
+    subject: text(paper.subject, `${path}.subject`),
+    session: optional(text)(paper.session, `${path}.session`),
+    duration: text(paper.duration ?? '', `${path}.duration`),
+    maxMarks: count(paper.maxMarks, `${path}.maxMarks`),
+    generalInstructions: optional(text)(paper.generalInstructions, `${path}.generalInstructions`),
+    sections: list(readSection)(paper.sections, `${path}.sections`),
+    blueprint: optional(list(readBlueprintItem))(paper.blueprint, `${path}.blueprint`),
+    createdAt: optional(text)(paper.createdAt, `${path}.createdAt`) || new Date().toISOString(),
+    createdBy: owner,
+    visibleToTeacher: true,
+    visibleToAdmin: true,
+    editCount: count(paper.editCount ?? 0, `${path}.editCount`),
+    downloadCount: count(paper.downloadCount ?? 0, `${path}.downloadCount`),
+  });
+};
+
+// Reads an exported zip, or a bare papers.json whose images are URLs, into papers owned by owner
+export const readPapersArchive = async (bytes: Uint8Array, owner: string): Promise<QuestionPaper[]> => {
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const entries = isZip ? await readZip(bytes) : [];
+  const manifest = isZip ? entries.find(e => e.name === MANIFEST)?.data : bytes;
+  if (!manifest) throw new Error(`This file has no ${MANIFEST}. Please choose a paper export from this app.`);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(manifest));
+  } catch {
+    throw new Error("This paper file could not be read: it is not valid JSON.");
+  }
+  const archive = object(json, 'file');
+  if (archive.format !== PAPER_ARCHIVE_FORMAT) throw new Error("This is not a question paper export from this app.");
+  const version = count(archive.version, 'version');
+  if (version > PAPER_ARCHIVE_VERSION) throw new Error("This paper file was made by a newer version of the app. Please update and try again.");
+
+  const papers = list(readPaper(owner))(archive.papers, 'papers');
+  if (papers.length === 0) throw new Error("This paper file contains no papers.");
+
+  // Bundled images become data: URLs again, as images uploaded in the editor are stored
+  const images = new Map(entries.filter(e => e.name.startsWith(IMAGE_DIR)).map(e => [e.name, e.data]));
+  return papers.map(paper => ({
+    ...paper,
+    sections: mapImages(paper.sections, url => {
+      if (!url.startsWith(IMAGE_DIR)) return url;
+      const data = images.get(url);
+      const type = data && IMAGE_TYPES.find(t => t.test(data));
+      if (!data || !type) throw new Error(`This paper file is not valid: ${url} is missing from the zip.`);
+      return bytesToDataUrl(data, type.mime);
+    }),
+  }));
+};
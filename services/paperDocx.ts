@@ -0,0 +1,386 @@
+
+import { PaperContent, Question, QuestionAlternative, QuestionPart, QuestionPassage, QuestionType } from "../types";
+import { questionMarks, sectionMarks, partLabel, cleanOptionText, optionColumns, paperImageUrls } from "./questionUtils";
+import { dataUrlBytes } from "./documentText";
+import { latexToOmml } from "./officeMath";
+import { writeZip, ZipEntry } from "./zip";
+
+// Word (.docx) export of a question paper or its answer key with the structure of the print view: header,
+// general instructions, sections, option grids, match tables, images at their set width and $...$
+// formulas as Office Math. Borderless tables take the place of the print view's flex rows and grids.
+
+export interface PaperDocxOptions {
+  kind: 'paper' | 'key';
+  setLabel?: string;
+  // Fetches images that are not data: URLs; without it such images are left out
+  loadImage?: (url: string) => Promise<Uint8Array | undefined>;
+}
+
+interface DocxImage {
+  rId: string;
+  file: string;
+  data: Uint8Array;
+  width: number; // Pixels
+  height: number;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  caps?: boolean;
+  size?: number; // Half-points
+  color?: string;
+}
+
+interface ParagraphOptions {
+  align?: 'left' | 'center' | 'right' | 'both';
+  before?: number; // Twips
+  after?: number;
+  indent?: number;
+  keepNext?: boolean;
+  borderTop?: number; // Eighths of a point
+  borderBottom?: number;
+}
+
+interface TableOptions {
+  borders?: 'none' | 'all' | 'box';
+  padding?: number;
+  cantSplit?: boolean;
+  center?: boolean;
+  indent?: number;
+  headerRule?: boolean; // Thick rule under the first row
+}
+
+// A4 with 0.5in margins, in twips
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const MARGIN = 720;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const EMU_PER_TWIP = 635;
+
+const NUMBER_WIDTH = 700;
+const MARKS_WIDTH = 600;
+const LABEL_WIDTH = 450;
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const esc = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- Runs, paragraphs and tables ---
+
+const runProps = (style: RunStyle) => {
+  const props = [
+    style.bold ? '<w:b/><w:bCs/>' : '',
+    style.italic ? '<w:i/><w:iCs/>' : '',
+    style.caps ? '<w:caps/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : '',
+    style.underline ? '<w:u w:val="single"/>' : '',
+  ].join('');
+  return props ? `<w:rPr>${props}</w:rPr>` : '';
+};
+
+const run = (text: string, style: RunStyle = {}) => text.split('\n')
+  .map((line, i) => `<w:r>${runProps(style)}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${esc(line)}</w:t></w:r>`)
+  .join('');
+
+// Text with $...$ formulas as inline equations
+const rich = (text: string, style: RunStyle = {}) => text.split(/(\$[^$]+\$)/g)
+  .map(segment => !segment ? '' : segment.length > 2 && segment.startsWith('$') && segment.endsWith('$') ? latexToOmml(segment.slice(1, -1)) : run(segment, style))
+  .join('');
+
+const border = (side: string, size: number) => `<w:${side} w:val="single" w:sz="${size}" w:space="1" w:color="000000"/>`;
+
+const para = (content: string, options: ParagraphOptions = {}) => {
+  const borders = (options.borderTop ? border('top', options.borderTop) : '') + (options.borderBottom ? border('bottom', options.borderBottom) : '');
+  const props = [
+    options.keepNext ? '<w:keepNext/>' : '',
+    borders ? `<w:pBdr>${borders}</w:pBdr>` : '',
+    `<w:spacing w:before="${options.before || 0}" w:after="${options.after || 0}"/>`,
+    options.indent ? `<w:ind w:left="${options.indent}"/>` : '',
+    options.align && options.align !== 'left' ? `<w:jc w:val="${options.align}"/>` : '',
+  ].join('');
+  return `<w:p><w:pPr>${props}</w:pPr>${content}</w:p>`;
+};
+
+const tableBorder = (side: string, on: boolean) =>
+  on ? `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>` : `<w:${side} w:val="nil"/>`;
+
+// A cell has to end with a paragraph
+const cellContent = (xml: string) => xml.endsWith('</w:p>') ? xml : `${xml}<w:p><w:pPr><w:spacing w:before="0" w:after="0"/></w:pPr></w:p>`;
+
+const table = (rows: string[][], widths: number[], options: TableOptions = {}) => {
+  const edges = options.borders === 'all' || options.borders === 'box';
+  const inside = options.borders === 'all';
+  const pad = options.padding || 0;
+  const props = [
+    `<w:tblW w:w="${widths.reduce((sum, w) => sum + w, 0)}" w:type="dxa"/>`,
+    options.center ? '<w:jc w:val="center"/>' : '',
+    options.indent ? `<w:tblInd w:w="${options.indent}" w:type="dxa"/>` : '',
+    `<w:tblBorders>${tableBorder('top', edges)}${tableBorder('left', edges)}${tableBorder('bottom', edges)}${tableBorder('right', edges)}${tableBorder('insideH', inside)}${tableBorder('insideV', inside)}</w:tblBorders>`,
+    '<w:tblLayout w:type="fixed"/>',
+    `<w:tblCellMar><w:top w:w="${pad}" w:type="dxa"/><w:left w:w="${pad}" w:type="dxa"/><w:bottom w:w="${pad}" w:type="dxa"/><w:right w:w="${pad}" w:type="dxa"/></w:tblCellMar>`,
+  ].join('');
+  const body = rows.map((cells, r) => {
+    const rowProps = options.cantSplit ? '<w:trPr><w:cantSplit/></w:trPr>' : '';
+    const cellsXml = widths.map((w, c) => {
+      const rule = options.headerRule && r === 0 ? '<w:tcBorders><w:bottom w:val="single" w:sz="12" w:space="0" w:color="000000"/></w:tcBorders>' : '';
+      return `<w:tc><w:tcPr><w:tcW w:w="${w}" w:type="dxa"/>${rule}</w:tcPr>${cellContent(cells[c] || '')}</w:tc>`;
+    }).join('');
+    return `<w:tr>${rowProps}${cellsXml}</w:tr>`;
+  }).join('');
+  return `<w:tbl><w:tblPr>${props}</w:tblPr><w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${body}</w:tbl>`;
+};
+
+// --- Images ---
+
+const imageInfo = (bytes: Uint8Array): { ext: string; width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { ext: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { ext: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    for (let p = 2; p + 9 < bytes.length;) {
+      if (bytes[p] !== 0xff) { p++; continue; }
+      const marker = bytes[p + 1];
+      // Start-of-frame markers carry the dimensions (C4, C8 and CC are other segments)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { ext: 'jpeg', width: view.getUint16(p + 7), height: view.getUint16(p + 5) };
+      }
+      p += 2 + view.getUint16(p + 2);
+    }
+  }
+  return null;
+};
+
+const drawing = (image: DocxImage, id: number, cx: number, cy: number) =>
+  `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}"/>` +
+  `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${image.file}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+  `<pic:blipFill><a:blip r:embed="${image.rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+  `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+
+// --- Package parts ---
+
+const contentTypes = (images: DocxImage[]) => XML_HEAD +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  Array.from(new Set(images.map(i => i.file.split('.').pop()!))).map(ext => `<Default Extension="${ext}" ContentType="image/${ext}"/>`).join('') +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+  '</Types>';
+
+const packageRels = XML_HEAD +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '</Relationships>';
+
+const documentRels = (images: DocxImage[]) => XML_HEAD +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>' +
+  images.map(i => `<Relationship Id="${i.rId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${i.file}"/>`).join('') +
+  '</Relationships>';
+
+// Times New Roman for Latin text, Nirmala UI (with Mangal as Word's own fallback) for Devanagari
+const styles = XML_HEAD +
+  `<w:styles ${NAMESPACES}><w:docDefaults><w:rPrDefault><w:rPr>` +
+  '<w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Nirmala UI"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-IN" w:bidi="hi-IN"/>' +
+  '</w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+  '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblCellMar><w:left w:w="0" w:type="dxa"/><w:right w:w="0" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '</w:styles>';
+
+const footer = (label: string) => XML_HEAD +
+  `<w:ftr ${NAMESPACES}>` +
+  para(`${run(`${label} `, { size: 18 })}<w:fldSimple w:instr=" PAGE ">${run('1', { size: 18 })}</w:fldSimple>`, { align: 'center' }) +
+  '</w:ftr>';
+
+export const renderPaperDocx = async (content: PaperContent, options: PaperDocxOptions): Promise<Uint8Array> => {
+  const hindi = content.subject === 'Hindi';
+
+  // Images that cannot be read are printed as a note instead of failing the whole document
+  const images = new Map<string, DocxImage | null>();
+  for (const url of options.kind === 'paper' ? paperImageUrls(content.sections) : []) {
+    try {
+      const data = dataUrlBytes(url) || (options.loadImage ? await options.loadImage(url) : undefined);
+      const info = data ? imageInfo(data) : null;
+      const n = images.size + 1;
+      images.set(url, data && info ? { rId: `rIdImage${n}`, file: `image${n}.${info.ext}`, data, width: info.width, height: info.height } : null);
+    } catch (e) {
+      console.warn("Could not embed image in DOCX", e);
+      images.set(url, null);
+    }
+  }
+
+  let drawingId = 0;
+  const imageXml = (url: string | undefined, widthPercent: number | undefined, available: number) => {
+    if (!url) return '';
+    const image = images.get(url);
+    if (!image) return para(run(hindi ? '[चित्र उपलब्ध नहीं]' : '[Image not available]', { italic: true, size: 18 }), { align: 'center' });
+    const cx = Math.round(available * Math.min(100, Math.max(10, widthPercent || 50)) / 100 * EMU_PER_TWIP);
+    const cy = Math.round(cx * image.height / image.width);
+    return para(drawing(image, ++drawingId, cx, cy), { align: 'center', before: 80, after: 80 });
+  };
+
+  // --- Question pieces ---
+
+  const optionsXml = (opts: string[], width: number, singleColumn = false) => {
+    const cols = singleColumn ? 1 : optionColumns(opts);
+    const colWidth = Math.floor((width - 120) / cols);
+    const rows: string[][] = [];
+    for (let r = 0; r < opts.length; r += cols) {
+      rows.push(opts.slice(r, r + cols).map((opt, c) =>
+        para(`${run(`(${String.fromCharCode(97 + r + c)}) `, { bold: true })}${rich(cleanOptionText(opt))}`, { after: 40 })));
+    }
+    return table(rows, Array(cols).fill(colWidth), { indent: 120 });
+  };
+
+  const matchXml = (pairs: { left: string; right: string }[], width: number) => {
+    const colWidth = Math.floor((width - 120) / 2);
+    const rows = [
+      [para(run('Column A', { bold: true })), para(run('Column B', { bold: true }))],
+      ...pairs.map((pair, idx) => [
+        para(`${run(`${String.fromCharCode(65 + idx)}. `, { bold: true })}${rich(cleanOptionText(pair.left))}`),
+        para(`${run(`${idx + 1}. `, { bold: true })}${rich(cleanOptionText(pair.right))}`),
+      ]),
+    ];
+    return para(run('Match the Following:', { bold: true }), { before: 80, indent: 120 }) + table(rows, [colWidth, colWidth], { padding: 40, indent: 120, headerRule: true });
+  };
+
+  const passageXml = (passage: QuestionPassage, width: number) => {
+    const inner = width - 200;
+    const rows = (passage.table || []).filter(row => row.cells.some(c => c.trim()));
+    const cols = Math.max(1, ...rows.map(r => r.cells.length));
+    const dataTable = rows.length > 0
+      ? table(rows.map((row, rIdx) => row.cells.map(cell => para(rich(cell.trim(), { bold: rIdx === 0, size: 20 })))), Array(cols).fill(Math.floor(inner / cols)), { borders: 'all', padding: 40 })
+      : '';
+    const body = para(rich(passage.text), { align: 'both' }) + dataTable + imageXml(passage.imageUrl, passage.imageWidth, inner);
+    return table([[body]], [width], { borders: 'box', padding: 100 });
+  };
+
+  // Text, options, match table and image of a question or of its OR alternative
+  const bodyXml = (q: Question | QuestionAlternative, type: QuestionType, width: number) =>
+    para(rich(q.text), { align: 'both' }) +
+    (q.options && q.options.length > 0 ? optionsXml(q.options, width, type === QuestionType.ASSERTION_REASON) : '') +
+    (type === QuestionType.MATCH && q.matchPairs ? matchXml(q.matchPairs, width) : '') +
+    imageXml(q.imageUrl, q.imageWidth, width);
+
+  const partXml = (part: QuestionPart, idx: number, width: number) => {
+    const bodyWidth = width - LABEL_WIDTH - MARKS_WIDTH;
+    const body = para(rich(part.text), { align: 'both' }) +
+      (part.options && part.options.length > 0 ? optionsXml(part.options, bodyWidth) : '') +
+      imageXml(part.imageUrl, part.imageWidth, bodyWidth);
+    return table([[para(run(partLabel(idx, hindi), { bold: true })), body, para(run(`[${part.marks}]`, { size: 20 }), { align: 'right' })]],
+      [LABEL_WIDTH, bodyWidth, MARKS_WIDTH], { indent: 120 });
+  };
+
+  const orXml = () => para(run(hindi ? 'अथवा' : 'OR', { bold: true }), { align: 'center', before: 60, after: 60 });
+
+  const questionNumber = (q: Question, n: number) => q.customNumber || (hindi ? `प्र. ${n}` : `${n}.`);
+  const bodyWidth = CONTENT_WIDTH - NUMBER_WIDTH - MARKS_WIDTH;
+
+  // Number | question | marks, kept on one page where it fits
+  const questionRow = (number: string, body: string, marks: string, marksStyle: RunStyle) =>
+    table([[para(run(number, { bold: true })), body, para(run(`[${marks}]`, marksStyle), { align: 'right' })]],
+      [NUMBER_WIDTH, bodyWidth, MARKS_WIDTH], { cantSplit: true }) + para('', { after: 60 });
+
+  const questionXml = (q: Question, n: number) => questionRow(questionNumber(q, n),
+    bodyXml(q, q.type, bodyWidth) +
+    (q.passage ? passageXml(q.passage, bodyWidth) : '') +
+    (q.parts || []).map((part, idx) => partXml(part, idx, bodyWidth)).join('') +
+    (q.alternative ? orXml() + bodyXml(q.alternative, q.type, bodyWidth) : ''),
+    String(questionMarks(q)), { bold: true, size: 20 });
+
+  const keyXml = (q: Question, n: number) => {
+    const notAvailable = 'Answer not available';
+    const answer = q.answer || !q.parts?.length ? para(rich(q.answer || notAvailable)) : '';
+    const parts = (q.parts || []).map((part, idx) => table([[
+      para(run(partLabel(idx, hindi), { bold: true })),
+      para(rich(part.answer || notAvailable)),
+      para(run(`[${part.marks}]`, { size: 16, color: '6B7280' }), { align: 'right' }),
+    ]], [LABEL_WIDTH, bodyWidth - LABEL_WIDTH - MARKS_WIDTH, MARKS_WIDTH])).join('');
+    const alternative = q.alternative ? para(`${run(`${hindi ? 'अथवा' : 'OR'}: `, { bold: true })}${rich(q.alternative.answer || notAvailable)}`, { before: 40 }) : '';
+    return questionRow(questionNumber(q, n), answer + parts + alternative, String(questionMarks(q)), { bold: true, size: 16, color: '6B7280' });
+  };
+
+  // --- Headers ---
+
+  const totalMarks = Number(content.sections.reduce((sum, s) => sum + sectionMarks(s.questions), 0).toFixed(2));
+  const setLabel = options.setLabel || '';
+
+  const paperHeader = () => {
+    const third = Math.floor(CONTENT_WIDTH / 4);
+    const info = table([[
+      para(run(`${hindi ? 'समय' : 'TIME'}: ${content.duration}`, { bold: true, caps: true, size: 20 })),
+      para(run(`${hindi ? 'कक्षा' : 'CLASS'}: ${content.classNum}      ${hindi ? 'सत्र' : 'SESSION'}: ${content.session || ''}`, { bold: true, caps: true, size: 20 }), { align: 'center' }),
+      para(run(`${hindi ? 'पूर्णांक' : 'MAX. MARKS'}: ${totalMarks}`, { bold: true, caps: true, size: 20 }), { align: 'right' }),
+    ]], [third, CONTENT_WIDTH - 2 * third, third]);
+    return [
+      para(run(content.schoolName || (hindi ? 'विद्यालय का नाम' : 'SCHOOL NAME'), { bold: true, caps: true, size: 32 }), { align: 'center', after: 60 }),
+      para(run(content.title || (hindi ? 'परीक्षा' : 'EXAMINATION'), { bold: true, caps: true, size: 26 }), { align: 'center', after: 100 }),
+      setLabel ? table([[para(run(setLabel, { bold: true, caps: true }), { align: 'center' })]], [1600], { borders: 'box', padding: 40, center: true }) + para('', { after: 60 }) : '',
+      para(run(`${hindi ? 'विषय' : 'SUBJECT'}: ${hindi ? 'हिंदी' : content.subject}`, { bold: true, caps: true, size: 24 }), { align: 'center', borderTop: 12, after: 40 }),
+      info,
+      para('', { borderBottom: 12, after: 120 }),
+    ].join('');
+  };
+
+  const instructionsXml = () => {
+    if (!content.generalInstructions || !content.generalInstructions.trim()) return '';
+    return para(run(`${hindi ? 'सामान्य निर्देश' : 'General Instructions'}:`, { bold: true, underline: true, caps: true, size: 20 }), { after: 40 }) +
+      para(run(content.generalInstructions.trim(), { size: 20 }), { after: 120 });
+  };
+
+  const keyHeader = () => {
+    const info = [`${hindi ? 'कक्षा' : 'CLASS'}: ${content.classNum}`, `${hindi ? 'विषय' : 'SUBJECT'}: ${content.subject}`, content.title, setLabel].filter(Boolean).join(' | ');
+    return para(run(hindi ? 'उत्तर कुंजी' : 'ANSWER KEY', { bold: true, underline: true, caps: true, size: 32 }), { align: 'center' }) +
+      para(run(content.schoolName, { bold: true, size: 26 }), { align: 'center' }) +
+      para(run(info, { bold: true, size: 20 }), { align: 'center', before: 80, after: 240 });
+  };
+
+  // --- Assembly ---
+
+  let questionNo = 0;
+  const sectionsXml = content.sections.map(section => {
+    const title = section.title && section.title.trim()
+      ? options.kind === 'paper'
+        ? para(rich(section.title, { bold: true, caps: true, size: 28 }), { align: 'center', keepNext: true, borderBottom: 4, after: 120 })
+        : para(run(section.title, { bold: true, underline: true, caps: true, size: 20 }), { keepNext: true, after: 80 })
+      : '';
+    return title + section.questions.map(q => options.kind === 'paper' ? questionXml(q, ++questionNo) : keyXml(q, ++questionNo)).join('') + para('', { after: 120 });
+  }).join('');
+
+  const sectionProps = `<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+    `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="360" w:footer="360" w:gutter="0"/></w:sectPr>`;
+  const document = XML_HEAD + `<w:document ${NAMESPACES}><w:body>` +
+    (options.kind === 'paper' ? paperHeader() + instructionsXml() : keyHeader()) +
+    sectionsXml + sectionProps + '</w:body></w:document>';
+
+  const embedded = Array.from(images.values()).filter((i): i is DocxImage => !!i);
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes(embedded)) },
+    { name: '_rels/.rels', data: encoder.encode(packageRels) },
+    { name: 'word/document.xml', data: encoder.encode(document) },
+    { name: 'word/styles.xml', data: encoder.encode(styles) },
+    { name: 'word/footer1.xml', data: encoder.encode(footer(hindi ? 'पृष्ठ' : 'Page')) },
+    { name: 'word/_rels/document.xml.rels', data: encoder.encode(documentRels(embedded)) },
+    ...embedded.map(i => ({ name: `word/media/${i.file}`, data: i.data })),
+  ];
+  return writeZip(entries);
+};
@@ -0,0 +1,302 @@
+
+import { Question, QuestionPart, QuestionType, Section } from "../types";
+import { extractDocumentText } from "./documentText";
+import { sectionMarks } from "./questionUtils";
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+// Heuristic parser for existing question papers (Word, PDF or text). Recognises section headings
+// ("SECTION A", "खण्ड क"), numbered questions ("1.", "Q2)", "प्र. 3"), marks in brackets at the end of a
+// question, options (a)-(d) inline or on their own lines, sub-parts (i), (ii) and "OR" alternatives.
+// Lines before the first question give the title, duration, maximum marks and general instructions.
+// The result opens in the editor, where the teacher corrects whatever was misread.
+
+const SECTION_LINE = /^(?:section|part|खण्ड|खंड|भाग)\s*[-–:.]?\s*([A-Z]|[IVX]+|\d+|[क-ह])(?=$|[\s\-–:.)(])/i;
+const QUESTION_LINE = /^(?:(?:Q(?:ue(?:s(?:tion)?)?)?|प्र(?:श्न)?)\s*\.?\s*(?:no\.?\s*)?)?(\d{1,3})\s*[.):](?!\d)\s*(.*)$/i;
+const PREFIXED_QUESTION = /^(?:Q(?:ue(?:s(?:tion)?)?)?|प्र(?:श्न)?)\s*\.?\s*(?:no\.?\s*)?(\d{1,3})\s+(.*)$/i;
+const PART_LINE = /^\(?((?:i{1,3}|iv|v|vi{1,3}|ix|x))\)\s*(.*)$/i;
+const OPTION_MARKER = /(?:^|\s+)(?:\(([a-dA-Dकखगघ])\)|([a-dA-D])[.)])\s*/g;
+const OR_LINE = /^[-–—(\s]*(?:or|अथवा)[-–—)\s]*$/i;
+// "OR" in capitals followed by the alternative on the same line, as in a table row
+const OR_PREFIX = /^(?:OR|अथवा)[\s:\-–]+(.+)$/;
+const INSTRUCTIONS_LINE = /^(?:general\s+instructions?|instructions?|सामान्य\s+निर्देश|निर्देश)\s*[:\-–]?\s*(.*)$/i;
+const TITLE_LINE = /exam|test|assessment|term|परीक्षा/i;
+const TIME_FIELD = /(?:time(?:\s+allowed)?|duration|समय)\s*[:\-–]\s*(.+?)(?=\s{2,}|\t|\||\s+[a-z.]+\s*:|max|m\.\s*m|full\s+marks|पूर्णांक|$)/i;
+const MAX_MARKS_FIELD = /(?:max(?:imum)?\.?\s*marks|m\.\s*m\.?|full\s+marks|पूर्णांक)\s*[:\-–]?\s*(\d+)/i;
+const EACH_MARKS = /(\d+(?:\.\d+)?)\s*(?:marks?|अंक)\s*(?:each|प्रत्येक)|(\d+(?:\.\d+)?)\s*[x×]\s*\d+/i;
+
+// "[2]", "(2 marks)", "[1 अंक]" or "3 Marks" at the end of a line
+const MARKS_PATTERNS = [
+  /\s*\[\s*(\d+(?:\.\d+)?)\s*(?:marks?|m|अंक)?\s*\]\s*$/i,
+  /\s+\(\s*(\d+(?:\.\d+)?)\s*(?:marks?|m|अंक)?\s*\)\s*$/i,
+  /\s+(\d+(?:\.\d+)?)\s*(?:marks?|अंक)\s*$/i,
+];
+
+// Passages longer than this make a question with sub-parts a case study
+const PASSAGE_LENGTH = 250;
+
+const OPTION_LETTERS = ['abcd', 'ABCD', 'कखगघ'];
+const optionIndex = (letter: string) => OPTION_LETTERS.reduce((found, set) => found !== -1 ? found : set.indexOf(letter), -1);
+
+export const splitQuestionMarks = (text: string, patterns = MARKS_PATTERNS): { text: string; marks?: number } => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return { text: text.slice(0, match.index).trim(), marks: Number(match[1]) };
+  }
+  return { text: text.trim() };
+};
+
+// Options starting at the next expected marker; letters out of sequence are text. Options may follow
+// the question text on the same line ("... ? (a) 3 (b) 4 (c) 5"), but only as a run of three or more,
+// so "find (a) the area and (b) the perimeter" stays a sentence.
+const splitOptions = (line: string, next: number): { before: string; options: string[] } | null => {
+  const found: { start: number; end: number }[] = [];
+  OPTION_MARKER.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = OPTION_MARKER.exec(line))) {
+    const index = optionIndex(match[1] || match[2]);
+    if (index === next + found.length) found.push({ start: match.index, end: match.index + match[0].length });
+    else if (found.length === 0 && index === next) found.push({ start: match.index, end: match.index + match[0].length });
+  }
+  if (found.length === 0 || (found[0].start !== 0 && (next !== 0 || found.length < 3))) return null;
+  return { before: line.slice(0, found[0].start).trim(), options: found.map((f, i) => line.slice(f.end, found[i + 1]?.start).trim()) };
+};
+
+// A line holding only the marks, as when marks sit in their own table column
+const MARKS_ONLY = /^[[(]\s*(\d+(?:\.\d+)?)\s*(?:marks?|m|अंक)?\s*[\])]$/i;
+
+// Table rows arrive as tab-separated cells: "1.<tab>Question<tab>2" is a question worth 2 marks
+const normalizeLine = (line: string): string => {
+  const cells = line.split('\t').map(c => c.trim()).filter(Boolean);
+  const joined = cells.join(' ');
+  if (cells.length >= 3 && /^\d+(?:\.\d+)?$/.test(cells[cells.length - 1]) && QUESTION_LINE.test(joined)) {
+    return `${cells.slice(0, -1).join(' ')} [${cells[cells.length - 1]}]`;
+  }
+  return joined;
+};
+
+interface DraftBlock {
+  lines: string[];
+  options: string[];
+  marks?: number;
+}
+
+interface DraftQuestion extends DraftBlock {
+  number: number;
+  parts: DraftBlock[];
+  letteredParts?: boolean;
+  alternative?: DraftBlock;
+}
+
+export interface PaperImport {
+  fileName: string;
+  text: string;
+  title?: string;
+  duration?: string;
+  maxMarks?: number;
+  generalInstructions?: string;
+  sections: Section[];
+  questionCount: number;
+}
+
+export const parsePaperText = (text: string, topic = ''): Omit<PaperImport, 'fileName' | 'text'> => {
+  const lines = text.split(/\r?\n/).map(l => normalizeLine(l.replace(/\u00a0/g, ' '))).filter(Boolean);
+  const hindi = /[\u0900-\u097f]/.test(text);
+
+  const header: { title?: string; duration?: string; maxMarks?: number } = {};
+  const instructions: string[] = [];
+  const sections: { title: string; defaultMarks?: number; questions: DraftQuestion[] }[] = [];
+  let inInstructions = false;
+  let lastInstructionNumber = 0;
+  let current: DraftQuestion | undefined;
+  let target: 'question' | 'part' | 'alternative' = 'question';
+  let lastNumber = 0;
+
+  const addLine = (block: DraftBlock, line: string) => {
+    const split = splitOptions(line, block.options.length);
+    if (split) {
+      if (split.before) block.lines.push(split.before);
+      block.options.push(...split.options);
+    } else if (block.options.length > 0) block.options[block.options.length - 1] += ` ${line}`;
+    else block.lines.push(line);
+  };
+
+  const section = () => {
+    if (sections.length === 0) sections.push({ title: '', questions: [] });
+    return sections[sections.length - 1];
+  };
+
+  const startQuestion = (number: number, rest: string) => {
+    current = { number, lines: [], options: [], parts: [] };
+    section().questions.push(current);
+    if (rest) addLine(current, rest);
+    target = 'question';
+    lastNumber = number;
+    inInstructions = false;
+  };
+
+  // Numbering is expected to run on (or restart at 1 in a new section); anything else is question text
+  const questionStart = (line: string): { number: number; rest: string } | null => {
+    const match = line.match(QUESTION_LINE) || line.match(PREFIXED_QUESTION);
+    if (!match) return null;
+    const number = Number(match[1]);
+    if (number === 1 || (number > lastNumber && number <= lastNumber + 3)) return { number, rest: match[2].trim() };
+    return null;
+  };
+
+  for (const line of lines) {
+    const sectionMatch = line.match(SECTION_LINE);
+    if (sectionMatch && line.length <= 80) {
+      const each = line.match(EACH_MARKS);
+      sections.push({ title: line.replace(/[:\-–\s]+$/, ''), defaultMarks: each ? Number(each[1] || each[2]) : undefined, questions: [] });
+      current = undefined;
+      inInstructions = false;
+      continue;
+    }
+
+    if (!current && sections.length === 0) {
+      const instructionsMatch = line.match(INSTRUCTIONS_LINE);
+      if (instructionsMatch) {
+        inInstructions = true;
+        if (instructionsMatch[1]) instructions.push(instructionsMatch[1]);
+        continue;
+      }
+      if (inInstructions) {
+        // Numbered instructions run 1, 2, 3...; a second "1." starts the questions
+        const numbered = line.match(QUESTION_LINE);
+        if (!numbered || Number(numbered[1]) > lastInstructionNumber) {
+          if (numbered) lastInstructionNumber = Number(numbered[1]);
+          instructions.push(line);
+          continue;
+        }
+      } else if (!questionStart(line)) {
+        const time = line.match(TIME_FIELD);
+        const maxMarks = line.match(MAX_MARKS_FIELD);
+        if (time && !header.duration) header.duration = time[1].trim();
+        if (maxMarks && !header.maxMarks) header.maxMarks = Number(maxMarks[1]);
+        if (!time && !maxMarks && !header.title && TITLE_LINE.test(line)) header.title = line;
+        continue;
+      }
+    }
+
+    const start = questionStart(line);
+    if (start) {
+      startQuestion(start.number, start.rest);
+      continue;
+    }
+    if (!current) continue;
+
+    const orPrefix = line.match(OR_PREFIX);
+    if (OR_LINE.test(line) || orPrefix) {
+      current.alternative = { lines: [], options: [] };
+      target = 'alternative';
+      if (orPrefix) addLine(current.alternative, orPrefix[1]);
+      continue;
+    }
+
+    const block = target === 'alternative' ? current.alternative! : target === 'part' ? current.parts[current.parts.length - 1] : current;
+    const marksOnly = line.match(MARKS_ONLY);
+    if (marksOnly) {
+      // Once a part has its marks, a further marks line is the question's total
+      const partHasMarks = target === 'part' && (block.marks !== undefined || splitQuestionMarks(block.lines.join('\n')).marks !== undefined);
+      (partHasMarks ? current : block).marks = Number(marksOnly[1]);
+      continue;
+    }
+
+    // "(a) ..." with its own marks, or a long one, starts a sub-part rather than an option; later
+    // letters continue the parts
+    const letter = target !== 'alternative' && line.match(OPTION_MARKER) ? splitOptions(line, current.parts.length) : null;
+    const lettered = letter && letter.before === '' && (current.letteredParts ||
+      (current.parts.length === 0 && current.options.length === 0 && letter.options.length === 1 &&
+        (splitQuestionMarks(letter.options[0]).marks !== undefined || letter.options[0].length > 120)));
+    const roman = target !== 'alternative' && !current.letteredParts ? line.match(PART_LINE) : null;
+    if (lettered || roman) {
+      const part: DraftBlock = { lines: [], options: [] };
+      current.parts.push(part);
+      current.letteredParts = !!lettered;
+      addLine(part, lettered ? line.slice(line.match(OPTION_MARKER)![0].length) : roman![2]);
+      target = 'part';
+      continue;
+    }
+
+    addLine(block, line);
+  }
+
+  const toQuestion = (draft: DraftQuestion, defaultMarks?: number): Question => {
+    // Marks are usually at the end of the question, but may follow the last option or line
+    let marks: number | undefined;
+    const strip = (value: string, patterns?: RegExp[]) => {
+      const split = splitQuestionMarks(value, patterns);
+      if (split.marks !== undefined) marks = split.marks;
+      return split.text;
+    };
+    // The alternative carries the same marks; the question's own marks take precedence
+    let alternative: Question['alternative'];
+    if (draft.alternative) {
+      alternative = { text: draft.alternative.lines.map(l => strip(l)).join('\n') };
+      if (draft.alternative.options.length > 0) alternative.options = draft.alternative.options.map(o => strip(o, MARKS_PATTERNS.slice(0, 1)));
+      if (draft.alternative.marks !== undefined) marks = draft.alternative.marks;
+    }
+    if (draft.marks !== undefined) marks = draft.marks;
+    const lines = draft.lines.map(l => strip(l));
+    const options = draft.options.map(o => strip(o, MARKS_PATTERNS.slice(0, 1)));
+    const body = lines.join('\n');
+
+    const parts: QuestionPart[] = draft.parts.map(p => {
+      const split = splitQuestionMarks(p.lines.join('\n'));
+      const options = p.options.map(o => splitQuestionMarks(o, MARKS_PATTERNS.slice(0, 1)));
+      const part: QuestionPart = { id: generateId(), text: split.text, marks: p.marks ?? split.marks ?? options[options.length - 1]?.marks ?? 0 };
+      if (options.length > 0) {
+        part.options = options.map(o => o.text);
+        part.type = QuestionType.MCQ;
+      }
+      return part;
+    });
+    const questionMarksValue = marks ?? defaultMarks ?? 1;
+    if (parts.length > 0 && parts.every(p => !p.marks)) {
+      parts.forEach(p => { p.marks = Number((questionMarksValue / parts.length).toFixed(2)); });
+    }
+
+    const type = options.length >= 2
+      ? (/assertion/i.test(body) && /reason/i.test(body) ? QuestionType.ASSERTION_REASON : QuestionType.MCQ)
+      : parts.length > 0 ? (body.length > PASSAGE_LENGTH ? QuestionType.CASE_STUDY : QuestionType.LA)
+      : questionMarksValue <= 1 ? QuestionType.VSA : questionMarksValue <= 3 ? QuestionType.SA : QuestionType.LA;
+
+    const question: Question = { id: generateId(), type, text: body, marks: questionMarksValue, topic };
+    if (options.length > 0) question.options = options;
+    if (parts.length > 0) {
+      question.parts = parts;
+      question.marks = Number(parts.reduce((sum, p) => sum + p.marks, 0).toFixed(2));
+    }
+    if (type === QuestionType.CASE_STUDY) {
+      // A short first line is the instruction; the rest is the passage
+      const [first, ...rest] = lines;
+      const instructionLine = rest.length > 0 && first.length <= 120;
+      question.passage = { text: instructionLine ? rest.join('\n') : body };
+      question.text = instructionLine ? first : hindi ? 'निम्नलिखित गद्यांश को पढ़कर प्रश्नों के उत्तर दीजिए।' : 'Read the following passage and answer the questions that follow.';
+    }
+    if (alternative) question.alternative = alternative;
+    return question;
+  };
+
+  const built: Section[] = sections
+    .filter(s => s.questions.length > 0)
+    .map(s => {
+      const questions = s.questions.map(q => toQuestion(q, s.defaultMarks));
+      return { id: generateId(), title: s.title, questions, totalMarks: sectionMarks(questions) };
+    });
+
+  return {
+    ...header,
+    generalInstructions: instructions.length > 0 ? instructions.join('\n') : undefined,
+    sections: built,
+    questionCount: built.reduce((sum, s) => sum + s.questions.length, 0),
+  };
+};
+
+export const readPaperDocument = async (bytes: Uint8Array, fileName: string, mimeType?: string, topic = ''): Promise<PaperImport> => {
+  const text = await extractDocumentText(bytes, fileName, mimeType);
+  const parsed = parsePaperText(text, topic);
+  if (parsed.questionCount === 0) throw new Error("No numbered questions were found in this document. Questions should start like \"1.\", \"Q1.\" or \"प्र. 1\".");
+  return { fileName, text, ...parsed };
+};
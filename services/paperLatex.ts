@@ -0,0 +1,229 @@
+
+import { PaperContent, Question, QuestionAlternative, QuestionPart, QuestionPassage, QuestionType } from "../types";
+import { questionMarks, sectionMarks, cleanOptionText, optionColumns, paperImageUrls } from "./questionUtils";
+import { dataUrlBytes } from "./documentText";
+import { writeZip, ZipEntry } from "./zip";
+
+// LaTeX source of a paper and its answer key for Overleaf and local TeX installs: a zip with paper.tex,
+// answer-key.tex, the images and a latexmkrc selecting XeLaTeX. Uses the exam document class; Hindi
+// papers are set with polyglossia. Formulas are copied as written, since questions already use $...$.
+
+export interface PaperLatexOptions {
+  setLabel?: string;
+  // Fetches images that are not data: URLs; without it such images are left out
+  loadImage?: (url: string) => Promise<Uint8Array | undefined>;
+}
+
+const HINDI_FONT = 'Noto Serif Devanagari';
+
+// Commands KaTeX accepts that plain LaTeX does not
+const KATEX_COMPAT = [
+  '\\providecommand{\\R}{\\mathbb{R}}',
+  '\\providecommand{\\N}{\\mathbb{N}}',
+  '\\providecommand{\\Z}{\\mathbb{Z}}',
+  '\\providecommand{\\Q}{\\mathbb{Q}}',
+  '\\providecommand{\\C}{\\mathbb{C}}',
+  '\\providecommand{\\degree}{^\\circ}',
+  '\\providecommand{\\cosec}{\\operatorname{cosec}}',
+];
+
+const imageExtension = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+  return null; // graphicx cannot include GIF or WebP
+};
+
+const escapeText = (text: string) => text
+  .replace(/\\/g, '\u0000')
+  .replace(/([&%#_{}])/g, '\\$1')
+  .replace(/~/g, '\\textasciitilde{}')
+  .replace(/\^/g, '\\textasciicircum{}')
+  .replace(/\u0000/g, '\\textbackslash{}');
+
+// Plain text escaped, $...$ formulas kept; line breaks carried over
+const tex = (text: string) => text.split(/(\$[^$]+\$)/g)
+  .map(segment => segment.length > 2 && segment.startsWith('$') && segment.endsWith('$') ? segment : escapeText(segment))
+  .join('')
+  .replace(/\n/g, '\\newline{}');
+
+export const renderPaperLatex = async (content: PaperContent, options: PaperLatexOptions = {}): Promise<Uint8Array> => {
+  const hindi = content.subject === 'Hindi';
+  const setLabel = options.setLabel || '';
+
+  const images = new Map<string, { file: string; data: Uint8Array } | null>();
+  for (const url of paperImageUrls(content.sections)) {
+    try {
+      const data = dataUrlBytes(url) || (options.loadImage ? await options.loadImage(url) : undefined);
+      const ext = data ? imageExtension(data) : null;
+      images.set(url, data && ext ? { file: `images/image${images.size + 1}.${ext}`, data } : null);
+    } catch (e) {
+      console.warn("Could not bundle image for LaTeX export", e);
+      images.set(url, null);
+    }
+  }
+
+  const imageTex = (url: string | undefined, widthPercent: number | undefined) => {
+    if (!url) return '';
+    const image = images.get(url);
+    if (!image) return `\\begin{center}\\emph{${hindi ? '[चित्र उपलब्ध नहीं]' : '[Image not available]'}}\\end{center}\n`;
+    const width = Math.min(100, Math.max(10, widthPercent || 50)) / 100;
+    return `\\begin{center}\\includegraphics[width=${width.toFixed(2)}\\linewidth]{${image.file}}\\end{center}\n`;
+  };
+
+  // --- Question pieces ---
+
+  const optionsTex = (opts: string[], singleColumn = false) => {
+    const cols = singleColumn ? 1 : optionColumns(opts);
+    const cells = opts.map((opt, idx) => `\\textbf{(${String.fromCharCode(97 + idx)})}~${tex(cleanOptionText(opt))}`);
+    if (cols === 1) return `\\begin{itemize}[label={},leftmargin=1em,itemsep=0pt]\n${cells.map(c => `  \\item ${c}`).join('\n')}\n\\end{itemize}\n`;
+    const rows: string[] = [];
+    for (let r = 0; r < cells.length; r += cols) {
+      const row = cells.slice(r, r + cols);
+      while (row.length < cols) row.push('');
+      rows.push(`  ${row.join(' & ')} \\\\`);
+    }
+    return `\\par\\noindent\\begin{tabularx}{\\linewidth}{@{\\hspace{1em}}*{${cols}}{X}@{}}\n${rows.join('\n')}\n\\end{tabularx}\n`;
+  };
+
+  const matchTex = (pairs: { left: string; right: string }[]) =>
+    `\\par\\noindent\\textbf{Match the Following:}\\par\\noindent\\begin{tabularx}{\\linewidth}{@{\\hspace{1em}}XX@{}}\n` +
+    `  \\textbf{Column A} & \\textbf{Column B} \\\\ \\hline\n` +
+    pairs.map((pair, idx) => `  \\textbf{${String.fromCharCode(65 + idx)}.}~${tex(cleanOptionText(pair.left))} & \\textbf{${idx + 1}.}~${tex(cleanOptionText(pair.right))} \\\\`).join('\n') +
+    `\n\\end{tabularx}\n`;
+
+  const passageTex = (passage: QuestionPassage) => {
+    const rows = (passage.table || []).filter(row => row.cells.some(c => c.trim()));
+    const cols = Math.max(1, ...rows.map(r => r.cells.length));
+    const tableTex = rows.length > 0
+      ? `\\par\\smallskip\\noindent\\begin{tabularx}{\\linewidth}{|*{${cols}}{X|}}\\hline\n` +
+        rows.map((row, rIdx) => {
+          const cells = row.cells.map(c => rIdx === 0 ? `\\textbf{${tex(c.trim())}}` : tex(c.trim()));
+          while (cells.length < cols) cells.push('');
+          return `  ${cells.join(' & ')} \\\\ \\hline`;
+        }).join('\n') +
+        `\n\\end{tabularx}\n`
+      : '';
+    return `\\par\\smallskip\\noindent\\fbox{\\parbox{\\dimexpr\\linewidth-2\\fboxsep-2\\fboxrule}{\n${tex(passage.text)}\n${tableTex}${imageTex(passage.imageUrl, passage.imageWidth)}}}\n`;
+  };
+
+  // Text, options, match table and image of a question or of its OR alternative
+  const bodyTex = (q: Question | QuestionAlternative, type: QuestionType) =>
+    `${tex(q.text)}\n` +
+    (q.options && q.options.length > 0 ? optionsTex(q.options, type === QuestionType.ASSERTION_REASON) : '') +
+    (type === QuestionType.MATCH && q.matchPairs ? matchTex(q.matchPairs) : '') +
+    imageTex(q.imageUrl, q.imageWidth);
+
+  const partsTex = (parts: QuestionPart[], text: (part: QuestionPart) => string) =>
+    `\\begin{parts}\n${parts.map(part => `\\part[${part.marks}] ${text(part)}`).join('\n')}\\end{parts}\n`;
+
+  const orTex = `\\begin{center}\\textbf{${hindi ? 'अथवा' : 'OR'}}\\end{center}\n`;
+
+  // exam numbers questions itself; a custom number replaces the label for that question only
+  const questionTex = (q: Question, body: string) => {
+    const label = q.customNumber ? `\\renewcommand{\\questionlabel}{\\textbf{${escapeText(q.customNumber)}}}\n` : '';
+    const reset = q.customNumber ? `\\renewcommand{\\questionlabel}{\\defaultquestionlabel}\n` : '';
+    const marks = q.parts && q.parts.length > 0 ? '' : `[${questionMarks(q)}]`;
+    return `${label}\\question${marks} ${body}${reset}\n`;
+  };
+
+  const paperQuestion = (q: Question) => questionTex(q,
+    bodyTex(q, q.type) +
+    (q.passage ? passageTex(q.passage) : '') +
+    (q.parts && q.parts.length > 0 ? partsTex(q.parts, part =>
+      `${tex(part.text)}\n` + (part.options && part.options.length > 0 ? optionsTex(part.options) : '') + imageTex(part.imageUrl, part.imageWidth)) : '') +
+    (q.alternative ? orTex + bodyTex(q.alternative, q.type) : ''));
+
+  const notAvailable = 'Answer not available';
+  const keyQuestion = (q: Question) => questionTex(q,
+    (q.answer || !q.parts?.length ? `${tex(q.answer || notAvailable)}\n` : '') +
+    (q.parts && q.parts.length > 0 ? partsTex(q.parts, part => `${tex(part.answer || notAvailable)}\n`) : '') +
+    (q.alternative ? `\\par\\textbf{${hindi ? 'अथवा' : 'OR'}:} ${tex(q.alternative.answer || notAvailable)}\n` : ''));
+
+  // --- Documents ---
+
+  const totalMarks = Number(content.sections.reduce((sum, s) => sum + sectionMarks(s.questions), 0).toFixed(2));
+
+  const preamble = (footerRight: string) => [
+    '% Compile with XeLaTeX (the bundled latexmkrc selects it on Overleaf and with latexmk)',
+    '\\documentclass[a4paper,11pt]{exam}',
+    '\\usepackage[left=0.5in,right=0.8in,top=0.5in,bottom=0.8in]{geometry}',
+    '\\usepackage{amsmath,amssymb}',
+    '\\usepackage{graphicx}',
+    '\\usepackage{tabularx}',
+    '\\usepackage{enumitem}',
+    '\\usepackage{fontspec}',
+    ...(hindi ? [
+      '\\usepackage{polyglossia}',
+      '\\setdefaultlanguage{hindi}',
+      '\\setotherlanguage{english}',
+      `\\newfontfamily\\devanagarifont[Script=Devanagari]{${HINDI_FONT}}`,
+      `\\newfontfamily\\hindifont[Script=Devanagari]{${HINDI_FONT}}`,
+    ] : []),
+    ...KATEX_COMPAT,
+    '',
+    '\\pointsinrightmargin',
+    '\\bracketedpoints',
+    '\\pointname{}',
+    `\\newcommand{\\defaultquestionlabel}{\\textbf{${hindi ? 'प्र.~' : ''}\\thequestion${hindi ? '' : '.'}}}`,
+    '\\renewcommand{\\questionlabel}{\\defaultquestionlabel}',
+    ...(hindi ? ['\\renewcommand{\\partlabel}{(\\ifcase\\value{partno}\\or क\\or ख\\or ग\\or घ\\or ङ\\or च\\or छ\\or ज\\else\\alph{partno}\\fi)}'] : []),
+    '\\pagestyle{foot}',
+    `\\footer{}{${hindi ? 'पृष्ठ \\thepage\\ / \\numpages' : 'Page \\thepage\\ of \\numpages'}}{${footerRight}}`,
+    '',
+  ].join('\n');
+
+  const sectionsTex = (question: (q: Question) => string, heading: (title: string) => string) =>
+    content.sections.map(section =>
+      (section.title && section.title.trim() ? heading(section.title) : '') +
+      `\\begin{questions}\n${section.questions.map(question).join('')}\\end{questions}\n`
+    ).join('\n');
+
+  const paperTex = preamble('\\iflastpage{}{\\textbf{P.T.O.}}') + [
+    '\\begin{document}',
+    '\\begin{center}',
+    `{\\Large\\bfseries ${escapeText((content.schoolName || (hindi ? 'विद्यालय का नाम' : 'SCHOOL NAME')).toUpperCase())}}\\\\[2pt]`,
+    `{\\large\\bfseries ${escapeText((content.title || (hindi ? 'परीक्षा' : 'EXAMINATION')).toUpperCase())}}${setLabel ? '\\\\[4pt]' : ''}`,
+    setLabel ? `\\fbox{\\bfseries ${escapeText(setLabel.toUpperCase())}}` : '',
+    '\\end{center}',
+    '\\hrule height 1.5pt\\smallskip',
+    `\\begin{center}\\bfseries ${hindi ? 'विषय' : 'SUBJECT'}: ${escapeText(hindi ? 'हिंदी' : content.subject.toUpperCase())}\\end{center}`,
+    '\\noindent\\begin{tabularx}{\\linewidth}{@{}X>{\\centering\\arraybackslash}X>{\\raggedleft\\arraybackslash}X@{}}',
+    `  \\textbf{${hindi ? 'समय' : 'TIME'}: ${escapeText(content.duration.toUpperCase())}} & \\textbf{${hindi ? 'कक्षा' : 'CLASS'}: ${escapeText(content.classNum)} \\quad ${hindi ? 'सत्र' : 'SESSION'}: ${escapeText(content.session || '')}} & \\textbf{${hindi ? 'पूर्णांक' : 'MAX. MARKS'}: ${totalMarks}} \\\\`,
+    '\\end{tabularx}',
+    '\\hrule height 1.5pt\\medskip',
+    content.generalInstructions && content.generalInstructions.trim()
+      ? `\\noindent\\textbf{\\underline{${hindi ? 'सामान्य निर्देश' : 'GENERAL INSTRUCTIONS'}:}}\\par\\noindent{\\small ${tex(content.generalInstructions.trim())}}\\par\\medskip`
+      : '',
+    sectionsTex(paperQuestion, title => `\\begin{center}\\large\\bfseries ${tex(title.toUpperCase())}\\end{center}\\vspace{-1ex}\\hrule\\smallskip\n`),
+    '\\end{document}',
+    '',
+  ].filter(line => line !== '').join('\n');
+
+  const keyInfo = [
+    `${hindi ? 'कक्षा' : 'CLASS'}: ${content.classNum}`,
+    `${hindi ? 'विषय' : 'SUBJECT'}: ${content.subject}`,
+    content.title,
+    setLabel,
+  ].filter(Boolean).map(escapeText).join(' \\textbar{} ');
+  const keyTex = preamble('') + [
+    '\\begin{document}',
+    '\\begin{center}',
+    `{\\Large\\bfseries\\underline{${hindi ? 'उत्तर कुंजी' : 'ANSWER KEY'}}}\\\\[2pt]`,
+    `{\\large\\bfseries ${escapeText(content.schoolName)}}\\\\[4pt]`,
+    `{\\small\\bfseries ${keyInfo}}`,
+    '\\end{center}',
+    '\\bigskip',
+    sectionsTex(keyQuestion, title => `\\noindent\\textbf{\\underline{${tex(title.toUpperCase())}}}\\par\n`),
+    '\\end{document}',
+    '',
+  ].join('\n');
+
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { name: 'paper.tex', data: encoder.encode(paperTex) },
+    { name: 'answer-key.tex', data: encoder.encode(keyTex) },
+    { name: 'latexmkrc', data: encoder.encode('$pdf_mode = 5; # XeLaTeX\n') },
+    ...Array.from(images.values()).filter((i): i is { file: string; data: Uint8Array } => !!i).map(i => ({ name: i.file, data: i.data })),
+  ];
+  return writeZip(entries);
+};
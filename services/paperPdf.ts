@@ -0,0 +1,388 @@
+
+import { PaperContent, Question, QuestionAlternative, QuestionPart, QuestionPassage, QuestionType } from "../types";
+import { questionMarks, sectionMarks, partLabel, cleanOptionText, paperImageUrls } from "./questionUtils";
+import { dataUrlBytes } from "./documentText";
+import { createPdfWriter, PdfImage, PdfPage, A4_WIDTH, A4_HEIGHT } from "./pdfWriter";
+import { createTextEngine, PdfFontSet, TextAlign, TextStyle } from "./pdfText";
+
+// Native (vector) PDF for a question paper or its answer key, laid out like the print view: real text with
+// embedded fonts, math as vectors, questions kept together on a page where they fit, page numbers and a
+// P.T.O. footer. Runs in Node given font bytes, so the output can be checked without a browser.
+
+export interface PaperPdfOptions {
+  kind: 'paper' | 'key';
+  fonts: PdfFontSet;
+  setLabel?: string;
+  // Fetches images that are not data: URLs; without it such images are left out
+  loadImage?: (url: string) => Promise<Uint8Array | undefined>;
+}
+
+// A horizontal slice of the page, drawn once its position is known
+interface Block {
+  height: number;
+  draw: (page: PdfPage, top: number) => void;
+}
+
+interface Group {
+  blocks: Block[];
+  keepTogether: boolean;
+}
+
+const MARGIN = 36; // 0.5in, as in the print view
+const FOOTER = 24;
+const BODY: TextStyle = { size: 11 };
+const BOLD: TextStyle = { size: 11, bold: true };
+const SMALL_BOLD: TextStyle = { size: 10, bold: true };
+const GUTTER = 12;
+const MAX_IMAGE_HEIGHT = 320;
+
+export const renderPaperPdf = async (content: PaperContent, options: PaperPdfOptions): Promise<Uint8Array> => {
+  const writer = createPdfWriter();
+  const text = createTextEngine(writer, options.fonts);
+  const hindi = content.subject === 'Hindi';
+  const contentWidth = A4_WIDTH - 2 * MARGIN;
+  const contentHeight = A4_HEIGHT - 2 * MARGIN - FOOTER;
+
+  // Images that cannot be read are printed as a note instead of failing the whole paper
+  const images = new Map<string, PdfImage | null>();
+  for (const url of options.kind === 'paper' ? paperImageUrls(content.sections) : []) {
+    try {
+      const bytes = dataUrlBytes(url) || (options.loadImage ? await options.loadImage(url) : undefined);
+      images.set(url, bytes ? await writer.addImage(bytes) : null);
+    } catch (e) {
+      console.warn("Could not embed image in PDF", e);
+      images.set(url, null);
+    }
+  }
+
+  // --- Building blocks ---
+
+  const paragraph = (value: string, style: TextStyle, x: number, width: number, align: TextAlign = 'left'): Block[] => {
+    const block = text.layout(value, style, width, align);
+    return block.lines.map((line, i) => ({ height: line.height, draw: (page, top) => text.drawLine(page, block, i, x, top) }));
+  };
+
+  const spacer = (height: number): Block => ({ height, draw: () => {} });
+
+  const rule = (x: number, width: number, thickness: number, space = 3): Block => ({
+    height: thickness + 2 * space,
+    draw: (page, top) => page.fillRect(x, page.height - top - space - thickness, width, thickness),
+  });
+
+  // Draws `labels` alongside the first block, e.g. a question number or marks
+  const withLabel = (blocks: Block[], label: (page: PdfPage, top: number) => void): Block[] => {
+    if (blocks.length === 0) return [{ height: BODY.size * 1.3, draw: label }];
+    const [first, ...rest] = blocks;
+    return [{ height: first.height, draw: (page, top) => { first.draw(page, top); label(page, top); } }, ...rest];
+  };
+
+  const label = (value: string, style: TextStyle, x: number, width: number, align: TextAlign = 'left') => {
+    const block = text.layout(value, style, width, align);
+    return (page: PdfPage, top: number) => text.draw(page, block, x, top);
+  };
+
+  const imageBlocks = (url: string | undefined, widthPercent: number | undefined, x: number, width: number): Block[] => {
+    if (!url) return [];
+    const image = images.get(url);
+    if (!image) return paragraph(hindi ? '[चित्र उपलब्ध नहीं]' : '[Image not available]', { size: 9, italic: true }, x, width, 'center');
+    let w = width * Math.min(100, Math.max(10, widthPercent || 50)) / 100;
+    let h = w * image.height / image.width;
+    if (h > MAX_IMAGE_HEIGHT) { w *= MAX_IMAGE_HEIGHT / h; h = MAX_IMAGE_HEIGHT; }
+    return [{ height: h + 8, draw: (page, top) => page.drawImage(image, x + (width - w) / 2, page.height - top - 4 - h, w, h) }];
+  };
+
+  // Options in 4, 2 or 1 columns, whichever fits the longest option
+  const optionBlocks = (opts: string[], x: number, width: number, singleColumn = false): Block[] => {
+    const labelWidth = text.measure('(d) ', BOLD) + 2;
+    const cleaned = opts.map(cleanOptionText);
+    const natural = Math.max(...cleaned.map(o => text.layout(o, BODY, 10000).width)) + labelWidth;
+    const fits = (cols: number) => natural <= (width - 8 - (cols - 1) * GUTTER) / cols;
+    const cols = singleColumn ? 1 : fits(4) ? 4 : fits(2) ? 2 : 1;
+    const cellWidth = (width - 8 - (cols - 1) * GUTTER) / cols;
+    const blocks: Block[] = [];
+    for (let r = 0; r < cleaned.length; r += cols) {
+      const cells = cleaned.slice(r, r + cols).map((opt, c) => ({
+        x: x + 8 + c * (cellWidth + GUTTER),
+        label: `(${String.fromCharCode(97 + r + c)})`,
+        block: text.layout(opt, BODY, cellWidth - labelWidth),
+      }));
+      blocks.push({
+        height: Math.max(...cells.map(c => c.block.height)) + 2,
+        draw: (page, top) => cells.forEach(c => {
+          text.draw(page, text.layout(c.label, BOLD, labelWidth), c.x, top + 1);
+          text.draw(page, c.block, c.x + labelWidth, top + 1);
+        }),
+      });
+    }
+    return blocks;
+  };
+
+  const matchBlocks = (pairs: { left: string; right: string }[], x: number, width: number): Block[] => {
+    const colWidth = (width - 8 - GUTTER) / 2;
+    const labelWidth = text.measure('M. ', BOLD);
+    const colX = [x + 8, x + 8 + colWidth + GUTTER];
+    const header: Block = {
+      height: BODY.size * 1.3 + 3,
+      draw: (page, top) => {
+        text.draw(page, text.layout('Column A', BOLD, colWidth), colX[0], top);
+        text.draw(page, text.layout('Column B', BOLD, colWidth), colX[1], top);
+        page.fillRect(colX[0], page.height - top - BODY.size * 1.3 - 1.5, width - 8, 1);
+      },
+    };
+    const rows = pairs.map((pair, idx): Block => {
+      const leftBlock = text.layout(cleanOptionText(pair.left), BODY, colWidth - labelWidth);
+      const rightBlock = text.layout(cleanOptionText(pair.right), BODY, colWidth - labelWidth);
+      return {
+        height: Math.max(leftBlock.height, rightBlock.height) + 3,
+        draw: (page, top) => {
+          text.draw(page, text.layout(`${String.fromCharCode(65 + idx)}.`, BOLD, labelWidth), colX[0], top + 1.5);
+          text.draw(page, leftBlock, colX[0] + labelWidth, top + 1.5);
+          text.draw(page, text.layout(`${idx + 1}.`, BOLD, labelWidth), colX[1], top + 1.5);
+          text.draw(page, rightBlock, colX[1] + labelWidth, top + 1.5);
+        },
+      };
+    });
+    return [...paragraph('Match the Following:', BOLD, x + 8, width - 8), header, ...rows];
+  };
+
+  // Bordered table; the first row is the header
+  const tableBlocks = (rows: { cells: string[] }[], x: number, width: number): Block[] => {
+    const filled = rows.filter(row => row.cells.some(c => c.trim()));
+    const cols = Math.max(1, ...filled.map(r => r.cells.length));
+    const colWidth = width / cols;
+    const pad = 3;
+    return filled.map((row, rIdx): Block => {
+      const cells = row.cells.map(cell => text.layout(cell.trim(), { size: 10, bold: rIdx === 0 }, colWidth - 2 * pad));
+      const height = Math.max(10 * 1.3, ...cells.map(c => c.height)) + 2 * pad;
+      return {
+        height,
+        draw: (page, top) => {
+          for (let c = 0; c < cols; c++) {
+            page.strokeRect(x + c * colWidth, page.height - top - height, colWidth, height, 0.5);
+            if (cells[c]) text.draw(page, cells[c], x + c * colWidth + pad, top + pad);
+          }
+        },
+      };
+    });
+  };
+
+  // Border drawn piecewise so a long passage can still break across pages
+  const boxed = (inner: (x: number, width: number) => Block[], x: number, width: number): Block[] => {
+    const pad = 5;
+    const line = 0.6;
+    const sides = (page: PdfPage, top: number, height: number) => {
+      page.fillRect(x, page.height - top - height, line, height);
+      page.fillRect(x + width - line, page.height - top - height, line, height);
+    };
+    const blocks = inner(x + pad, width - 2 * pad).map((b): Block => ({
+      height: b.height,
+      draw: (page, top) => { b.draw(page, top); sides(page, top, b.height); },
+    }));
+    return [
+      { height: pad, draw: (page, top) => { page.fillRect(x, page.height - top - line, width, line); sides(page, top, pad); } },
+      ...blocks,
+      { height: pad + 3, draw: (page, top) => { sides(page, top, pad); page.fillRect(x, page.height - top - pad, width, line); } },
+    ];
+  };
+
+  const passageBlocks = (passage: QuestionPassage, x: number, width: number): Block[] =>
+    boxed((ix, iw) => [
+      ...paragraph(passage.text, BODY, ix, iw, 'justify'),
+      ...(passage.table && passage.table.length > 0 ? [spacer(4), ...tableBlocks(passage.table, ix, iw)] : []),
+      ...imageBlocks(passage.imageUrl, passage.imageWidth, ix, iw),
+    ], x, width);
+
+  // Text, options, match table and image of a question or of its OR alternative
+  const bodyBlocks = (q: Question | QuestionAlternative, type: QuestionType, x: number, width: number): Block[] => [
+    ...paragraph(q.text, BODY, x, width, 'justify'),
+    ...(q.options && q.options.length > 0 ? optionBlocks(q.options, x, width, type === QuestionType.ASSERTION_REASON) : []),
+    ...(type === QuestionType.MATCH && q.matchPairs ? matchBlocks(q.matchPairs, x, width) : []),
+    ...imageBlocks(q.imageUrl, q.imageWidth, x, width),
+  ];
+
+  const partBlocks = (part: QuestionPart, idx: number, x: number, width: number): Block[] => {
+    const labelWidth = text.measure('(m) ', BOLD) + 2;
+    const marksWidth = 24;
+    const bodyX = x + 8 + labelWidth;
+    const bodyWidth = width - 8 - labelWidth - marksWidth;
+    const blocks = [
+      ...paragraph(part.text, BODY, bodyX, bodyWidth, 'justify'),
+      ...(part.options && part.options.length > 0 ? optionBlocks(part.options, bodyX, bodyWidth) : []),
+      ...imageBlocks(part.imageUrl, part.imageWidth, bodyX, bodyWidth),
+    ];
+    const partLabelDraw = label(partLabel(idx, hindi), BOLD, x + 8, labelWidth);
+    const marksDraw = label(`[${part.marks}]`, { size: 10 }, x + width - marksWidth, marksWidth, 'right');
+    return [spacer(2), ...withLabel(blocks, (page, top) => { partLabelDraw(page, top); marksDraw(page, top); })];
+  };
+
+  const orBlock = (x: number, width: number) => paragraph(hindi ? 'अथवा' : 'OR', BOLD, x, width, 'center');
+
+  const questionNumber = (q: Question, n: number) => q.customNumber || (hindi ? `प्र. ${n}` : `${n}.`);
+
+  const numberWidth = text.measure(hindi ? 'प्र. 00 ' : '00. ', BOLD) + 4;
+  const marksWidth = 30;
+  const bodyX = MARGIN + numberWidth;
+  const bodyWidth = contentWidth - numberWidth - marksWidth - 4;
+
+  const questionGroup = (q: Question, n: number): Group => {
+    const blocks = [
+      ...bodyBlocks(q, q.type, bodyX, bodyWidth),
+      ...(q.passage ? [spacer(2), ...passageBlocks(q.passage, bodyX, bodyWidth)] : []),
+      ...(q.parts || []).flatMap((part, idx) => partBlocks(part, idx, bodyX, bodyWidth)),
+      ...(q.alternative ? [...orBlock(bodyX, bodyWidth), ...bodyBlocks(q.alternative, q.type, bodyX, bodyWidth)] : []),
+    ];
+    const numberDraw = label(questionNumber(q, n), BOLD, MARGIN, numberWidth);
+    const marksDraw = label(`[${questionMarks(q)}]`, SMALL_BOLD, A4_WIDTH - MARGIN - marksWidth, marksWidth, 'right');
+    return { blocks: [...withLabel(blocks, (page, top) => { numberDraw(page, top); marksDraw(page, top); }), spacer(5)], keepTogether: true };
+  };
+
+  const keyGroup = (q: Question, n: number): Group => {
+    const notAvailable = hindi ? 'उत्तर उपलब्ध नहीं' : 'Answer not available';
+    const blocks: Block[] = [];
+    if (q.answer || !q.parts?.length) blocks.push(...paragraph(q.answer || notAvailable, BODY, bodyX, bodyWidth));
+    (q.parts || []).forEach((part, idx) => {
+      blocks.push(...partBlocks({ ...part, text: part.answer || notAvailable, options: undefined, imageUrl: undefined }, idx, bodyX, bodyWidth));
+    });
+    if (q.alternative) {
+      const orLabel = `${hindi ? 'अथवा' : 'OR'}:`;
+      const orWidth = text.measure(orLabel + ' ', BOLD);
+      const orDraw = label(orLabel, BOLD, bodyX, orWidth);
+      blocks.push(spacer(2), ...withLabel(paragraph(q.alternative.answer || notAvailable, BODY, bodyX + orWidth, bodyWidth - orWidth), orDraw));
+    }
+    const numberDraw = label(questionNumber(q, n), BOLD, MARGIN, numberWidth);
+    const marksDraw = label(`[${questionMarks(q)}]`, { size: 9, bold: true }, A4_WIDTH - MARGIN - marksWidth, marksWidth, 'right');
+    return { blocks: [...withLabel(blocks, (page, top) => { numberDraw(page, top); marksDraw(page, top); }), spacer(6)], keepTogether: true };
+  };
+
+  // --- Headers ---
+
+  const totalMarks = Number(content.sections.reduce((sum, s) => sum + sectionMarks(s.questions), 0).toFixed(2));
+  const setLabel = options.setLabel || '';
+
+  const paperHeader = (): Block[] => {
+    const upper = (value: string) => value.toUpperCase();
+    const third = contentWidth / 4;
+    const infoRow: Block[] = (() => {
+      const leftDraw = text.layout(upper(`${hindi ? 'समय' : 'TIME'}: ${content.duration}`), SMALL_BOLD, third);
+      const middle = text.layout(upper(`${hindi ? 'कक्षा' : 'CLASS'}: ${content.classNum}      ${hindi ? 'सत्र' : 'SESSION'}: ${content.session || ''}`), SMALL_BOLD, third * 2, 'center');
+      const rightDraw = text.layout(upper(`${hindi ? 'पूर्णांक' : 'MAX. MARKS'}: ${totalMarks}`), SMALL_BOLD, third, 'right');
+      return [{
+        height: Math.max(leftDraw.height, middle.height, rightDraw.height),
+        draw: (page: PdfPage, top: number) => {
+          text.draw(page, leftDraw, MARGIN, top);
+          text.draw(page, middle, MARGIN + third, top);
+          text.draw(page, rightDraw, MARGIN + third * 3, top);
+        },
+      }];
+    })();
+    const setBlocks: Block[] = setLabel ? (() => {
+      const block = text.layout(upper(setLabel), BOLD, contentWidth);
+      const w = block.width + 16;
+      return [{
+        height: block.height + 8,
+        draw: (page: PdfPage, top: number) => {
+          const x = MARGIN + (contentWidth - w) / 2;
+          page.strokeRect(x, page.height - top - block.height - 4, w, block.height + 2, 1.5);
+          text.draw(page, block, x + 8, top + 1);
+        },
+      }];
+    })() : [];
+    return [
+      ...paragraph(upper(content.schoolName || (hindi ? 'विद्यालय का नाम' : 'SCHOOL NAME')), { size: 16, bold: true }, MARGIN, contentWidth, 'center'),
+      ...paragraph(upper(content.title || (hindi ? 'परीक्षा' : 'EXAMINATION')), { size: 13, bold: true }, MARGIN, contentWidth, 'center'),
+      ...setBlocks,
+      rule(MARGIN, contentWidth, 1.5, 2),
+      ...paragraph(upper(`${hindi ? 'विषय' : 'SUBJECT'}: ${hindi ? 'हिंदी' : content.subject}`), BOLD, MARGIN, contentWidth, 'center'),
+      ...infoRow,
+      rule(MARGIN, contentWidth, 1.5, 2),
+      spacer(4),
+    ];
+  };
+
+  const instructionsBlocks = (): Block[] => {
+    if (!content.generalInstructions || !content.generalInstructions.trim()) return [];
+    const heading = `${hindi ? 'सामान्य निर्देश' : 'GENERAL INSTRUCTIONS'}:`;
+    const headingWidth = text.measure(heading, SMALL_BOLD);
+    const headingBlocks = paragraph(heading, SMALL_BOLD, MARGIN, contentWidth);
+    return [
+      ...withLabel(headingBlocks, (page, top) => page.fillRect(MARGIN, page.height - top - headingBlocks[0].height + 1, headingWidth, 0.6)),
+      ...paragraph(content.generalInstructions.trim(), { size: 10 }, MARGIN, contentWidth),
+      spacer(6),
+    ];
+  };
+
+  const keyHeader = (): Block[] => {
+    const heading = hindi ? 'उत्तर कुंजी' : 'ANSWER KEY';
+    const headingStyle: TextStyle = { size: 16, bold: true };
+    const headingWidth = text.measure(heading, headingStyle);
+    const headingBlocks = paragraph(heading, headingStyle, MARGIN, contentWidth, 'center');
+    const info = [
+      `${hindi ? 'कक्षा' : 'CLASS'}: ${content.classNum}`,
+      `${hindi ? 'विषय' : 'SUBJECT'}: ${content.subject}`,
+      content.title,
+      setLabel,
+    ].filter(Boolean).join(' | ');
+    return [
+      ...withLabel(headingBlocks, (page, top) => page.fillRect(MARGIN + (contentWidth - headingWidth) / 2, page.height - top - headingBlocks[0].height + 2, headingWidth, 1)),
+      ...paragraph(content.schoolName, { size: 13, bold: true }, MARGIN, contentWidth, 'center'),
+      ...paragraph(info, SMALL_BOLD, MARGIN, contentWidth, 'center'),
+      spacer(12),
+    ];
+  };
+
+  // --- Assembly and pagination ---
+
+  const groups: Group[] = [];
+  let heading: Block[] = [];
+  if (options.kind === 'paper') groups.push({ blocks: [...paperHeader(), ...instructionsBlocks()], keepTogether: false });
+  else groups.push({ blocks: keyHeader(), keepTogether: true });
+
+  let questionNo = 0;
+  content.sections.forEach(section => {
+    if (section.title && section.title.trim()) {
+      heading = options.kind === 'paper'
+        ? [...paragraph(section.title.toUpperCase(), { size: 12, bold: true }, MARGIN, contentWidth, 'center'), rule(MARGIN, contentWidth, 0.5, 2), spacer(4)]
+        : [...paragraph(section.title.toUpperCase(), SMALL_BOLD, MARGIN, contentWidth), spacer(3)];
+    }
+    section.questions.forEach(q => {
+      const group = options.kind === 'paper' ? questionGroup(q, ++questionNo) : keyGroup(q, ++questionNo);
+      // A section title stays with its first question
+      groups.push({ ...group, blocks: [...heading, ...group.blocks] });
+      heading = [];
+    });
+    if (heading.length) groups.push({ blocks: heading, keepTogether: true });
+    heading = [];
+  });
+
+  const pages: PdfPage[] = [];
+  let page = writer.addPage();
+  pages.push(page);
+  let cursor = MARGIN;
+  const bottom = MARGIN + contentHeight;
+  const newPage = () => {
+    page = writer.addPage();
+    pages.push(page);
+    cursor = MARGIN;
+  };
+
+  groups.forEach(group => {
+    const height = group.blocks.reduce((sum, b) => sum + b.height, 0);
+    if (group.keepTogether && cursor + height > bottom && height <= contentHeight && cursor > MARGIN) newPage();
+    group.blocks.forEach(block => {
+      if (cursor + block.height > bottom && cursor > MARGIN) newPage();
+      block.draw(page, cursor);
+      cursor += block.height;
+    });
+  });
+
+  pages.forEach((p, i) => {
+    const footerTop = A4_HEIGHT - MARGIN - FOOTER + 8;
+    const pageLabel = hindi ? `पृष्ठ ${i + 1} / ${pages.length}` : `Page ${i + 1} of ${pages.length}`;
+    text.draw(p, text.layout(pageLabel, { size: 9 }, contentWidth, 'center'), MARGIN, footerTop);
+    if (options.kind === 'paper' && i < pages.length - 1) {
+      text.draw(p, text.layout('P.T.O.', { size: 9, bold: true }, contentWidth, 'right'), MARGIN, footerTop);
+    }
+  });
+
+  return writer.save({ title: content.title, author: content.schoolName });
+};
@@ -0,0 +1,107 @@
+
+import { Question, QuestionType, Section } from "../types";
+
+export const SET_LABELS = ['A', 'B', 'C', 'D'];
+
+// Seeded PRNG (mulberry32) so a set always comes out the same for the same paper
+const seededRandom = (seed: string) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Returns the new order as a list of original indexes
+const shuffledOrder = (length: number, random: () => number): number[] => {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Options like "All of the above" or "Both (a) and (b)" depend on their position
+const POSITIONAL_OPTION = /all of the above|none of the above|both|neither|\([a-d]\)\s*and\s*\([a-d]\)/i;
+
+// Lead-ins like "Ans:", "Answer -" or "Correct answer is" before the option itself
+const ANSWER_LEAD = String.raw`(?:(?:correct\s+)?(?:answer|ans)\b\s*(?:is\b)?\s*[:.\-\u2013]?\s*)?`;
+const LEADING_LETTER = new RegExp(String.raw`^(\s*${ANSWER_LEAD}(?:option\s*)?\(?)([a-h])(?=\s*[).:\-\u2013]|\s*$)`, 'i');
+const BRACKETED_LETTER = /\(([a-h])\)/gi;
+const LEADING_ANSWER_LEAD = new RegExp(String.raw`^\s*${ANSWER_LEAD}`, 'i');
+
+const normalizeAnswer = (text: string) =>
+  text.replace(LEADING_ANSWER_LEAD, '').toLowerCase().replace(/\s+/g, ' ').replace(/[.\s]+$/, '').trim();
+
+// New letter for an option after reordering, in the original case; undefined for letters past the last option
+const moveLetter = (letter: string, order: number[]): string | undefined => {
+  const newIdx = order.indexOf(letter.toLowerCase().charCodeAt(0) - 97);
+  if (newIdx < 0) return undefined;
+  const newLetter = String.fromCharCode(97 + newIdx);
+  return letter === letter.toUpperCase() ? newLetter.toUpperCase() : newLetter;
+};
+
+// Rewrites the option letters in an MCQ answer after reordering: a leading letter ("(b) ...", "B.", "Option c",
+// "Ans: (b)", "Answer - b") and any bracketed ones ("Both (a) and (c)"). An answer that is just an option's text
+// is kept as is. Returns undefined when the answer cannot be tied to the options, so the caller leaves them in place.
+export const remapAnswer = (answer: string, options: string[], order: number[]): string | undefined => {
+  const text = normalizeAnswer(answer);
+  if (options.some(option => normalizeAnswer(option) === text)) return answer;
+
+  const leading = answer.match(LEADING_LETTER);
+  const head = leading ? moveLetter(leading[2], order) : '';
+  if (head === undefined) return undefined;
+  const rest = answer.slice(leading ? leading[0].length : 0);
+  const bracketed = Array.from(rest.matchAll(BRACKETED_LETTER), match => moveLetter(match[1], order));
+  if ((!leading && bracketed.length === 0) || bracketed.some(letter => letter === undefined)) return undefined;
+
+  let next = 0;
+  return (leading ? leading[1] + head : '') + rest.replace(BRACKETED_LETTER, () => `(${bracketed[next++]})`);
+};
+
+const shuffleOptions = <T extends { options?: string[]; answer?: string }>(item: T, random: () => number): T => {
+  if (!item.options || item.options.length < 2 || item.options.some(o => POSITIONAL_OPTION.test(o))) return item;
+  const order = shuffledOrder(item.options.length, random);
+  const shuffled = { ...item, options: order.map(i => item.options![i]) };
+  if (item.answer) {
+    const answer = remapAnswer(item.answer, item.options, order);
+    if (answer === undefined) return item;
+    shuffled.answer = answer;
+  }
+  return shuffled;
+};
+
+const shuffleQuestion = (q: Question, random: () => number): Question => {
+  // Custom numbers follow the original order, so shuffled sets fall back to automatic numbering
+  const { customNumber, ...rest } = q;
+  let next: Question = rest;
+  if (q.type === QuestionType.MCQ) {
+    next = shuffleOptions(next, random);
+    if (next.alternative) next = { ...next, alternative: shuffleOptions(next.alternative, random) };
+  }
+  if (next.parts) {
+    // Parts keep their order (later parts often build on earlier ones); only MCQ options move
+    next = { ...next, parts: next.parts.map(p => p.type === QuestionType.MCQ ? shuffleOptions(p, random) : p) };
+  }
+  return next;
+};
+
+// Set A (index 0) is the paper as stored. Other sets shuffle questions within each section and MCQ options,
+// with answers remapped so the set's own answer key stays correct (options whose answer cannot be remapped stay put).
+export const buildPaperSet = (paperId: string, sections: Section[], setIndex: number): Section[] => {
+  if (setIndex === 0) return sections;
+  const random = seededRandom(`${paperId}:${SET_LABELS[setIndex] || setIndex}`);
+  return sections.map(section => {
+    const order = shuffledOrder(section.questions.length, random);
+    return { ...section, questions: order.map(i => shuffleQuestion(section.questions[i], random)) };
+  });
+};
@@ -0,0 +1,284 @@
+
+import { FontFile } from "./fontFile";
+import { layoutMath, MathBox } from "./mathLayout";
+import { PdfFont, PdfPage, PdfWriter } from "./pdfWriter";
+import { shapeText, ShapedGlyph } from "./textShaper";
+
+// Rich text for the PDF renderer: picks a font per character (Latin, Devanagari, math symbols), shapes it,
+// lays out $...$ math, wraps paragraphs and draws the result. Positions are top-down from the page top,
+// like the print layout; conversion to PDF coordinates happens when drawing.
+
+export interface PdfFontSet {
+  regular: FontFile;
+  bold?: FontFile;
+  italic?: FontFile;
+  devanagari?: FontFile;
+  math?: FontFile;
+}
+
+export interface TextStyle {
+  size: number;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+interface FontChoice {
+  file: FontFile;
+  fakeBold: boolean;
+  skew: number;
+}
+
+interface GlyphRun {
+  choice: FontChoice;
+  glyphs: ShapedGlyph[];
+  size: number;
+  width: number;
+}
+
+type Piece =
+  | { kind: 'text'; runs: GlyphRun[]; width: number }
+  | { kind: 'math'; box: MathBox; bold: boolean };
+
+// A word, or a formula with the punctuation stuck to it: the unit of line breaking
+interface Chunk {
+  pieces: Piece[];
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+interface Line {
+  chunks: { chunk: Chunk; x: number }[];
+  width: number;
+  ascent: number;
+  descent: number;
+  height: number;
+}
+
+export interface TextBlock {
+  lines: Line[];
+  width: number; // Widest line
+  height: number;
+}
+
+export interface TextEngine {
+  measure: (text: string, style: TextStyle) => number;
+  layout: (text: string, style: TextStyle, maxWidth: number, align?: TextAlign) => TextBlock;
+  draw: (page: PdfPage, block: TextBlock, x: number, top: number) => void;
+  drawLine: (page: PdfPage, block: TextBlock, lineIndex: number, x: number, top: number) => void;
+}
+
+const ITALIC_SKEW = 0.2;
+const LINE_HEIGHT = 1.3;
+const ASCENT = 0.8;
+const DESCENT = 0.25;
+
+const isDevanagari = (cp: number) => cp >= 0x900 && cp <= 0x97f;
+const isJoiner = (cp: number) => cp === 0x200c || cp === 0x200d;
+
+export const createTextEngine = (writer: PdfWriter, fonts: PdfFontSet): TextEngine => {
+  const pdfFonts = new Map<FontFile, PdfFont>();
+  const pdfFont = (file: FontFile) => {
+    if (!pdfFonts.has(file)) pdfFonts.set(file, writer.addFont(file));
+    return pdfFonts.get(file)!;
+  };
+
+  const styled = (file: FontFile | undefined, bold: boolean, italic: boolean, hasBold: boolean, hasItalic: boolean): FontChoice | null =>
+    file ? { file, fakeBold: bold && !hasBold, skew: italic && !hasItalic ? ITALIC_SKEW : 0 } : null;
+
+  // Font fallback per character: the styled Latin face, then Devanagari, then the math font
+  const pickFont = (cp: number, bold: boolean, italic: boolean, preferMath: boolean): FontChoice => {
+    const latin = bold && fonts.bold ? styled(fonts.bold, bold, italic, true, false)!
+      : italic && fonts.italic ? styled(fonts.italic, bold, italic, false, true)!
+      : styled(fonts.regular, bold, italic, false, false)!;
+    const devanagari = styled(fonts.devanagari, bold, italic, false, false);
+    const math = styled(fonts.math, bold, italic, false, false);
+    if (isDevanagari(cp) && devanagari) return devanagari;
+    const order = (preferMath && cp > 0x7f ? [math, latin, devanagari] : [latin, devanagari, math]).filter((c): c is FontChoice => !!c);
+    return order.find(c => c.file.glyphId(cp) !== 0) || latin;
+  };
+
+  const shapeCache = new Map<string, GlyphRun[]>();
+  const shapeRuns = (text: string, size: number, bold: boolean, italic: boolean, preferMath = false): GlyphRun[] => {
+    const key = `${size}|${bold ? 1 : 0}${italic ? 1 : 0}${preferMath ? 1 : 0}|${text}`;
+    const cached = shapeCache.get(key);
+    if (cached) return cached;
+
+    const runs: GlyphRun[] = [];
+    let current: { choice: FontChoice; text: string } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const glyphs = shapeText(current.choice.file, current.text);
+      const width = glyphs.reduce((sum, g) => sum + g.advance, 0) * size / current.choice.file.unitsPerEm;
+      runs.push({ choice: current.choice, glyphs, size, width });
+    };
+    for (const ch of text) {
+      const cp = ch.codePointAt(0)!;
+      // Joiners and spaces stay with the run they sit in
+      const choice = current && (isJoiner(cp) || cp === 0x20) ? current.choice : pickFont(cp, bold, italic, preferMath);
+      if (current && current.choice.file === choice.file && current.choice.fakeBold === choice.fakeBold && current.choice.skew === choice.skew) {
+        current.text += ch;
+      } else {
+        flush();
+        current = { choice, text: ch };
+      }
+    }
+    flush();
+    shapeCache.set(key, runs);
+    return runs;
+  };
+
+  const textWidth = (text: string, size: number, bold: boolean, italic: boolean, preferMath = false) =>
+    shapeRuns(text, size, bold, italic, preferMath).reduce((sum, r) => sum + r.width, 0);
+
+  const measure = (text: string, style: TextStyle) => textWidth(text, style.size, !!style.bold, !!style.italic);
+
+  const mathBox = (latex: string, style: TextStyle): MathBox =>
+    layoutMath(latex, style.size, (text, size, italic, bold) => textWidth(text, size, bold || !!style.bold, italic, true));
+
+  const textPiece = (text: string, style: TextStyle): Piece => {
+    const runs = shapeRuns(text, style.size, !!style.bold, !!style.italic);
+    return { kind: 'text', runs, width: runs.reduce((sum, r) => sum + r.width, 0) };
+  };
+
+  const chunkOf = (pieces: Piece[], style: TextStyle): Chunk => ({
+    pieces,
+    width: pieces.reduce((sum, p) => sum + (p.kind === 'text' ? p.width : p.box.width), 0),
+    ascent: Math.max(ASCENT * style.size, ...pieces.map(p => p.kind === 'math' ? p.box.ascent : 0)),
+    descent: Math.max(DESCENT * style.size, ...pieces.map(p => p.kind === 'math' ? p.box.descent : 0)),
+  });
+
+  // Paragraphs split on newlines; each becomes a list of chunks separated by spaces
+  const paragraphs = (text: string, style: TextStyle): Chunk[][] => text.split('\n').map(paragraph => {
+    const chunks: Chunk[] = [];
+    let pieces: Piece[] = [];
+    const endChunk = () => {
+      if (pieces.length) chunks.push(chunkOf(pieces, style));
+      pieces = [];
+    };
+    paragraph.split(/(\$[^$]+\$)/g).forEach(segment => {
+      if (!segment) return;
+      if (segment.length > 2 && segment.startsWith('$') && segment.endsWith('$')) {
+        pieces.push({ kind: 'math', box: mathBox(segment.slice(1, -1), style), bold: !!style.bold });
+        return;
+      }
+      segment.split(/(\s+)/).forEach(word => {
+        if (!word) return;
+        if (/^\s+$/.test(word)) endChunk();
+        else pieces.push(textPiece(word, style));
+      });
+    });
+    endChunk();
+    return chunks;
+  });
+
+  // A word wider than the line is broken between characters
+  const splitChunk = (chunk: Chunk, maxWidth: number, style: TextStyle): Chunk[] => {
+    if (chunk.width <= maxWidth || chunk.pieces.some(p => p.kind === 'math')) return [chunk];
+    const text = chunk.pieces.map(p => p.kind === 'text' ? p.runs.flatMap(r => r.glyphs.map(g => g.text)).join('') : '').join('');
+    const out: Chunk[] = [];
+    let current = '';
+    for (const ch of text) {
+      if (current && textWidth(current + ch, style.size, !!style.bold, !!style.italic) > maxWidth) {
+        out.push(chunkOf([textPiece(current, style)], style));
+        current = '';
+      }
+      current += ch;
+    }
+    if (current) out.push(chunkOf([textPiece(current, style)], style));
+    return out;
+  };
+
+  const layout = (text: string, style: TextStyle, maxWidth: number, align: TextAlign = 'left'): TextBlock => {
+    const space = measure(' ', style);
+    const lines: Line[] = [];
+    const finishLine = (chunks: Chunk[], last: boolean) => {
+      const natural = chunks.reduce((sum, c) => sum + c.width, 0) + space * Math.max(0, chunks.length - 1);
+      const gap = align === 'justify' && !last && chunks.length > 1 ? space + (maxWidth - natural) / (chunks.length - 1) : space;
+      const width = align === 'justify' && !last && chunks.length > 1 ? maxWidth : natural;
+      const offset = align === 'center' ? (maxWidth - width) / 2 : align === 'right' ? maxWidth - width : 0;
+      let x = offset;
+      const placed = chunks.map(chunk => {
+        const at = x;
+        x += chunk.width + gap;
+        return { chunk, x: at };
+      });
+      const ascent = Math.max(ASCENT * style.size, ...chunks.map(c => c.ascent));
+      const descent = Math.max(DESCENT * style.size, ...chunks.map(c => c.descent));
+      const leading = Math.max(0, LINE_HEIGHT * style.size - ASCENT * style.size - DESCENT * style.size);
+      lines.push({ chunks: placed, width, ascent: ascent + leading / 2, descent: descent + leading / 2, height: ascent + descent + leading });
+    };
+
+    paragraphs(text, style).forEach(chunks => {
+      let line: Chunk[] = [];
+      let lineWidth = 0;
+      chunks.flatMap(c => splitChunk(c, maxWidth, style)).forEach(chunk => {
+        const added = line.length ? lineWidth + space + chunk.width : chunk.width;
+        if (line.length && added > maxWidth) {
+          finishLine(line, false);
+          line = [chunk];
+          lineWidth = chunk.width;
+        } else {
+          line.push(chunk);
+          lineWidth = added;
+        }
+      });
+      finishLine(line, true);
+    });
+
+    return {
+      lines,
+      width: Math.max(0, ...lines.map(l => l.width)),
+      height: lines.reduce((sum, l) => sum + l.height, 0),
+    };
+  };
+
+  const drawRuns = (page: PdfPage, runs: GlyphRun[], x: number, baseline: number) => {
+    let pen = x;
+    runs.forEach(run => {
+      page.drawGlyphs(pdfFont(run.choice.file), run.size, pen, baseline, run.glyphs, { fakeBold: run.choice.fakeBold, skew: run.choice.skew });
+      pen += run.width;
+    });
+  };
+
+  const drawMath = (page: PdfPage, box: MathBox, x: number, baseline: number, bold: boolean) => {
+    box.items.forEach(item => {
+      if (item.kind === 'text') {
+        drawRuns(page, shapeRuns(item.text, item.size, item.bold || bold, item.italic, true), x + item.x, baseline + item.y);
+      } else if (item.kind === 'rule') {
+        page.fillRect(x + item.x, baseline + item.y, item.width, item.height);
+      } else {
+        page.strokePath(item.points.map(([px, py]) => [x + px, baseline + py] as [number, number]), item.lineWidth);
+      }
+    });
+  };
+
+  const drawLine = (page: PdfPage, block: TextBlock, lineIndex: number, x: number, top: number) => {
+    const line = block.lines[lineIndex];
+    const baseline = page.height - top - line.ascent;
+    line.chunks.forEach(({ chunk, x: cx }) => {
+      let pen = x + cx;
+      chunk.pieces.forEach(piece => {
+        if (piece.kind === 'text') {
+          drawRuns(page, piece.runs, pen, baseline);
+          pen += piece.width;
+        } else {
+          drawMath(page, piece.box, pen, baseline, piece.bold);
+          pen += piece.box.width;
+        }
+      });
+    });
+  };
+
+  const draw = (page: PdfPage, block: TextBlock, x: number, top: number) => {
+    let y = top;
+    block.lines.forEach((line, i) => {
+      drawLine(page, block, i, x, y);
+      y += line.height;
+    });
+  };
+
+  return { measure, layout, draw, drawLine };
+};
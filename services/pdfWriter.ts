@@ -0,0 +1,360 @@
+
+import { FontFile } from "./fontFile";
+import { ShapedGlyph } from "./textShaper";
+import { deflate, inflate } from "./zip";
+
+// Low-level PDF 1.7 writer: pages of vector drawing operations, embedded (subset) TrueType fonts with
+// ToUnicode maps so text stays selectable, and JPEG/PNG images. Coordinates are PDF points with the
+// origin at the bottom-left of the page. No DOM access, so it runs in Node as well as the browser.
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export interface PdfFont {
+  key: string;
+  file: FontFile;
+}
+
+export interface PdfImage {
+  key: string;
+  width: number; // Pixels
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  // fakeBold strokes the outlines; skew slants them (for fonts without a bold or italic face)
+  drawGlyphs: (font: PdfFont, size: number, x: number, y: number, glyphs: ShapedGlyph[], options?: { fakeBold?: boolean; skew?: number }) => void;
+  fillRect: (x: number, y: number, width: number, height: number) => void;
+  strokeRect: (x: number, y: number, width: number, height: number, lineWidth: number) => void;
+  strokePath: (points: [number, number][], lineWidth: number) => void;
+  drawImage: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+}
+
+export interface PdfWriter {
+  addFont: (file: FontFile) => PdfFont;
+  addImage: (bytes: Uint8Array) => Promise<PdfImage>;
+  addPage: (width?: number, height?: number) => PdfPage;
+  save: (info?: { title?: string; author?: string }) => Promise<Uint8Array>;
+}
+
+interface FontEntry {
+  font: PdfFont;
+  used: Map<number, { advance: number; text: string }>;
+}
+
+interface ImageEntry {
+  image: PdfImage;
+  dict: string;
+  data: Uint8Array;
+  compressed: boolean; // Data is already encoded (JPEG, or PNG passed through)
+  smask?: Uint8Array;
+}
+
+const num = (n: number) => {
+  const fixed = n.toFixed(3);
+  return fixed.includes('.') ? fixed.replace(/0+$/, '').replace(/\.$/, '') : fixed;
+};
+
+const hex4 = (n: number) => n.toString(16).padStart(4, '0');
+
+const utf16Hex = (text: string) => Array.from({ length: text.length }, (_, i) => hex4(text.charCodeAt(i))).join('');
+
+const textString = (text: string) => `<FEFF${utf16Hex(text)}>`;
+
+const latin1 = (text: string) => {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+};
+
+const concat = (chunks: Uint8Array[]) => {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => { out.set(c, offset); offset += c.length; });
+  return out;
+};
+
+// --- Images ---
+
+const readJpeg = (bytes: Uint8Array): Omit<ImageEntry, 'image'> & { width: number; height: number } => {
+  let p = 2;
+  while (p < bytes.length) {
+    if (bytes[p] !== 0xff) { p++; continue; }
+    const marker = bytes[p + 1];
+    const length = (bytes[p + 2] << 8) | bytes[p + 3];
+    // Start-of-frame markers carry the dimensions (C4, C8 and CC are other segments)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = (bytes[p + 5] << 8) | bytes[p + 6];
+      const width = (bytes[p + 7] << 8) | bytes[p + 8];
+      const components = bytes[p + 9];
+      const colorSpace = components === 1 ? '/DeviceGray' : components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      const decode = components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+      return { width, height, dict: `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`, data: bytes, compressed: true };
+    }
+    p += 2 + length;
+  }
+  throw new Error("Could not read the JPEG image.");
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+const unfilterPng = (data: Uint8Array, width: number, height: number, bpp: number): Uint8Array => {
+  const stride = width * bpp;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x];
+      const left = x >= bpp ? out[row + x - bpp] : 0;
+      const up = y > 0 ? out[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[row - stride + x - bpp] : 0;
+      const predictor = filter === 1 ? left : filter === 2 ? up : filter === 3 ? (left + up) >> 1 : filter === 4 ? paeth(left, up, upLeft) : 0;
+      out[row + x] = (raw + predictor) & 0xff;
+    }
+  }
+  return out;
+};
+
+const readPng = async (bytes: Uint8Array): Promise<Omit<ImageEntry, 'image'> & { width: number; height: number }> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0, height = 0, bitDepth = 8, colorType = 2, interlace = 0;
+  let palette: Uint8Array | undefined;
+  const idat: Uint8Array[] = [];
+  for (let p = 8; p < bytes.length;) {
+    const length = view.getUint32(p);
+    const type = String.fromCharCode(bytes[p + 4], bytes[p + 5], bytes[p + 6], bytes[p + 7]);
+    const chunk = bytes.subarray(p + 8, p + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(p + 8);
+      height = view.getUint32(p + 12);
+      bitDepth = bytes[p + 16];
+      colorType = bytes[p + 17];
+      interlace = bytes[p + 20];
+    } else if (type === 'PLTE') palette = chunk;
+    else if (type === 'IDAT') idat.push(chunk);
+    else if (type === 'IEND') break;
+    p += 12 + length;
+  }
+  if (interlace) throw new Error("Interlaced PNG images are not supported.");
+  const data = concat(idat);
+  const colors = colorType === 0 || colorType === 3 || colorType === 4 ? 1 : 3;
+
+  if (colorType === 0 || colorType === 2 || colorType === 3) {
+    // No alpha: the zlib data can go into the PDF as is, with PNG predictors
+    const colorSpace = colorType === 3 && palette
+      ? `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${Array.from(palette, b => b.toString(16).padStart(2, '0')).join('')}>]`
+      : colors === 1 ? '/DeviceGray' : '/DeviceRGB';
+    return {
+      width, height, data, compressed: true,
+      dict: `/ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+    };
+  }
+
+  if (bitDepth !== 8) throw new Error("16-bit PNG images with transparency are not supported.");
+  const bpp = colors + 1;
+  const pixels = unfilterPng(await inflate(data), width, height, bpp);
+  const color = new Uint8Array(width * height * colors);
+  const alpha = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < colors; c++) color[i * colors + c] = pixels[i * bpp + c];
+    alpha[i] = pixels[i * bpp + colors];
+  }
+  return {
+    width, height, data: color, compressed: false, smask: alpha,
+    dict: `/ColorSpace ${colors === 1 ? '/DeviceGray' : '/DeviceRGB'} /BitsPerComponent 8`,
+  };
+};
+
+// --- Fonts ---
+
+const toUnicodeCMap = (used: FontEntry['used']) => {
+  const entries = Array.from(used.entries()).filter(([, g]) => g.text).sort((a, b) => a[0] - b[0]);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.map(([gid, g]) => `<${hex4(gid)}> <${utf16Hex(g.text)}>`).join('\n')}\nendbfchar`);
+  }
+  return `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+${blocks.join('\n')}
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+};
+
+const subsetTag = (index: number) => {
+  let tag = '';
+  for (let i = 0, n = index; i < 6; i++, n = Math.floor(n / 26)) tag = String.fromCharCode(65 + (n % 26)) + tag;
+  return tag;
+};
+
+export const createPdfWriter = (): PdfWriter => {
+  const fonts: FontEntry[] = [];
+  const images: ImageEntry[] = [];
+  const pages: { width: number; height: number; ops: string[]; fonts: Set<string>; images: Set<string> }[] = [];
+
+  const addPage = (width = A4_WIDTH, height = A4_HEIGHT): PdfPage => {
+    const page = { width, height, ops: [] as string[], fonts: new Set<string>(), images: new Set<string>() };
+    pages.push(page);
+    return {
+      width,
+      height,
+      drawGlyphs: (font, size, x, y, glyphs, options = {}) => {
+        if (glyphs.length === 0) return;
+        const entry = fonts.find(f => f.font === font)!;
+        glyphs.forEach(g => { if (!entry.used.has(g.id)) entry.used.set(g.id, { advance: font.file.advance(g.id), text: g.text }); });
+        page.fonts.add(font.key);
+        const scale = size / font.file.unitsPerEm;
+        const skew = options.skew || 0;
+        // Glyphs the shaper moved (attached marks, kerning) are placed one by one; the rest are shown in runs
+        // that advance by the font's own widths
+        const runs: { glyphs: ShapedGlyph[]; dx: number; dy: number; open: boolean }[] = [];
+        let pen = 0;
+        glyphs.forEach(g => {
+          const moved = !!g.dx || !!g.dy || g.advance !== font.file.advance(g.id);
+          const last = runs[runs.length - 1];
+          if (!moved && last?.open) last.glyphs.push(g);
+          else runs.push({ glyphs: [g], dx: pen + (g.dx || 0), dy: g.dy || 0, open: !moved });
+          pen += g.advance;
+        });
+        const show = `/${font.key} ${num(size)} Tf ` + runs.map(run => {
+          // A vertical offset moves along the slant of a skewed (fake italic) glyph
+          const matrix = `1 0 ${num(skew)} 1 ${num(x + (run.dx + skew * run.dy) * scale)} ${num(y + run.dy * scale)} Tm`;
+          return `${matrix} <${run.glyphs.map(g => hex4(g.id)).join('')}> Tj`;
+        }).join(' ');
+        // The text render mode outlives ET, so fake bold is scoped to its own graphics state
+        page.ops.push(options.fakeBold ? `q BT 2 Tr ${num(size * 0.03)} w ${show} ET Q` : `BT ${show} ET`);
+      },
+      fillRect: (x, y, w, h) => page.ops.push(`${num(x)} ${num(y)} ${num(w)} ${num(h)} re f`),
+      strokeRect: (x, y, w, h, lineWidth) => page.ops.push(`${num(lineWidth)} w ${num(x)} ${num(y)} ${num(w)} ${num(h)} re S`),
+      strokePath: (points, lineWidth) => {
+        if (points.length < 2) return;
+        const path = points.map(([px, py], i) => `${num(px)} ${num(py)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+        page.ops.push(`${num(lineWidth)} w 1 J 1 j ${path} S 0 J 0 j`);
+      },
+      drawImage: (image, x, y, w, h) => {
+        page.images.add(image.key);
+        page.ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(y)} cm /${image.key} Do Q`);
+      },
+    };
+  };
+
+  const addFont = (file: FontFile): PdfFont => {
+    const existing = fonts.find(f => f.font.file === file);
+    if (existing) return existing.font;
+    const font = { key: `F${fonts.length + 1}`, file };
+    fonts.push({ font, used: new Map() });
+    return font;
+  };
+
+  const addImage = async (bytes: Uint8Array): Promise<PdfImage> => {
+    const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+    const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+    if (!isJpeg && !isPng) throw new Error("Only JPEG and PNG images can be embedded.");
+    const { width, height, ...rest } = isJpeg ? readJpeg(bytes) : await readPng(bytes);
+    const image = { key: `Im${images.length + 1}`, width, height };
+    images.push({ image, ...rest });
+    return image;
+  };
+
+  const save = async (info: { title?: string; author?: string } = {}): Promise<Uint8Array> => {
+    const objects: Uint8Array[] = [];
+    const alloc = () => { objects.push(new Uint8Array(0)); return objects.length; };
+    const set = (ref: number, body: string | Uint8Array) => {
+      objects[ref - 1] = typeof body === 'string' ? latin1(body) : body;
+    };
+    const stream = async (ref: number, dict: string, data: Uint8Array, encoded = false) => {
+      const body = encoded ? data : await deflate(data);
+      const filter = encoded ? '' : ' /Filter /FlateDecode';
+      set(ref, concat([latin1(`<< ${dict}${filter} /Length ${body.length} >>\nstream\n`), body, latin1('\nendstream')]));
+    };
+
+    const catalogRef = alloc();
+    const pagesRef = alloc();
+    const infoRef = alloc();
+
+    const fontRefs = new Map<string, number>();
+    for (let i = 0; i < fonts.length; i++) {
+      const { font, used } = fonts[i];
+      const file = font.file;
+      const scale = 1000 / file.unitsPerEm;
+      const baseName = `${subsetTag(i)}+${file.postscriptName}`;
+      const type0 = alloc(), cid = alloc(), descriptor = alloc(), fontFile = alloc(), toUnicode = alloc();
+      fontRefs.set(font.key, type0);
+
+      const gids = Array.from(used.keys()).sort((a, b) => a - b);
+      const widths = gids.map(gid => `${gid} [${Math.round(used.get(gid)!.advance * scale)}]`).join(' ');
+      set(type0, `<< /Type /Font /Subtype /Type0 /BaseFont /${baseName} /Encoding /Identity-H /DescendantFonts [${cid} 0 R] /ToUnicode ${toUnicode} 0 R >>`);
+      set(cid, `<< /Type /Font /Subtype /${file.cff ? 'CIDFontType0' : 'CIDFontType2'} /BaseFont /${baseName} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /DW 1000 /W [${widths}]${file.cff ? '' : ' /CIDToGIDMap /Identity'} >>`);
+      const bbox = file.bbox.map(v => Math.round(v * scale)).join(' ');
+      set(descriptor, `<< /Type /FontDescriptor /FontName /${baseName} /Flags 4 /FontBBox [${bbox}] /ItalicAngle ${num(file.italicAngle)} /Ascent ${Math.round(file.ascent * scale)} /Descent ${Math.round(file.descent * scale)} /CapHeight ${Math.round(file.capHeight * scale)} /StemV 80 /${file.cff ? 'FontFile3' : 'FontFile2'} ${fontFile} 0 R >>`);
+      const embedded = file.cff ? file.data : file.subset(gids);
+      await stream(fontFile, file.cff ? '/Subtype /OpenType' : `/Length1 ${embedded.length}`, embedded);
+      await stream(toUnicode, '', latin1(toUnicodeCMap(used)));
+    }
+
+    const imageRefs = new Map<string, number>();
+    for (const entry of images) {
+      const ref = alloc();
+      imageRefs.set(entry.image.key, ref);
+      let smask = '';
+      if (entry.smask) {
+        const maskRef = alloc();
+        await stream(maskRef, `/Type /XObject /Subtype /Image /Width ${entry.image.width} /Height ${entry.image.height} /ColorSpace /DeviceGray /BitsPerComponent 8`, entry.smask);
+        smask = ` /SMask ${maskRef} 0 R`;
+      }
+      await stream(ref, `/Type /XObject /Subtype /Image /Width ${entry.image.width} /Height ${entry.image.height} ${entry.dict}${smask}`, entry.data, entry.compressed);
+    }
+
+    const pageRefs: number[] = [];
+    for (const page of pages) {
+      const pageRef = alloc();
+      const contentRef = alloc();
+      pageRefs.push(pageRef);
+      const fontRes = Array.from(page.fonts).map(key => `/${key} ${fontRefs.get(key)} 0 R`).join(' ');
+      const imageRes = Array.from(page.images).map(key => `/${key} ${imageRefs.get(key)} 0 R`).join(' ');
+      set(pageRef, `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /Font << ${fontRes} >> /XObject << ${imageRes} >> >> /Contents ${contentRef} 0 R >>`);
+      await stream(contentRef, '', latin1(page.ops.join('\n')));
+    }
+
+    set(catalogRef, `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`);
+    set(pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(r => `${r} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`);
+    const infoEntries = [
+      info.title ? `/Title ${textString(info.title)}` : '',
+      info.author ? `/Author ${textString(info.author)}` : '',
+      `/Producer ${textString('RKS QP Maker')}`,
+    ].filter(Boolean).join(' ');
+    set(infoRef, `<< ${infoEntries} >>`);
+
+    const chunks: Uint8Array[] = [latin1('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(offset);
+      const chunk = concat([latin1(`${i + 1} 0 obj\n`), body, latin1('\nendobj\n')]);
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+    const xref = [`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`, ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`)].join('');
+    chunks.push(latin1(`${xref}trailer\n<< /Size ${objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>\nstartxref\n${offset}\n%%EOF\n`));
+    return concat(chunks);
+  };
+
+  return { addFont, addImage, addPage, save };
+};
@@ -0,0 +1,42 @@
+
+import { Question, Section } from "../types";
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+// A question with sub-parts is worth the sum of its parts
+export const questionMarks = (q: Question): number =>
+  q.parts && q.parts.length > 0 ? round2(q.parts.reduce((sum, p) => sum + (Number(p.marks) || 0), 0)) : q.marks;
+
+export const sectionMarks = (questions: Question[]): number =>
+  round2(questions.reduce((sum, q) => sum + questionMarks(q), 0));
+
+const HINDI_PART_LETTERS = ['क', 'ख', 'ग', 'घ', 'ङ', 'च', 'छ', 'ज'];
+
+// (a), (b), (c) ... or (क), (ख), (ग) ... for Hindi papers
+export const partLabel = (idx: number, hindi = false): string =>
+  `(${hindi && HINDI_PART_LETTERS[idx] ? HINDI_PART_LETTERS[idx] : String.fromCharCode(97 + idx)})`;
+
+// Strips the "(a)" / "A." prefix the model sometimes adds, since labels are printed separately
+export const cleanOptionText = (text: string): string => {
+  if (!text) return "";
+  return text.replace(/^(\([a-zA-Z0-9]+\)|[a-zA-Z0-9]+[.):]\s*)+/, '').trim();
+};
+
+// Options grid of the print view: 4 columns for short options, 2 for medium, else one per line
+export const optionColumns = (options?: string[]): 1 | 2 | 4 => {
+  if (!options || options.length === 0) return 1;
+  const maxLength = Math.max(...options.map(o => cleanOptionText(o).length));
+  const hasLatex = options.some(o => o.includes('$'));
+  if (maxLength < (hasLatex ? 45 : 25)) return 4;
+  if (maxLength < (hasLatex ? 80 : 45)) return 2;
+  return 1;
+};
+
+// Every image a paper prints, for exporters that embed them up front
+export const paperImageUrls = (sections: Section[]): string[] => {
+  const urls = new Set<string>();
+  sections.forEach(s => s.questions.forEach(q => {
+    [q.imageUrl, q.alternative?.imageUrl, q.passage?.imageUrl, ...(q.parts || []).map(p => p.imageUrl)].forEach(u => u && urls.add(u));
+  }));
+  return Array.from(urls);
+};
@@ -0,0 +1,80 @@
+
+import { getEnv } from "../firebaseConfig";
+import { sign, verifySignature, randomToken } from "./authCrypto";
+
+const DEVICE_SECRET_KEY = 'rks_session_secret';
+
+// Signs and verifies session tokens. The secret must never be stored where other clients can read it,
+// so deployments on a shared backend sign on a server.
+export interface SessionSigner {
+  name: string;
+  // password lets a server check the credentials itself before signing for the payload's user
+  sign: (payload: string, password: string) => Promise<string>;
+  verify: (payload: string, signature: string) => Promise<boolean>;
+}
+
+// POSTs to a signing service (e.g. a Cloud Function holding the secret):
+// /sign { payload, password } -> { signature } after checking the password of the payload's user,
+// /verify { payload, signature } -> { valid }
+export const createHttpSigner = (url: string): SessionSigner => {
+  const post = async (path: string, body: object) => {
+    const res = await fetch(`${url.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error(`Session service rejected the request (${res.status})`);
+    return res.json();
+  };
+  return {
+    name: 'http',
+    sign: async (payload, password) => (await post('/sign', { payload, password })).signature,
+    verify: async (payload, signature) => (await post('/verify', { payload, signature })).valid === true
+  };
+};
+
+let memorySecret: string | null = null;
+
+// Falls back to memory where localStorage is unavailable
+const deviceSecret = (): string => {
+  try {
+    let secret = localStorage.getItem(DEVICE_SECRET_KEY);
+    if (!secret) {
+      secret = randomToken(32);
+      localStorage.setItem(DEVICE_SECRET_KEY, secret);
+    }
+    return secret;
+  } catch (e) {
+    if (!memorySecret) memorySecret = randomToken(32);
+    return memorySecret;
+  }
+};
+
+// For the local backends: the secret stays in this browser, so a token is only valid on the device that issued it
+export const deviceSigner: SessionSigner = {
+  name: 'device',
+  sign: async (payload) => sign(payload, deviceSecret()),
+  verify: async (payload, signature) => verifySignature(payload, signature, deviceSecret())
+};
+
+const resolveSigner = (): SessionSigner => {
+  const url = getEnv("SESSION_API_URL");
+  if (url) return createHttpSigner(url);
+  const backend = getEnv("STORAGE_BACKEND").toLowerCase();
+  if (!backend || backend === 'firestore') {
+    console.warn("SESSION_API_URL is not set: sessions are signed on this device only. Deploy a signing service for production.");
+  }
+  return deviceSigner;
+};
+
+let activeSigner: SessionSigner | null = null;
+
+// Swap the signer at runtime (tests, offline demos)
+export const setSessionSigner = (signer: SessionSigner) => {
+  activeSigner = signer;
+};
+
+export const getSessionSigner = (): SessionSigner => {
+  if (!activeSigner) activeSigner = resolveSigner();
+  return activeSigner;
+};
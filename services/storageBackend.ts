@@ -0,0 +1,63 @@
+
+import { getEnv } from "../firebaseConfig";
+import { createFirestoreBackend } from "./firestoreBackend";
+import { createIndexedDbBackend, createMemoryBackend } from "./localBackend";
+
+// A single collection of documents keyed by id (users, papers, requests, patterns, config, content)
+export interface Repository<T> {
+  get: (id: string) => Promise<T | undefined>;
+  set: (id: string, value: T) => Promise<void>;
+  // Shallow merge into an existing document. Throws if the document does not exist.
+  update: (id: string, patch: Partial<T>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  // Equality filters only, e.g. list({ createdBy: email })
+  list: (filter?: Partial<T>) => Promise<T[]>;
+}
+
+// Reads and buffered writes inside runTransaction. All reads must happen before the first write (Firestore rule).
+export interface TransactionContext {
+  get: <T>(collection: string, id: string) => Promise<T | undefined>;
+  set: <T>(collection: string, id: string, value: T) => void;
+  // Field-level write; the transaction fails if the document does not exist
+  update: <T>(collection: string, id: string, patch: Partial<T>) => void;
+  remove: (collection: string, id: string) => void;
+}
+
+export interface StorageBackend {
+  name: string;
+  collection: <T>(name: string) => Repository<T>;
+  // Runs fn atomically: writes are applied only if fn resolves, and concurrent transactions do not interleave
+  runTransaction: <R>(fn: (tx: TransactionContext) => Promise<R>) => Promise<R>;
+}
+
+export type StorageBackendKind = 'firestore' | 'indexeddb' | 'memory';
+
+const resolveKind = (): StorageBackendKind => {
+  const configured = getEnv("STORAGE_BACKEND").toLowerCase();
+  if (configured === 'memory') return 'memory';
+  if (configured === 'indexeddb' || configured === 'local') {
+    // Fall back to memory where IndexedDB is unavailable (Node, private browsing)
+    return typeof indexedDB !== 'undefined' ? 'indexeddb' : 'memory';
+  }
+  return 'firestore';
+};
+
+export const createStorageBackend = (kind: StorageBackendKind): StorageBackend => {
+  switch (kind) {
+    case 'memory': return createMemoryBackend();
+    case 'indexeddb': return createIndexedDbBackend();
+    default: return createFirestoreBackend();
+  }
+};
+
+let activeBackend: StorageBackend | null = null;
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!activeBackend) activeBackend = createStorageBackend(resolveKind());
+  return activeBackend;
+};
+
+// Swap the backend at runtime (tests, offline demos)
+export const setStorageBackend = (backend: StorageBackend) => {
+  activeBackend = backend;
+};
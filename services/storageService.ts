@@ -1,8 +1,9 @@
 
-import { User, QuestionPaper, PaymentRequest, UserRole, SubscriptionStatus, SubscriptionPlan, SamplePattern, QuestionType, ContentPage } from "../types";
-import { MOCK_ADMIN_EMAIL, MOCK_TEACHER_EMAIL, PRICING, CBSE_SUBJECTS } from "../constants";
-import { db } from "../firebaseConfig";
-import { collection, doc, getDoc, setDoc, getDocs, updateDoc, deleteDoc, query, where } from "firebase/firestore";
+import { User, QuestionPaper, PaymentRequest, UserRole, SubscriptionStatus, SubscriptionPlan, SamplePattern, QuestionType, ContentPage, AuthToken, MailMessage, CreditLedgerEntry, CreditEntryType, GenerationDraft, PlanConfig, Coupon, DiscountType, Invoice, BankQuestion, BlueprintRules, BlueprintTemplate, Syllabus } from "../types";
+import { MOCK_ADMIN_EMAIL, MOCK_TEACHER_EMAIL, DEFAULT_PLANS, CBSE_SUBJECTS } from "../constants";
+import { getStorageBackend } from "./storageBackend";
+import { hashPassword } from "./authCrypto";
+import { calculateGstBreakup, placeOfSupply, financialYearOf, formatInvoiceNumber } from "./invoiceService";
 
 // Collection Names
 const USERS_COL = 'users';
@@ -11,17 +12,61 @@ const REQUESTS_COL = 'requests';
 const PATTERNS_COL = 'patterns';
 const CONFIG_COL = 'config'; 
 const CONTENT_COL = 'content';
+const AUTH_TOKENS_COL = 'authTokens';
+const OUTBOX_COL = 'outbox';
+const LEDGER_COL = 'creditLedger';
+const DRAFTS_COL = 'generationDrafts';
+const COUPONS_COL = 'coupons';
+const INVOICES_COL = 'invoices';
+const QUESTION_BANK_COL = 'questionBank';
+const BLUEPRINT_TEMPLATES_COL = 'blueprintTemplates';
+const SYLLABUS_COL = 'syllabus';
+
+// Typed repository for a collection on whichever backend is active (Firestore, IndexedDB or memory)
+const col = <T>(name: string) => getStorageBackend().collection<T>(name);
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+// Shapes of the documents kept in the config collection
+type QuestionTypesDoc = { types: string[] };
+type CurriculumDoc = { data: Record<string, string[]> };
+type PlansDoc = { plans: PlanConfig[] };
+type InvoiceSequenceDoc = { last: number };
+
+const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// Returns the coupon if it can be used for planId, otherwise throws with the reason
+const checkCoupon = (coupon: Coupon | undefined, planId: string): Coupon => {
+  if (!coupon || !coupon.active) throw new Error("Invalid coupon code");
+  if (coupon.expiresAt && new Date(coupon.expiresAt).setHours(23, 59, 59, 999) < Date.now()) throw new Error("This coupon has expired");
+  if (coupon.maxUses !== undefined && coupon.maxUses !== null && (coupon.usedCount || 0) >= coupon.maxUses) throw new Error("This coupon has reached its usage limit");
+  if (coupon.planIds.length > 0 && !coupon.planIds.includes(planId)) throw new Error("This coupon does not apply to the selected plan");
+  return coupon;
+};
+
+const priceWithCoupon = (coupon: Coupon, price: number) => {
+  const raw = coupon.discountType === DiscountType.PERCENT ? price * coupon.value / 100 : coupon.value;
+  const discount = Math.min(price, Math.round(raw * 100) / 100);
+  return { discount, finalAmount: Math.round((price - discount) * 100) / 100 };
+};
+
+// Expiry for a plan bought now; plans without a validity period get no expiry date
+const planExpiryDate = (plan: PlanConfig): string | undefined => {
+  if (plan.validityDays === null) return undefined;
+  const expiry = new Date();
+  expiry.setDate(expiry.getDate() + plan.validityDays);
+  return expiry.toISOString();
+};
 
 // Initial Setup Helper (Runs on admin login mostly)
 const ensureAdminExists = async () => {
-    const adminRef = doc(db, USERS_COL, MOCK_ADMIN_EMAIL);
-    const snap = await getDoc(adminRef);
-    if (!snap.exists()) {
+    const users = col<User>(USERS_COL);
+    if (!(await users.get(MOCK_ADMIN_EMAIL))) {
         const adminUser: User = {
             email: MOCK_ADMIN_EMAIL,
             role: UserRole.ADMIN,
             name: 'Principal Admin',
-            password: 'admin',
+            passwordHash: await hashPassword('admin'),
             credits: 9999,
             subscriptionPlan: SubscriptionPlan.PREMIUM,
             subscriptionStatus: SubscriptionStatus.ACTIVE,
@@ -30,17 +75,15 @@ const ensureAdminExists = async () => {
             city: 'Delhi',
             state: 'Delhi'
         };
-        await setDoc(adminRef, adminUser);
+        await users.set(MOCK_ADMIN_EMAIL, adminUser);
         
         // Also create demo teacher if needed
-        const teacherRef = doc(db, USERS_COL, MOCK_TEACHER_EMAIL);
-        const tSnap = await getDoc(teacherRef);
-        if(!tSnap.exists()) {
+        if(!(await users.get(MOCK_TEACHER_EMAIL))) {
              const demoTeacher: User = {
                 email: MOCK_TEACHER_EMAIL,
                 role: UserRole.TEACHER,
                 name: 'Ravi Kumar',
-                password: 'password123',
+                passwordHash: await hashPassword('password123'),
                 credits: 1,
                 subscriptionPlan: SubscriptionPlan.FREE,
                 subscriptionStatus: SubscriptionStatus.ACTIVE,
@@ -49,7 +92,7 @@ const ensureAdminExists = async () => {
                 city: 'Mumbai',
                 state: 'Maharashtra'
              };
-             await setDoc(teacherRef, demoTeacher);
+             await users.set(MOCK_TEACHER_EMAIL, demoTeacher);
         }
     }
 };
@@ -57,9 +100,7 @@ const ensureAdminExists = async () => {
 export const StorageService = {
   // --- CMS Content Management ---
   getAllContentPages: async (): Promise<ContentPage[]> => {
-      const snap = await getDocs(collection(db, CONTENT_COL));
-      const pages: ContentPage[] = [];
-      snap.forEach(doc => pages.push(doc.data() as ContentPage));
+      const pages = await col<ContentPage>(CONTENT_COL).list();
       
       // Seed default content if empty
       if (pages.length === 0) {
@@ -70,7 +111,7 @@ export const StorageService = {
               { id: 'contact', title: 'Contact Us', content: 'Contact support.', lastUpdated: new Date().toISOString() }
           ];
           for (const p of defaultPages) {
-              await setDoc(doc(db, CONTENT_COL, p.id), p);
+              await col<ContentPage>(CONTENT_COL).set(p.id, p);
               pages.push(p);
           }
       }
@@ -78,23 +119,21 @@ export const StorageService = {
   },
 
   getPageContent: async (id: string): Promise<ContentPage | undefined> => {
-      const snap = await getDoc(doc(db, CONTENT_COL, id));
-      return snap.exists() ? (snap.data() as ContentPage) : undefined;
+      return col<ContentPage>(CONTENT_COL).get(id);
   },
 
   savePageContent: async (page: ContentPage) => {
-      await setDoc(doc(db, CONTENT_COL, page.id), { ...page, lastUpdated: new Date().toISOString() });
+      await col<ContentPage>(CONTENT_COL).set(page.id, { ...page, lastUpdated: new Date().toISOString() });
   },
 
   // --- Question Types Management ---
   getQuestionTypes: async (): Promise<string[]> => {
-    const ref = doc(db, CONFIG_COL, 'questionTypes');
-    const snap = await getDoc(ref);
-    if (snap.exists()) return snap.data().types || [];
+    const stored = await col<QuestionTypesDoc>(CONFIG_COL).get('questionTypes');
+    if (stored) return stored.types || [];
     
     // Default
     const defaultTypes = Object.values(QuestionType);
-    await setDoc(ref, { types: defaultTypes });
+    await col<QuestionTypesDoc>(CONFIG_COL).set('questionTypes', { types: defaultTypes });
     return defaultTypes;
   },
 
@@ -102,23 +141,22 @@ export const StorageService = {
     const types = await StorageService.getQuestionTypes();
     if (types.includes(type)) throw new Error("Question Type already exists");
     types.push(type);
-    await setDoc(doc(db, CONFIG_COL, 'questionTypes'), { types });
+    await col<QuestionTypesDoc>(CONFIG_COL).set('questionTypes', { types });
   },
 
   deleteQuestionType: async (type: string) => {
     let types = await StorageService.getQuestionTypes();
     types = types.filter(t => t !== type);
-    await setDoc(doc(db, CONFIG_COL, 'questionTypes'), { types });
+    await col<QuestionTypesDoc>(CONFIG_COL).set('questionTypes', { types });
   },
 
   // --- Curriculum Config (Classes & Subjects) ---
   getConfig: async (): Promise<Record<string, string[]>> => {
-    const ref = doc(db, CONFIG_COL, 'curriculum');
-    const snap = await getDoc(ref);
-    if (snap.exists()) return snap.data().data || {};
+    const stored = await col<CurriculumDoc>(CONFIG_COL).get('curriculum');
+    if (stored) return stored.data || {};
     
     // Default
-    await setDoc(ref, { data: CBSE_SUBJECTS });
+    await col<CurriculumDoc>(CONFIG_COL).set('curriculum', { data: CBSE_SUBJECTS });
     return CBSE_SUBJECTS;
   },
 
@@ -126,13 +164,13 @@ export const StorageService = {
     const config = await StorageService.getConfig();
     if (config[className]) throw new Error("Class already exists");
     config[className] = [];
-    await setDoc(doc(db, CONFIG_COL, 'curriculum'), { data: config });
+    await col<CurriculumDoc>(CONFIG_COL).set('curriculum', { data: config });
   },
 
   deleteClass: async (className: string) => {
     const config = await StorageService.getConfig();
     delete config[className];
-    await setDoc(doc(db, CONFIG_COL, 'curriculum'), { data: config });
+    await col<CurriculumDoc>(CONFIG_COL).set('curriculum', { data: config });
   },
 
   addSubject: async (className: string, subject: string) => {
@@ -140,65 +178,238 @@ export const StorageService = {
     if (!config[className]) throw new Error("Class does not exist");
     if (config[className].includes(subject)) throw new Error("Subject already exists");
     config[className].push(subject);
-    await setDoc(doc(db, CONFIG_COL, 'curriculum'), { data: config });
+    await col<CurriculumDoc>(CONFIG_COL).set('curriculum', { data: config });
   },
 
   deleteSubject: async (className: string, subject: string) => {
     const config = await StorageService.getConfig();
     if (config[className]) {
         config[className] = config[className].filter(s => s !== subject);
-        await setDoc(doc(db, CONFIG_COL, 'curriculum'), { data: config });
+        await col<CurriculumDoc>(CONFIG_COL).set('curriculum', { data: config });
     }
   },
 
+  // --- Syllabus (units and chapters per class/subject) ---
+  getSyllabus: async (classNum: string, subject: string): Promise<Syllabus | undefined> => {
+    return col<Syllabus>(SYLLABUS_COL).get(`${classNum}_${subject}`);
+  },
+
+  saveSyllabus: async (syllabus: Omit<Syllabus, 'id' | 'updatedAt'>): Promise<Syllabus> => {
+    if (syllabus.units.some(u => !u.name.trim() || u.chapters.some(c => !c.name.trim()))) {
+      throw new Error("Every unit and chapter needs a name.");
+    }
+    // Chapter marks are optional; leave the field out rather than storing an empty value
+    const units = syllabus.units.map(u => ({ ...u, name: u.name.trim(), chapters: u.chapters.map(({ marks, ...c }) => marks ? { ...c, name: c.name.trim(), marks } : { ...c, name: c.name.trim() }) }));
+    const saved: Syllabus = { ...syllabus, units, id: `${syllabus.classNum}_${syllabus.subject}`, updatedAt: new Date().toISOString() };
+    await col<Syllabus>(SYLLABUS_COL).set(saved.id, saved);
+    return saved;
+  },
+
+  // --- Subscription Plans ---
+  getPlans: async (): Promise<PlanConfig[]> => {
+    const stored = await col<PlansDoc>(CONFIG_COL).get('plans');
+    if (stored) return stored.plans || [];
+
+    // Default
+    await col<PlansDoc>(CONFIG_COL).set('plans', { plans: DEFAULT_PLANS });
+    return DEFAULT_PLANS;
+  },
+
+  savePlans: async (plans: PlanConfig[]) => {
+    const ids = new Set<string>();
+    plans.forEach(p => {
+        if (!p.id.trim() || !p.label.trim()) throw new Error("Every plan needs an id and a name");
+        if (ids.has(p.id)) throw new Error(`Duplicate plan id: ${p.id}`);
+        if (p.price < 0 || p.credits < 0) throw new Error(`Price and credits cannot be negative (${p.label})`);
+        ids.add(p.id);
+    });
+    if (!ids.has(SubscriptionPlan.FREE)) throw new Error("The FREE plan cannot be removed");
+    await col<PlansDoc>(CONFIG_COL).set('plans', { plans });
+  },
+
+  // --- Coupons ---
+  getAllCoupons: async (): Promise<Coupon[]> => {
+    const coupons = await col<Coupon>(COUPONS_COL).list();
+    return coupons.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  // Fails if the code is taken, so an existing coupon's usage count and expiry are never overwritten
+  createCoupon: async (coupon: Coupon) => {
+    const code = normalizeCouponCode(coupon.code);
+    if (!/^[A-Z0-9_-]{3,20}$/.test(code)) throw new Error("Coupon code must be 3-20 letters, digits, '-' or '_'");
+    if (coupon.value <= 0) throw new Error("Discount must be greater than zero");
+    if (coupon.discountType === DiscountType.PERCENT && coupon.value > 100) throw new Error("Percentage discount cannot exceed 100");
+    await getStorageBackend().runTransaction(async tx => {
+      if (await tx.get<Coupon>(COUPONS_COL, code)) throw new Error("A coupon with this code already exists");
+      tx.set(COUPONS_COL, code, { ...coupon, code });
+    });
+  },
+
+  // Only the flag is written, so redemptions counted since the admin loaded the list are kept
+  setCouponActive: async (code: string, active: boolean) => {
+    const id = normalizeCouponCode(code);
+    await getStorageBackend().runTransaction(async tx => {
+      if (!(await tx.get<Coupon>(COUPONS_COL, id))) throw new Error("This coupon no longer exists");
+      tx.update<Coupon>(COUPONS_COL, id, { active });
+    });
+  },
+
+  deleteCoupon: async (code: string) => {
+    await col<Coupon>(COUPONS_COL).remove(normalizeCouponCode(code));
+  },
+
+  // Checks a code against a plan and returns the price breakdown. Throws with the reason it cannot be used.
+  validateCoupon: async (code: string, planId: string) => {
+    const plan = (await StorageService.getPlans()).find(p => p.id === planId);
+    if (!plan) throw new Error("This plan is no longer available");
+    const coupon = checkCoupon(await col<Coupon>(COUPONS_COL).get(normalizeCouponCode(code)), plan.id);
+    return { coupon, ...priceWithCoupon(coupon, plan.price) };
+  },
+
+  // --- Invoices ---
+  getInvoicesByUser: async (email: string): Promise<Invoice[]> => {
+    const invoices = await col<Invoice>(INVOICES_COL).list({ userEmail: email });
+    return invoices.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  },
+
+  getAllInvoices: async (): Promise<Invoice[]> => {
+    const invoices = await col<Invoice>(INVOICES_COL).list();
+    return invoices.sort((a, b) => b.financialYear.localeCompare(a.financialYear) || b.sequence - a.sequence);
+  },
+
+  // --- Auth ---
+  saveAuthToken: async (token: AuthToken) => {
+    await col<AuthToken>(AUTH_TOKENS_COL).set(token.id, token);
+  },
+
+  getAuthToken: async (id: string): Promise<AuthToken | undefined> => {
+    return col<AuthToken>(AUTH_TOKENS_COL).get(id);
+  },
+
+  markAuthTokenUsed: async (id: string) => {
+    await col<AuthToken>(AUTH_TOKENS_COL).update(id, { usedAt: new Date().toISOString() });
+  },
+
+  // --- Mail Outbox (local stand-in for a real mail provider) ---
+  saveOutboxMessage: async (message: MailMessage) => {
+    await col<MailMessage>(OUTBOX_COL).set(message.id, message);
+  },
+
+  getOutbox: async (email?: string): Promise<MailMessage[]> => {
+    const messages = await col<MailMessage>(OUTBOX_COL).list(email ? { to: email } : undefined);
+    return messages.sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+  },
+
   // --- Users ---
   getUser: async (email: string): Promise<User | undefined> => {
     if (email === MOCK_ADMIN_EMAIL) await ensureAdminExists();
-    const snap = await getDoc(doc(db, USERS_COL, email));
-    return snap.exists() ? (snap.data() as User) : undefined;
+    return col<User>(USERS_COL).get(email);
   },
   
   getAllUsers: async (): Promise<User[]> => {
-    const snap = await getDocs(collection(db, USERS_COL));
-    const users: User[] = [];
-    snap.forEach(d => users.push(d.data() as User));
-    return users;
+    return col<User>(USERS_COL).list();
   },
 
+  // Credits are owned by the ledger and credentials by AuthService: the stored values are kept, whatever the
+  // (possibly stale) copy says. Use applyCreditEntry and updateCredentials to change them.
   updateUser: async (updatedUser: User, originalEmail?: string) => {
-    // If email changed, we need to create new doc and delete old
-    if (originalEmail && originalEmail !== updatedUser.email) {
-        await setDoc(doc(db, USERS_COL, updatedUser.email), updatedUser);
-        await deleteDoc(doc(db, USERS_COL, originalEmail));
-    } else {
-        await setDoc(doc(db, USERS_COL, updatedUser.email), updatedUser);
-    }
+    await getStorageBackend().runTransaction(async tx => {
+        const sourceEmail = originalEmail || updatedUser.email;
+        const existing = await tx.get<User>(USERS_COL, sourceEmail);
+        const { password: _legacy, passwordHash: _hash, sessionVersion: _version, ...profile } = updatedUser;
+        const stored = existing || updatedUser;
+        const toSave: User = { ...profile, credits: stored.credits };
+        if (stored.passwordHash) toSave.passwordHash = stored.passwordHash;
+        if (stored.password) toSave.password = stored.password;
+        if (stored.sessionVersion) toSave.sessionVersion = stored.sessionVersion;
+
+        tx.set(USERS_COL, updatedUser.email, toSave);
+        // If email changed, we need to create new doc and delete old
+        if (sourceEmail !== updatedUser.email) tx.remove(USERS_COL, sourceEmail);
+    });
+  },
+
+  // Only for AuthService. A new hash replaces any legacy plaintext password; revoking bumps the session version.
+  updateCredentials: async (email: string, change: { passwordHash?: string; revokeSessions?: boolean }) => {
+    await getStorageBackend().runTransaction(async tx => {
+        const existing = await tx.get<User>(USERS_COL, email);
+        if (!existing) throw new Error("User not found");
+        const { password: _legacy, ...rest } = existing;
+        const toSave: User = change.passwordHash ? { ...rest, passwordHash: change.passwordHash } : existing;
+        if (change.revokeSessions) toSave.sessionVersion = (existing.sessionVersion || 0) + 1;
+        tx.set(USERS_COL, email, toSave);
+    });
   },
 
   createUser: async (newUser: User) => {
-     const snap = await getDoc(doc(db, USERS_COL, newUser.email));
-     if(snap.exists()) {
-         throw new Error("User with this email already exists");
-     }
      if (newUser.role === UserRole.TEACHER && !newUser.credits) {
          newUser.credits = 1;
          newUser.subscriptionPlan = SubscriptionPlan.FREE;
          newUser.subscriptionStatus = SubscriptionStatus.ACTIVE;
      }
-     await setDoc(doc(db, USERS_COL, newUser.email), newUser);
+     await getStorageBackend().runTransaction(async tx => {
+         if (await tx.get<User>(USERS_COL, newUser.email)) {
+             throw new Error("User with this email already exists");
+         }
+         tx.set(USERS_COL, newUser.email, newUser);
+         if (newUser.credits > 0) {
+             const entry: CreditLedgerEntry = {
+                 id: generateId(),
+                 userEmail: newUser.email,
+                 type: CreditEntryType.GRANT,
+                 amount: newUser.credits,
+                 balanceAfter: newUser.credits,
+                 reason: newUser.subscriptionPlan === SubscriptionPlan.FREE ? 'Free trial' : 'Opening balance',
+                 createdAt: new Date().toISOString()
+             };
+             tx.set(LEDGER_COL, entry.id, entry);
+         }
+     });
   },
 
   deleteUser: async (email: string) => {
-    await deleteDoc(doc(db, USERS_COL, email));
+    await col<User>(USERS_COL).remove(email);
+  },
+
+  // --- Credit Ledger ---
+  // Appends an immutable entry and moves the user's balance in the same transaction.
+  // Deductions that would take the balance below zero are rejected.
+  applyCreditEntry: async (entry: Omit<CreditLedgerEntry, 'id' | 'balanceAfter' | 'createdAt'> & { id?: string }): Promise<CreditLedgerEntry> => {
+    return getStorageBackend().runTransaction(async tx => {
+        const id = entry.id || generateId();
+        // A fixed id makes the entry idempotent (e.g. one grant per payment request)
+        const duplicate = await tx.get<CreditLedgerEntry>(LEDGER_COL, id);
+        if (duplicate) return duplicate;
+
+        const user = await tx.get<User>(USERS_COL, entry.userEmail);
+        if (!user) throw new Error("User not found");
+
+        const balanceAfter = (user.credits || 0) + entry.amount;
+        if (entry.amount < 0 && balanceAfter < 0) throw new Error("Insufficient credits");
+
+        const saved: CreditLedgerEntry = { ...entry, id, balanceAfter, createdAt: new Date().toISOString() };
+        tx.set(USERS_COL, user.email, { ...user, credits: balanceAfter });
+        tx.set(LEDGER_COL, id, saved);
+        return saved;
+    });
+  },
+
+  getCreditLedger: async (email: string): Promise<CreditLedgerEntry[]> => {
+    const entries = await col<CreditLedgerEntry>(LEDGER_COL).list({ userEmail: email });
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  getAllCreditLedger: async (): Promise<CreditLedgerEntry[]> => {
+    const entries = await col<CreditLedgerEntry>(LEDGER_COL).list();
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   },
 
   // --- Papers ---
   savePaper: async (paper: QuestionPaper) => {
-    const paperRef = doc(db, PAPERS_COL, paper.id);
-    const snap = await getDoc(paperRef);
+    const papers = col<QuestionPaper>(PAPERS_COL);
     
-    if (snap.exists()) {
-      await updateDoc(paperRef, { ...paper });
+    if (await papers.get(paper.id)) {
+      await papers.update(paper.id, { ...paper });
     } else {
       const newPaper = {
         ...paper,
@@ -207,67 +418,133 @@ export const StorageService = {
         editCount: 0,
         downloadCount: 0
       };
-      await setDoc(paperRef, newPaper);
+      await papers.set(paper.id, newPaper);
     }
   },
 
+  // Imported papers keep their usage counts, which savePaper would reset for a new paper
+  importPapers: async (imported: QuestionPaper[]) => {
+    const papers = col<QuestionPaper>(PAPERS_COL);
+    for (const paper of imported) await papers.set(paper.id, paper);
+  },
+
+  getPaper: async (id: string): Promise<QuestionPaper | undefined> => {
+    return col<QuestionPaper>(PAPERS_COL).get(id);
+  },
+
   getPapersByUser: async (email: string): Promise<QuestionPaper[]> => {
-    const q = query(collection(db, PAPERS_COL), where("createdBy", "==", email));
-    const snap = await getDocs(q);
-    const papers: QuestionPaper[] = [];
-    snap.forEach(d => {
-        const p = d.data() as QuestionPaper;
-        if (p.visibleToTeacher !== false) papers.push(p);
-    });
-    return papers;
+    const papers = await col<QuestionPaper>(PAPERS_COL).list({ createdBy: email });
+    return papers.filter(p => p.visibleToTeacher !== false);
   },
 
   getAllPapers: async (): Promise<QuestionPaper[]> => { 
-     const snap = await getDocs(collection(db, PAPERS_COL));
-     const papers: QuestionPaper[] = [];
-     snap.forEach(d => {
-         const p = d.data() as QuestionPaper;
-         if (p.visibleToAdmin !== false) papers.push(p);
-     });
-     return papers;
+     const papers = await col<QuestionPaper>(PAPERS_COL).list();
+     return papers.filter(p => p.visibleToAdmin !== false);
   },
 
   deletePaper: async (id: string, target: 'TEACHER' | 'ADMIN' | 'PERMANENT' = 'PERMANENT') => {
-    const ref = doc(db, PAPERS_COL, id);
+    const papers = col<QuestionPaper>(PAPERS_COL);
     if (target === 'PERMANENT') {
-        await deleteDoc(ref);
+        await papers.remove(id);
     } else {
         const updateData = target === 'TEACHER' ? { visibleToTeacher: false } : { visibleToAdmin: false };
-        await updateDoc(ref, updateData);
+        await papers.update(id, updateData);
     }
   },
 
+  // --- Generation Drafts ---
+  saveGenerationDraft: async (draft: GenerationDraft) => {
+    await col<GenerationDraft>(DRAFTS_COL).set(draft.id, { ...draft, updatedAt: new Date().toISOString() });
+  },
+
+  getGenerationDraft: async (id: string): Promise<GenerationDraft | undefined> => {
+    return col<GenerationDraft>(DRAFTS_COL).get(id);
+  },
+
+  // Newest first, so the UI can offer to resume the latest one
+  getGenerationDrafts: async (email: string): Promise<GenerationDraft[]> => {
+    const drafts = await col<GenerationDraft>(DRAFTS_COL).list({ userEmail: email });
+    return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  },
+
+  deleteGenerationDraft: async (id: string) => {
+    await col<GenerationDraft>(DRAFTS_COL).remove(id);
+  },
+
+  // --- Question Bank ---
+  saveToQuestionBank: async (entry: Omit<BankQuestion, 'id' | 'savedAt'>): Promise<BankQuestion> => {
+    // Per-paper bookkeeping does not belong in the bank
+    const { regenerateCount, customNumber, ...question } = entry.question;
+    const saved: BankQuestion = { ...entry, question, id: generateId(), savedAt: new Date().toISOString() };
+    await col<BankQuestion>(QUESTION_BANK_COL).set(saved.id, saved);
+    return saved;
+  },
+
+  // Newest first. Narrow by class and subject here; topic, type and text search are done by the caller.
+  getQuestionBank: async (email: string, classNum?: string, subject?: string): Promise<BankQuestion[]> => {
+    const filter: Partial<BankQuestion> = { ownerEmail: email };
+    if (classNum) filter.classNum = classNum;
+    if (subject) filter.subject = subject;
+    const entries = await col<BankQuestion>(QUESTION_BANK_COL).list(filter);
+    return entries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  },
+
+  deleteFromQuestionBank: async (id: string) => {
+    await col<BankQuestion>(QUESTION_BANK_COL).remove(id);
+  },
+
+  // --- Blueprint Templates ---
+  saveBlueprintTemplate: async (template: Omit<BlueprintTemplate, 'id' | 'updatedAt'> & { id?: string }): Promise<BlueprintTemplate> => {
+    if (!template.name.trim()) throw new Error("Please give the template a name.");
+    if (template.items.length === 0) throw new Error("The blueprint is empty.");
+    // Bank questions belong to one teacher's bank, so templates keep only the structure
+    const items = template.items.map(({ bankQuestions, ...item }) => item);
+    const saved: BlueprintTemplate = { ...template, items, name: template.name.trim(), id: template.id || generateId(), updatedAt: new Date().toISOString() };
+    await col<BlueprintTemplate>(BLUEPRINT_TEMPLATES_COL).set(saved.id, saved);
+    return saved;
+  },
+
+  // Official templates first, then the teacher's own, each alphabetical
+  getBlueprintTemplates: async (email: string, classNum: string, subject: string): Promise<BlueprintTemplate[]> => {
+    const templates = col<BlueprintTemplate>(BLUEPRINT_TEMPLATES_COL);
+    const [official, own] = await Promise.all([
+      templates.list({ classNum, subject, official: true }),
+      templates.list({ classNum, subject, ownerEmail: email })
+    ]);
+    const byName = (a: BlueprintTemplate, b: BlueprintTemplate) => a.name.localeCompare(b.name);
+    return [...official.sort(byName), ...own.filter(t => !t.official).sort(byName)];
+  },
+
+  deleteBlueprintTemplate: async (id: string) => {
+    await col<BlueprintTemplate>(BLUEPRINT_TEMPLATES_COL).remove(id);
+  },
+
   // --- Sample Patterns ---
   saveSamplePattern: async (pattern: SamplePattern) => {
     // Composite ID to enforce uniqueness per class/subject
     const id = `${pattern.classNum}_${pattern.subject}`; 
-    await setDoc(doc(db, PATTERNS_COL, id), pattern);
+    await col<SamplePattern>(PATTERNS_COL).set(id, pattern);
   },
 
   getSamplePattern: async (classNum: string, subject: string): Promise<SamplePattern | undefined> => {
     const id = `${classNum}_${subject}`;
-    const snap = await getDoc(doc(db, PATTERNS_COL, id));
-    return snap.exists() ? (snap.data() as SamplePattern) : undefined;
+    return col<SamplePattern>(PATTERNS_COL).get(id);
+  },
+
+  getBlueprintRules: async (classNum: string, subject: string): Promise<BlueprintRules | undefined> => {
+    return (await StorageService.getSamplePattern(classNum, subject))?.blueprintRules;
   },
 
   getAdminPattern: async (classNum: string, subject: string): Promise<QuestionPaper | undefined> => {
     // This is complex query, simplified: fetch all, filter in JS or rely on basic pattern
-    const usersSnap = await getDocs(query(collection(db, USERS_COL), where("role", "==", UserRole.ADMIN)));
-    const adminEmails: string[] = [];
-    usersSnap.forEach(u => adminEmails.push(u.id));
+    const admins = await col<User>(USERS_COL).list({ role: UserRole.ADMIN });
+    const adminEmails = admins.map(u => u.email);
 
     // Firebase "IN" query limited to 10. Fetching paper by Class/Subject is better index.
-    const q = query(collection(db, PAPERS_COL), where("classNum", "==", classNum), where("subject", "==", subject));
-    const snap = await getDocs(q);
+    const candidates = await col<QuestionPaper>(PAPERS_COL).list({ classNum, subject });
     
     let adminPaper: QuestionPaper | undefined;
-    snap.forEach(d => {
-        const p = d.data() as QuestionPaper;
+    candidates.forEach(p => {
         if (adminEmails.includes(p.createdBy) && p.visibleToAdmin !== false) {
             adminPaper = p; // Just take the last found
         }
@@ -313,60 +590,128 @@ export const StorageService = {
   },
 
   // --- Subscriptions ---
-  createPaymentRequest: async (email: string, plan: SubscriptionPlan, proofUrl: string) => {
+  createPaymentRequest: async (email: string, planId: string, proofUrl: string, couponCode?: string, gstin?: string) => {
+    const plan = (await StorageService.getPlans()).find(p => p.id === planId);
+    if (!plan || !plan.active) throw new Error("This plan is no longer available");
+
     const id = Date.now().toString();
     const newReq: PaymentRequest = {
       id,
       userEmail: email,
-      plan,
-      amount: PRICING[plan].price,
+      plan: plan.id,
+      amount: plan.price,
       proofUrl,
       status: SubscriptionStatus.PENDING,
       date: new Date().toISOString()
     };
-    await setDoc(doc(db, REQUESTS_COL, id), newReq);
+    if (gstin) newReq.gstin = gstin.trim().toUpperCase();
+
+    // Usage cap is checked and the redemption counted in the same transaction as the request is written
+    await getStorageBackend().runTransaction(async tx => {
+      if (couponCode && couponCode.trim()) {
+          const code = normalizeCouponCode(couponCode);
+          const coupon = checkCoupon(await tx.get<Coupon>(COUPONS_COL, code), plan.id);
+          const { discount, finalAmount } = priceWithCoupon(coupon, plan.price);
+          Object.assign(newReq, { couponCode: code, originalAmount: plan.price, discount, amount: finalAmount });
+          tx.set(COUPONS_COL, code, { ...coupon, usedCount: (coupon.usedCount || 0) + 1 });
+      }
+      tx.set(REQUESTS_COL, id, newReq);
+    });
     
     const user = await StorageService.getUser(email);
     if (user) {
-      await StorageService.updateUser({ ...user, subscriptionStatus: SubscriptionStatus.PENDING });
+      // GSTIN is remembered for the next purchase
+      await StorageService.updateUser({ ...user, subscriptionStatus: SubscriptionStatus.PENDING, ...(newReq.gstin ? { gstin: newReq.gstin } : {}) });
     }
   },
 
   getAllRequests: async (): Promise<PaymentRequest[]> => {
-    const snap = await getDocs(collection(db, REQUESTS_COL));
-    const reqs: PaymentRequest[] = [];
-    snap.forEach(d => reqs.push(d.data() as PaymentRequest));
-    return reqs;
+    return col<PaymentRequest>(REQUESTS_COL).list();
   },
 
   processRequest: async (reqId: string, approved: boolean) => {
-    const reqRef = doc(db, REQUESTS_COL, reqId);
-    const snap = await getDoc(reqRef);
-    if (!snap.exists()) return;
-
-    const request = snap.data() as PaymentRequest;
-    const newStatus = approved ? SubscriptionStatus.ACTIVE : SubscriptionStatus.REJECTED;
-    
-    await updateDoc(reqRef, { status: newStatus });
+    // Status check, plan change, credit grant and invoice number happen in one transaction so a request
+    // approved twice (two admins, double click) only ever grants and invoices once, with no gaps in numbering.
+    const issuedAt = new Date();
+    const financialYear = financialYearOf(issuedAt);
+    await getStorageBackend().runTransaction(async tx => {
+      const request = await tx.get<PaymentRequest>(REQUESTS_COL, reqId);
+      if (!request || request.status !== SubscriptionStatus.PENDING) return;
+
+      const user = await tx.get<User>(USERS_COL, request.userEmail);
+      const plansDoc = await tx.get<PlansDoc>(CONFIG_COL, 'plans');
+      const coupon = request.couponCode ? await tx.get<Coupon>(COUPONS_COL, request.couponCode) : undefined;
+      const sequenceId = `invoiceSequence_${financialYear}`;
+      const sequence = ((await tx.get<InvoiceSequenceDoc>(CONFIG_COL, sequenceId))?.last || 0) + 1;
+      // Inactive plans are still honoured for requests made before they were switched off
+      const plan = (plansDoc?.plans || DEFAULT_PLANS).find(p => p.id === request.plan);
+      if (approved && !plan) throw new Error(`Plan ${request.plan} no longer exists`);
+      const newStatus = approved ? SubscriptionStatus.ACTIVE : SubscriptionStatus.REJECTED;
+      
+      tx.set(REQUESTS_COL, reqId, { ...request, status: newStatus });
+      // A rejected request gives its coupon redemption back
+      if (!approved && coupon) {
+          tx.set(COUPONS_COL, coupon.code, { ...coupon, usedCount: Math.max(0, (coupon.usedCount || 0) - 1) });
+      }
 
-    const user = await StorageService.getUser(request.userEmail);
-    if (user) {
-      if (approved) {
-          const now = new Date();
-          if (request.plan === SubscriptionPlan.STARTER) now.setDate(now.getDate() + 30);
-          else if (request.plan === SubscriptionPlan.PROFESSIONAL) now.setDate(now.getDate() + 60);
-          else if (request.plan === SubscriptionPlan.PREMIUM) now.setDate(now.getDate() + 180);
-          
-          await StorageService.updateUser({
-              ...user,
-              subscriptionPlan: request.plan,
-              subscriptionStatus: SubscriptionStatus.ACTIVE,
-              credits: user.credits + PRICING[request.plan].papers,
-              subscriptionExpiryDate: now.toISOString()
-          });
-      } else {
-           await StorageService.updateUser({ ...user, subscriptionStatus: SubscriptionStatus.REJECTED });
+      if (user) {
+        if (approved && plan) {
+            const expiryDate = planExpiryDate(plan);
+            const amount = plan.credits;
+            const balanceAfter = user.credits + amount;
+            const entry: CreditLedgerEntry = {
+                id: `grant_${reqId}`,
+                userEmail: user.email,
+                type: CreditEntryType.GRANT,
+                amount,
+                balanceAfter,
+                reason: `${plan.label} purchase`,
+                requestId: reqId,
+                createdAt: new Date().toISOString()
+            };
+            
+            const upgraded: User = {
+                ...user,
+                subscriptionPlan: plan.id,
+                subscriptionStatus: SubscriptionStatus.ACTIVE,
+                credits: balanceAfter
+            };
+            if (expiryDate) upgraded.subscriptionExpiryDate = expiryDate;
+            else delete upgraded.subscriptionExpiryDate;
+            tx.set(USERS_COL, user.email, upgraded);
+            tx.set(LEDGER_COL, entry.id, entry);
+
+            const gstin = request.gstin || user.gstin;
+            const stateCode = placeOfSupply(user.state, gstin);
+            const invoice: Invoice = {
+                id: `inv_${reqId}`,
+                number: formatInvoiceNumber(financialYear, sequence),
+                sequence,
+                financialYear,
+                requestId: reqId,
+                userEmail: user.email,
+                billedTo: { name: user.name },
+                plan: plan.id,
+                planLabel: plan.label,
+                ...calculateGstBreakup(request.amount, stateCode),
+                issuedAt: issuedAt.toISOString()
+            };
+            // Optional fields are only set when present (Firestore rejects undefined)
+            if (user.schoolName) invoice.billedTo.schoolName = user.schoolName;
+            if (gstin) invoice.billedTo.gstin = gstin;
+            if (user.city) invoice.billedTo.city = user.city;
+            if (user.state) invoice.billedTo.state = user.state;
+            if (stateCode) invoice.placeOfSupply = stateCode;
+            if (request.couponCode) {
+                invoice.couponCode = request.couponCode;
+                invoice.discount = request.discount || 0;
+            }
+            tx.set(INVOICES_COL, invoice.id, invoice);
+            tx.set(CONFIG_COL, sequenceId, { last: sequence });
+        } else {
+             tx.set(USERS_COL, user.email, { ...user, subscriptionStatus: SubscriptionStatus.REJECTED });
+        }
       }
-    }
+    });
   }
 };
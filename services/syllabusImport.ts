@@ -0,0 +1,141 @@
+
+import { SyllabusUnit } from "../types";
+import { extractDocumentText } from "./documentText";
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+// Heuristic parser for board syllabus documents. Recognises unit lines ("Unit I: Number Systems 10"),
+// chapter lines ("Chapter 1 Real Numbers") and, in units without explicit chapter lines,
+// numbered or bulleted items under a unit. The result is always reviewed before saving.
+
+const UNIT_LINE = /^(?:unit|part|section|इकाई)(?:\s+|\s*[-–:.]\s*)([IVXLC]+|\d+|[A-Z])\b\s*[-–:.)]?\s*(.*)$/i;
+const ROMAN_ROW = /^([IVX]+)\s*(?:\t|[.)]\s+|\s{2,})(.+)$/;
+const CHAPTER_LINE = /^(?:chapter|ch\.|lesson|अध्याय|पाठ)(?:\s+|\s*[-–:.]\s*)(\d+)\s*[-–:.)]?\s*(.*)$/i;
+const NUMBERED_ITEM = /^\d+(?:\.\d+)*\s*[.):-]?\s+(.+)$/;
+const BULLET_ITEM = /^[•\-*–·●▪]\s*(.+)$/;
+const TOTAL_LINE = /^(?:grand\s+)?total\b|^कुल\b/i;
+
+// Item descriptions longer than this are treated as chapter content, not chapter names
+const MAX_NAME_LENGTH = 80;
+
+const MARKS_PATTERNS = [
+  /[\s(\[:–-]+(\d+(?:\.\d+)?)\s*(?:marks?|m|अंक)\s*[)\]]?\s*$/i,
+  /\s*\((\d+(?:\.\d+)?)\)\s*$/,
+  /(?:\t|\s{2,}|\|)\s*(\d+(?:\.\d+)?)\s*$/,
+];
+
+export const splitMarks = (text: string): { name: string; marks?: number } => {
+  for (const pattern of MARKS_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return { name: cleanName(text.slice(0, match.index)), marks: Number(match[1]) };
+  }
+  return { name: cleanName(text) };
+};
+
+const cleanName = (text: string) => text.replace(/\s*\|\s*/g, ' ').replace(/[\t ]+/g, ' ').replace(/^[-–:.)\s]+|[-–:.\s]+$/g, '').trim();
+
+const unitKey = (label: string | undefined, name: string) => (label ? `#${label.toUpperCase()}` : name.toLowerCase());
+
+const isUnitLine = (line: string) => UNIT_LINE.test(line) || ROMAN_ROW.test(line);
+
+// For each line, whether its unit's section (up to the next unit line) has explicit chapter lines.
+// Units are decided separately, so one unit listing "Chapter N" does not hide the numbered items of another.
+const sectionsWithChapters = (lines: string[]): boolean[] => {
+  const flags: boolean[] = [];
+  let start = 0;
+  const close = (end: number) => {
+    const hasChapters = lines.slice(start, end).some(l => CHAPTER_LINE.test(l));
+    for (let i = start; i < end; i++) flags[i] = hasChapters;
+  };
+  lines.forEach((line, i) => {
+    if (i === 0 || !isUnitLine(line)) return;
+    close(i);
+    start = i;
+  });
+  close(lines.length);
+  return flags;
+};
+
+export const parseSyllabusText = (text: string): SyllabusUnit[] => {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\u00a0/g, ' ').trim()).filter(Boolean);
+  const explicitChapters = sectionsWithChapters(lines);
+
+  const units: SyllabusUnit[] = [];
+  const keys: string[] = [];
+  const orphanChapters: SyllabusUnit['chapters'] = [];
+  let current: SyllabusUnit | undefined;
+
+  const addUnit = (label: string | undefined, rest: string) => {
+    const { name, marks } = splitMarks(rest);
+    const key = unitKey(label, name);
+    // Syllabi often repeat each unit: once in the weightage table and again with its content
+    const existingIdx = keys.indexOf(key);
+    if (existingIdx !== -1) {
+      const existing = units[existingIdx];
+      if (!existing.name && name) existing.name = name;
+      if (!existing.marks && marks) existing.marks = marks;
+      current = existing;
+      return;
+    }
+    current = { id: generateId(), name: name || (label ? `Unit ${label}` : ''), marks: marks || 0, chapters: [] };
+    units.push(current);
+    keys.push(key);
+  };
+
+  const addChapter = (rest: string) => {
+    const { name, marks } = splitMarks(rest);
+    if (!name || name.length > MAX_NAME_LENGTH) return;
+    const target = current ? current.chapters : orphanChapters;
+    if (target.some(c => c.name.toLowerCase() === name.toLowerCase())) return;
+    target.push(marks ? { id: generateId(), name, marks } : { id: generateId(), name });
+  };
+
+  lines.forEach((line, i) => {
+    if (TOTAL_LINE.test(line)) return;
+    let match = line.match(UNIT_LINE) || line.match(ROMAN_ROW);
+    if (match) return addUnit(match[1], match[2]);
+    match = line.match(CHAPTER_LINE);
+    if (match) return addChapter(match[2] || `Chapter ${match[1]}`);
+    if (explicitChapters[i] || !current) return;
+    match = line.match(NUMBERED_ITEM) || line.match(BULLET_ITEM);
+    if (match) addChapter(match[1]);
+  });
+
+  // Chapter-only syllabi: each chapter carries its own weightage, so it becomes a unit
+  if (units.length === 0) {
+    return orphanChapters.map(c => ({ id: generateId(), name: c.name, marks: c.marks || 0, chapters: [] }));
+  }
+
+  units.forEach(u => {
+    if (!u.marks) u.marks = u.chapters.reduce((sum, c) => sum + (c.marks || 0), 0);
+  });
+  return units;
+};
+
+// Appends imported units to an existing syllabus. Units with the same name are combined:
+// new chapters are added and the imported weightage fills in a missing one.
+export const mergeSyllabusUnits = (existing: SyllabusUnit[], imported: SyllabusUnit[]): SyllabusUnit[] => {
+  const merged = existing.map(u => ({ ...u, chapters: [...u.chapters] }));
+  imported.forEach(unit => {
+    const match = merged.find(u => u.name.trim().toLowerCase() === unit.name.trim().toLowerCase());
+    if (!match) return merged.push(unit);
+    if (!match.marks) match.marks = unit.marks;
+    unit.chapters.forEach(c => {
+      if (!match.chapters.some(mc => mc.name.trim().toLowerCase() === c.name.trim().toLowerCase())) match.chapters.push(c);
+    });
+  });
+  return merged;
+};
+
+export interface SyllabusImport {
+  fileName: string;
+  text: string;
+  units: SyllabusUnit[];
+}
+
+export const readSyllabusDocument = async (bytes: Uint8Array, fileName: string, mimeType?: string): Promise<SyllabusImport> => {
+  const text = await extractDocumentText(bytes, fileName, mimeType);
+  const units = parseSyllabusText(text);
+  if (units.length === 0) throw new Error("No units or chapters were found in this document. Lines should look like \"Unit I: Number Systems 10\" or \"Chapter 1 Real Numbers\".");
+  return { fileName, text, units };
+};
@@ -0,0 +1,324 @@
+
+import { ContextRule, FontFile, GlyphClass, Lookup } from "./fontFile";
+
+// Maps text to glyphs for the PDF renderer. Latin and symbols are a plain cmap lookup; Devanagari gets
+// the Indic shaping the embedded fonts need: syllable reordering (pre-base i-matra, reph), the GSUB
+// features for half forms, conjuncts and presentation forms in the stages the OpenType spec lists, and
+// GPOS kerning and mark positioning so vowel signs sit on the consonant they belong to.
+
+export interface ShapedGlyph {
+  id: number;
+  advance: number; // Font units, after positioning
+  text: string; // Characters this glyph stands for (for copy/paste via ToUnicode)
+  // Offset from the pen position, in font units (marks attached by GPOS)
+  dx?: number;
+  dy?: number;
+}
+
+interface Slot {
+  id: number;
+  text: string;
+  features: Set<string> | null; // null: global features only
+  syllable: number;
+}
+
+interface Position {
+  dx: number;
+  dy: number;
+  advance: number;
+  attachedTo: number; // Base or mark this glyph is anchored to, -1 if none
+}
+
+const DEVANAGARI_SCRIPTS = ['dev2', 'deva'];
+
+// GSUB stages, in order. Lookups of the features in one stage run together in lookup order.
+const SUBSTITUTION_STAGES = [['locl', 'ccmp'], ['nukt'], ['akhn'], ['rphf'], ['rkrf'], ['blwf'], ['half'], ['pstf'], ['vatu'], ['cjct'], ['pres', 'abvs', 'blws', 'psts', 'haln']];
+// Features only applied to the glyphs the syllable analysis marked for them
+const POSITIONAL_FEATURES = ['rphf', 'blwf', 'half', 'pstf'];
+const POSITIONING_FEATURES = ['kern', 'dist', 'abvm', 'blwm', 'mark', 'mkmk'];
+// Guards against fonts whose contextual lookups call each other in a loop
+const MAX_NESTING = 8;
+
+const RA = 0x930;
+const HALANT = 0x94d;
+const NUKTA = 0x93c;
+const I_MATRA = 0x93f;
+const ZWNJ = 0x200c;
+const ZWJ = 0x200d;
+
+const isDevanagari = (cp: number) => cp >= 0x900 && cp <= 0x97f;
+const isConsonant = (cp: number) => (cp >= 0x915 && cp <= 0x939) || (cp >= 0x958 && cp <= 0x95f) || (cp >= 0x978 && cp <= 0x97f);
+const isMatra = (cp: number) => (cp >= 0x93a && cp <= 0x94c && cp !== NUKTA && cp !== 0x93d) || cp === 0x94e || cp === 0x94f || (cp >= 0x955 && cp <= 0x957) || cp === 0x962 || cp === 0x963;
+const isModifier = (cp: number) => cp >= 0x900 && cp <= 0x903;
+const isIgnorable = (cp: number) => cp === ZWNJ || cp === ZWJ || cp === 0x200b || cp === 0xfe0f;
+
+// Splits a run of code points into Devanagari syllables; everything else is its own cluster
+const syllables = (cps: number[]): number[][] => {
+  const out: number[][] = [];
+  let i = 0;
+  while (i < cps.length) {
+    const start = i;
+    if (isConsonant(cps[i])) {
+      i++;
+      for (;;) {
+        if (cps[i] === NUKTA) i++;
+        if (cps[i] === HALANT && (isConsonant(cps[i + 1]) || (isIgnorable(cps[i + 1]) && isConsonant(cps[i + 2])))) {
+          i += isIgnorable(cps[i + 1]) ? 3 : 2;
+          continue;
+        }
+        break;
+      }
+      if (cps[i] === HALANT) i++;
+    } else if (isDevanagari(cps[i])) {
+      i++;
+      if (cps[i] === NUKTA) i++;
+    } else {
+      out.push([cps[i++]]);
+      continue;
+    }
+    while (i < cps.length && (isMatra(cps[i]) || isModifier(cps[i]) || cps[i] === NUKTA)) i++;
+    out.push(cps.slice(start, i));
+  }
+  return out;
+};
+
+// Lookup indices of a stage's features, each with the features that use it
+const stageLookups = (featureLookups: (scripts: string[], feature: string) => number[], features: string[]) => {
+  const byLookup = new Map<number, string[]>();
+  features.forEach(feature => featureLookups(DEVANAGARI_SCRIPTS, feature).forEach(index => {
+    byLookup.set(index, [...(byLookup.get(index) || []), feature]);
+  }));
+  return Array.from(byLookup.entries()).sort((a, b) => a[0] - b[0]);
+};
+
+// Next glyph from `from` (stepping by `step`) that the lookup does not skip; -1 past the end or the syllable
+const nextGlyph = (font: FontFile, lookup: Lookup<unknown>, slots: Slot[], from: number, step: 1 | -1, syllable?: number) => {
+  for (let i = from; i >= 0 && i < slots.length; i += step) {
+    if (syllable !== undefined && slots[i].syllable !== syllable) return -1;
+    if (!font.ignores(lookup, slots[i].id)) return i;
+  }
+  return -1;
+};
+
+// Positions of the input glyphs when a contextual rule matches at i, otherwise null.
+// Input glyphs must also be ones the feature applies to; the surrounding context need not.
+const matchRule = (font: FontFile, lookup: Lookup<unknown>, slots: Slot[], i: number, rule: ContextRule, applies?: Applies) => {
+  const syllable = applies ? slots[i].syllable : undefined;
+  const input = [i];
+  for (const match of rule.input) {
+    const next = nextGlyph(font, lookup, slots, input[input.length - 1] + 1, 1, syllable);
+    if (next < 0 || !match(slots[next].id) || (applies && !applies(slots[next]))) return null;
+    input.push(next);
+  }
+  let at = i;
+  for (const match of rule.backtrack) {
+    at = nextGlyph(font, lookup, slots, at - 1, -1, syllable);
+    if (at < 0 || !match(slots[at].id)) return null;
+  }
+  at = input[input.length - 1];
+  for (const match of rule.lookahead) {
+    at = nextGlyph(font, lookup, slots, at + 1, 1, syllable);
+    if (at < 0 || !match(slots[at].id)) return null;
+  }
+  return input;
+};
+
+type Applies = (slot: Slot) => boolean;
+
+// Applies one GSUB lookup at slot i, matching within its syllable. Returns where to continue, or -1 if nothing applied.
+const substitute = (font: FontFile, index: number, slots: Slot[], i: number, applies: Applies, depth = 0): number => {
+  const lookup = font.lookup(index);
+  if (!lookup || depth > MAX_NESTING || font.ignores(lookup, slots[i].id)) return -1;
+  const slot = slots[i];
+  for (const subtable of lookup.subtables) {
+    if (subtable.type === 'single') {
+      const glyph = subtable.map.get(slot.id);
+      if (glyph === undefined) continue;
+      slots[i] = { ...slot, id: glyph };
+      return i + 1;
+    }
+    if (subtable.type === 'multiple') {
+      const glyphs = subtable.map.get(slot.id);
+      if (!glyphs) continue;
+      slots.splice(i, 1, ...glyphs.map((id, k) => ({ ...slot, id, text: k === 0 ? slot.text : '' })));
+      return i + glyphs.length;
+    }
+    if (subtable.type === 'ligature') {
+      for (const ligature of subtable.map.get(slot.id) || []) {
+        const parts = [i];
+        for (const component of ligature.components) {
+          const next = nextGlyph(font, lookup, slots, parts[parts.length - 1] + 1, 1, slot.syllable);
+          if (next < 0 || slots[next].id !== component || !applies(slots[next])) break;
+          parts.push(next);
+        }
+        if (parts.length !== ligature.components.length + 1) continue;
+        // Marks the lookup skipped over stay in place after the ligature
+        const text = parts.map(p => slots[p].text).join('');
+        for (let k = parts.length - 1; k > 0; k--) slots.splice(parts[k], 1);
+        slots[i] = { ...slot, id: ligature.glyph, text };
+        return i + 1;
+      }
+      continue;
+    }
+    for (const rule of subtable.rules(slot.id)) {
+      const input = matchRule(font, lookup, slots, i, rule, applies);
+      if (!input) continue;
+      let end = input[input.length - 1] + 1;
+      rule.actions.forEach(({ sequenceIndex, lookupIndex }) => {
+        const at = input[sequenceIndex];
+        if (at === undefined || at >= slots.length) return;
+        const length = slots.length;
+        substitute(font, lookupIndex, slots, at, applies, depth + 1);
+        // Ligatures and multiple substitutions shift the glyphs after them
+        const shift = slots.length - length;
+        if (shift) {
+          for (let k = 0; k < input.length; k++) if (input[k] > at) input[k] += shift;
+          end += shift;
+        }
+      });
+      return Math.max(end, i + 1);
+    }
+  }
+  return -1;
+};
+
+const applySubstitutions = (font: FontFile, slots: Slot[], features: string[]) => {
+  stageLookups(font.featureLookups, features).forEach(([index, lookupFeatures]) => {
+    const applies = (slot: Slot) => lookupFeatures.some(f => !POSITIONAL_FEATURES.includes(f) || (slot.features !== null && slot.features.has(f)));
+    for (let i = 0; i < slots.length;) {
+      const next = applies(slots[i]) ? substitute(font, index, slots, i, applies) : -1;
+      i = next < 0 ? i + 1 : next;
+    }
+  });
+};
+
+// Applies one GPOS lookup at slot i; returns whether it did anything
+const position = (font: FontFile, index: number, slots: Slot[], positions: Position[], i: number, depth = 0): boolean => {
+  const lookup = font.positionLookup(index);
+  if (!lookup || depth > MAX_NESTING || font.ignores(lookup, slots[i].id)) return false;
+  const id = slots[i].id;
+  for (const subtable of lookup.subtables) {
+    if (subtable.type === 'single') {
+      const value = subtable.values(id);
+      if (!value) continue;
+      positions[i].dx += value.x;
+      positions[i].dy += value.y;
+      positions[i].advance += value.advance;
+      return true;
+    }
+    if (subtable.type === 'pair') {
+      const next = nextGlyph(font, lookup, slots, i + 1, 1);
+      const values = next < 0 ? undefined : subtable.values(id, slots[next].id);
+      if (!values) continue;
+      [i, next].forEach((at, k) => {
+        positions[at].dx += values[k].x;
+        positions[at].dy += values[k].y;
+        positions[at].advance += values[k].advance;
+      });
+      return true;
+    }
+    if (subtable.type === 'markToBase' || subtable.type === 'markToMark') {
+      const mark = subtable.marks.get(id);
+      if (!mark) continue;
+      // A mark attaches to the nearest base before it, or (mark-to-mark) to the mark right before it
+      let target = i - 1;
+      if (subtable.type === 'markToBase') {
+        while (target >= 0 && font.glyphClass(slots[target].id) === GlyphClass.Mark) target--;
+      } else {
+        target = nextGlyph(font, lookup, slots, i - 1, -1);
+      }
+      const anchor = target < 0 ? undefined : subtable.bases.get(slots[target].id)?.[mark.markClass];
+      if (!anchor) continue;
+      positions[i].dx = anchor.x - mark.anchor.x;
+      positions[i].dy = anchor.y - mark.anchor.y;
+      positions[i].attachedTo = target;
+      return true;
+    }
+    for (const rule of subtable.rules(id)) {
+      const input = matchRule(font, lookup, slots, i, rule);
+      if (!input) continue;
+      rule.actions.forEach(({ sequenceIndex, lookupIndex }) => {
+        if (input[sequenceIndex] !== undefined) position(font, lookupIndex, slots, positions, input[sequenceIndex], depth + 1);
+      });
+      return true;
+    }
+  }
+  return false;
+};
+
+const applyPositioning = (font: FontFile, slots: Slot[]): Position[] => {
+  const positions = slots.map(s => ({ dx: 0, dy: 0, advance: font.advance(s.id), attachedTo: -1 }));
+  stageLookups(font.positionLookups, POSITIONING_FEATURES).forEach(([index]) => {
+    for (let i = 0; i < slots.length; i++) position(font, index, slots, positions, i);
+  });
+
+  // Attached glyphs move with what they are attached to; their offsets so far are relative to its pen position
+  const pen: number[] = [];
+  positions.reduce((x, p, i) => { pen[i] = x; return x + p.advance; }, 0);
+  positions.forEach((p, i) => {
+    if (p.attachedTo < 0) return;
+    const target = positions[p.attachedTo];
+    p.dx += target.dx + pen[p.attachedTo] - pen[i];
+    p.dy += target.dy;
+  });
+  return positions;
+};
+
+const shapeDevanagari = (font: FontFile, cps: number[]): Slot[] => {
+  const hasReph = font.featureLookups(DEVANAGARI_SCRIPTS, 'rphf').length > 0;
+  const slots: Slot[] = [];
+  syllables(cps).forEach((syllable, syllableIdx) => {
+    const chars: { cp: number; features: Set<string> | null }[] = syllable.map(cp => ({ cp, features: null }));
+    const consonantIdx = chars.map((c, i) => isConsonant(c.cp) ? i : -1).filter(i => i >= 0);
+    if (consonantIdx.length === 0) {
+      chars.forEach(c => slots.push({ id: font.glyphId(c.cp), text: String.fromCodePoint(c.cp), features: null, syllable: syllableIdx }));
+      return;
+    }
+
+    // Base consonant: the last one, unless it is a ra written below the previous consonant
+    let base = consonantIdx[consonantIdx.length - 1];
+    if (chars[base].cp === RA && consonantIdx.length > 1 && chars[base - 1]?.cp === HALANT) {
+      base = consonantIdx[consonantIdx.length - 2];
+      for (let i = base + 1; i < chars.length && !isMatra(chars[i].cp); i++) chars[i].features = new Set(['blwf', 'pstf']);
+    }
+    for (let i = 0; i < base; i++) chars[i].features = new Set(['half']);
+
+    let reph: typeof chars = [];
+    if (hasReph && chars[0].cp === RA && chars[1]?.cp === HALANT && base > 0) {
+      reph = chars.splice(0, 2).map(c => ({ ...c, features: new Set(['rphf']) }));
+      base -= 2;
+    }
+
+    // The i-matra is written before the consonant cluster it follows
+    const iMatra = chars.findIndex(c => c.cp === I_MATRA);
+    if (iMatra > 0) chars.unshift(...chars.splice(iMatra, 1));
+
+    // Reph goes to the end of the syllable, before anusvara and similar signs
+    if (reph.length) {
+      let at = chars.length;
+      while (at > 0 && isModifier(chars[at - 1].cp)) at--;
+      chars.splice(at, 0, ...reph);
+    }
+
+    chars.forEach(c => slots.push({ id: font.glyphId(c.cp), text: String.fromCodePoint(c.cp), features: c.features, syllable: syllableIdx }));
+  });
+
+  SUBSTITUTION_STAGES.forEach(stage => applySubstitutions(font, slots, stage));
+  return slots;
+};
+
+const withoutJoiners = (slots: Slot[]) => slots.filter(s => !(s.id === 0 && [...s.text].every(c => isIgnorable(c.codePointAt(0)!))));
+
+export const shapeText = (font: FontFile, text: string): ShapedGlyph[] => {
+  const cps = Array.from(text, c => c.codePointAt(0)!);
+  if (!cps.some(isDevanagari)) {
+    return withoutJoiners(cps.map((cp, i) => ({ id: font.glyphId(cp), text: String.fromCodePoint(cp), features: null, syllable: i })))
+      .map(s => ({ id: s.id, advance: font.advance(s.id), text: s.text }));
+  }
+  const slots = withoutJoiners(shapeDevanagari(font, cps));
+  const positions = applyPositioning(font, slots);
+  return slots.map((s, i) => {
+    const { dx, dy, advance } = positions[i];
+    return dx || dy ? { id: s.id, advance, text: s.text, dx, dy } : { id: s.id, advance, text: s.text };
+  });
+};
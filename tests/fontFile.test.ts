@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { GlyphClass } from "../services/fontFile";
+import { loadBundledFont } from "./pdfFixtures";
+
+describe("loadFont", () => {
+  it("unwraps WOFF files and reads metrics and the cmap", async () => {
+    const font = await loadBundledFont('devanagari');
+    expect(font.unitsPerEm).toBe(1000);
+    expect(font.ascent).toBeGreaterThan(0);
+    expect(font.descent).toBeLessThan(0);
+    expect(font.glyphId(0x915)).not.toBe(0);
+    expect(font.glyphId(0x4e00)).toBe(0);
+  });
+
+  it("reads GSUB and GPOS features and GDEF classes", async () => {
+    const font = await loadBundledFont('devanagari');
+    expect(font.featureLookups(['dev2'], 'half').length).toBeGreaterThan(0);
+    expect(font.positionLookups(['dev2'], 'abvm').length).toBeGreaterThan(0);
+    expect(font.glyphClass(font.glyphId(0x902))).toBe(GlyphClass.Mark);
+    expect(font.glyphClass(font.glyphId(0x915))).toBe(GlyphClass.Base);
+  });
+
+  it("subsets to the TrueType tables a PDF viewer needs", async () => {
+    const font = await loadBundledFont('regular');
+    const subset = font.subset([font.glyphId(0x41)]);
+    expect(subset.length).toBeLessThan(font.data.length);
+    const view = new DataView(subset.buffer, subset.byteOffset, subset.byteLength);
+    expect(view.getUint32(0)).toBe(0x00010000);
+    const tags = Array.from({ length: view.getUint16(4) }, (_, i) => Buffer.from(subset.subarray(12 + i * 16, 16 + i * 16)).toString('latin1'));
+    expect(tags).toEqual(expect.arrayContaining(['glyf', 'head', 'hmtx', 'loca', 'maxp']));
+    expect(tags).not.toContain('cmap');
+  });
+});
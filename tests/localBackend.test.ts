@@ -0,0 +1,135 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createIndexedDbBackend, createMemoryBackend } from "../services/localBackend";
+
+interface Item {
+  id: string;
+  owner: string;
+  count: number;
+  tags?: string[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe.each([
+  ['memory', createMemoryBackend],
+  ['indexeddb', createIndexedDbBackend]
+])("%s backend", (_name, createBackend) => {
+  // A fresh database per test, so the IndexedDB backend starts empty like the memory one
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  describe("collection", () => {
+    it("stores copies, so callers never share references with the store", async () => {
+      const items = createBackend().collection<Item>('items');
+      const item: Item = { id: 'a', owner: 'x', count: 1, tags: ['one'] };
+      await items.set('a', item);
+      item.tags!.push('two');
+
+      const stored = await items.get('a');
+      expect(stored).toEqual({ id: 'a', owner: 'x', count: 1, tags: ['one'] });
+      stored!.count = 5;
+      expect((await items.get('a'))!.count).toBe(1);
+      expect(await items.get('missing')).toBeUndefined();
+    });
+
+    it("merges updates and rejects them for missing documents", async () => {
+      const items = createBackend().collection<Item>('items');
+      await items.set('a', { id: 'a', owner: 'x', count: 1 });
+      await items.update('a', { count: 2 });
+      expect(await items.get('a')).toEqual({ id: 'a', owner: 'x', count: 2 });
+      await expect(items.update('missing', { count: 1 })).rejects.toThrow('No document to update: items/missing');
+    });
+
+    it("lists one collection with equality filters", async () => {
+      const backend = createBackend();
+      const items = backend.collection<Item>('items');
+      await items.set('a', { id: 'a', owner: 'x', count: 1 });
+      await items.set('b', { id: 'b', owner: 'y', count: 1 });
+      await items.set('c', { id: 'c', owner: 'x', count: 2 });
+      await backend.collection<Item>('items-archive').set('d', { id: 'd', owner: 'x', count: 1 });
+
+      expect((await items.list()).map(i => i.id).sort()).toEqual(['a', 'b', 'c']);
+      expect((await items.list({ owner: 'x' })).map(i => i.id).sort()).toEqual(['a', 'c']);
+      expect((await items.list({ owner: 'x', count: 1 })).map(i => i.id)).toEqual(['a']);
+
+      await items.remove('a');
+      expect((await items.list({ owner: 'x' })).map(i => i.id)).toEqual(['c']);
+    });
+  });
+
+  describe("runTransaction", () => {
+    it("applies set, update and remove together when fn resolves", async () => {
+      const backend = createBackend();
+      const items = backend.collection<Item>('items');
+      await items.set('a', { id: 'a', owner: 'x', count: 1 });
+      await items.set('b', { id: 'b', owner: 'x', count: 1 });
+
+      const result = await backend.runTransaction(async tx => {
+        const a = await tx.get<Item>('items', 'a');
+        tx.update<Item>('items', 'a', { count: a!.count + 1 });
+        tx.set<Item>('items', 'c', { id: 'c', owner: 'y', count: 3 });
+        tx.remove('items', 'b');
+        return a!.count;
+      });
+
+      expect(result).toBe(1);
+      expect(await items.get('a')).toEqual({ id: 'a', owner: 'x', count: 2 });
+      expect(await items.get('b')).toBeUndefined();
+      expect(await items.get('c')).toEqual({ id: 'c', owner: 'y', count: 3 });
+    });
+
+    it("writes nothing when fn throws", async () => {
+      const backend = createBackend();
+      const items = backend.collection<Item>('items');
+      await items.set('a', { id: 'a', owner: 'x', count: 1 });
+
+      await expect(backend.runTransaction(async tx => {
+        tx.set<Item>('items', 'a', { id: 'a', owner: 'x', count: 9 });
+        throw new Error("Insufficient credits");
+      })).rejects.toThrow("Insufficient credits");
+      expect((await items.get('a'))!.count).toBe(1);
+    });
+
+    it("fails as a whole when an update targets a missing document", async () => {
+      const backend = createBackend();
+      const items = backend.collection<Item>('items');
+
+      await expect(backend.runTransaction(async tx => {
+        tx.set<Item>('items', 'a', { id: 'a', owner: 'x', count: 1 });
+        tx.update<Item>('items', 'missing', { count: 2 });
+      })).rejects.toThrow('No document to update: items/missing');
+      expect(await items.get('a')).toBeUndefined();
+    });
+
+    it("runs concurrent transactions one after another", async () => {
+      const backend = createBackend();
+      const items = backend.collection<Item>('items');
+      await items.set('a', { id: 'a', owner: 'x', count: 0 });
+
+      // Without serialisation every increment would read 0 during the pause and the total would be 1
+      const increment = () => backend.runTransaction(async tx => {
+        const a = await tx.get<Item>('items', 'a');
+        await sleep(5);
+        tx.update<Item>('items', 'a', { count: a!.count + 1 });
+      });
+      await Promise.all([increment(), increment(), increment()]);
+      expect((await items.get('a'))!.count).toBe(3);
+    });
+
+    it("keeps running transactions after one fails", async () => {
+      const backend = createBackend();
+      const failing = backend.runTransaction(async () => { throw new Error("boom"); });
+      const next = backend.runTransaction(async tx => {
+        tx.set<Item>('items', 'a', { id: 'a', owner: 'x', count: 1 });
+        return 'done';
+      });
+
+      await expect(failing).rejects.toThrow("boom");
+      await expect(next).resolves.toBe('done');
+      expect(await backend.collection<Item>('items').get('a')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { layoutMath, MathItem } from "../services/mathLayout";
+
+// Every character half the font size wide
+const measure = (text: string, size: number) => [...text].length * size / 2;
+
+const texts = (items: MathItem[]) => items.flatMap(i => (i.kind === 'text' ? [i.text] : []));
+
+describe("layoutMath", () => {
+  it("stacks a fraction around its rule", () => {
+    const box = layoutMath('\\frac{a}{b}', 10, measure);
+    const rule = box.items.find(i => i.kind === 'rule');
+    expect(rule).toBeDefined();
+    const [a, b] = box.items.filter((i): i is Extract<MathItem, { kind: 'text' }> => i.kind === 'text');
+    expect(a.y).toBeGreaterThan(0);
+    expect(b.y).toBeLessThan(0);
+    expect(box.ascent).toBeGreaterThan(10 / 2);
+  });
+
+  it("raises superscripts and shrinks them", () => {
+    const box = layoutMath('x^2', 10, measure);
+    const two = box.items.find(i => i.kind === 'text' && i.text === '2');
+    expect(two).toMatchObject({ kind: 'text' });
+    if (two?.kind !== 'text') return;
+    expect(two.y).toBeGreaterThan(0);
+    expect(two.size).toBeLessThan(10);
+  });
+
+  it("draws roots with a path and maps symbol commands", () => {
+    const box = layoutMath('\\sqrt{\\alpha}', 10, measure);
+    expect(box.items.some(i => i.kind === 'path')).toBe(true);
+    expect(texts(box.items)).toContain('α');
+  });
+
+  it("prints unknown commands instead of failing", () => {
+    expect(texts(layoutMath('\\unknowncmd', 10, measure).items).join('')).toContain('unknowncmd');
+  });
+});
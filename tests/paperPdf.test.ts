@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { PaperContent, QuestionType } from "../types";
+import { PdfFontSet } from "../services/pdfText";
+import { renderPaperPdf } from "../services/paperPdf";
+import { loadBundledFonts, pageText, readPdf } from "./pdfFixtures";
+
+// Words are placed one by one, so extracted text has no spaces
+const squeeze = (text: string) => text.replace(/\s+/g, '');
+
+const question = (i: number) => ({
+  id: `q${i}`,
+  type: QuestionType.MCQ,
+  text: `Evaluate $\\frac{x^2+1}{\\sqrt{x}}$ when x = ${i}. This question is long enough to wrap onto a second line of the paper body.`,
+  marks: 1,
+  topic: 'Algebra',
+  options: ['(a) 1', '(b) 2', '(c) 3', '(d) $\\alpha + \\beta$'],
+  answer: '(a) 1',
+});
+
+const fixture: PaperContent = {
+  title: 'Half Yearly Examination',
+  schoolName: 'Test School',
+  classNum: '10',
+  subject: 'Mathematics',
+  session: '2026-27',
+  duration: '3 Hrs',
+  generalInstructions: 'All questions are compulsory.\nसभी प्रश्न अनिवार्य हैं।',
+  sections: [
+    { id: 'a', title: 'Section A', questions: Array.from({ length: 30 }, (_, i) => question(i + 1)) },
+    { id: 'b', title: 'Section B', questions: [{ id: 'h', type: QuestionType.SA, text: 'प्रश्न का उत्तर दीजिए।', marks: 2, topic: 'Hindi', answer: 'उत्तर' }] },
+  ],
+} as PaperContent;
+
+describe("renderPaperPdf", () => {
+  let fonts: PdfFontSet;
+  beforeAll(async () => {
+    fonts = await loadBundledFonts();
+  });
+
+  it("writes a well-formed file whose xref points at every object", async () => {
+    const pdf = readPdf(await renderPaperPdf(fixture, { kind: 'paper', fonts }));
+    expect(pdf.source.startsWith('%PDF-1.7\n')).toBe(true);
+    expect(pdf.source.slice(pdf.startXref, pdf.startXref + 5)).toBe('xref\n');
+    expect(pdf.xrefOffsets.length).toBeGreaterThan(1);
+    pdf.xrefOffsets.slice(1).forEach((offset, i) => {
+      expect(pdf.source.slice(offset, offset + 20)).toMatch(new RegExp(`^${i + 1} 0 obj\\n`));
+    });
+  });
+
+  it("spreads a long paper over several pages and numbers them", async () => {
+    const pdf = readPdf(await renderPaperPdf(fixture, { kind: 'paper', fonts }));
+    const pages = pdf.pageRefs();
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pdf.source).toContain(`/Count ${pages.length}`);
+    expect(await pageText(pdf, pages[pages.length - 1])).toContain(`Page${pages.length}of${pages.length}`);
+  });
+
+  it("keeps Latin and Devanagari text extractable through ToUnicode", async () => {
+    const pdf = readPdf(await renderPaperPdf(fixture, { kind: 'paper', fonts, setLabel: 'SET A' }));
+    const pages = pdf.pageRefs();
+    const first = await pageText(pdf, pages[0]);
+    expect(first).toContain(squeeze(fixture.title.toUpperCase()));
+    expect(first).toContain('SETA');
+    expect(first).toContain('प्रश्न');
+    expect(await pageText(pdf, pages[pages.length - 1])).toContain('उत्तर');
+  });
+
+  it("prints answers in the key", async () => {
+    const pdf = readPdf(await renderPaperPdf(fixture, { kind: 'key', fonts }));
+    const text = (await Promise.all(pdf.pageRefs().map(ref => pageText(pdf, ref)))).join('\n');
+    expect(text).toContain('उत्तर');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { buildPaperSet, remapAnswer } from "../services/paperSets";
+import { Question, QuestionType, Section } from "../types";
+
+const OPTIONS = ['4', '8', '16', '42'];
+// New option order as original indexes: (a) was old d, (b) old a, (c) old b, (d) old c
+const ORDER = [3, 0, 1, 2];
+
+const mcq = (id: string, options: string[], answer: string): Question => ({
+  id, type: QuestionType.MCQ, text: `Question ${id}`, marks: 1, topic: 'Test', options, answer
+});
+
+const sectionOf = (questions: Question[]): Section[] => [{ id: 's1', title: 'SECTION A', questions, totalMarks: questions.length }];
+
+// The option named by the letter an answer ends with
+const chosenOption = (q: Question) => {
+  const letter = q.answer!.match(/([a-h])\)?$/i)![1].toLowerCase();
+  return q.options![letter.charCodeAt(0) - 97];
+};
+
+describe("remapAnswer", () => {
+  it.each([
+    ['(b)', '(c)'],
+    ['b)', 'c)'],
+    ['B.', 'C.'],
+    ['b', 'c'],
+    ['Option b', 'Option c'],
+    ['Ans: (b)', 'Ans: (c)'],
+    ['Ans. B', 'Ans. C'],
+    ['Answer - b', 'Answer - c'],
+    ['Answer \u2013 b', 'Answer \u2013 c'],
+    ['Correct answer is (b)', 'Correct answer is (c)'],
+    ['(b) 8', '(c) 8'],
+    ['B - 8', 'C - 8'],
+    ['The answer is (b)', 'The answer is (c)'],
+    ['(b) and (d)', '(c) and (a)']
+  ])("moves the letter in %j", (answer, expected) => {
+    expect(remapAnswer(answer, OPTIONS, ORDER)).toBe(expected);
+  });
+
+  it("keeps an answer that is the text of an option", () => {
+    expect(remapAnswer('42', OPTIONS, ORDER)).toBe('42');
+    expect(remapAnswer('Ans: 42.', OPTIONS, ORDER)).toBe('Ans: 42.');
+  });
+
+  it("gives up on answers it cannot tie to an option", () => {
+    expect(remapAnswer('The answer is b', OPTIONS, ORDER)).toBeUndefined();
+    expect(remapAnswer('b 8', OPTIONS, ORDER)).toBeUndefined();
+    expect(remapAnswer('(e)', OPTIONS, ORDER)).toBeUndefined();
+    expect(remapAnswer('(b) and (g)', OPTIONS, ORDER)).toBeUndefined();
+  });
+});
+
+describe("buildPaperSet", () => {
+  const questions = Array.from({ length: 8 }, (_, i) => mcq(`q${i}`, OPTIONS, i % 2 ? 'Ans: (b)' : 'Answer - b'));
+
+  it("returns set A unchanged", () => {
+    const sections = sectionOf(questions);
+    expect(buildPaperSet('paper', sections, 0)).toBe(sections);
+  });
+
+  it("shuffles options while the answer keeps pointing at the same option", () => {
+    const [section] = buildPaperSet('paper', sectionOf(questions), 1);
+    expect(section.questions.some(q => q.options!.join() !== OPTIONS.join())).toBe(true);
+    section.questions.forEach(q => expect(chosenOption(q)).toBe('8'));
+  });
+
+  it("is the same every time for the same paper and set", () => {
+    expect(buildPaperSet('paper', sectionOf(questions), 2)).toEqual(buildPaperSet('paper', sectionOf(questions), 2));
+  });
+
+  it("keeps positional options in place", () => {
+    const options = ['Iron', 'Copper', 'Both (a) and (b)', 'None of the above'];
+    const [section] = buildPaperSet('paper', sectionOf([mcq('q1', options, '(c)')]), 1);
+    expect(section.questions[0].options).toEqual(options);
+    expect(section.questions[0].answer).toBe('(c)');
+  });
+
+  it("keeps options in place when the answer cannot be remapped", () => {
+    const [section] = buildPaperSet('paper', sectionOf(questions.map(q => ({ ...q, answer: 'The answer is b' }))), 1);
+    section.questions.forEach(q => {
+      expect(q.options).toEqual(OPTIONS);
+      expect(q.answer).toBe('The answer is b');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import { loadFont } from "../services/fontFile";
+import { PdfFontSet } from "../services/pdfText";
+import { inflate } from "../services/zip";
+
+// Helpers for the PDF tests: the fonts the app bundles, and a small reader for the files the writer produces.
+
+const require = createRequire(import.meta.url);
+
+// The same files services/fileExport.ts bundles
+const FONT_FILES = {
+  regular: "@fontsource/noto-serif/files/noto-serif-latin-400-normal.woff",
+  bold: "@fontsource/noto-serif/files/noto-serif-latin-700-normal.woff",
+  italic: "@fontsource/noto-serif/files/noto-serif-latin-400-italic.woff",
+  devanagari: "@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-400-normal.woff",
+  math: "@fontsource/noto-sans-math/files/noto-sans-math-latin-400-normal.woff",
+};
+
+export const loadBundledFont = (name: keyof typeof FONT_FILES) =>
+  loadFont(new Uint8Array(readFileSync(require.resolve(FONT_FILES[name]))));
+
+export const loadBundledFonts = async (): Promise<PdfFontSet> => {
+  const [regular, bold, italic, devanagari, math] = await Promise.all(
+    (['regular', 'bold', 'italic', 'devanagari', 'math'] as const).map(loadBundledFont));
+  return { regular, bold, italic, devanagari, math };
+};
+
+export interface ParsedPdf {
+  source: string; // latin1, so string offsets are byte offsets
+  xrefOffsets: number[]; // Indexed by object number; 0 is the free entry
+  startXref: number;
+  object: (ref: number) => string;
+  stream: (ref: number) => Promise<Uint8Array>;
+  pageRefs: () => number[];
+}
+
+export const readPdf = (bytes: Uint8Array): ParsedPdf => {
+  const source = Buffer.from(bytes).toString('latin1');
+  const startXref = Number(source.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1] ?? -1);
+  const header = source.slice(startXref).match(/^xref\n0 (\d+)\n/);
+  const count = header ? Number(header[1]) : 0;
+  const entries = startXref + (header ? header[0].length : 0);
+  const xrefOffsets = Array.from({ length: count }, (_, i) => Number(source.slice(entries + i * 20, entries + i * 20 + 10)));
+
+  const object = (ref: number) => {
+    const start = xrefOffsets[ref];
+    return source.slice(start, source.indexOf('\nendobj\n', start));
+  };
+  const stream = async (ref: number) => {
+    const body = object(ref);
+    const length = Number(body.match(/\/Length (\d+)/)![1]);
+    const start = xrefOffsets[ref] + body.indexOf('stream\n') + 'stream\n'.length;
+    const data = bytes.slice(start, start + length);
+    return body.includes('/FlateDecode') ? inflate(data) : data;
+  };
+  const pageRefs = () => {
+    const root = Number(source.match(/\/Root (\d+) 0 R/)![1]);
+    const pages = Number(object(root).match(/\/Pages (\d+) 0 R/)![1]);
+    return Array.from(object(pages).matchAll(/(\d+) 0 R/g), m => Number(m[1]));
+  };
+  return { source, xrefOffsets, startXref, object, stream, pageRefs };
+};
+
+const decode = (data: Uint8Array) => Buffer.from(data).toString('latin1');
+
+// Text of a page in drawing order, mapped back through each font's ToUnicode CMap
+export const pageText = async (pdf: ParsedPdf, pageRef: number): Promise<string> => {
+  const page = pdf.object(pageRef);
+  const fonts = new Map<string, Map<string, string>>();
+  for (const [, key, ref] of page.matchAll(/\/(F\d+) (\d+) 0 R/g)) {
+    const cmapRef = Number(pdf.object(Number(ref)).match(/\/ToUnicode (\d+) 0 R/)![1]);
+    const cmap = decode(await pdf.stream(cmapRef));
+    const map = new Map<string, string>();
+    for (const [, gid, hex] of cmap.matchAll(/<([0-9a-f]{4})> <([0-9a-f]*)>/g)) {
+      map.set(gid, String.fromCharCode(...(hex.match(/.{4}/g) || []).map(h => parseInt(h, 16))));
+    }
+    fonts.set(key, map);
+  }
+  const content = decode(await pdf.stream(Number(page.match(/\/Contents (\d+) 0 R/)![1])));
+  let text = '';
+  let font: Map<string, string> | undefined;
+  for (const [, key, hex] of content.matchAll(/\/(F\d+) [\d.]+ Tf|<([0-9a-f]+)> Tj/g)) {
+    if (key) font = fonts.get(key);
+    else text += (hex.match(/.{4}/g) || []).map(gid => font?.get(gid) ?? '\ufffd').join('');
+  }
+  return text;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { createPdfWriter } from "../services/pdfWriter";
+import { shapeText } from "../services/textShaper";
+import { loadBundledFont, pageText, readPdf } from "./pdfFixtures";
+
+describe("createPdfWriter", () => {
+  it("embeds a subset font with widths and a ToUnicode map", async () => {
+    const file = await loadBundledFont('regular');
+    const writer = createPdfWriter();
+    const font = writer.addFont(file);
+    writer.addPage().drawGlyphs(font, 12, 50, 700, shapeText(file, 'Hello'));
+    const pdf = readPdf(await writer.save({ title: 'Test' }));
+    const [page] = pdf.pageRefs();
+    expect(await pageText(pdf, page)).toBe('Hello');
+    expect(pdf.source).toMatch(/\/BaseFont \/[A-Z]{6}\+/);
+    expect(pdf.source).toContain(`/W [${file.glyphId(0x48)} [`);
+  });
+
+  it("places glyphs moved by the shaper on their own", async () => {
+    const file = await loadBundledFont('devanagari');
+    const glyphs = shapeText(file, 'र्क');
+    expect(glyphs.some(g => g.dx)).toBe(true);
+    const writer = createPdfWriter();
+    writer.addPage().drawGlyphs(writer.addFont(file), 10, 0, 0, glyphs);
+    const pdf = readPdf(await writer.save());
+    const page = pdf.object(pdf.pageRefs()[0]);
+    const content = Buffer.from(await pdf.stream(Number(page.match(/\/Contents (\d+) 0 R/)![1]))).toString('latin1');
+    // The reph sits 2.21pt left of the pen position after the consonant (768 units at 10pt)
+    expect(content).toContain('1 0 0 1 5.47 0 Tm');
+  });
+});
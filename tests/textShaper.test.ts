@@ -0,0 +1,45 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { FontFile } from "../services/fontFile";
+import { shapeText } from "../services/textShaper";
+import { loadBundledFont } from "./pdfFixtures";
+
+// [glyph id, advance, x offset, y offset] as HarfBuzz shapes these words with the bundled Noto Sans Devanagari
+const HARFBUZZ: Record<string, [number, number, number, number][]> = {
+  'हिन्दी': [[541, 259, 0, 0], [88, 531, 0, 0], [245, 309, 0, 0], [73, 531, 0, 0], [33, 259, 0, 0]],
+  'प्रश्न': [[309, 569, 0, 0], [460, 707, 0, 0]],
+  'क्षेत्रफल': [[90, 717, 0, 0], [40, 0, 0, 0], [304, 552, 0, 0], [77, 771, 0, 0], [83, 678, 0, 0]],
+  'र्क': [[56, 768, 0, 0], [503, 0, -221, 0]],
+  'हूँ': [[496, 531, 0, 0], [101, 0, 13, 0]],
+  'कर्त्ता': [[56, 768, 0, 0], [439, 691, 0, 0], [31, 259, 0, 0], [503, 0, 0, 0]],
+  'सिंह': [[561, 259, 0, 0], [87, 676, 0, 0], [759, 0, 0, 0], [88, 531, 0, 0]],
+  'में': [[80, 598, 0, 0], [509, 0, 0, 0]],
+};
+
+describe("shapeText", () => {
+  let devanagari: FontFile;
+  let serif: FontFile;
+  beforeAll(async () => {
+    devanagari = await loadBundledFont('devanagari');
+    serif = await loadBundledFont('regular');
+  });
+
+  it.each(Object.keys(HARFBUZZ))("shapes %s like HarfBuzz", word => {
+    const glyphs = shapeText(devanagari, word).map(g => [g.id, g.advance, g.dx || 0, g.dy || 0]);
+    expect(glyphs).toEqual(HARFBUZZ[word]);
+  });
+
+  it("keeps the characters each glyph stands for in reading order per cluster", () => {
+    expect(shapeText(devanagari, 'हिन्दी').map(g => g.text)).toEqual(['ि', 'ह', 'न्', 'द', 'ी']);
+    expect(shapeText(devanagari, 'क्षेत्रफल').map(g => g.text).join('')).toBe('क्षेत्रफल');
+  });
+
+  it("maps Latin text straight through the cmap", () => {
+    const glyphs = shapeText(serif, 'Ab');
+    expect(glyphs.map(g => g.id)).toEqual([serif.glyphId(0x41), serif.glyphId(0x62)]);
+    expect(glyphs.map(g => g.advance)).toEqual([serif.advance(glyphs[0].id), serif.advance(glyphs[1].id)]);
+  });
+
+  it("drops joiners the font has no glyph for", () => {
+    expect(shapeText(devanagari, 'क्\u200dष').some(g => g.text === '\u200d' && g.id === 0)).toBe(false);
+  });
+});
@@ -20,11 +20,12 @@ export enum SubscriptionStatus {
 
 export interface User {
   email: string;
-  password?: string;
+  passwordHash?: string; // PBKDF2 hash, see services/authCrypto.ts
+  password?: string; // Legacy plaintext, migrated to passwordHash on next login
   role: UserRole;
   name: string;
   credits: number;
-  subscriptionPlan: SubscriptionPlan;
+  subscriptionPlan: string; // A SubscriptionPlan value or the id of an admin-defined plan
   subscriptionStatus: SubscriptionStatus;
   paymentProofUrl?: string;
   
@@ -33,9 +34,16 @@ export interface User {
   mobile?: string;
   city?: string;
   state?: string;
+  gstin?: string; // School's GST number, printed on invoices when provided
   
   // Subscription Expiry
   subscriptionExpiryDate?: string; // ISO Date string
+
+  // Incremented to invalidate every issued session token ("logout everywhere")
+  sessionVersion?: number;
+
+  // false until the teacher confirms their email; undefined for accounts created before verification existed
+  emailVerified?: boolean;
 }
 
 export enum QuestionType {
@@ -50,12 +58,62 @@ export enum QuestionType {
   PARAGRAPH = 'Paragraph-based'
 }
 
+export enum Difficulty {
+  EASY = 'Easy',
+  MEDIUM = 'Medium',
+  HARD = 'Hard'
+}
+
+// Cognitive levels as used in CBSE blueprints (Bloom's taxonomy)
+export enum BloomLevel {
+  REMEMBER = 'Remember',
+  UNDERSTAND = 'Understand',
+  APPLY = 'Apply',
+  ANALYSE = 'Analyse'
+}
+
 export interface BlueprintItem {
   id: string;
   topic: string;
+  unit?: string; // Syllabus unit the topic (chapter) was picked from
   type: QuestionType;
   count: number;
   marks: number;
+  difficulty?: Difficulty;
+  bloomLevel?: BloomLevel;
+  bankQuestions?: Question[]; // Section filled from the question bank instead of the AI
+}
+
+// Internal choice: an "OR" question printed beneath the main one. It carries the parent's marks and is
+// answered instead of it, so it never adds to section or paper totals.
+export interface QuestionAlternative {
+  text: string;
+  options?: string[];
+  matchPairs?: { left: string; right: string }[];
+  answer?: string;
+  imageUrl?: string;
+  imageWidth?: number;
+}
+
+// Sub-question of a long answer or case study question, numbered (a), (b), (c) in the paper
+export interface QuestionPart {
+  id: string;
+  text: string;
+  marks: number;
+  type?: QuestionType; // Case study parts mix MCQ, VSA and SA
+  options?: string[];
+  answer?: string;
+  imageUrl?: string;
+  imageWidth?: number;
+}
+
+// Stimulus shared by the sub-questions of a case study or paragraph-based question.
+// Table rows are objects because Firestore cannot store nested arrays; the first row is the header.
+export interface QuestionPassage {
+  text: string;
+  table?: { cells: string[] }[];
+  imageUrl?: string;
+  imageWidth?: number;
 }
 
 export interface Question {
@@ -71,6 +129,11 @@ export interface Question {
   topic: string;
   customNumber?: string;
   regenerateCount?: number;
+  alternative?: QuestionAlternative;
+  parts?: QuestionPart[]; // When present, marks is the sum of the parts' marks
+  passage?: QuestionPassage;
+  difficulty?: Difficulty;
+  bloomLevel?: BloomLevel;
 }
 
 export interface Section {
@@ -91,6 +154,7 @@ export interface QuestionPaper {
   maxMarks: number;
   generalInstructions?: string;
   sections: Section[];
+  blueprint?: BlueprintItem[]; // Requested mix the paper was generated from (without bank questions)
   createdAt: string;
   createdBy: string;
   
@@ -103,6 +167,9 @@ export interface QuestionPaper {
   downloadCount?: number;
 }
 
+// What the exporters print: the paper's header details and its questions
+export type PaperContent = Pick<QuestionPaper, 'title' | 'schoolName' | 'classNum' | 'subject' | 'session' | 'duration' | 'generalInstructions' | 'sections'>;
+
 export interface SamplePattern {
   id: string;
   classNum: string;
@@ -120,17 +187,64 @@ export interface SamplePattern {
     mimeType: string;
     name: string;
   };
+  blueprintRules?: BlueprintRules;
   updatedAt: string;
 }
 
+// Admin-defined paper structure for a class/subject. Teachers' blueprints are checked against it before generation.
+export interface BlueprintRules {
+  maxMarks?: number;
+  types: { type: string; count: number; marks: number }[]; // Questions expected per type, and marks for each
+  topics: { topic: string; marks: number }[]; // Weightage (marks) per unit or topic
+}
+
+// A purchasable plan, stored in the config collection and edited from the admin Plans tab.
+// The built-in plans use SubscriptionPlan values as ids; admins can add more.
+export interface PlanConfig {
+  id: string;
+  label: string;
+  price: number; // INR
+  credits: number; // Papers granted on purchase
+  validityDays: number | null; // null = never expires
+  regenerationsPerQuestion: number;
+  downloadsPerPaper: number | null; // null = unlimited
+  aiImages: boolean;
+  active: boolean; // Inactive plans are hidden at checkout but keep working for existing subscribers
+}
+
 export interface PaymentRequest {
   id: string;
   userEmail: string;
-  plan: SubscriptionPlan;
-  amount: number;
+  plan: string; // PlanConfig id
+  amount: number; // Amount payable, after any coupon discount
   proofUrl: string;
   status: SubscriptionStatus;
   date: string;
+
+  // Set when a coupon was applied at checkout
+  couponCode?: string;
+  originalAmount?: number;
+  discount?: number;
+
+  gstin?: string; // Buyer GSTIN entered at checkout, copied onto the invoice
+}
+
+export enum DiscountType {
+  PERCENT = 'PERCENT',
+  FLAT = 'FLAT'
+}
+
+export interface Coupon {
+  code: string; // Upper-case, also the document id
+  discountType: DiscountType;
+  value: number; // Percentage (0-100) or rupees off
+  planIds: string[]; // Plans it applies to; empty means every plan
+  expiresAt?: string; // ISO date; the code works until the end of that day
+  maxUses?: number; // Total redemptions allowed; unset means unlimited
+  usedCount: number; // Pending and approved requests; released again when a request is rejected
+  active: boolean;
+  description?: string; // e.g. "Teachers' Association 2025"
+  createdAt: string;
 }
 
 export interface ContentPage {
@@ -139,3 +253,152 @@ export interface ContentPage {
   content: string;
   lastUpdated: string;
 }
+
+export enum AuthTokenPurpose {
+  VERIFY_EMAIL = 'VERIFY_EMAIL',
+  RESET_PASSWORD = 'RESET_PASSWORD'
+}
+
+// One-time token for email verification / password reset. Stored under a digest of the token, never the token itself.
+export interface AuthToken {
+  id: string; // SHA-256 digest of the token
+  email: string;
+  purpose: AuthTokenPurpose;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+export interface MailMessage {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: string;
+}
+
+export enum CreditEntryType {
+  GRANT = 'GRANT', // Plan purchase, free trial, opening balance
+  DEDUCTION = 'DEDUCTION', // Paper generation
+  REFUND = 'REFUND',
+  ADJUSTMENT = 'ADJUSTMENT' // Manual change by an admin
+}
+
+// Immutable record of a change to a user's credits. User.credits is the running balance.
+export interface CreditLedgerEntry {
+  id: string;
+  userEmail: string;
+  type: CreditEntryType;
+  amount: number; // Signed: positive adds credits, negative removes them
+  balanceAfter: number;
+  reason: string;
+  paperId?: string;
+  requestId?: string;
+  createdBy?: string; // Admin email for adjustments
+  createdAt: string;
+}
+
+export enum DraftSectionStatus {
+  DONE = 'DONE',
+  FAILED = 'FAILED'
+}
+
+// Outcome of generating one blueprint item. The item is kept so edits to the blueprint invalidate the result.
+export interface DraftSection {
+  item: BlueprintItem;
+  status: DraftSectionStatus;
+  section?: Section;
+  error?: string;
+}
+
+// Work-in-progress AI generation, saved after every section so a failure part-way can be resumed.
+// No credit is charged until every section is DONE; the charged draft is kept until the paper is saved.
+export interface GenerationDraft {
+  id: string;
+  paperId: string; // Id the finished paper will be saved under
+  userEmail: string;
+  meta: Pick<QuestionPaper, 'title' | 'schoolName' | 'classNum' | 'subject' | 'session' | 'duration' | 'maxMarks' | 'generalInstructions'>;
+  blueprint: BlueprintItem[];
+  results: Record<string, DraftSection>; // By blueprint item id
+  updatedAt: string;
+  chargedAt?: string; // Set once the credit for the paper is charged
+}
+
+// Tax invoice issued when a payment request is approved. Amounts are in INR and GST-inclusive prices are split into
+// taxable value plus CGST/SGST (same state as the seller) or IGST (other states).
+export interface Invoice {
+  id: string;
+  number: string; // e.g. RKS/2025-26/00001, sequential within a financial year
+  sequence: number;
+  financialYear: string; // e.g. 2025-26
+  requestId: string;
+  userEmail: string;
+  billedTo: {
+    name: string;
+    schoolName?: string;
+    gstin?: string;
+    city?: string;
+    state?: string;
+  };
+  plan: string;
+  planLabel: string;
+  couponCode?: string;
+  discount?: number;
+  placeOfSupply?: string; // GST state code; CGST + SGST only apply when it is the seller's
+  gstRate: number; // Percent, e.g. 18
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+  issuedAt: string;
+}
+
+// A question a teacher saved for reuse. Class, subject, topic and type are copied out of the question
+// so the bank can be filtered with equality queries.
+export interface BankQuestion {
+  id: string;
+  ownerEmail: string;
+  classNum: string;
+  subject: string;
+  topic: string;
+  type: QuestionType;
+  question: Question;
+  savedAt: string;
+}
+
+// Reusable blueprint. Teachers keep their own; official templates are published by an admin for everyone.
+export interface BlueprintTemplate {
+  id: string;
+  name: string;
+  classNum: string;
+  subject: string;
+  ownerEmail: string;
+  official: boolean;
+  maxMarks: number;
+  items: BlueprintItem[]; // Never includes bank questions
+  updatedAt: string;
+}
+
+// Syllabus for one class and subject: units with marks weightage, each made up of chapters
+export interface SyllabusChapter {
+  id: string;
+  name: string;
+  marks?: number; // Optional; most boards only fix weightage per unit
+}
+
+export interface SyllabusUnit {
+  id: string;
+  name: string;
+  marks: number;
+  chapters: SyllabusChapter[];
+}
+
+export interface Syllabus {
+  id: string; // `${classNum}_${subject}`
+  classNum: string;
+  subject: string;
+  units: SyllabusUnit[];
+  updatedAt: string;
+}